@@ -3,13 +3,17 @@ import React from 'react';
 import { HashRouter as Router, Routes, Route, useLocation } from 'react-router-dom';
 import Header from './components/Header';
 import Footer from './components/Footer';
+import UrgentNoticeBanner from './components/UrgentNoticeBanner';
 import HomePage from './pages/HomePage';
 import AboutPage from './pages/AboutPage';
 import AcademicPage from './pages/AcademicPage';
 import TeachersPage from './pages/FacultyPage';
 import EventsPage from './pages/EventsPage';
 import NoticePage from './pages/NoticePage';
+import NoticeSubscriptionPage from './pages/NoticeSubscriptionPage';
 import ResultsPage from './pages/ResultsPage';
+import RegistrationPage from './pages/RegistrationPage';
+import VerifyPage from './pages/VerifyPage';
 import ContactPage from './pages/ContactPage';
 import LoginPage from './pages/LoginPage';
 import AdminLayout from './pages/admin/AdminLayout';
@@ -19,9 +23,11 @@ import AdminManageEvents from './pages/admin/AdminManageEvents';
 import AdminManageTeachers from './pages/admin/AdminManageFaculty';
 import AdminManageAcademic from './pages/admin/AdminManageAcademic';
 import AdminManageResults from './pages/admin/AdminManageResults';
+import AdminResultAnalytics from './pages/admin/AdminResultAnalytics';
 import AdminAcademicResources from './pages/admin/AdminAcademicResources';
 import AdminSiteSettings from './pages/admin/AdminSiteSettings';
 import { AuthProvider } from './components/AuthContext';
+import { LanguageProvider } from './components/LanguageContext';
 import ProtectedRoute from './components/ProtectedRoute';
 import EventDetailPage from './pages/EventDetailPage'; // Import the new page
 
@@ -31,6 +37,7 @@ const PageLayout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
 
     return (
         <div className="flex flex-col min-h-screen bg-[#001833] text-text font-display">
+            {!isAdminRoute && <UrgentNoticeBanner />}
             {!isAdminRoute && <Header />}
             <main className="flex-grow">
                 {children}
@@ -44,6 +51,7 @@ const PageLayout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
 const App: React.FC = () => {
   return (
     <AuthProvider>
+      <LanguageProvider>
         <Router>
             <PageLayout>
                 <Routes>
@@ -53,10 +61,15 @@ const App: React.FC = () => {
                     <Route path="/teachers" element={<TeachersPage />} />
                     <Route path="/events" element={<EventsPage />} />
                     <Route path="/notice" element={<NoticePage />} />
+                    <Route path="/notice/subscription" element={<NoticeSubscriptionPage />} />
                     <Route path="/results" element={<ResultsPage />} />
+                    <Route path="/verify" element={<VerifyPage />} />
+                    <Route path="/verify/:id" element={<VerifyPage />} />
                     <Route path="/contact" element={<ContactPage />} />
                     <Route path="/login" element={<LoginPage />} />
                     <Route path="/event/:id" element={<EventDetailPage />} />
+                    <Route path="/registration" element={<RegistrationPage />} />
+                    <Route path="/registration/:code" element={<RegistrationPage />} />
 
                     <Route path="/admin" element={
                         <ProtectedRoute allowedRoles={['admin']}>
@@ -69,12 +82,14 @@ const App: React.FC = () => {
                         <Route path="teachers" element={<AdminManageTeachers />} />
                         <Route path="academic" element={<AdminManageAcademic />} />
                         <Route path="results" element={<AdminManageResults />} />
+                        <Route path="analytics" element={<AdminResultAnalytics />} />
                         <Route path="resources" element={<AdminAcademicResources />} />
                         <Route path="settings" element={<AdminSiteSettings />} />
                     </Route>
                 </Routes>
             </PageLayout>
         </Router>
+      </LanguageProvider>
     </AuthProvider>
   );
 };
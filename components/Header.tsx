@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { NavLink } from 'react-router-dom';
 import { supabase } from '../supabase';
+import { useLanguage, type Language } from './LanguageContext';
 
 const navLinks = [
   { name: 'Home', path: '/' },
@@ -13,6 +14,33 @@ const navLinks = [
   { name: 'Contact Us', path: '/contact' },
 ];
 
+const languageOptions: { value: Language; label: string; title: string }[] = [
+  { value: 'en', label: 'EN', title: 'English' },
+  { value: 'bn', label: 'বাং', title: 'বাংলা' },
+];
+
+// Switches the language notices and events are shown in; untranslated items
+// fall back to the other language.
+const LanguageSwitcher: React.FC = () => {
+  const { language, setLanguage } = useLanguage();
+  return (
+    <div className="inline-flex items-center rounded-lg border border-border bg-surface/50 p-0.5" role="group" aria-label="Content language">
+      {languageOptions.map(option => (
+        <button
+          key={option.value}
+          onClick={() => setLanguage(option.value)}
+          title={option.title}
+          lang={option.value}
+          aria-pressed={language === option.value}
+          className={`px-2.5 py-1 rounded-md text-xs font-semibold transition-colors ${language === option.value ? 'bg-primary text-white' : 'text-text/70 hover:text-text'}`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
 const Header: React.FC = () => {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [siteInfo, setSiteInfo] = useState({
@@ -79,6 +107,7 @@ const Header: React.FC = () => {
             ))}
           </nav>
           <div className="flex items-center gap-4">
+            <LanguageSwitcher />
              <NavLink
               to="/login"
               aria-label="Admin Login"
@@ -0,0 +1,77 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+
+export type Language = 'en' | 'bn';
+
+interface LanguageContextType {
+    language: Language;
+    setLanguage: (language: Language) => void;
+    // Picks the field for the current language, falling back to the other one
+    // when that translation is missing.
+    localize: (english: string | null | undefined, bangla: string | null | undefined) => string;
+}
+
+const LanguageContext = createContext<LanguageContextType | null>(null);
+
+export const useLanguage = (): LanguageContextType => {
+    const context = useContext(LanguageContext);
+    if (!context) {
+        throw new Error("useLanguage must be used within a LanguageProvider");
+    }
+    return context;
+};
+
+const LANGUAGE_STORAGE_KEY = 'siteLanguage';
+
+const readStoredLanguage = (): Language => {
+    try {
+        return localStorage.getItem(LANGUAGE_STORAGE_KEY) === 'bn' ? 'bn' : 'en';
+    } catch {
+        return 'en';
+    }
+};
+
+const hasText = (value: string | null | undefined): value is string => !!value && value.trim() !== '';
+
+export const pickLanguage = (language: Language, english: string | null | undefined, bangla: string | null | undefined): string => {
+    const [preferred, fallback] = language === 'bn' ? [bangla, english] : [english, bangla];
+    if (hasText(preferred)) return preferred;
+    return hasText(fallback) ? fallback : '';
+};
+
+interface LanguageProviderProps {
+    children: ReactNode;
+}
+
+export const LanguageProvider: React.FC<LanguageProviderProps> = ({ children }) => {
+    const [language, setLanguageState] = useState<Language>(readStoredLanguage);
+
+    useEffect(() => {
+        document.documentElement.lang = language;
+    }, [language]);
+
+    const setLanguage = useCallback((next: Language) => {
+        setLanguageState(next);
+        try {
+            localStorage.setItem(LANGUAGE_STORAGE_KEY, next);
+        } catch {
+            // Private browsing can block storage; the choice still applies for this visit.
+        }
+    }, []);
+
+    const localize = useCallback(
+        (english: string | null | undefined, bangla: string | null | undefined) => pickLanguage(language, english, bangla),
+        [language]
+    );
+
+    const value = {
+        language,
+        setLanguage,
+        localize
+    };
+
+    return (
+        <LanguageContext.Provider value={value}>
+            {children}
+        </LanguageContext.Provider>
+    );
+};
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { supabase } from '../supabase';
+
+const CATEGORIES = ['Academic', 'Event', 'General'] as const;
+const SEMESTERS = [1, 2, 3, 4, 5, 6, 7, 8];
+
+const ordinal = (n: number) => `${n}${n === 1 ? 'st' : n === 2 ? 'nd' : n === 3 ? 'rd' : 'th'}`;
+
+const NoticeSubscribeModal: React.FC<{ isOpen: boolean; onClose: () => void }> = ({ isOpen, onClose }) => {
+    const [email, setEmail] = useState('');
+    const [categories, setCategories] = useState<string[]>([...CATEGORIES]);
+    const [semesters, setSemesters] = useState<number[]>([]);
+    const [frequency, setFrequency] = useState<'instant' | 'daily'>('instant');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [submitted, setSubmitted] = useState(false);
+
+    const toggle = <T,>(list: T[], value: T) => (list.includes(value) ? list.filter(v => v !== value) : [...list, value]);
+
+    const handleClose = () => {
+        setError(null);
+        setSubmitted(false);
+        onClose();
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError(null);
+        if (categories.length === 0) {
+            setError('Choose at least one category.');
+            return;
+        }
+        setIsSubmitting(true);
+        const { data, error: invokeError } = await supabase.functions.invoke('notice-subscriptions', {
+            body: { email: email.trim(), categories, semesters, frequency },
+        });
+        setIsSubmitting(false);
+        if (invokeError || data?.error) {
+            // Validation errors come back in the body with a 4xx status.
+            let message = data?.error as string | undefined;
+            if (!message && invokeError && 'context' in invokeError) {
+                try {
+                    message = (await (invokeError.context as Response).json())?.error;
+                } catch { /* fall through to the generic message */ }
+            }
+            setError(message || 'Could not subscribe right now. Please try again later.');
+            return;
+        }
+        setSubmitted(true);
+    };
+
+    return (
+        <AnimatePresence>
+            {isOpen && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+                    <motion.div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={handleClose} initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} />
+                    <motion.div
+                        className="relative w-full max-w-lg bg-[#001833] border border-border rounded-xl shadow-2xl p-6"
+                        initial={{ opacity: 0, scale: 0.95 }}
+                        animate={{ opacity: 1, scale: 1 }}
+                        exit={{ opacity: 0, scale: 0.95 }}
+                    >
+                        <button onClick={handleClose} className="absolute top-4 right-4 text-text/60 hover:text-text" aria-label="Close"><span className="material-symbols-outlined">close</span></button>
+                        <h2 className="text-2xl font-bold text-text mb-1">Notice Alerts</h2>
+                        <p className="text-sm text-text/70 mb-6">Get an email when a notice you care about is published.</p>
+
+                        {submitted ? (
+                            <div className="text-center py-6">
+                                <span className="material-symbols-outlined text-5xl text-green-400">mark_email_read</span>
+                                <p className="mt-4 text-text">Check your inbox.</p>
+                                <p className="mt-1 text-sm text-text/70">We sent a confirmation link to <span className="font-semibold">{email}</span>. Alerts start once you confirm.</p>
+                                <button onClick={handleClose} className="mt-6 px-4 py-2 rounded-lg text-sm font-semibold bg-primary hover:bg-primary/90 text-white">Done</button>
+                            </div>
+                        ) : (
+                            <form onSubmit={handleSubmit} className="space-y-5">
+                                <input type="email" required value={email} onChange={e => setEmail(e.target.value)} placeholder="you@example.com" className="w-full input-style bg-surface/50" />
+
+                                <div>
+                                    <p className="text-sm font-medium text-text/90 mb-2">Categories</p>
+                                    <div className="flex flex-wrap gap-2">
+                                        {CATEGORIES.map(c => (
+                                            <label key={c} className={`px-3 py-1.5 rounded-full text-sm font-semibold cursor-pointer border ${categories.includes(c) ? 'bg-primary/20 border-primary/50 text-text' : 'border-border text-text/60'}`}>
+                                                <input type="checkbox" className="sr-only" checked={categories.includes(c)} onChange={() => setCategories(prev => toggle(prev, c))} />
+                                                {c}
+                                            </label>
+                                        ))}
+                                    </div>
+                                </div>
+
+                                <div>
+                                    <p className="text-sm font-medium text-text/90 mb-2">Semesters <span className="text-text/50 font-normal">(none selected = all)</span></p>
+                                    <div className="grid grid-cols-4 gap-2">
+                                        {SEMESTERS.map(s => (
+                                            <label key={s} className={`px-2 py-1.5 rounded-lg text-sm text-center cursor-pointer border ${semesters.includes(s) ? 'bg-primary/20 border-primary/50 text-text' : 'border-border text-text/60'}`}>
+                                                <input type="checkbox" className="sr-only" checked={semesters.includes(s)} onChange={() => setSemesters(prev => toggle(prev, s))} />
+                                                {ordinal(s)}
+                                            </label>
+                                        ))}
+                                    </div>
+                                </div>
+
+                                <div>
+                                    <p className="text-sm font-medium text-text/90 mb-2">How often</p>
+                                    <div className="flex gap-4 text-sm text-text/80">
+                                        <label className="flex items-center gap-2 cursor-pointer"><input type="radio" name="frequency" checked={frequency === 'instant'} onChange={() => setFrequency('instant')} /> As soon as published</label>
+                                        <label className="flex items-center gap-2 cursor-pointer"><input type="radio" name="frequency" checked={frequency === 'daily'} onChange={() => setFrequency('daily')} /> Daily digest</label>
+                                    </div>
+                                </div>
+
+                                {error && <p className="text-sm text-red-400">{error}</p>}
+
+                                <div className="flex justify-end gap-4">
+                                    <button type="button" onClick={handleClose} className="px-4 py-2 rounded-lg text-sm font-semibold bg-surface hover:bg-surface/80">Cancel</button>
+                                    <button type="submit" disabled={isSubmitting} className="px-4 py-2 rounded-lg text-sm font-semibold bg-primary hover:bg-primary/90 text-white min-w-[110px] disabled:opacity-60">
+                                        {isSubmitting ? 'Subscribing...' : 'Subscribe'}
+                                    </button>
+                                </div>
+                            </form>
+                        )}
+                    </motion.div>
+                </div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default NoticeSubscribeModal;
@@ -0,0 +1,189 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { plainTextToHtml, sanitizeNoticeHtml, toNoticeHtml } from '../utils/richText';
+
+interface RichTextEditorProps {
+    value: string;
+    onChange: (html: string) => void;
+    placeholder?: string;
+    // Uploads an inline image and resolves to its public URL.
+    onUploadImage?: (file: File) => Promise<string>;
+}
+
+type ToolbarAction = {
+    icon: string;
+    label: string;
+    run: () => void;
+};
+
+const buildTableHtml = (rows: number, cols: number) => {
+    const headerCells = Array.from({ length: cols }, (_, i) => `<th>Column ${i + 1}</th>`).join('');
+    const bodyRow = `<tr>${'<td><br></td>'.repeat(cols)}</tr>`;
+    return `<table><thead><tr>${headerCells}</tr></thead><tbody>${bodyRow.repeat(Math.max(rows - 1, 1))}</tbody></table><p><br></p>`;
+};
+
+const RichTextEditor: React.FC<RichTextEditorProps> = ({ value, onChange, placeholder, onUploadImage }) => {
+    const editorRef = useRef<HTMLDivElement>(null);
+    const imageInputRef = useRef<HTMLInputElement>(null);
+    const savedRangeRef = useRef<Range | null>(null);
+    const [isEmpty, setIsEmpty] = useState(!value);
+    const [isUploading, setIsUploading] = useState(false);
+
+    // Only push `value` into the DOM when it differs from what is already there,
+    // otherwise every keystroke would reset the caret.
+    useEffect(() => {
+        const editor = editorRef.current;
+        if (!editor) return;
+        const html = toNoticeHtml(value);
+        if (editor.innerHTML !== html && sanitizeNoticeHtml(editor.innerHTML) !== html) {
+            editor.innerHTML = html;
+        }
+        setIsEmpty(!editor.textContent?.trim() && !editor.querySelector('img, table'));
+    }, [value]);
+
+    const emitChange = () => {
+        const editor = editorRef.current;
+        if (!editor) return;
+        setIsEmpty(!editor.textContent?.trim() && !editor.querySelector('img, table'));
+        onChange(editor.innerHTML);
+    };
+
+    const exec = (command: string, arg?: string) => {
+        editorRef.current?.focus();
+        document.execCommand(command, false, arg);
+        emitChange();
+    };
+
+    const saveSelection = () => {
+        const selection = window.getSelection();
+        if (selection && selection.rangeCount > 0 && editorRef.current?.contains(selection.anchorNode)) {
+            savedRangeRef.current = selection.getRangeAt(0).cloneRange();
+        }
+    };
+
+    const restoreSelection = () => {
+        editorRef.current?.focus();
+        const selection = window.getSelection();
+        if (selection && savedRangeRef.current) {
+            selection.removeAllRanges();
+            selection.addRange(savedRangeRef.current);
+        }
+    };
+
+    const handleLink = () => {
+        saveSelection();
+        const url = window.prompt('Link URL', 'https://');
+        if (!url || url === 'https://') return;
+        restoreSelection();
+        if (window.getSelection()?.isCollapsed) {
+            exec('insertHTML', sanitizeNoticeHtml(`<a href="${url.replace(/"/g, '&quot;')}">${url.replace(/</g, '&lt;')}</a>`));
+        } else {
+            exec('createLink', url);
+        }
+    };
+
+    const handleTable = () => {
+        saveSelection();
+        const size = window.prompt('Table size (rows x columns)', '4x3');
+        const match = size?.match(/^\s*(\d+)\s*[x×*]\s*(\d+)\s*$/i);
+        if (!match) return;
+        const rows = Math.min(parseInt(match[1], 10), 50);
+        const cols = Math.min(parseInt(match[2], 10), 10);
+        if (rows < 1 || cols < 1) return;
+        restoreSelection();
+        exec('insertHTML', buildTableHtml(rows, cols));
+    };
+
+    const handleImageSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file || !onUploadImage) return;
+        if (!file.type.startsWith('image/')) {
+            alert('Please choose an image file.');
+            return;
+        }
+        setIsUploading(true);
+        try {
+            const url = await onUploadImage(file);
+            restoreSelection();
+            exec('insertHTML', sanitizeNoticeHtml(`<img src="${url}" alt="${file.name.replace(/"/g, '&quot;')}">`));
+        } catch (error) {
+            alert(`Image upload failed: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+            setIsUploading(false);
+        }
+    };
+
+    // Pasted content (often from Word or Excel exam routines) is sanitised
+    // before it reaches the document.
+    const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        const html = e.clipboardData.getData('text/html');
+        const text = e.clipboardData.getData('text/plain');
+        const cleaned = html ? sanitizeNoticeHtml(html) : plainTextToHtml(text);
+        if (cleaned) exec('insertHTML', cleaned);
+    };
+
+    const actions: (ToolbarAction | 'divider')[] = [
+        { icon: 'format_h2', label: 'Heading', run: () => exec('formatBlock', '<h2>') },
+        { icon: 'format_h3', label: 'Subheading', run: () => exec('formatBlock', '<h3>') },
+        { icon: 'format_paragraph', label: 'Paragraph', run: () => exec('formatBlock', '<p>') },
+        'divider',
+        { icon: 'format_bold', label: 'Bold', run: () => exec('bold') },
+        { icon: 'format_italic', label: 'Italic', run: () => exec('italic') },
+        { icon: 'format_underlined', label: 'Underline', run: () => exec('underline') },
+        'divider',
+        { icon: 'format_list_bulleted', label: 'Bulleted list', run: () => exec('insertUnorderedList') },
+        { icon: 'format_list_numbered', label: 'Numbered list', run: () => exec('insertOrderedList') },
+        { icon: 'table', label: 'Insert table', run: handleTable },
+        'divider',
+        { icon: 'link', label: 'Insert link', run: handleLink },
+        { icon: 'link_off', label: 'Remove link', run: () => exec('unlink') },
+        ...(onUploadImage ? [{ icon: 'add_photo_alternate', label: 'Insert image', run: () => { saveSelection(); imageInputRef.current?.click(); } }] : []),
+        'divider',
+        { icon: 'format_clear', label: 'Clear formatting', run: () => exec('removeFormat') },
+    ];
+
+    return (
+        <div className="rounded-lg border border-border bg-surface/50 overflow-hidden">
+            <div className="flex flex-wrap items-center gap-1 p-1.5 border-b border-border bg-black/20">
+                {actions.map((action, i) => action === 'divider' ? (
+                    <span key={`divider-${i}`} className="w-px h-5 bg-border mx-1" />
+                ) : (
+                    <button
+                        key={action.label}
+                        type="button"
+                        title={action.label}
+                        aria-label={action.label}
+                        // Keep the editor's selection when clicking the toolbar.
+                        onMouseDown={e => e.preventDefault()}
+                        onClick={action.run}
+                        className="p-1.5 rounded-md text-text/70 hover:text-text hover:bg-white/10 flex items-center"
+                    >
+                        <span className="material-symbols-outlined text-lg">{action.icon}</span>
+                    </button>
+                ))}
+                {isUploading && <span className="text-xs text-text/60 ml-2">Uploading image...</span>}
+            </div>
+            <div className="relative">
+                {isEmpty && placeholder && (
+                    <p className="absolute top-3 left-3 text-text/40 pointer-events-none select-none">{placeholder}</p>
+                )}
+                <div
+                    ref={editorRef}
+                    contentEditable
+                    suppressContentEditableWarning
+                    onInput={emitChange}
+                    onBlur={emitChange}
+                    onPaste={handlePaste}
+                    className="rich-text min-h-[200px] max-h-[400px] overflow-y-auto p-3 text-text focus:outline-none"
+                    role="textbox"
+                    aria-multiline="true"
+                    aria-label={placeholder || 'Content'}
+                />
+            </div>
+            <input ref={imageInputRef} type="file" accept="image/*" className="hidden" onChange={handleImageSelected} />
+        </div>
+    );
+};
+
+export default RichTextEditor;
@@ -0,0 +1,83 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '../supabase';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useLanguage } from './LanguageContext';
+
+interface UrgentNotice {
+    id: string;
+    title: string;
+    title_bn: string | null;
+}
+
+// Dismissed notice IDs are remembered per browser, so a visitor only sees each
+// urgent notice until they close it.
+const DISMISSED_STORAGE_KEY = 'dismissedUrgentNotices';
+
+const readDismissed = (): string[] => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(DISMISSED_STORAGE_KEY) || '[]');
+        return Array.isArray(stored) ? stored.map(String) : [];
+    } catch {
+        return [];
+    }
+};
+
+const UrgentNoticeBanner: React.FC = () => {
+    const [notices, setNotices] = useState<UrgentNotice[]>([]);
+    const [dismissed, setDismissed] = useState<string[]>(readDismissed);
+    const { localize } = useLanguage();
+
+    useEffect(() => {
+        const fetchUrgentNotices = async () => {
+            const { data, error } = await supabase
+                .from('public_notices')
+                .select('id, title, title_bn')
+                .eq('priority', 'urgent')
+                .order('published_at', { ascending: false })
+                .limit(5);
+            if (error) {
+                console.error("Error fetching urgent notices:", error.message);
+            } else {
+                setNotices(data as UrgentNotice[]);
+            }
+        };
+        fetchUrgentNotices();
+    }, []);
+
+    const notice = notices.find(n => !dismissed.includes(String(n.id)));
+
+    const handleDismiss = (id: string) => {
+        // Only keep IDs that are still urgent so the stored list doesn't grow forever.
+        const next = [...dismissed, String(id)].filter(d => notices.some(n => String(n.id) === d));
+        setDismissed(next);
+        localStorage.setItem(DISMISSED_STORAGE_KEY, JSON.stringify(next));
+    };
+
+    return (
+        <AnimatePresence>
+            {notice && (
+                <motion.div
+                    key={notice.id}
+                    initial={{ height: 0, opacity: 0 }}
+                    animate={{ height: 'auto', opacity: 1 }}
+                    exit={{ height: 0, opacity: 0 }}
+                    className="bg-red-600 text-white overflow-hidden"
+                    role="alert"
+                >
+                    <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center gap-3">
+                        <span className="material-symbols-outlined shrink-0 animate-pulse">campaign</span>
+                        <Link to={`/notice#notice-${notice.id}`} className="flex-grow text-sm font-semibold truncate hover:underline">
+                            <span className="uppercase tracking-wide mr-2 opacity-80">Urgent:</span>{localize(notice.title, notice.title_bn)}
+                        </Link>
+                        <button onClick={() => handleDismiss(notice.id)} className="shrink-0 p-1 rounded-full hover:bg-white/20" aria-label="Dismiss notice">
+                            <span className="material-symbols-outlined text-lg">close</span>
+                        </button>
+                    </div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+export default UrgentNoticeBanner;
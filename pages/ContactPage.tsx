@@ -2,6 +2,7 @@
 
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../supabase';
+import { requestNotificationDispatch } from '../utils/notifications';
 
 const ContactPage: React.FC = () => {
     const [formData, setFormData] = useState({
@@ -13,6 +14,7 @@ const ContactPage: React.FC = () => {
 
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [submitStatus, setSubmitStatus] = useState<'idle' | 'success' | 'error'>('idle');
+    const [submitError, setSubmitError] = useState('');
 
     const [contactInfo, setContactInfo] = useState({
         address: 'Computer Department, Dinajpur Polytechnic Institute, Dinajpur, Bangladesh',
@@ -55,30 +57,31 @@ const ContactPage: React.FC = () => {
         e.preventDefault();
         setIsSubmitting(true);
         setSubmitStatus('idle');
-
-        const data = new FormData();
-        data.append("name", formData.name);
-        data.append("email", formData.email);
-        data.append("subject", formData.subject);
-        data.append("message", formData.message);
+        setSubmitError('');
 
         try {
-            // IMPORTANT: Replace this URL with your actual Formspree endpoint for the contact form.
-            const response = await fetch('https://formspree.io/f/movpojln', {
-                method: 'POST',
-                body: data,
-                headers: { 'Accept': 'application/json' }
+            // The message is stored in the notification outbox, which is
+            // delivered to the department by the notification-dispatch function.
+            const { error } = await supabase.rpc('submit_contact_message', {
+                p_name: formData.name,
+                p_email: formData.email,
+                p_subject: formData.subject,
+                p_message: formData.message,
             });
+            if (error) throw error;
 
-            if (response.ok) {
-                setSubmitStatus('success');
-                setFormData({ name: '', email: '', subject: '', message: '' });
-            } else {
-                throw new Error('Network response was not ok.');
-            }
-        } catch (error) {
+            setSubmitStatus('success');
+            setFormData({ name: '', email: '', subject: '', message: '' });
+            requestNotificationDispatch();
+        } catch (error: any) {
             setSubmitStatus('error');
-            console.error('Contact form submission error:', error);
+            console.error('Contact form submission error:', error.message || error);
+            if (error.code === 'P0001') {
+                // Raised by the database with a message meant for the visitor.
+                setSubmitError(error.message);
+            } else if (error.code === 'PGRST202') {
+                console.error("submit_contact_message is missing; run supabase/migrations/20261020000000_notification_outbox.sql.");
+            }
         } finally {
             setIsSubmitting(false);
         }
@@ -144,7 +147,7 @@ const ContactPage: React.FC = () => {
                             )}
                             {submitStatus === 'error' && (
                                 <div className="p-3 text-center text-sm bg-red-500/10 text-red-400 rounded-md">
-                                    Something went wrong. Please try again later.
+                                    {submitError || 'Something went wrong. Please try again later.'}
                                 </div>
                             )}
 
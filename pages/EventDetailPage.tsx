@@ -1,40 +1,168 @@
 
 
 import React, { useState, useEffect } from 'react';
-import { useParams } from 'react-router-dom';
+import { Link, useParams } from 'react-router-dom';
 import { supabase } from '../supabase';
+import { useLanguage } from '../components/LanguageContext';
+import { formatConfirmationCode } from '../utils/eventRegistration';
+import {
+    RegistrationAnswers,
+    RegistrationField,
+    academicSessionOptions,
+    cleanRegistrationAnswers,
+    initialRegistrationAnswers,
+    normalizeRegistrationForm,
+    validateRegistrationAnswers,
+} from '../utils/registrationForm';
+import { requestNotificationDispatch } from '../utils/notifications';
 
 interface Event {
     id: string;
     title: string;
     date: string;
     description: string;
+    title_bn: string | null;
+    description_bn: string | null;
     imageUrl: string;
+    capacity: number | null;
+    registration_opens_at: string | null;
+    registration_closes_at: string | null;
+    registration_form: unknown;
 }
 
-const semesters = ['1st Semester', '2nd Semester', '3rd Semester', '4th Semester', '5th Semester', '6th Semester', '7th Semester', '8th Semester'];
+// Totals from get_event_registration_stats; visitors can't read the
+// registrations themselves.
+interface RegistrationStats {
+    capacity: number | null;
+    confirmed_count: number;
+    waitlisted_count: number;
+    seats_left: number | null;
+    is_open: boolean;
+}
+
+interface RegistrationResult {
+    status: 'confirmed' | 'waitlisted';
+    confirmation_code: string;
+}
+
+const formInputClasses = "w-full rounded-lg border border-border bg-surface/50 px-3 py-2 text-text focus:border-primary focus:ring-2 focus:ring-primary/20 transition duration-200 placeholder:text-text/60";
+const choiceInputClasses = "w-4 h-4 text-primary bg-surface border-border focus:ring-primary";
 
+const inputTypes: Partial<Record<RegistrationField['type'], string>> = {
+    text: 'text',
+    email: 'email',
+    phone: 'tel',
+    number: 'number',
+    url: 'url',
+    date: 'date',
+};
+
+// One field of the event's registration form.
+const RegistrationFieldInput: React.FC<{
+    field: RegistrationField;
+    value: RegistrationAnswers[string] | undefined;
+    error?: string;
+    onChange: (value: RegistrationAnswers[string]) => void;
+}> = ({ field, value, error, onChange }) => {
+    const text = typeof value === 'string' ? value : '';
+    const selected = Array.isArray(value) ? value : [];
+    const wide = field.type === 'textarea' || field.type === 'checkboxes';
+    const isGroup = field.type === 'radio' || field.type === 'checkboxes';
+
+    let control: React.ReactNode;
+    if (field.type === 'textarea') {
+        control = <textarea className={formInputClasses} id={field.id} name={field.id} rows={4} value={text} placeholder={field.placeholder} onChange={e => onChange(e.target.value)} required={field.required} />;
+    } else if (field.type === 'select' || field.type === 'session') {
+        const options = field.type === 'session' ? academicSessionOptions() : field.options || [];
+        control = (
+            <select className={formInputClasses} id={field.id} name={field.id} value={text} onChange={e => onChange(e.target.value)} required={field.required}>
+                <option value="">{field.placeholder || `Select ${field.label}`}</option>
+                {options.map(option => <option key={option} value={option}>{option}</option>)}
+            </select>
+        );
+    } else if (field.type === 'radio') {
+        control = (
+            <div className="flex flex-wrap items-center gap-x-6 gap-y-2 mt-2">
+                {(field.options || []).map(option => (
+                    <label key={option} className="flex items-center gap-2 cursor-pointer text-text">
+                        <input type="radio" name={field.id} value={option} checked={text === option} onChange={() => onChange(option)} className={choiceInputClasses} />
+                        {option}
+                    </label>
+                ))}
+            </div>
+        );
+    } else if (field.type === 'checkboxes') {
+        control = (
+            <div className="flex flex-wrap items-center gap-x-6 gap-y-2 mt-2">
+                {(field.options || []).map(option => (
+                    <label key={option} className="flex items-center gap-2 cursor-pointer text-text">
+                        <input
+                            type="checkbox"
+                            value={option}
+                            checked={selected.includes(option)}
+                            onChange={e => onChange(e.target.checked ? [...selected, option] : selected.filter(v => v !== option))}
+                            className={`${choiceInputClasses} rounded`}
+                        />
+                        {option}
+                    </label>
+                ))}
+            </div>
+        );
+    } else {
+        control = (
+            <input
+                className={formInputClasses}
+                id={field.id}
+                name={field.id}
+                type={inputTypes[field.type] || 'text'}
+                value={text}
+                placeholder={field.placeholder}
+                min={field.validation?.min}
+                max={field.validation?.max}
+                onChange={e => onChange(e.target.value)}
+                required={field.required}
+            />
+        );
+    }
+
+    return (
+        <div className={`flex flex-col gap-1.5 ${wide ? 'md:col-span-2' : ''}`}>
+            {isGroup
+                ? <span className="text-sm font-medium text-text">{field.label}{!field.required && <span className="text-text/50 font-normal"> (optional)</span>}</span>
+                : <label className="text-sm font-medium text-text" htmlFor={field.id}>{field.label}{!field.required && <span className="text-text/50 font-normal"> (optional)</span>}</label>}
+            {control}
+            {field.helpText && <p className="text-xs text-text/60">{field.helpText}</p>}
+            {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+    );
+};
 
 const EventDetailPage: React.FC = () => {
     const { id } = useParams<{ id: string }>();
+    const { localize } = useLanguage();
     const [event, setEvent] = useState<Event | null>(null);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [submitSuccess, setSubmitSuccess] = useState(false);
+    const [registrationResult, setRegistrationResult] = useState<RegistrationResult | null>(null);
+    const [stats, setStats] = useState<RegistrationStats | null>(null);
     const [formError, setFormError] = useState('');
-
-    const [formData, setFormData] = useState({
-        full_name: '',
-        roll: '',
-        phone: '',
-        email: '',
-        department: 'Computer',
-        session: '',
-        semester: '',
-        student_group: 'A',
-        shift: 'Morning',
-    });
+    const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+    const [answers, setAnswers] = useState<RegistrationAnswers>({});
+
+    const form = normalizeRegistrationForm(event?.registration_form);
+
+    const fetchStats = async (eventId: string) => {
+        const { data, error } = await supabase.rpc('get_event_registration_stats', { p_event_id: eventId });
+        if (error) {
+            // Without the capacity migration every event simply has unlimited seats.
+            console.warn("Could not load registration stats:", error.message);
+            setStats(null);
+        } else {
+            setStats((data as RegistrationStats[] | null)?.[0] ?? null);
+        }
+    };
 
     useEffect(() => {
         const fetchEvent = async () => {
@@ -56,6 +184,8 @@ const EventDetailPage: React.FC = () => {
                 setError('Event not found or there was an error loading it.');
             } else {
                 setEvent(data);
+                setAnswers(initialRegistrationAnswers(normalizeRegistrationForm(data.registration_form)));
+                await fetchStats(id);
             }
             setLoading(false);
         };
@@ -63,113 +193,75 @@ const EventDetailPage: React.FC = () => {
         fetchEvent();
     }, [id]);
 
-    const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
-        const { name, value } = e.target;
-        setFormData(prev => ({ ...prev, [name]: value }));
-    };
-
-    const handleRadioChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const { name, value } = e.target;
-        setFormData(prev => ({ ...prev, [name]: value }));
+    const handleAnswerChange = (fieldId: string, value: RegistrationAnswers[string]) => {
+        setAnswers(prev => ({ ...prev, [fieldId]: value }));
+        setFieldErrors(prev => {
+            if (!prev[fieldId]) return prev;
+            const { [fieldId]: _, ...rest } = prev;
+            return rest;
+        });
     };
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setFormError('');
-        setIsSubmitting(true);
         setSubmitSuccess(false);
 
-        // --- Start of Validation ---
-        // General empty field check
-        for (const key in formData) {
-            if (!formData[key]) {
-                setFormError(`Please fill out the '${key.replace(/_/g, ' ')}' field.`);
-                setIsSubmitting(false);
-                return;
-            }
-        }
-
-        // Phone number validation
-        const phoneRegex = /^\d{11}$/;
-        if (!phoneRegex.test(formData.phone)) {
-            setFormError('Phone number must be exactly 11 digits.');
-            setIsSubmitting(false);
+        const errors = validateRegistrationAnswers(form, answers);
+        setFieldErrors(errors);
+        if (Object.keys(errors).length > 0) {
+            setFormError(Object.values(errors)[0]);
             return;
         }
 
-        // Email validation
-        const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-        if (!emailRegex.test(formData.email)) {
-            setFormError('Please enter a valid email address.');
-            setIsSubmitting(false);
-            return;
-        }
-        // --- End of Validation ---
+        setIsSubmitting(true);
+        const submitted = cleanRegistrationAnswers(form, answers);
 
         try {
-            // Step 1: Save the registration to your Supabase database.
-            const { error } = await supabase.from('event_registrations').insert([
-                { ...formData, event_id: id }
-            ]);
+            // Step 1: Save the registration. The database checks the answers
+            // against the event's form, makes sure the roll isn't already
+            // registered, decides confirmed vs waitlisted and issues the
+            // confirmation code.
+            const { data, error } = await supabase.rpc('register_for_event', { p_event_id: id, p_registration: submitted });
 
             if (error) {
                 throw error;
             }
+            const result = (data as RegistrationResult[] | null)?.[0];
+            if (!result) {
+                throw new Error('The registration was not saved. Please try again.');
+            }
 
+            setRegistrationResult(result);
             setSubmitSuccess(true); // Show success message to the user immediately.
+            if (id) fetchStats(id);
 
-            // Step 2: Send an email notification in the background using Formspree.
-            if (event) {
-                const emailPayload = new FormData();
-                emailPayload.append("_subject", `New Event Registration: ${event.title}`);
-                emailPayload.append("Event Title", event.title);
-                emailPayload.append("Full Name", formData.full_name);
-                emailPayload.append("Roll", formData.roll);
-                emailPayload.append("Phone Number", formData.phone);
-                emailPayload.append("Email Address", formData.email);
-                emailPayload.append("Department", formData.department);
-                emailPayload.append("Session", formData.session);
-                emailPayload.append("Semester", formData.semester);
-                emailPayload.append("Shift", formData.shift);
-                emailPayload.append("Group", formData.student_group);
-                
-                fetch('https://formspree.io/f/xldoyglj', {
-                    method: 'POST',
-                    body: emailPayload,
-                    headers: { 'Accept': 'application/json' }
-                })
-                .then(response => {
-                    if (response.ok) {
-                        console.log('Registration email notification sent successfully.');
-                    } else {
-                        console.error('Failed to send registration email notification via Formspree.');
-                    }
-                })
-                .catch(error => console.error('Error sending registration email notification:', error));
-            }
+            // Step 2: The database queued the admin notification with the
+            // registration; ask for it to be sent now rather than on the next
+            // scheduled run.
+            requestNotificationDispatch();
 
-            setFormData({
-                full_name: '', roll: '', phone: '', email: '', department: 'Computer', session: '', semester: '', student_group: 'A', shift: 'Morning'
-            });
+            setAnswers(initialRegistrationAnswers(form));
 
         } catch (err: any) {
             console.error("Registration failed:", err.message);
-            const detailedMessage = err.message ? err.message : 'An unexpected error occurred. Please try again.';
-            setFormError(`Registration failed: ${detailedMessage}`);
+            if (err.code === 'P0001') {
+                // Raised by the database with a message meant for the visitor.
+                setFormError(err.message);
+            } else if (err.code === '23505') {
+                setFormError(`Roll ${submitted.roll} is already registered for this event.`);
+            } else if (err.code === 'PGRST202') {
+                setFormError('Registration is temporarily unavailable. Please contact the department.');
+                console.error("register_for_event is missing; run supabase/migrations/20261019220000_registration_codes.sql and 20261019230000_registration_forms.sql.");
+            } else {
+                const detailedMessage = err.message ? err.message : 'An unexpected error occurred. Please try again.';
+                setFormError(`Registration failed: ${detailedMessage}`);
+            }
         } finally {
             setIsSubmitting(false);
         }
     };
 
-    const generateYearOptions = () => {
-        const currentYear = new Date().getFullYear();
-        const years = [];
-        for (let i = currentYear - 10; i <= currentYear + 1; i++) {
-            years.push(`${i}-${i + 1}`);
-        }
-        return years.reverse();
-    };
-
     if (loading) {
         return <div className="text-center py-20 text-text">Loading event details...</div>;
     }
@@ -186,18 +278,23 @@ const EventDetailPage: React.FC = () => {
         year: 'numeric', month: 'long', day: 'numeric', hour: 'numeric', minute: '2-digit'
     });
     
-    const isEventPast = new Date(event.date) < new Date();
-
-    const formInputClasses = "w-full rounded-lg border border-border bg-surface/50 px-3 py-2 text-text focus:border-primary focus:ring-2 focus:ring-primary/20 transition duration-200 placeholder:text-text/60";
+    const now = new Date();
+    const isEventPast = new Date(event.date) < now;
+    const opensAt = event.registration_opens_at ? new Date(event.registration_opens_at) : null;
+    const closesAt = event.registration_closes_at ? new Date(event.registration_closes_at) : null;
+    const isNotOpenYet = !!opensAt && now < opensAt;
+    const isRegistrationClosed = !!closesAt && now >= closesAt;
+    const isFull = stats?.seats_left === 0;
+    const formatWhen = (date: Date) => date.toLocaleString('en-US', { month: 'long', day: 'numeric', hour: 'numeric', minute: '2-digit' });
 
     return (
         <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
             <div className="bg-surface border border-border rounded-xl shadow-2xl overflow-hidden">
-                <img src={event.imageUrl} alt={event.title} className="w-full h-64 object-cover" />
+                <img src={event.imageUrl} alt={localize(event.title, event.title_bn)} className="w-full h-64 object-cover" />
                 <div className="p-8">
-                    <h1 className="text-3xl font-bold text-text mb-2">{event.title}</h1>
+                    <h1 className="text-3xl font-bold text-text mb-2">{localize(event.title, event.title_bn)}</h1>
                     <p className="text-secondary font-semibold mb-4">{formattedDate}</p>
-                    <p className="text-text/80 whitespace-pre-wrap">{event.description}</p>
+                    <p className="text-text/80 whitespace-pre-wrap">{localize(event.description, event.description_bn)}</p>
                 </div>
             </div>
 
@@ -208,85 +305,66 @@ const EventDetailPage: React.FC = () => {
                         <h2 className="text-2xl font-bold text-center text-text mt-4">Registration Closed</h2>
                         <p className="text-text/70 mt-2">This event has already taken place. Registration is no longer available.</p>
                     </div>
+                ) : isRegistrationClosed && !submitSuccess ? (
+                    <div className="text-center py-8">
+                        <span className="material-symbols-outlined text-6xl text-text/40">timer_off</span>
+                        <h2 className="text-2xl font-bold text-center text-text mt-4">Registration Closed</h2>
+                        <p className="text-text/70 mt-2">Registration closed on {formatWhen(closesAt!)}.</p>
+                    </div>
+                ) : isNotOpenYet ? (
+                    <div className="text-center py-8">
+                        <span className="material-symbols-outlined text-6xl text-secondary/70">schedule</span>
+                        <h2 className="text-2xl font-bold text-center text-text mt-4">Registration Opens Soon</h2>
+                        <p className="text-text/70 mt-2">Registration opens on {formatWhen(opensAt!)}. Please check back then.</p>
+                    </div>
                 ) : (
                     <>
-                        <h2 className="text-2xl font-bold text-center text-text mb-6">Register for this Event</h2>
-                        {submitSuccess ? (
-                            <div className="text-center py-12 bg-green-500/10 border border-green-500/30 rounded-lg">
-                                <span className="material-symbols-outlined text-5xl text-green-400">check_circle</span>
-                                <h3 className="mt-4 text-xl font-semibold text-green-300">Registration Successful!</h3>
-                                <p className="mt-2 text-text/70">Thank you for registering. We look forward to seeing you at the event.</p>
+                        <div className="mb-6 space-y-2">
+                            <h2 className="text-2xl font-bold text-center text-text">Register for this Event</h2>
+                            {stats?.capacity != null && !submitSuccess && (
+                                <p className={`text-center text-sm font-semibold ${isFull ? 'text-amber-300' : 'text-secondary'}`}>
+                                    {isFull
+                                        ? `All ${stats.capacity} seats are taken. Register to join the waitlist${stats.waitlisted_count > 0 ? ` (${stats.waitlisted_count} waiting)` : ''}; you'll be confirmed automatically if a seat frees up.`
+                                        : `${stats.seats_left} of ${stats.capacity} seats left`}
+                                </p>
+                            )}
+                            {closesAt && !submitSuccess && <p className="text-center text-xs text-text/60">Registration closes on {formatWhen(closesAt)}.</p>}
+                        </div>
+                        {submitSuccess && registrationResult ? (
+                            <div className={`text-center py-12 px-4 rounded-lg border ${registrationResult.status === 'waitlisted' ? 'bg-amber-500/10 border-amber-500/30' : 'bg-green-500/10 border-green-500/30'}`}>
+                                {registrationResult.status === 'waitlisted' ? (
+                                    <>
+                                        <span className="material-symbols-outlined text-5xl text-amber-300">hourglass_top</span>
+                                        <h3 className="mt-4 text-xl font-semibold text-amber-200">You're on the Waitlist</h3>
+                                        <p className="mt-2 text-text/70">The event is full right now. If a seat frees up, the next person on the waitlist is confirmed automatically.</p>
+                                    </>
+                                ) : (
+                                    <>
+                                        <span className="material-symbols-outlined text-5xl text-green-400">check_circle</span>
+                                        <h3 className="mt-4 text-xl font-semibold text-green-300">Registration Successful!</h3>
+                                        <p className="mt-2 text-text/70">Thank you for registering. We look forward to seeing you at the event.</p>
+                                    </>
+                                )}
+                                <p className="mt-6 text-sm text-text/70">Your confirmation code</p>
+                                <p className="mt-1 font-mono text-2xl font-bold tracking-widest text-text select-all">{formatConfirmationCode(registrationResult.confirmation_code)}</p>
+                                <p className="mt-2 text-xs text-text/60">Keep this code. You'll need it to check or cancel your registration.</p>
+                                <Link to={`/registration/${registrationResult.confirmation_code}`} className="mt-4 inline-flex items-center gap-1 text-sm font-semibold text-secondary hover:underline">
+                                    <span className="material-symbols-outlined text-base">open_in_new</span>
+                                    View or cancel this registration
+                                </Link>
                             </div>
                         ) : (
-                            <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                                <div className="flex flex-col gap-1.5">
-                                    <label className="text-sm font-medium text-text" htmlFor="full_name">Full Name</label>
-                                    <input className={formInputClasses} id="full_name" name="full_name" type="text" value={formData.full_name} onChange={handleInputChange} required/>
-                                </div>
-                                <div className="flex flex-col gap-1.5">
-                                    <label className="text-sm font-medium text-text" htmlFor="roll">Roll</label>
-                                    <input className={formInputClasses} id="roll" name="roll" type="text" value={formData.roll} onChange={handleInputChange} required/>
-                                </div>
-                                <div className="flex flex-col gap-1.5">
-                                    <label className="text-sm font-medium text-text" htmlFor="phone">Phone Number</label>
-                                    <input className={formInputClasses} id="phone" name="phone" type="tel" value={formData.phone} onChange={handleInputChange} required/>
-                                </div>
-                                <div className="flex flex-col gap-1.5">
-                                    <label className="text-sm font-medium text-text" htmlFor="email">Email Address</label>
-                                    <input className={formInputClasses} id="email" name="email" type="email" value={formData.email} onChange={handleInputChange} required/>
-                                </div>
-                                <div className="flex flex-col gap-1.5">
-                                    <label className="text-sm font-medium text-text" htmlFor="department">Department</label>
-                                    <select className={formInputClasses} id="department" name="department" value={formData.department} onChange={handleInputChange} required>
-                                        <option value="Computer">Computer</option>
-                                        <option value="Civil">Civil</option>
-                                        <option value="Architecture">Architecture</option>
-                                        <option value="Mechanical">Mechanical</option>
-                                        <option value="Power">Power</option>
-                                        <option value="Electrical">Electrical</option>
-                                    </select>
-                                </div>
-                                <div className="flex flex-col gap-1.5">
-                                    <label className="text-sm font-medium text-text" htmlFor="session">Session</label>
-                                    <select className={formInputClasses} id="session" name="session" value={formData.session} onChange={handleInputChange} required>
-                                        <option value="">Select Session</option>
-                                        {generateYearOptions().map(year => <option key={year} value={year}>{year}</option>)}
-                                    </select>
-                                </div>
-                                <div className="flex flex-col gap-1.5">
-                                    <label className="text-sm font-medium text-text" htmlFor="semester">Semester</label>
-                                    <select className={formInputClasses} id="semester" name="semester" value={formData.semester} onChange={handleInputChange} required>
-                                        <option value="">Select Semester</option>
-                                        {semesters.map(s => <option key={s} value={s}>{s}</option>)}
-                                    </select>
-                                </div>
-                                <div className="flex flex-col gap-1.5">
-                                    <label className="text-sm font-medium text-text">Shift</label>
-                                    <div className="flex items-center gap-6 mt-2">
-                                        <label className="flex items-center gap-2 cursor-pointer text-text">
-                                            <input type="radio" name="shift" value="Morning" checked={formData.shift === 'Morning'} onChange={handleRadioChange} className="w-4 h-4 text-primary bg-surface border-border focus:ring-primary" />
-                                            Morning
-                                        </label>
-                                        <label className="flex items-center gap-2 cursor-pointer text-text">
-                                            <input type="radio" name="shift" value="Day" checked={formData.shift === 'Day'} onChange={handleRadioChange} className="w-4 h-4 text-primary bg-surface border-border focus:ring-primary" />
-                                            Day
-                                        </label>
-                                    </div>
-                                </div>
-                                <div className="flex flex-col gap-1.5 md:col-span-2">
-                                    <label className="text-sm font-medium text-text">Group</label>
-                                    <div className="flex items-center gap-6 mt-2">
-                                        <label className="flex items-center gap-2 cursor-pointer text-text">
-                                            <input type="radio" name="student_group" value="A" checked={formData.student_group === 'A'} onChange={handleRadioChange} className="w-4 h-4 text-primary bg-surface border-border focus:ring-primary" />
-                                            Group A
-                                        </label>
-                                        <label className="flex items-center gap-2 cursor-pointer text-text">
-                                            <input type="radio" name="student_group" value="B" checked={formData.student_group === 'B'} onChange={handleRadioChange} className="w-4 h-4 text-primary bg-surface border-border focus:ring-primary" />
-                                            Group B
-                                        </label>
-                                    </div>
-                                </div>
-                                
+                            <form onSubmit={handleSubmit} noValidate className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                                {form.fields.map(field => (
+                                    <RegistrationFieldInput
+                                        key={field.id}
+                                        field={field}
+                                        value={answers[field.id]}
+                                        error={fieldErrors[field.id]}
+                                        onChange={value => handleAnswerChange(field.id, value)}
+                                    />
+                                ))}
+
                                 {formError && (
                                     <div className="md:col-span-2 text-center text-sm text-red-400 bg-red-500/10 p-3 rounded-md">
                                         {formError}
@@ -295,7 +373,7 @@ const EventDetailPage: React.FC = () => {
                                 
                                 <div className="md:col-span-2">
                                     <button type="submit" disabled={isSubmitting} className="w-full flex items-center justify-center overflow-hidden rounded-lg h-11 px-4 bg-gradient-to-r from-primary to-secondary text-white text-sm font-bold tracking-wide hover:scale-105 transition-transform disabled:opacity-60 disabled:cursor-wait">
-                                        {isSubmitting ? 'Submitting Registration...' : 'Confirm Registration'}
+                                        {isSubmitting ? 'Submitting Registration...' : isFull ? 'Join Waitlist' : 'Confirm Registration'}
                                     </button>
                                 </div>
                             </form>
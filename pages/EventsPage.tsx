@@ -2,12 +2,15 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { Link, useLocation } from 'react-router-dom'; // Import Link & useLocation
 import { supabase } from '../supabase';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useLanguage } from '../components/LanguageContext';
 
 interface Event {
     id: string;
     title: string;
     date: string;
     description: string;
+    title_bn: string | null;
+    description_bn: string | null;
     imageUrl: string;
     status: 'published' | 'draft';
 }
@@ -30,6 +33,7 @@ interface AlumniSettings {
 }
 
 const EventCard: React.FC<{ event: Event }> = ({ event }) => {
+    const { localize } = useLanguage();
     const formattedDate = event.date 
         ? new Date(event.date).toLocaleDateString('en-US', {
               year: 'numeric', month: 'long', day: 'numeric', hour: 'numeric', minute: '2-digit' 
@@ -44,9 +48,9 @@ const EventCard: React.FC<{ event: Event }> = ({ event }) => {
             ></div>
             <div className="flex flex-col flex-1 justify-between p-4 pt-0 gap-4">
                 <div>
-                    <p className="text-text text-lg font-bold leading-normal">{event.title}</p>
+                    <p className="text-text text-lg font-bold leading-normal">{localize(event.title, event.title_bn)}</p>
                     <p className="text-sm font-medium text-text/70 mt-1">{formattedDate}</p>
-                    <p className="text-text/80 text-sm font-normal leading-normal mt-2 line-clamp-3">{event.description}</p>
+                    <p className="text-text/80 text-sm font-normal leading-normal mt-2 line-clamp-3">{localize(event.description, event.description_bn)}</p>
                 </div>
                 <Link 
                     to={`/event/${event.id}`}
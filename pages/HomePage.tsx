@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { Link } from 'react-router-dom';
 import { supabase } from '../supabase';
+import { useLanguage } from '../components/LanguageContext';
 import { motion, Variants } from 'framer-motion';
 
 // --- Particle Animation Component ---
@@ -94,7 +95,10 @@ const Particles = () => {
 interface Notice {
     id: string;
     title: string;
+    title_bn: string | null;
     createdAt: string;
+    published_at: string;
+    is_pinned: boolean;
     content: string;
     category: 'Academic' | 'Event' | 'General';
 }
@@ -102,6 +106,7 @@ interface Notice {
 interface Event {
     id: string;
     title: string;
+    title_bn: string | null;
     date: string;
     imageUrl: string;
 }
@@ -144,6 +149,7 @@ const Skeleton = ({ className }: { className?: string }) => (
 
 // --- Main Component ---
 const HomePage: React.FC = () => {
+    const { localize } = useLanguage();
     const [notices, setNotices] = useState<Notice[]>([]);
     const [events, setEvents] = useState<Event[]>([]);
     const [programs, setPrograms] = useState<AcademicProgram[]>([]);
@@ -188,7 +194,7 @@ const HomePage: React.FC = () => {
     useEffect(() => {
         const fetchHomePageData = async () => {
             // Fetch Notices
-            supabase.from('notices').select('*').eq('status', 'published').order('createdAt', { ascending: false }).limit(5)
+            supabase.from('public_notices').select('*').order('is_pinned', { ascending: false }).order('published_at', { ascending: false }).limit(5)
                 .then(({ data, error }) => {
                     if (error) console.error("Error fetching notices:", error.message);
                     else setNotices(data as Notice[]);
@@ -466,8 +472,11 @@ const HomePage: React.FC = () => {
                                                     <span className="material-symbols-outlined text-lg">{getNoticeIcon(item.category)}</span>
                                                 </div>
                                                 <div>
-                                                    <h3 className="font-semibold text-text line-clamp-2">{item.title}</h3>
-                                                    <p className="text-sm text-text/70 mt-1">{new Date(item.createdAt).toLocaleDateString()}</p>
+                                                    <h3 className="font-semibold text-text line-clamp-2">
+                                                        {item.is_pinned && <span className="material-symbols-outlined text-base text-secondary align-middle mr-1" title="Pinned">push_pin</span>}
+                                                        {localize(item.title, item.title_bn)}
+                                                    </h3>
+                                                    <p className="text-sm text-text/70 mt-1">{new Date(item.published_at).toLocaleDateString()}</p>
                                                 </div>
                                             </div>
                                         </Link>
@@ -484,12 +493,12 @@ const HomePage: React.FC = () => {
                                          <Link to={`/events#event-${event.id}`} className="flex flex-col sm:flex-row items-center gap-4 bg-surface/80 p-4 rounded-lg border border-border hover:bg-surface transition-colors">
                                             <img 
                                                 src={event.imageUrl} 
-                                                alt={event.title} 
+                                                alt={localize(event.title, event.title_bn)} 
                                                 className="w-full sm:w-32 h-24 object-cover rounded-md"
                                                 loading="lazy"
                                             />
                                             <div className="flex-grow">
-                                                <h3 className="font-semibold text-text line-clamp-2">{event.title}</h3>
+                                                <h3 className="font-semibold text-text line-clamp-2">{localize(event.title, event.title_bn)}</h3>
                                                 <p className="text-sm text-text/70 mt-1">{new Date(event.date).toLocaleDateString()}</p>
                                             </div>
                                         </Link>
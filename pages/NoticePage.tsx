@@ -1,25 +1,32 @@
 // Fix: Corrected import statement for React hooks by removing quotes.
-import React, { useState, useEffect, useMemo } from 'react';
-import { useLocation } from 'react-router-dom';
-import { supabase } from '../supabase';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { useLocation, useSearchParams } from 'react-router-dom';
+import { supabase, SUPABASE_FUNCTIONS_URL } from '../supabase';
 import { motion, AnimatePresence } from 'framer-motion';
+import { toNoticeHtml, truncateHtml } from '../utils/richText';
+import NoticeSubscribeModal from '../components/NoticeSubscribeModal';
+import { useLanguage } from '../components/LanguageContext';
 
 interface Attachment {
     url: string;
     name: string;
     type: 'image' | 'pdf';
     path: string;
+    thumbUrl?: string;
 }
 
 interface Notice {
     id: string;
     title: string;
-    createdAt: string; 
     content: string;
+    title_bn: string | null;
+    content_bn: string | null;
     author: string;
     category: 'Academic' | 'Event' | 'General';
-    status: 'published' | 'draft';
     attachments: Attachment[] | null;
+    published_at: string;
+    is_pinned: boolean;
+    priority: 'normal' | 'important' | 'urgent';
 }
 
 const getTypeColor = (type: Notice['category']) => {
@@ -35,24 +42,99 @@ const getTypeColor = (type: Notice['category']) => {
     }
 }
 
+const priorityStyles: Record<Notice['priority'], string> = {
+    normal: 'border-border',
+    important: 'border-amber-500/50',
+    urgent: 'border-red-500/60',
+};
+
+const NOTICE_CATEGORIES: Notice['category'][] = ['Academic', 'Event', 'General'];
+const PAGE_SIZE = 10;
+// Only what the board renders: the view also carries search_vector.
+const NOTICE_COLUMNS = 'id, title, content, title_bn, content_bn, author, category, attachments, published_at, is_pinned, priority';
+const SEARCH_DEBOUNCE_MS = 400;
+
+// Date inputs give local calendar days; turn them into an inclusive range of
+// timestamps so a notice published late on the "to" day is still included.
+const startOfDayIso = (date: string) => new Date(`${date}T00:00:00`).toISOString();
+const startOfNextDayIso = (date: string) => {
+    const next = new Date(`${date}T00:00:00`);
+    next.setDate(next.getDate() + 1);
+    return next.toISOString();
+};
+
+// --- View counting ---
+// Only anonymous per-day totals are recorded, each notice at most once per
+// browser session, and nothing at all when the visitor opts out of tracking.
+const TRACKED_EVENTS_STORAGE_KEY = 'trackedNoticeEvents';
+const VIEW_VISIBLE_MS = 1000;
+
+const isTrackingDisabled = () =>
+    navigator.doNotTrack === '1' || (navigator as Navigator & { globalPrivacyControl?: boolean }).globalPrivacyControl === true;
+
+const recordNoticeEvent = (noticeId: string, kind: 'view' | 'download') => {
+    if (isTrackingDisabled()) return;
+    const key = `${kind}:${noticeId}`;
+    let tracked: string[] = [];
+    try {
+        const stored = JSON.parse(sessionStorage.getItem(TRACKED_EVENTS_STORAGE_KEY) || '[]');
+        if (Array.isArray(stored)) tracked = stored;
+    } catch { /* start afresh */ }
+    if (tracked.includes(key)) return;
+    sessionStorage.setItem(TRACKED_EVENTS_STORAGE_KEY, JSON.stringify([...tracked, key]));
+    supabase.rpc('record_notice_event', { p_notice_id: noticeId, p_kind: kind }).then(({ error }) => {
+        if (error) console.warn("Could not record notice event:", error.message);
+    });
+};
+
+// Counts a view once the card has been at least half on screen for a moment,
+// so scrolling past a notice doesn't count as reading it.
+const useNoticeViewTracking = (noticeId: string) => {
+    const ref = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        const element = ref.current;
+        if (!element || typeof IntersectionObserver === 'undefined') return;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        const observer = new IntersectionObserver(([entry]) => {
+            if (entry.isIntersecting) {
+                timer = setTimeout(() => {
+                    recordNoticeEvent(noticeId, 'view');
+                    observer.disconnect();
+                }, VIEW_VISIBLE_MS);
+            } else {
+                clearTimeout(timer);
+            }
+        }, { threshold: 0.5 });
+        observer.observe(element);
+        return () => {
+            clearTimeout(timer);
+            observer.disconnect();
+        };
+    }, [noticeId]);
+
+    return ref;
+};
+
 const ExpandableContent: React.FC<{ content: string; truncateLength: number }> = ({ content, truncateLength }) => {
     const [isExpanded, setIsExpanded] = useState(false);
-
-    if (content.length <= truncateLength) {
-        return <p className="text-text/90 leading-relaxed whitespace-pre-wrap">{content}</p>;
-    }
+    const html = useMemo(() => toNoticeHtml(content), [content]);
+    const preview = useMemo(() => truncateHtml(html, truncateLength), [html, truncateLength]);
 
     return (
         <div>
-            <p className="text-text/90 leading-relaxed whitespace-pre-wrap">
-                {isExpanded ? content : `${content.substring(0, truncateLength)}...`}
-            </p>
-            <button 
-                onClick={() => setIsExpanded(!isExpanded)} 
-                className="text-secondary font-semibold text-sm mt-2 hover:underline"
-            >
-                {isExpanded ? 'See Less' : 'See More'}
-            </button>
+            <div
+                className="rich-text text-text/90 leading-relaxed break-words"
+                dangerouslySetInnerHTML={{ __html: isExpanded || !preview.truncated ? html : preview.html }}
+            />
+            {preview.truncated && (
+                <button 
+                    onClick={() => setIsExpanded(!isExpanded)} 
+                    className="text-secondary font-semibold text-sm mt-2 hover:underline"
+                >
+                    {isExpanded ? 'See Less' : 'See More'}
+                </button>
+            )}
         </div>
     );
 };
@@ -62,7 +144,8 @@ const Lightbox: React.FC<{
     startIndex: number;
     onClose: () => void;
     noticeTitle: string;
-}> = ({ images, startIndex, onClose, noticeTitle }) => {
+    onDownload?: () => void;
+}> = ({ images, startIndex, onClose, noticeTitle, onDownload }) => {
     const [currentIndex, setCurrentIndex] = useState(startIndex);
 
     useEffect(() => {
@@ -81,6 +164,7 @@ const Lightbox: React.FC<{
     const handleDownload = async () => {
         const image = images[currentIndex];
         if (!image) return;
+        onDownload?.();
         try {
             const response = await fetch(image.url);
             const blob = await response.blob();
@@ -136,35 +220,234 @@ const Lightbox: React.FC<{
 };
 
 
+const NoticeCard: React.FC<{
+    notice: Notice;
+    onOpenImages: (images: Attachment[], startIndex: number, noticeTitle: string, noticeId: string) => void;
+}> = ({ notice, onOpenImages }) => {
+    const cardRef = useNoticeViewTracking(notice.id);
+    const { localize } = useLanguage();
+    const title = localize(notice.title, notice.title_bn);
+    const imageAttachments = notice.attachments?.filter(att => att.type === 'image') || [];
+    const pdfAttachments = notice.attachments?.filter(att => att.type === 'pdf') || [];
+
+    return (
+        <div ref={cardRef} id={`notice-${notice.id}`} className={`bg-surface border ${priorityStyles[notice.priority] || priorityStyles.normal} rounded-xl shadow-lg p-6 hover:shadow-primary/20 transition-shadow duration-300`}>
+            <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-2 mb-3">
+                <h2 className="text-xl font-bold text-text flex items-center gap-2">
+                    {notice.is_pinned && <span className="material-symbols-outlined text-secondary" title="Pinned">push_pin</span>}
+                    {title}
+                </h2>
+                <div className="flex items-center gap-2 shrink-0">
+                    {notice.priority === 'urgent' && <span className="text-xs font-bold px-2.5 py-1 rounded-full bg-red-500/20 text-red-300 uppercase">Urgent</span>}
+                    {notice.priority === 'important' && <span className="text-xs font-bold px-2.5 py-1 rounded-full bg-amber-500/20 text-amber-300 uppercase">Important</span>}
+                    <span className={`text-xs font-semibold px-2.5 py-1 rounded-full ${getTypeColor(notice.category)}`}>
+                        {notice.category}
+                    </span>
+                </div>
+            </div>
+            <div className="text-sm text-text/70 flex items-center gap-4 mb-4">
+                <span>
+                    <span className="font-semibold">Published on:</span> {notice.published_at ? new Date(notice.published_at).toLocaleDateString() : 'N/A'}
+                </span>
+                <span>|</span>
+                <span>
+                    <span className="font-semibold">By:</span> {notice.author || 'Admin'}
+                </span>
+            </div>
+            <ExpandableContent content={localize(notice.content, notice.content_bn)} truncateLength={300} />
+
+            {(imageAttachments.length > 0 || pdfAttachments.length > 0) && (
+                <div className="mt-4 pt-4 border-t border-border">
+                    <p className="text-sm font-semibold text-text/80 mb-2">Attachments:</p>
+                    
+                    {/* Image Attachments */}
+                    {imageAttachments.length > 0 && (
+                        <div className="flex flex-wrap gap-4">
+                            {imageAttachments.map((att, index) => (
+                                <div
+                                    key={att.path}
+                                    onClick={() => onOpenImages(imageAttachments, index, title, notice.id)}
+                                    className="w-full max-w-[336px] h-[192px] rounded-lg overflow-hidden cursor-pointer group bg-black/20 border border-border"
+                                >
+                                    <img 
+                                        src={att.thumbUrl || att.url} 
+                                        alt={att.name} 
+                                        loading="lazy"
+                                        className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-110" 
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {/* PDF Attachments */}
+                    {pdfAttachments.length > 0 && (
+                        <div className={`space-y-2 ${imageAttachments.length > 0 ? 'mt-4' : ''}`}>
+                            {pdfAttachments.some(att => att.thumbUrl) && (
+                                <div className="flex flex-wrap gap-4 mb-2">
+                                    {pdfAttachments.filter(att => att.thumbUrl).map(att => (
+                                        <a
+                                            key={`preview-${att.path}`}
+                                            href={att.url}
+                                            onClick={() => recordNoticeEvent(notice.id, 'download')}
+                                            target="_blank"
+                                            rel="noopener noreferrer"
+                                            title={`Open ${att.name}`}
+                                            className="block w-[160px] rounded-lg overflow-hidden border border-border bg-white group"
+                                        >
+                                            <img src={att.thumbUrl} alt={`First page of ${att.name}`} loading="lazy" className="w-full h-[200px] object-cover object-top transition-transform duration-300 group-hover:scale-105" />
+                                        </a>
+                                    ))}
+                                </div>
+                            )}
+                            {pdfAttachments.map(att => (
+                                <a 
+                                    key={att.path}
+                                    href={att.url} 
+                                    onClick={() => recordNoticeEvent(notice.id, 'download')}
+                                    target="_blank" 
+                                    rel="noopener noreferrer" 
+                                    className="inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-semibold bg-red-500/10 hover:bg-red-500/20 text-red-300 transition-colors border border-red-500/20"
+                                >
+                                    <span className="material-symbols-outlined">picture_as_pdf</span>
+                                    {att.name}
+                                </a>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+
 const NoticePage: React.FC = () => {
+    const { language } = useLanguage();
     const [notices, setNotices] = useState<Notice[]>([]);
+    const [totalCount, setTotalCount] = useState(0);
+    const [linkedNotice, setLinkedNotice] = useState<Notice | null>(null);
     const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
     const location = useLocation();
-    const [lightboxState, setLightboxState] = useState<{ images: Attachment[], startIndex: number, noticeTitle: string } | null>(null);
+    const [searchParams, setSearchParams] = useSearchParams();
+    const [lightboxState, setLightboxState] = useState<{ images: Attachment[], startIndex: number, noticeTitle: string, noticeId: string } | null>(null);
+    const [isSubscribeOpen, setIsSubscribeOpen] = useState(false);
+
+    // --- URL-synced filters ---
+    const query = searchParams.get('q') || '';
+    const categoryParam = searchParams.get('category');
+    const category = NOTICE_CATEGORIES.find(c => c === categoryParam) || null;
+    const fromDate = searchParams.get('from') || '';
+    const toDate = searchParams.get('to') || '';
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1);
+    const totalPages = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+    const hasFilters = Boolean(query || category || fromDate || toDate);
+
+    const [searchInput, setSearchInput] = useState(query);
+
+    const updateParams = (updates: Record<string, string | null>, options?: { replace?: boolean }) => {
+        setSearchParams(prev => {
+            const next = new URLSearchParams(prev);
+            Object.entries(updates).forEach(([key, value]) => {
+                if (value) next.set(key, value);
+                else next.delete(key);
+            });
+            // Any filter change starts again from the first page.
+            if (!('page' in updates)) next.delete('page');
+            return next;
+        }, options);
+    };
 
+    // Keep the box in sync when the query changes from outside (back/forward).
+    useEffect(() => {
+        setSearchInput(query);
+    }, [query]);
+
+    useEffect(() => {
+        const trimmed = searchInput.trim();
+        if (trimmed === query) return;
+        const timer = setTimeout(() => updateParams({ q: trimmed || null }, { replace: true }), SEARCH_DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+    }, [searchInput]);
 
     useEffect(() => {
         const fetchNotices = async () => {
             setLoading(true);
-            const { data, error } = await supabase
-                .from('notices')
-                .select('*')
-                .eq('status', 'published')
-                .order('createdAt', { ascending: false });
+            setError(null);
+
+            let request = supabase
+                .from('public_notices')
+                .select(NOTICE_COLUMNS, { count: 'exact' });
+
+            if (query) {
+                request = request.textSearch('search_vector', query, { type: 'websearch', config: 'simple' });
+            }
+            if (category) {
+                request = request.eq('category', category);
+            }
+            if (fromDate) {
+                request = request.gte('published_at', startOfDayIso(fromDate));
+            }
+            if (toDate) {
+                request = request.lt('published_at', startOfNextDayIso(toDate));
+            }
+
+            const from = (page - 1) * PAGE_SIZE;
+            const { data, error, count } = await request
+                .order('is_pinned', { ascending: false })
+                .order('published_at', { ascending: false })
+                .order('id', { ascending: false })
+                .range(from, from + PAGE_SIZE - 1);
 
             if (error) {
                 console.error("Error fetching notices:", error.message || error);
+                setError('Could not load notices. Please try again later.');
+                setNotices([]);
+                setTotalCount(0);
             } else {
                 setNotices(data as Notice[]);
+                setTotalCount(count ?? 0);
             }
             setLoading(false);
         };
 
         fetchNotices();
-    }, []);
+    }, [query, category, fromDate, toDate, page]);
 
+    // Deep links (e.g. from the home page or the urgent banner) may point at a
+    // notice that isn't on the current page of results, so load it on its own.
     useEffect(() => {
-        if (loading || notices.length === 0 || !location.hash) {
+        const match = location.hash.match(/^#notice-(.+)$/);
+        if (loading || !match) {
+            setLinkedNotice(null);
+            return;
+        }
+        const linkedId = decodeURIComponent(match[1]);
+        if (notices.some(n => String(n.id) === linkedId)) {
+            setLinkedNotice(null);
+            return;
+        }
+
+        let cancelled = false;
+        const fetchLinkedNotice = async () => {
+            const { data, error } = await supabase
+                .from('public_notices')
+                .select(NOTICE_COLUMNS)
+                .eq('id', linkedId)
+                .maybeSingle();
+            if (cancelled) return;
+            if (error) {
+                console.error("Error fetching linked notice:", error.message);
+            }
+            setLinkedNotice((data as Notice | null) || null);
+        };
+        fetchLinkedNotice();
+        return () => { cancelled = true; };
+    }, [loading, notices, location.hash]);
+
+    useEffect(() => {
+        if (loading || (notices.length === 0 && !linkedNotice) || !location.hash) {
             return;
         }
     
@@ -191,7 +474,40 @@ const NoticePage: React.FC = () => {
                 element.classList.remove('highlight');
             };
         }
-    }, [loading, notices, location.hash]);
+    }, [loading, notices, linkedNotice, location.hash]);
+
+    const openImages = (images: Attachment[], startIndex: number, noticeTitle: string, noticeId: string) => {
+        setLightboxState({ images, startIndex, noticeTitle, noticeId });
+    };
+
+    const goToPage = (nextPage: number) => {
+        updateParams({ page: nextPage > 1 ? String(nextPage) : null });
+        window.scrollTo({ top: 0, behavior: 'smooth' });
+    };
+
+    const clearFilters = () => {
+        setSearchInput('');
+        setSearchParams({});
+    };
+
+    const feedParams = new URLSearchParams();
+    if (category) feedParams.set('category', category);
+    if (language === 'bn') feedParams.set('lang', 'bn');
+    const feedUrl = `${SUPABASE_FUNCTIONS_URL}/notice-feed/notices.rss${feedParams.toString() ? `?${feedParams}` : ''}`;
+
+    // Let browsers and feed readers discover the feed from the page.
+    useEffect(() => {
+        const link = document.createElement('link');
+        link.rel = 'alternate';
+        link.type = 'application/rss+xml';
+        link.title = category ? `${category} Notices` : 'Notices';
+        link.href = feedUrl;
+        document.head.appendChild(link);
+        return () => link.remove();
+    }, [feedUrl]);
+
+    const rangeStart = totalCount === 0 ? 0 : (page - 1) * PAGE_SIZE + 1;
+    const rangeEnd = Math.min(page * PAGE_SIZE, totalCount);
 
     return (
         <>
@@ -201,94 +517,153 @@ const NoticePage: React.FC = () => {
                     startIndex={lightboxState.startIndex} 
                     onClose={() => setLightboxState(null)}
                     noticeTitle={lightboxState.noticeTitle}
+                    onDownload={() => recordNoticeEvent(lightboxState.noticeId, 'download')}
                 />
             )}
+            <NoticeSubscribeModal isOpen={isSubscribeOpen} onClose={() => setIsSubscribeOpen(false)} />
             <div className="px-4 sm:px-6 lg:px-8 py-16">
                 <div className="max-w-4xl mx-auto">
                     <div className="text-center mb-12">
                         <h1 className="text-4xl font-bold tracking-tight text-text">Notice Board</h1>
                         <p className="mt-2 text-lg text-text/70">Stay updated with the latest announcements and news.</p>
+                        <div className="mt-4 flex items-center justify-center gap-6">
+                            <button
+                                onClick={() => setIsSubscribeOpen(true)}
+                                className="inline-flex items-center gap-1 text-sm font-semibold text-secondary hover:text-primary"
+                            >
+                                <span className="material-symbols-outlined text-base">notifications</span>
+                                Get email alerts
+                            </button>
+                            <a
+                                href={feedUrl}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="inline-flex items-center gap-1 text-sm font-semibold text-orange-300 hover:text-orange-200"
+                                title={category ? `RSS feed for ${category} notices` : 'RSS feed for all notices'}
+                            >
+                                <span className="material-symbols-outlined text-base">rss_feed</span>
+                                {category ? `${category} RSS feed` : 'RSS feed'}
+                            </a>
+                        </div>
+                    </div>
+
+                    {/* --- Filters --- */}
+                    <div className="bg-surface border border-border rounded-xl p-4 mb-8 space-y-4">
+                        <div className="relative">
+                            <span className="material-symbols-outlined absolute left-3 top-1/2 -translate-y-1/2 text-text/50">search</span>
+                            <input
+                                type="search"
+                                value={searchInput}
+                                onChange={e => setSearchInput(e.target.value)}
+                                placeholder="Search notices by title or content..."
+                                className="input-style bg-surface/50 w-full pl-10"
+                                aria-label="Search notices"
+                            />
+                        </div>
+                        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                            <div className="flex flex-wrap gap-2">
+                                <button
+                                    onClick={() => updateParams({ category: null })}
+                                    className={`px-3 py-1.5 rounded-full text-sm font-semibold transition-colors ${!category ? 'bg-primary text-white' : 'bg-black/20 text-text/70 hover:text-text'}`}
+                                >
+                                    All
+                                </button>
+                                {NOTICE_CATEGORIES.map(c => (
+                                    <button
+                                        key={c}
+                                        onClick={() => updateParams({ category: c })}
+                                        className={`px-3 py-1.5 rounded-full text-sm font-semibold transition-colors ${category === c ? 'bg-primary text-white' : 'bg-black/20 text-text/70 hover:text-text'}`}
+                                    >
+                                        {c}
+                                    </button>
+                                ))}
+                            </div>
+                            <div className="flex items-center gap-2 text-sm text-text/70">
+                                <label htmlFor="notice-from" className="sr-only">From date</label>
+                                <input
+                                    id="notice-from"
+                                    type="date"
+                                    value={fromDate}
+                                    max={toDate || undefined}
+                                    onChange={e => updateParams({ from: e.target.value || null })}
+                                    className="input-style bg-surface/50 py-1.5"
+                                />
+                                <span>to</span>
+                                <label htmlFor="notice-to" className="sr-only">To date</label>
+                                <input
+                                    id="notice-to"
+                                    type="date"
+                                    value={toDate}
+                                    min={fromDate || undefined}
+                                    onChange={e => updateParams({ to: e.target.value || null })}
+                                    className="input-style bg-surface/50 py-1.5"
+                                />
+                            </div>
+                        </div>
+                        {hasFilters && (
+                            <div className="flex items-center justify-between text-sm text-text/70">
+                                <span>{loading ? 'Searching...' : `${totalCount} notice${totalCount === 1 ? '' : 's'} found`}</span>
+                                <button onClick={clearFilters} className="text-secondary font-semibold hover:underline">Clear filters</button>
+                            </div>
+                        )}
                     </div>
 
                     <div className="space-y-6">
+                        {linkedNotice && (
+                            <div className="space-y-2">
+                                <p className="text-sm font-semibold text-text/70 flex items-center gap-1">
+                                    <span className="material-symbols-outlined text-base">link</span>
+                                    Linked notice
+                                </p>
+                                <NoticeCard notice={linkedNotice} onOpenImages={openImages} />
+                            </div>
+                        )}
                         {loading ? (
                             <p className="text-center text-text/70">Loading notices...</p>
+                        ) : error ? (
+                            <div className="text-center py-12 bg-surface rounded-xl border border-border">
+                                <span className="material-symbols-outlined text-5xl text-red-400/70">error</span>
+                                <p className="mt-4 text-text/70">{error}</p>
+                            </div>
                         ) : notices.length > 0 ? (
-                            notices.map((notice) => {
-                                const imageAttachments = notice.attachments?.filter(att => att.type === 'image') || [];
-                                const pdfAttachments = notice.attachments?.filter(att => att.type === 'pdf') || [];
-
-                                return (
-                                    <div key={notice.id} id={`notice-${notice.id}`} className="bg-surface border border-border rounded-xl shadow-lg p-6 hover:shadow-primary/20 transition-shadow duration-300">
-                                        <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-2 mb-3">
-                                            <h2 className="text-xl font-bold text-text">{notice.title}</h2>
-                                            <span className={`text-xs font-semibold px-2.5 py-1 rounded-full shrink-0 ${getTypeColor(notice.category)}`}>
-                                                {notice.category}
-                                            </span>
-                                        </div>
-                                        <div className="text-sm text-text/70 flex items-center gap-4 mb-4">
-                                            <span>
-                                                <span className="font-semibold">Published on:</span> {notice.createdAt ? new Date(notice.createdAt).toLocaleDateString() : 'N/A'}
-                                            </span>
-                                            <span>|</span>
-                                            <span>
-                                                <span className="font-semibold">By:</span> {notice.author || 'Admin'}
-                                            </span>
-                                        </div>
-                                        <ExpandableContent content={notice.content} truncateLength={300} />
-
-                                        {(imageAttachments.length > 0 || pdfAttachments.length > 0) && (
-                                            <div className="mt-4 pt-4 border-t border-border">
-                                                <p className="text-sm font-semibold text-text/80 mb-2">Attachments:</p>
-                                                
-                                                {/* Image Attachments */}
-                                                {imageAttachments.length > 0 && (
-                                                    <div className="flex flex-wrap gap-4">
-                                                        {imageAttachments.map((att, index) => (
-                                                            <div
-                                                                key={att.path}
-                                                                onClick={() => setLightboxState({ images: imageAttachments, startIndex: index, noticeTitle: notice.title })}
-                                                                className="w-full max-w-[336px] h-[192px] rounded-lg overflow-hidden cursor-pointer group bg-black/20 border border-border"
-                                                            >
-                                                                <img 
-                                                                    src={att.url} 
-                                                                    alt={att.name} 
-                                                                    className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-110" 
-                                                                />
-                                                            </div>
-                                                        ))}
-                                                    </div>
-                                                )}
-
-                                                {/* PDF Attachments */}
-                                                {pdfAttachments.length > 0 && (
-                                                    <div className={`space-y-2 ${imageAttachments.length > 0 ? 'mt-4' : ''}`}>
-                                                        {pdfAttachments.map(att => (
-                                                            <a 
-                                                                key={att.path}
-                                                                href={att.url} 
-                                                                target="_blank" 
-                                                                rel="noopener noreferrer" 
-                                                                className="inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-semibold bg-red-500/10 hover:bg-red-500/20 text-red-300 transition-colors border border-red-500/20"
-                                                            >
-                                                                <span className="material-symbols-outlined">picture_as_pdf</span>
-                                                                {att.name}
-                                                            </a>
-                                                        ))}
-                                                    </div>
-                                                )}
-                                            </div>
-                                        )}
-                                    </div>
-                                );
-                            })
+                            notices.map((notice) => (
+                                <NoticeCard key={notice.id} notice={notice} onOpenImages={openImages} />
+                            ))
                         ) : (
                             <div className="text-center py-12 bg-surface rounded-xl border border-border">
-                                <span className="material-symbols-outlined text-5xl text-text/50">inbox</span>
-                                <p className="mt-4 text-text/70">No notices have been published yet. Please check back later.</p>
+                                <span className="material-symbols-outlined text-5xl text-text/50">{hasFilters ? 'search_off' : 'inbox'}</span>
+                                <p className="mt-4 text-text/70">
+                                    {hasFilters ? 'No notices match your search. Try different keywords or filters.' : 'No notices have been published yet. Please check back later.'}
+                                </p>
                             </div>
                         )}
                     </div>
+
+                    {/* --- Pagination --- */}
+                    {!loading && !error && totalCount > PAGE_SIZE && (
+                        <div className="mt-10 flex flex-col sm:flex-row items-center justify-between gap-4 text-sm text-text/70">
+                            <span>Showing {rangeStart}–{rangeEnd} of {totalCount}</span>
+                            <div className="flex items-center gap-2">
+                                <button
+                                    onClick={() => goToPage(page - 1)}
+                                    disabled={page <= 1}
+                                    className="inline-flex items-center gap-1 px-3 py-2 rounded-lg bg-surface border border-border hover:bg-white/5 disabled:opacity-40 disabled:cursor-not-allowed"
+                                >
+                                    <span className="material-symbols-outlined text-base">chevron_left</span>
+                                    Previous
+                                </button>
+                                <span className="px-2">Page {page} of {totalPages}</span>
+                                <button
+                                    onClick={() => goToPage(page + 1)}
+                                    disabled={page >= totalPages}
+                                    className="inline-flex items-center gap-1 px-3 py-2 rounded-lg bg-surface border border-border hover:bg-white/5 disabled:opacity-40 disabled:cursor-not-allowed"
+                                >
+                                    Next
+                                    <span className="material-symbols-outlined text-base">chevron_right</span>
+                                </button>
+                            </div>
+                        </div>
+                    )}
                 </div>
             </div>
         </>
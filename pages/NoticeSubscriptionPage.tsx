@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { supabase } from '../supabase';
+
+// Landing page for the confirm/unsubscribe links in notice alert emails. The
+// notice-subscriptions edge function redirects here with ?action=&token=, and
+// nothing changes until the visitor presses the button (link scanners open
+// the links too). ?status= shows a result directly.
+const messages: Record<string, { icon: string; iconClass: string; title: string; body: string }> = {
+    confirmed: {
+        icon: 'mark_email_read',
+        iconClass: 'text-green-400',
+        title: 'Subscription confirmed',
+        body: "You'll now get an email when matching notices are published.",
+    },
+    unsubscribed: {
+        icon: 'unsubscribe',
+        iconClass: 'text-text/60',
+        title: 'You have been unsubscribed',
+        body: "You won't receive any more notice alerts. You can subscribe again from the notice board at any time.",
+    },
+    invalid: {
+        icon: 'link_off',
+        iconClass: 'text-red-400',
+        title: 'This link is no longer valid',
+        body: 'The link may have expired or already been used. Subscribe again from the notice board if you still want alerts.',
+    },
+};
+
+const actions = {
+    confirm: {
+        icon: 'mark_email_unread',
+        title: 'Confirm your subscription',
+        body: 'Press the button below to start receiving notice alerts at this address.',
+        button: 'Confirm subscription',
+        done: 'confirmed',
+    },
+    unsubscribe: {
+        icon: 'unsubscribe',
+        title: 'Unsubscribe from notice alerts?',
+        body: "You won't receive any more notice alert emails at this address.",
+        button: 'Unsubscribe',
+        done: 'unsubscribed',
+    },
+} as const;
+
+const NoticeSubscriptionPage: React.FC = () => {
+    const [searchParams] = useSearchParams();
+    const [status, setStatus] = useState<string | null>(searchParams.get('status'));
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const actionName = searchParams.get('action');
+    const token = searchParams.get('token');
+    const action = !status && token && (actionName === 'confirm' || actionName === 'unsubscribe') ? actions[actionName] : null;
+
+    const handleSubmit = async () => {
+        if (!action || !actionName || !token) return;
+        setIsSubmitting(true);
+        setError(null);
+        const { data, error: invokeError } = await supabase.functions.invoke(`notice-subscriptions/${actionName}?token=${encodeURIComponent(token)}`, { method: 'POST', body: {} });
+        setIsSubmitting(false);
+        if (invokeError && !('context' in invokeError && (invokeError.context as Response).status === 400)) {
+            setError('Something went wrong. Please try again later.');
+            return;
+        }
+        setStatus(data?.ok ? action.done : 'invalid');
+    };
+
+    if (action) {
+        return (
+            <div className="px-4 sm:px-6 lg:px-8 py-24">
+                <div className="max-w-lg mx-auto text-center bg-surface border border-border rounded-xl p-10">
+                    <span className="material-symbols-outlined text-6xl text-primary">{action.icon}</span>
+                    <h1 className="mt-4 text-2xl font-bold text-text">{action.title}</h1>
+                    <p className="mt-2 text-text/70">{action.body}</p>
+                    {error && <p className="mt-4 text-sm text-red-400">{error}</p>}
+                    <button
+                        onClick={handleSubmit}
+                        disabled={isSubmitting}
+                        className="mt-8 inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold bg-primary hover:bg-primary/90 text-white disabled:opacity-60"
+                    >
+                        {isSubmitting ? 'Please wait...' : action.button}
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    const message = messages[status || ''] || messages.invalid;
+
+    return (
+        <div className="px-4 sm:px-6 lg:px-8 py-24">
+            <div className="max-w-lg mx-auto text-center bg-surface border border-border rounded-xl p-10">
+                <span className={`material-symbols-outlined text-6xl ${message.iconClass}`}>{message.icon}</span>
+                <h1 className="mt-4 text-2xl font-bold text-text">{message.title}</h1>
+                <p className="mt-2 text-text/70">{message.body}</p>
+                <Link to="/notice" className="mt-8 inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold bg-primary hover:bg-primary/90 text-white">
+                    <span className="material-symbols-outlined text-base">campaign</span>
+                    Go to Notice Board
+                </Link>
+            </div>
+        </div>
+    );
+};
+
+export default NoticeSubscriptionPage;
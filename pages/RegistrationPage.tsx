@@ -0,0 +1,152 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { supabase } from '../supabase';
+import { useLanguage } from '../components/LanguageContext';
+import { formatConfirmationCode, normalizeConfirmationCode } from '../utils/eventRegistration';
+
+interface RegistrationDetails {
+    confirmation_code: string;
+    status: 'confirmed' | 'waitlisted' | 'cancelled';
+    full_name: string;
+    roll: string;
+    semester: string | null;
+    shift: string | null;
+    registered_at: string;
+    waitlist_position: number | null;
+    event_id: string;
+    event_title: string;
+    event_title_bn: string | null;
+    event_date: string;
+    can_cancel: boolean;
+}
+
+const statusDetails: Record<RegistrationDetails['status'], { icon: string; className: string; label: string }> = {
+    confirmed: { icon: 'check_circle', className: 'text-green-400', label: 'Confirmed' },
+    waitlisted: { icon: 'hourglass_top', className: 'text-amber-300', label: 'On the waitlist' },
+    cancelled: { icon: 'cancel', className: 'text-red-400', label: 'Cancelled' },
+};
+
+// Self-service page for event registrations: anyone with the confirmation code
+// shown after registering can check its status or cancel it.
+const RegistrationPage: React.FC = () => {
+    const { code } = useParams<{ code: string }>();
+    const navigate = useNavigate();
+    const { localize } = useLanguage();
+    const [codeInput, setCodeInput] = useState('');
+    const [registration, setRegistration] = useState<RegistrationDetails | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [isCancelling, setIsCancelling] = useState(false);
+
+    const fetchRegistration = async (lookupCode: string) => {
+        setLoading(true);
+        setError(null);
+        const { data, error } = await supabase.rpc('get_registration_by_code', { p_code: lookupCode });
+        if (error) {
+            console.error("Error looking up registration:", error.message);
+            setError('Could not look up the registration. Please try again later.');
+            setRegistration(null);
+        } else {
+            const found = (data as RegistrationDetails[] | null)?.[0] ?? null;
+            setRegistration(found);
+            if (!found) setError('No registration matches this confirmation code. Check the code and try again.');
+        }
+        setLoading(false);
+    };
+
+    useEffect(() => {
+        setCodeInput(code ? formatConfirmationCode(normalizeConfirmationCode(code)) : '');
+        if (code) {
+            fetchRegistration(code);
+        } else {
+            setRegistration(null);
+            setError(null);
+        }
+    }, [code]);
+
+    const handleLookup = (e: React.FormEvent) => {
+        e.preventDefault();
+        const normalized = normalizeConfirmationCode(codeInput);
+        if (!normalized) return;
+        if (normalized === code) fetchRegistration(normalized);
+        else navigate(`/registration/${normalized}`);
+    };
+
+    const handleCancel = async () => {
+        if (!registration || !window.confirm('Cancel this registration? Your seat will go to the next person on the waitlist, and this cannot be undone.')) return;
+        setIsCancelling(true);
+        const { error } = await supabase.rpc('cancel_registration_by_code', { p_code: registration.confirmation_code });
+        setIsCancelling(false);
+        if (error) {
+            alert(error.code === 'P0001' ? error.message : `Could not cancel the registration: ${error.message}`);
+            return;
+        }
+        await fetchRegistration(registration.confirmation_code);
+    };
+
+    const status = registration ? statusDetails[registration.status] : null;
+
+    return (
+        <div className="px-4 sm:px-6 lg:px-8 py-24">
+            <div className="max-w-lg mx-auto bg-surface border border-border rounded-xl p-8 sm:p-10">
+                <h1 className="text-2xl font-bold text-text text-center">Your Event Registration</h1>
+                <p className="mt-2 text-sm text-text/70 text-center">Enter the confirmation code you received when you registered.</p>
+
+                <form onSubmit={handleLookup} className="mt-6 flex gap-2">
+                    <input
+                        type="text"
+                        value={codeInput}
+                        onChange={e => setCodeInput(e.target.value)}
+                        placeholder="XXXXX-XXXXX"
+                        aria-label="Confirmation code"
+                        autoCapitalize="characters"
+                        className="flex-grow rounded-lg border border-border bg-surface/50 px-3 py-2 text-text font-mono tracking-widest uppercase"
+                    />
+                    <button type="submit" disabled={loading || !normalizeConfirmationCode(codeInput)} className="px-4 py-2 rounded-lg text-sm font-semibold bg-primary hover:bg-primary/90 text-white disabled:opacity-50">
+                        {loading ? 'Checking...' : 'Look up'}
+                    </button>
+                </form>
+
+                {error && <p className="mt-4 text-sm text-center text-red-400 bg-red-500/10 p-3 rounded-md">{error}</p>}
+
+                {registration && status && !loading && (
+                    <div className="mt-8 border-t border-border pt-6">
+                        <div className="text-center">
+                            <span className={`material-symbols-outlined text-5xl ${status.className}`}>{status.icon}</span>
+                            <h2 className={`mt-2 text-xl font-semibold ${status.className}`}>
+                                {status.label}
+                                {registration.status === 'waitlisted' && registration.waitlist_position && ` (#${registration.waitlist_position})`}
+                            </h2>
+                        </div>
+                        <dl className="mt-6 grid grid-cols-3 gap-x-4 gap-y-3 text-sm">
+                            <dt className="text-text/60">Event</dt>
+                            <dd className="col-span-2 text-text font-semibold">
+                                <Link to={`/event/${registration.event_id}`} className="hover:underline">{localize(registration.event_title, registration.event_title_bn)}</Link>
+                            </dd>
+                            <dt className="text-text/60">Date</dt>
+                            <dd className="col-span-2 text-text">{new Date(registration.event_date).toLocaleString()}</dd>
+                            <dt className="text-text/60">Name</dt>
+                            <dd className="col-span-2 text-text">{registration.full_name}</dd>
+                            <dt className="text-text/60">Roll</dt>
+                            <dd className="col-span-2 text-text">{registration.roll}</dd>
+                            {registration.semester && (<><dt className="text-text/60">Semester</dt><dd className="col-span-2 text-text">{registration.semester}{registration.shift ? ` · ${registration.shift}` : ''}</dd></>)}
+                            <dt className="text-text/60">Registered</dt>
+                            <dd className="col-span-2 text-text">{new Date(registration.registered_at).toLocaleString()}</dd>
+                        </dl>
+                        {registration.status === 'waitlisted' && (
+                            <p className="mt-6 text-sm text-text/70">If a confirmed attendee cancels, the next person on the waitlist gets their seat automatically. Check back here for updates.</p>
+                        )}
+                        {registration.can_cancel && (
+                            <button onClick={handleCancel} disabled={isCancelling} className="mt-8 w-full flex items-center justify-center gap-2 px-4 py-2 rounded-lg text-sm font-semibold bg-red-600/80 hover:bg-red-600 text-white disabled:opacity-50">
+                                <span className="material-symbols-outlined text-base">event_busy</span>
+                                {isCancelling ? 'Cancelling...' : 'Cancel Registration'}
+                            </button>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default RegistrationPage;
@@ -2,14 +2,14 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { supabase } from '../supabase';
 import { motion, AnimatePresence } from 'framer-motion';
-import * as pdfjsLib from 'pdfjs-dist';
 import { jsPDF } from 'jspdf';
 import autoTable from 'jspdf-autotable';
+import { DROPOUT_REFERRED_THRESHOLD, fromFinalResultRow, type FinalResultData, type FinalResultRow, type FinalResultStatus } from '../utils/resultParser';
+import { buildResultHistory, type ResultHistory } from '../utils/resultHistory';
+import { buildVerificationUrl, createQrDataUrl, finalResultReference, type VerificationKind } from '../utils/verification';
+import { DEFAULT_GRADING_SCHEME, GRADING_SCHEME_SETTING_KEY, gradeResult, parseGradingScheme, type GradingScheme } from '../utils/grading';
 
 
-// Setup for pdf.js worker to enable PDF processing in the browser.
-// pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/4.5.136/pdf.worker.mjs';
- pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.mjs`;
 // --- Types for Results ---
 interface OtherSubjectResult {
     subject_name: string;
@@ -28,24 +28,79 @@ interface OtherResult {
     percentage?: number;
 }
 
-interface FinalResultData {
-    roll: string;
-    gpas: { semester: string; gpa: string }[];
-    referredSubjects: string[];
-    status?: 'dropout';
-}
-
 interface FinalResultSession {
     session_name: string;
     pdf_path: string;
+    indexed_count: number | null;
 }
 
 
+// --- PDF helpers ---
+// jsPDF needs images as data URLs. Returns null when the logo can't be loaded
+// (e.g. the host doesn't allow CORS), so the PDF is still generated without it.
+const loadImageAsDataUrl = async (url: string): Promise<string | null> => {
+    try {
+        const response = await fetch(url);
+        if (!response.ok) return null;
+        const blob = await response.blob();
+        return await new Promise<string | null>(resolve => {
+            const reader = new FileReader();
+            reader.onloadend = () => resolve(typeof reader.result === 'string' ? reader.result : null);
+            reader.onerror = () => resolve(null);
+            reader.readAsDataURL(blob);
+        });
+    } catch {
+        return null;
+    }
+};
+
+const imageFormatFromDataUrl = (dataUrl: string) => (dataUrl.match(/^data:image\/(\w+)/)?.[1] || 'png').toUpperCase();
+
+interface IssuedVerification {
+    id: string;
+    url: string;
+    qrDataUrl: string;
+}
+
+// Registers the downloaded result with the server. Returns null if that fails,
+// so the student still gets the PDF, just without the verification block.
+const issueVerification = async (kind: VerificationKind, reference: string): Promise<IssuedVerification | null> => {
+    try {
+        const { data, error } = await supabase.rpc('issue_result_verification', { p_kind: kind, p_reference: reference });
+        if (error) throw error;
+        const id = data as string;
+        const url = buildVerificationUrl(id);
+        return { id, url, qrDataUrl: await createQrDataUrl(url) };
+    } catch (error: any) {
+        console.error("Could not issue a verification ID:", error.message);
+        return null;
+    }
+};
+
+// QR code and ID in the bottom-right corner of the last page, above the footer.
+const drawVerificationBlock = (doc: jsPDF, verification: IssuedVerification, pageHeight: number) => {
+    const size = 26;
+    const x = 195 - size;
+    const y = pageHeight - 36 - size;
+    doc.addImage(verification.qrDataUrl, 'PNG', x, y, size, size);
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(110);
+    doc.text(`ID: ${verification.id}`, x + size / 2, y + size + 4, { align: 'center' });
+    doc.setTextColor(40, 40, 40);
+};
+
+
 // --- Components for Displaying Results ---
 
-const FinalResultDisplay: React.FC<{ result: FinalResultData; onSearchAgain: () => void }> = ({ result, onSearchAgain }) => {
-    
-    const handleDownloadPdf = () => {
+const FinalResultDisplay: React.FC<{ result: FinalResultData; sessionName: string; onSearchAgain: () => void }> = ({ result, sessionName, onSearchAgain }) => {
+    const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
+
+    const handleDownloadPdf = async () => {
+        setIsGeneratingPdf(true);
+        const verification = await issueVerification('final', finalResultReference(sessionName, result.roll));
+        setIsGeneratingPdf(false);
+
         const doc = new jsPDF();
         const pageHeight = doc.internal.pageSize.height || doc.internal.pageSize.getHeight();
         let y = 20;
@@ -63,6 +118,7 @@ const FinalResultDisplay: React.FC<{ result: FinalResultData; onSearchAgain: ()
         // --- Student Info ---
         doc.setFontSize(14);
         doc.text(`Roll Number: ${result.roll}`, 20, y);
+        doc.text(`Session: ${sessionName}`, 120, y);
         y += 15;
 
         if (result.status === 'dropout') {
@@ -74,7 +130,7 @@ const FinalResultDisplay: React.FC<{ result: FinalResultData; onSearchAgain: ()
             doc.setFontSize(12);
             doc.setFont('helvetica', 'normal');
             doc.setTextColor(40, 40, 40);
-            doc.text('This student is marked as a drop out due to having 4 or more referred subjects.', 105, 130, { align: 'center' });
+            doc.text(`This student is marked as a drop out due to having ${DROPOUT_REFERRED_THRESHOLD} or more referred subjects.`, 105, 130, { align: 'center' });
         } else {
             // --- GPA Table ---
             doc.setFontSize(16);
@@ -134,6 +190,12 @@ const FinalResultDisplay: React.FC<{ result: FinalResultData; onSearchAgain: ()
             year: 'numeric', month: 'short', day: 'numeric',
             hour: '2-digit', minute: '2-digit', hour12: true
         });
+        if (verification) {
+            drawVerificationBlock(doc, verification, pageHeight);
+            doc.setFontSize(8);
+            doc.setTextColor(150);
+            doc.text(`Verify this document at ${verification.url}`, 105, pageHeight - 25, { align: 'center' });
+        }
         doc.setFontSize(10);
         doc.setTextColor(150);
         doc.text(`Generated on ${dateTime}`, 105, pageHeight - 20, { align: 'center' });
@@ -178,10 +240,11 @@ const FinalResultDisplay: React.FC<{ result: FinalResultData; onSearchAgain: ()
                     </button>
                      <button 
                         onClick={handleDownloadPdf} 
-                        className="w-full sm:w-auto flex items-center justify-center gap-2 border-2 border-secondary text-secondary font-bold py-3 px-8 rounded-lg hover:bg-secondary hover:text-white transition-all duration-300 transform hover:scale-105 shadow-lg"
+                        disabled={isGeneratingPdf}
+                        className="w-full sm:w-auto flex items-center justify-center gap-2 border-2 border-secondary text-secondary font-bold py-3 px-8 rounded-lg hover:bg-secondary hover:text-white transition-all duration-300 transform hover:scale-105 shadow-lg disabled:opacity-50"
                     >
                          <span className="material-symbols-outlined">download</span>
-                         Download PDF
+                         {isGeneratingPdf ? 'Generating...' : 'Download PDF'}
                     </button>
                 </div>
             </div>
@@ -252,10 +315,11 @@ const FinalResultDisplay: React.FC<{ result: FinalResultData; onSearchAgain: ()
                 </button>
                  <button 
                     onClick={handleDownloadPdf} 
-                    className="w-full sm:w-auto flex items-center justify-center gap-2 border-2 border-secondary text-secondary font-bold py-3 px-8 rounded-lg hover:bg-secondary hover:text-white transition-all duration-300 transform hover:scale-105 shadow-lg"
+                    disabled={isGeneratingPdf}
+                    className="w-full sm:w-auto flex items-center justify-center gap-2 border-2 border-secondary text-secondary font-bold py-3 px-8 rounded-lg hover:bg-secondary hover:text-white transition-all duration-300 transform hover:scale-105 shadow-lg disabled:opacity-50"
                 >
                      <span className="material-symbols-outlined">download</span>
-                     Download PDF
+                     {isGeneratingPdf ? 'Generating...' : 'Download PDF'}
                 </button>
             </div>
         </div>
@@ -263,10 +327,105 @@ const FinalResultDisplay: React.FC<{ result: FinalResultData; onSearchAgain: ()
 };
 
 
-const OtherResultDisplay: React.FC<{ result: OtherResult; onSearchAgain: () => void }> = ({ result, onSearchAgain }) => {
-    const totalMarks = result.subjects.reduce((sum, s) => sum + (s.total_marks || 0), 0);
-    const obtainedMarks = result.subjects.reduce((sum, s) => sum + (s.marks_obtained || 0), 0);
-    const percentage = totalMarks > 0 ? (obtainedMarks / totalMarks) * 100 : 0;
+const OtherResultDisplay: React.FC<{ result: OtherResult; gradingScheme: GradingScheme; logoUrl: string; onSearchAgain: () => void }> = ({ result, gradingScheme, logoUrl, onSearchAgain }) => {
+    const graded = gradeResult(result.subjects, gradingScheme);
+    const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
+
+    const handleDownloadPdf = async () => {
+        setIsGeneratingPdf(true);
+        try {
+            const doc = new jsPDF();
+            const pageHeight = doc.internal.pageSize.height || doc.internal.pageSize.getHeight();
+            let y = 15;
+
+            // --- Header ---
+            const [logo, verification] = await Promise.all([
+                loadImageAsDataUrl(logoUrl),
+                issueVerification('other', String(result.id)),
+            ]);
+            if (logo) {
+                doc.addImage(logo, imageFormatFromDataUrl(logo), 15, y, 22, 22);
+            }
+            doc.setFontSize(18);
+            doc.setFont('helvetica', 'bold');
+            doc.setTextColor(40, 40, 40);
+            doc.text('Dinajpur Polytechnic Institute', 105, y + 7, { align: 'center' });
+            doc.setFontSize(12);
+            doc.setFont('helvetica', 'normal');
+            doc.text('Computer Department', 105, y + 14, { align: 'center' });
+            doc.setFontSize(15);
+            doc.setFont('helvetica', 'bold');
+            doc.text(`Marksheet - ${result.exam_name}`, 105, y + 24, { align: 'center' });
+            y += 30;
+            doc.setDrawColor(10, 35, 66);
+            doc.line(15, y, 195, y);
+            y += 10;
+
+            // --- Student Info ---
+            doc.setFontSize(12);
+            doc.setFont('helvetica', 'normal');
+            doc.text(`Name: ${result.student_name}`, 20, y);
+            doc.text(`Roll Number: ${result.roll_number}`, 120, y);
+            y += 8;
+            doc.text(`Semester: ${result.semester}`, 20, y);
+            doc.text(`Group: ${result.student_group}`, 120, y);
+            y += 8;
+
+            // --- Subject Table ---
+            autoTable(doc, {
+                head: [['Subject', 'Marks Obtained', 'Total Marks', 'Grade', 'Grade Point']],
+                body: graded.subjects.map(s => [s.subject_name, String(s.marks_obtained), String(s.total_marks), s.letter, s.gradePoint.toFixed(2)]),
+                foot: [['Total', String(graded.obtainedMarks), String(graded.totalMarks), graded.letter, graded.gpa.toFixed(2)]],
+                startY: y,
+                theme: 'grid',
+                headStyles: { fillColor: [10, 35, 66] },
+                footStyles: { fillColor: [230, 234, 240], textColor: [40, 40, 40] },
+                columnStyles: { 1: { halign: 'center' }, 2: { halign: 'center' }, 3: { halign: 'center' }, 4: { halign: 'center' } },
+                didParseCell: (data) => {
+                    if (data.section === 'body' && data.column.index === 3) {
+                        data.cell.styles.textColor = data.cell.raw === 'F' ? [239, 68, 68] : [34, 197, 94];
+                        data.cell.styles.fontStyle = 'bold';
+                    }
+                }
+            });
+            y = (doc as any).lastAutoTable.finalY + 12;
+
+            // --- Summary ---
+            if (y > pageHeight - 70) { doc.addPage(); y = 20; }
+            doc.setFontSize(12);
+            doc.setFont('helvetica', 'normal');
+            doc.text(`Percentage: ${graded.percentage.toFixed(2)}%`, 20, y);
+            doc.text(`GPA: ${graded.gpa.toFixed(2)} (${graded.letter})`, 90, y);
+            doc.setFont('helvetica', 'bold');
+            if (graded.passed) doc.setTextColor(34, 197, 94);
+            else doc.setTextColor(239, 68, 68);
+            doc.text(`Result: ${graded.passed ? 'PASSED' : 'FAILED'}`, 150, y);
+            doc.setTextColor(40, 40, 40);
+
+            // --- Verification Footer ---
+            const dateTime = new Date().toLocaleString('en-US', {
+                year: 'numeric', month: 'short', day: 'numeric',
+                hour: '2-digit', minute: '2-digit', hour12: true
+            });
+            const footerY = pageHeight - 30;
+            doc.setDrawColor(200);
+            doc.line(15, footerY, 195, footerY);
+            doc.setFontSize(9);
+            doc.setFont('helvetica', 'normal');
+            doc.setTextColor(110);
+            doc.text(`Reference: ${result.exam_name} / ${result.semester} / Group ${result.student_group} / Roll ${result.roll_number}`, 105, footerY + 6, { align: 'center' });
+            doc.text(`Generated on ${dateTime}. This is a computer-generated marksheet and does not require a signature.`, 105, footerY + 11, { align: 'center' });
+            doc.text(verification ? `Verify this marksheet at ${verification.url}` : `Verify these marks at ${window.location.origin}/#/results`, 105, footerY + 16, { align: 'center' });
+            if (verification) drawVerificationBlock(doc, verification, pageHeight);
+
+            doc.save(`DPI_${result.exam_name.replace(/\s+/g, '_')}_${result.roll_number}.pdf`);
+        } catch (error: any) {
+            console.error("Error generating marksheet PDF:", error.message);
+            alert(`Could not generate the PDF: ${error.message || 'Please try again.'}`);
+        } finally {
+            setIsGeneratingPdf(false);
+        }
+    };
 
     return (
     <div className="w-full max-w-3xl bg-surface border border-border rounded-2xl shadow-2xl p-6 md:p-8 transition-all duration-300">
@@ -283,14 +442,18 @@ const OtherResultDisplay: React.FC<{ result: OtherResult; onSearchAgain: () => v
                             <th className="p-4 font-semibold text-text/90">Subject Name</th>
                             <th className="p-4 font-semibold text-text/90 text-center">Marks Obtained</th>
                             <th className="p-4 font-semibold text-text/90 text-center">Total Marks</th>
+                            <th className="p-4 font-semibold text-text/90 text-center">Grade</th>
+                            <th className="p-4 font-semibold text-text/90 text-center">Grade Point</th>
                         </tr>
                     </thead>
                     <tbody>
-                        {result.subjects.map((subject, index) => (
+                        {graded.subjects.map((subject, index) => (
                             <tr key={index} className="border-t border-border">
                                 <td className="p-4 text-text/90">{subject.subject_name}</td>
                                 <td className="p-4 text-center font-bold text-lg text-primary">{subject.marks_obtained}</td>
                                 <td className="p-4 text-center text-text/80">{subject.total_marks}</td>
+                                <td className={`p-4 text-center font-bold ${subject.passed ? 'text-green-400' : 'text-red-400'}`}>{subject.letter}</td>
+                                <td className="p-4 text-center text-text/80">{subject.gradePoint.toFixed(2)}</td>
                             </tr>
                         ))}
                     </tbody>
@@ -299,12 +462,135 @@ const OtherResultDisplay: React.FC<{ result: OtherResult; onSearchAgain: () => v
         </div>
         <div className="mt-8 pt-6 border-t border-border/50 text-center">
             <p className="text-xl font-bold text-text">
-                Total Marks: <span className="text-primary text-2xl">{obtainedMarks} / {totalMarks}</span>
+                Total Marks: <span className="text-primary text-2xl">{graded.obtainedMarks} / {graded.totalMarks}</span>
             </p>
             <p className="text-lg font-semibold text-green-400 mt-2">
-                Percentage: {percentage.toFixed(2)}%
+                Percentage: {graded.percentage.toFixed(2)}%
             </p>
+            <div className="flex justify-center items-center gap-4 mt-4">
+                <p className="text-lg font-semibold text-text">GPA: <span className="text-primary">{graded.gpa.toFixed(2)}</span> ({graded.letter})</p>
+                <span className={`px-3 py-1 rounded-full text-sm font-bold ${graded.passed ? 'bg-green-500/20 text-green-300' : 'bg-red-500/20 text-red-300'}`}>
+                    {graded.passed ? 'Passed' : 'Failed'}
+                </span>
+            </div>
         </div>
+        <div className="text-center mt-10 flex flex-col sm:flex-row justify-center items-center gap-4">
+             <button 
+                onClick={onSearchAgain} 
+                className="w-full sm:w-auto bg-gradient-to-r from-primary to-secondary text-white font-bold py-3 px-8 rounded-lg hover:opacity-90 transition-all duration-300 transform hover:scale-105 shadow-lg"
+            >
+                 Check Another Result
+            </button>
+             <button 
+                onClick={handleDownloadPdf} 
+                disabled={isGeneratingPdf}
+                className="w-full sm:w-auto flex items-center justify-center gap-2 border-2 border-secondary text-secondary font-bold py-3 px-8 rounded-lg hover:bg-secondary hover:text-white transition-all duration-300 transform hover:scale-105 shadow-lg disabled:opacity-50"
+            >
+                 <span className="material-symbols-outlined">download</span>
+                 {isGeneratingPdf ? 'Generating...' : 'Download Marksheet'}
+            </button>
+        </div>
+    </div>
+)};
+
+const historyStatusStyles: Record<FinalResultStatus, string> = {
+    passed: 'bg-green-500/20 text-green-300',
+    referred: 'bg-amber-500/20 text-amber-300',
+    dropout: 'bg-red-500/20 text-red-300',
+};
+
+const ResultHistoryDisplay: React.FC<{ roll: string; studentName: string; history: ResultHistory; onSearchAgain: () => void }> = ({ roll, studentName, history, onSearchAgain }) => (
+    <div className="w-full max-w-4xl bg-surface border border-border rounded-2xl shadow-2xl p-6 md:p-8 transition-all duration-300 relative">
+        <button 
+            onClick={onSearchAgain} 
+            className="absolute top-4 right-4 text-text/60 hover:text-text/90 transition-colors p-1 rounded-full hover:bg-surface/80"
+            aria-label="Close result"
+        >
+            <span className="material-symbols-outlined">close</span>
+        </button>
+        <div className="text-center pb-6 border-b border-border/50">
+            <h2 className="text-3xl font-bold gradient-text">{studentName || 'Result History'}</h2>
+            <p className="text-text/80 mt-2">Roll Number: <span className="font-bold text-lg text-primary tracking-wider">{roll}</span></p>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-8 text-center">
+            <div className="bg-surface/50 border border-border rounded-lg p-4"><p className="text-2xl font-bold text-primary">{history.latestCgpa !== null ? history.latestCgpa.toFixed(2) : '-'}</p><p className="text-xs text-text/70 uppercase tracking-wide">CGPA</p></div>
+            <div className="bg-surface/50 border border-border rounded-lg p-4"><p className="text-2xl font-bold">{history.timeline.filter(e => e.kind === 'final').length}</p><p className="text-xs text-text/70 uppercase tracking-wide">Final Sessions</p></div>
+            <div className="bg-surface/50 border border-border rounded-lg p-4"><p className="text-2xl font-bold">{history.timeline.filter(e => e.kind === 'other').length}</p><p className="text-xs text-text/70 uppercase tracking-wide">Class Exams</p></div>
+            <div className="bg-surface/50 border border-border rounded-lg p-4"><p className={`text-2xl font-bold ${history.outstanding.length > 0 ? 'text-red-400' : 'text-green-400'}`}>{history.outstanding.length}</p><p className="text-xs text-text/70 uppercase tracking-wide">Outstanding Referred</p></div>
+        </div>
+
+        {history.isDropout && (
+            <p className="mt-6 text-center font-bold text-red-400 bg-red-500/10 p-3 rounded-lg border border-red-500/20">The latest result sheet marks this roll as DROP OUT.</p>
+        )}
+
+        {history.gpaTrend.length > 0 && (
+            <div className="mt-8">
+                <h3 className="font-semibold text-xl text-secondary mb-4 text-center">CGPA Trend</h3>
+                <div className="flex items-end justify-center gap-3 h-48 bg-surface/50 border border-border rounded-lg p-4">
+                    {history.gpaTrend.map(point => (
+                        <div key={point.semester} className="flex flex-col items-center justify-end h-full w-14">
+                            <span className={`text-xs font-bold mb-1 ${point.gpa === null ? 'text-red-400' : 'text-green-400'}`}>{point.gpa === null ? 'Ref.' : point.gpa.toFixed(2)}</span>
+                            <motion.div
+                                className={`w-full rounded-t ${point.gpa === null ? 'bg-red-500/40' : 'bg-gradient-to-t from-primary to-secondary'}`}
+                                initial={{ height: 0 }}
+                                animate={{ height: `${((point.gpa ?? 0.3) / 4) * 100}%` }}
+                                transition={{ duration: 0.5 }}
+                            />
+                            <span className="text-xs text-text/70 mt-1">{parseInt(point.semester, 10)}</span>
+                        </div>
+                    ))}
+                </div>
+                <p className="text-xs text-text/60 text-center mt-2">
+                    Running CGPA: {history.gpaTrend.map(p => p.cgpa !== null ? p.cgpa.toFixed(2) : '-').join(' → ')}
+                </p>
+                <p className="text-xs text-text/50 text-center mt-1">CGPA uses the BTEB semester weights (5, 5, 5, 10, 15, 20, 25, 15%) and is shown once every semester so far is passed.</p>
+            </div>
+        )}
+
+        {(history.outstanding.length > 0 || history.cleared.length > 0) && (
+            <div className="mt-8 grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="bg-red-500/10 p-4 rounded-lg border border-red-500/20">
+                    <h3 className="font-semibold text-red-400 mb-2 flex items-center gap-2"><span className="material-symbols-outlined">warning</span>Outstanding Referred Subjects</h3>
+                    {history.outstanding.length === 0 ? <p className="text-sm text-text/70">None. All referred subjects have been cleared.</p> : history.outstanding.map(r => (
+                        <p key={r.code} className="text-sm"><span className="font-mono">{r.code}</span> <span className="text-text/60">since {r.referredIn}</span></p>
+                    ))}
+                </div>
+                <div className="bg-green-500/10 p-4 rounded-lg border border-green-500/20">
+                    <h3 className="font-semibold text-green-400 mb-2 flex items-center gap-2"><span className="material-symbols-outlined">task_alt</span>Cleared Subjects</h3>
+                    {history.cleared.length === 0 ? <p className="text-sm text-text/70">None yet.</p> : history.cleared.map(r => (
+                        <p key={r.code} className="text-sm"><span className="font-mono line-through text-text/60">{r.code}</span> <span className="text-text/60">cleared in {r.clearedIn}</span></p>
+                    ))}
+                </div>
+            </div>
+        )}
+
+        <div className="mt-8">
+            <h3 className="font-semibold text-xl text-secondary mb-4 text-center">Timeline</h3>
+            <ol className="relative border-l border-border ml-3 space-y-6">
+                {history.timeline.map(entry => entry.kind === 'final' ? (
+                    <li key={`final-${entry.session_name}`} className="ml-6">
+                        <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-primary/30"><span className="material-symbols-outlined text-sm text-primary">school</span></span>
+                        <div className="flex flex-wrap items-center gap-2">
+                            <p className="font-semibold">Final Result &bull; {entry.session_name}</p>
+                            <span className={`text-xs font-semibold px-2 py-0.5 rounded-full capitalize ${historyStatusStyles[entry.status]}`}>{entry.status}</span>
+                        </div>
+                        <p className="text-sm text-text/80 mt-1">{entry.result.gpas.map(g => `${g.semester}: ${g.gpa}`).join(' • ') || 'No GPA information.'}</p>
+                        {entry.result.referredSubjects.length > 0 && <p className="text-xs font-mono text-red-300 mt-1">Ref: {entry.result.referredSubjects.join(', ')}</p>}
+                    </li>
+                ) : (
+                    <li key={`other-${entry.result.id}`} className="ml-6">
+                        <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full bg-secondary/30"><span className="material-symbols-outlined text-sm text-secondary">assignment</span></span>
+                        <div className="flex flex-wrap items-center gap-2">
+                            <p className="font-semibold">{entry.exam_name} &bull; {entry.semester}</p>
+                            <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${entry.graded.passed ? 'bg-green-500/20 text-green-300' : 'bg-red-500/20 text-red-300'}`}>{entry.graded.passed ? 'Passed' : 'Failed'}</span>
+                        </div>
+                        <p className="text-sm text-text/80 mt-1">{entry.graded.obtainedMarks} / {entry.graded.totalMarks} ({entry.graded.percentage.toFixed(2)}%) &bull; GPA {entry.graded.gpa.toFixed(2)} ({entry.graded.letter})</p>
+                    </li>
+                ))}
+            </ol>
+        </div>
+
         <div className="text-center mt-10">
              <button 
                 onClick={onSearchAgain} 
@@ -314,11 +600,12 @@ const OtherResultDisplay: React.FC<{ result: OtherResult; onSearchAgain: () => v
             </button>
         </div>
     </div>
-)};
+);
 
 const ResultsPage: React.FC = () => {
-    const [view, setView] = useState<'selection' | 'final' | 'other'>('selection');
+    const [view, setView] = useState<'selection' | 'final' | 'other' | 'history'>('selection');
     const [logoUrl, setLogoUrl] = useState('https://i.imgur.com/pWs3vnL.jpg');
+    const [gradingScheme, setGradingScheme] = useState<GradingScheme>(DEFAULT_GRADING_SCHEME);
 
     // State for Final Results (PDF Search)
     const [finalForm, setFinalForm] = useState({ roll: '', session: '' });
@@ -334,23 +621,30 @@ const ResultsPage: React.FC = () => {
     const [otherLoading, setOtherLoading] = useState(false);
     const [otherResult, setOtherResult] = useState<OtherResult | null>(null);
     const [otherNotFound, setOtherNotFound] = useState(false);
+
+    // State for Full History
+    const [historyRoll, setHistoryRoll] = useState('');
+    const [historyLoading, setHistoryLoading] = useState(false);
+    const [history, setHistory] = useState<{ roll: string; studentName: string; data: ResultHistory } | null>(null);
+    const [historyError, setHistoryError] = useState('');
     
     useEffect(() => {
         const fetchSessionsAndLogo = async () => {
-             const { data: logoData } = await supabase
+             const { data: settingsData } = await supabase
                 .from('site_settings')
-                .select('value')
-                .eq('key', 'site_logo_url')
-                .single();
-            if (logoData?.value) {
-                setLogoUrl(logoData.value);
+                .select('key, value')
+                .in('key', ['site_logo_url', GRADING_SCHEME_SETTING_KEY]);
+            const settings = new Map((settingsData || []).map(s => [s.key, s.value]));
+            if (settings.get('site_logo_url')) {
+                setLogoUrl(settings.get('site_logo_url'));
             }
+            setGradingScheme(parseGradingScheme(settings.get(GRADING_SCHEME_SETTING_KEY)));
 
             if (view === 'final') {
                 setSessionsLoading(true);
                 const { data, error } = await supabase
                     .from('final_result_sessions')
-                    .select('session_name, pdf_path')
+                    .select('session_name, pdf_path, indexed_count')
                     .not('pdf_path', 'is', null)
                     .order('session_name', { ascending: false });
 
@@ -382,127 +676,29 @@ const ResultsPage: React.FC = () => {
             if (!selectedSession || !selectedSession.pdf_path) {
                 throw new Error('Selected session is invalid or has no PDF associated with it.');
             }
-            
-            const { data: urlData } = supabase.storage
-                .from('results')
-                .getPublicUrl(selectedSession.pdf_path);
 
-            if (!urlData || !urlData.publicUrl) {
-                throw new Error('Results PDF URL could not be retrieved.');
-            }
-            
-            const headCheck = await fetch(urlData.publicUrl, { method: 'HEAD' });
-            if (!headCheck.ok) {
-                 setFinalNotFound(true);
-                 setPdfSearchError('The results PDF for this session could not be found. It may have been removed by an admin.');
-                 setFinalLoading(false);
-                 return;
-            }
+            const roll = finalForm.roll.trim();
+            const { data, error } = await supabase
+                .from('final_results')
+                .select('roll, gpas, referred_subjects, is_dropout')
+                .eq('session_name', selectedSession.session_name)
+                .eq('roll', roll)
+                .maybeSingle();
 
-            const loadingTask = pdfjsLib.getDocument(urlData.publicUrl);
-            const pdf = await loadingTask.promise;
-            let fullText = '';
-            for (let i = 1; i <= pdf.numPages; i++) {
-                const page = await pdf.getPage(i);
-                const textContent = await page.getTextContent();
-                fullText += textContent.items.map(item => 'str' in item ? item.str : '').join(' ');
-            }
-            
-            const sanitizedFullText = fullText.replace(/\s+/g, ' ');
-            const startIndex = sanitizedFullText.indexOf(finalForm.roll);
+            if (error) throw error;
 
-            if (startIndex === -1) {
+            if (!data) {
                 setFinalNotFound(true);
-                setPdfSearchError(`Roll number ${finalForm.roll} was not found in the results document for the ${finalForm.session} session.`);
-                setFinalLoading(false);
+                setPdfSearchError(selectedSession.indexed_count
+                    ? `Roll number ${roll} was not found in the results for the ${finalForm.session} session.`
+                    : `Results for the ${finalForm.session} session are still being prepared. Please check back later.`);
                 return;
             }
 
-            const searchArea = sanitizedFullText.substring(startIndex);
-            const nextRollRegex = /\b\d{6,}\b/;
-            const nextRollMatch = searchArea.substring(finalForm.roll.length).match(nextRollRegex);
-            const endIndex = nextRollMatch ? searchArea.indexOf(nextRollMatch[0], finalForm.roll.length) : searchArea.length;
-            const resultLine = searchArea.substring(0, endIndex);
-
-            // --- REFACTORED PARSING LOGIC ---
-            
-            // 1. Parse ALL potential data points from the result string.
-            const gpas: { semester: string; gpa: string }[] = [];
-            const referredSubjects: string[] = [];
-
-            // Parse GPAs from "gpaX: ..." format
-            const gpaRegex = /(gpa(\d)):\s*([\d.]+|[Rr]ef\b)/g;
-            let gpaMatch;
-            while ((gpaMatch = gpaRegex.exec(resultLine)) !== null) {
-                const semesterNum = gpaMatch[2];
-                let gpaValue = gpaMatch[3];
-                if (gpaValue.toLowerCase().startsWith('ref')) gpaValue = 'Ref.';
-                let semesterText = `${semesterNum}th Semester`;
-                if (semesterNum === '1') semesterText = '1st Semester';
-                else if (semesterNum === '2') semesterText = '2nd Semester';
-                else if (semesterNum === '3') semesterText = '3rd Semester';
-                gpas.push({ semester: semesterText, gpa: gpaValue });
-            }
-
-            // Parse referred subjects from both old ("ref_sub:") and new ("{...}") formats.
-            const refSubNewFormatMatch = resultLine.match(/\{([^{}]+)\}/);
-            const refSubOldFormatMatch = resultLine.match(/ref_sub:([\s\S]*)/);
-            let subjectsText = '';
-            if (refSubNewFormatMatch) subjectsText = refSubNewFormatMatch[1];
-            else if (refSubOldFormatMatch) subjectsText = refSubOldFormatMatch[1];
-            
-            if (subjectsText) {
-                const subjectCodeRegex = /\b\d+\s*\([^)]+\)/g;
-                const matches = subjectsText.match(subjectCodeRegex);
-                if (matches) referredSubjects.push(...matches.map(s => s.replace(/\s+/g, '')));
-            }
-
-            // Parse single GPA from format like "( 3.47 )"
-            const newPassMatch = resultLine.match(/\(\s*([\d.]+)\s*\)/);
-            
-            // 2. Now, apply logic based on parsed data.
-
-            // Drop Out Condition: 4 or more referred subjects and NO GPA data present at all.
-            if (referredSubjects.length >= 4 && gpas.length === 0 && !newPassMatch) {
-                setFinalResultData({
-                    roll: finalForm.roll,
-                    gpas: [],
-                    referredSubjects: [],
-                    status: 'dropout',
-                });
-                setFinalLoading(false);
-                return; // We're done for the dropout case.
-            }
-
-            // Handle cases where no "gpaX" tags were found (e.g., single-semester result sheets).
-            if (gpas.length === 0) {
-                if (newPassMatch) {
-                    gpas.push({ semester: '1st Semester', gpa: newPassMatch[1] });
-                } else if (referredSubjects.length > 0) {
-                    gpas.push({ semester: '1st Semester', gpa: 'Ref.' });
-                }
-            }
-            
-            // 3. Final check and set state.
-            if (gpas.length === 0 && referredSubjects.length === 0) {
-                 setFinalNotFound(true);
-                 setPdfSearchError(`Roll number ${finalForm.roll} was found, but no result data could be parsed. The PDF format might be unexpected.`);
-            } else {
-                 gpas.sort((a, b) => {
-                    const numA = parseInt(a.semester, 10);
-                    const numB = parseInt(b.semester, 10);
-                    return numA - numB; // Sort ascending: 1st, 2nd, etc.
-                });
-                
-                setFinalResultData({
-                    roll: finalForm.roll,
-                    gpas,
-                    referredSubjects,
-                });
-            }
+            setFinalResultData(fromFinalResultRow(data as FinalResultRow));
 
         } catch (error: any) {
-            console.error("Error searching PDF:", error.message);
+            console.error("Error fetching final result:", error.message);
             setPdfSearchError(`An error occurred: ${error.message}`);
             setFinalNotFound(true);
         } finally {
@@ -533,10 +729,43 @@ const ResultsPage: React.FC = () => {
         finally { setOtherLoading(false); }
     };
 
+    const handleHistorySubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const roll = historyRoll.trim();
+        if (!roll) return;
+
+        setHistoryLoading(true);
+        setHistory(null);
+        setHistoryError('');
+        try {
+            const [finalResponse, otherResponse] = await Promise.all([
+                supabase.from('final_results').select('session_name, roll, gpas, referred_subjects, is_dropout').eq('roll', roll),
+                supabase.from('other_results').select('*').eq('roll_number', roll),
+            ]);
+            if (finalResponse.error) throw finalResponse.error;
+            if (otherResponse.error) throw otherResponse.error;
+
+            const finals = (finalResponse.data as (FinalResultRow & { session_name: string })[]).map(row => ({ session_name: row.session_name, result: fromFinalResultRow(row) }));
+            const others = otherResponse.data as OtherResult[];
+            if (finals.length === 0 && others.length === 0) {
+                setHistoryError(`No results were found for roll number ${roll}.`);
+                return;
+            }
+
+            setHistory({ roll, studentName: others[0]?.student_name || '', data: buildResultHistory(finals, others, gradingScheme) });
+        } catch (error: any) {
+            console.error("Error fetching result history:", error.message);
+            setHistoryError(`An error occurred: ${error.message}`);
+        } finally {
+            setHistoryLoading(false);
+        }
+    };
+
     const resetAndGoToSelection = () => {
         setView('selection');
         setFinalResultData(null);
         setOtherResult(null);
+        setHistory(null);
     };
 
     const inputStyle = "w-full px-4 py-3 rounded-lg bg-surface border border-border text-text placeholder-text/60 focus:outline-none focus:ring-2 focus:ring-primary/80 transition-all duration-200 shadow-inner";
@@ -549,7 +778,7 @@ const ResultsPage: React.FC = () => {
         switch (view) {
             case 'selection':
                 return (
-                    <div className="w-full max-w-4xl grid grid-cols-1 md:grid-cols-2 gap-10">
+                    <div className="w-full max-w-6xl grid grid-cols-1 md:grid-cols-3 gap-10">
                         <motion.div 
                             whileHover={{ y: -8, scale: 1.02 }} 
                             onClick={() => setView('final')} 
@@ -572,12 +801,23 @@ const ResultsPage: React.FC = () => {
                             <h2 className="text-3xl font-bold mt-4 text-text">Other Results</h2>
                             <p className="text-text/70 mt-3">Check class tests, quizzes, and midterm exam results.</p>
                         </motion.div>
+                        <motion.div 
+                            whileHover={{ y: -8, scale: 1.02 }} 
+                            onClick={() => setView('history')} 
+                            className="bg-surface border border-border rounded-2xl shadow-xl p-8 text-center cursor-pointer hover:border-primary/80 transition-all duration-300 flex flex-col items-center justify-center"
+                        >
+                             <div className="p-5 rounded-full bg-primary/20 mb-4">
+                                <span className="material-symbols-outlined text-5xl text-primary">timeline</span>
+                            </div>
+                            <h2 className="text-3xl font-bold mt-4 text-text">Full History</h2>
+                            <p className="text-text/70 mt-3">See every result for your roll, your CGPA trend and outstanding referred subjects.</p>
+                        </motion.div>
                     </div>
                 );
 
             case 'final':
                 return finalResultData ? (
-                     <FinalResultDisplay result={finalResultData} onSearchAgain={resetAndGoToSelection} />
+                     <FinalResultDisplay result={finalResultData} sessionName={finalForm.session} onSearchAgain={resetAndGoToSelection} />
                 ) : (
                     <div className="w-full max-w-md">
                         <div className="bg-surface border border-border rounded-2xl p-8 shadow-2xl">
@@ -587,7 +827,7 @@ const ResultsPage: React.FC = () => {
                             </button>
                             <div className="text-center">
                                 <h2 className="text-3xl font-bold gradient-text">Final Result Check</h2>
-                                <p className="text-center text-base text-text/70 mt-2">Enter your roll number to search the official results PDF.</p>
+                                <p className="text-center text-base text-text/70 mt-2">Enter your roll number to find your official result.</p>
                             </div>
                             <form onSubmit={handleFinalSubmit} className="space-y-6 mt-8">
                                 <div>
@@ -617,8 +857,36 @@ const ResultsPage: React.FC = () => {
                     </div>
                 );
 
+            case 'history':
+                return history ? (
+                    <ResultHistoryDisplay roll={history.roll} studentName={history.studentName} history={history.data} onSearchAgain={resetAndGoToSelection} />
+                ) : (
+                    <div className="w-full max-w-md">
+                        <div className="bg-surface border border-border rounded-2xl p-8 shadow-2xl">
+                             <button onClick={() => setView('selection')} className="flex items-center gap-1 text-sm text-secondary mb-6 hover:underline">
+                                <span className="material-symbols-outlined text-base">arrow_back</span>
+                                Back to Selection
+                            </button>
+                            <div className="text-center">
+                                <h2 className="text-3xl font-bold gradient-text">Full Result History</h2>
+                                <p className="text-center text-base text-text/70 mt-2">Enter your roll number to see all of your results.</p>
+                            </div>
+                            <form onSubmit={handleHistorySubmit} className="space-y-6 mt-8">
+                                <div>
+                                    <label htmlFor="history-roll" className={labelStyle}>Roll Number{requiredSpan}</label>
+                                    <input type="number" id="history-roll" value={historyRoll} onChange={e => setHistoryRoll(e.target.value)} className={inputStyle} required placeholder="e.g., 702893" />
+                                </div>
+                                {historyError && <p className="text-center text-sm text-red-400 bg-red-500/10 p-3 rounded-md border border-red-500/20">{historyError}</p>}
+                                <button type="submit" disabled={historyLoading || !historyRoll} className="w-full bg-gradient-to-r from-primary to-secondary text-white font-bold py-3 px-6 rounded-lg hover:opacity-90 transition-all duration-300 transform hover:scale-105 shadow-lg disabled:opacity-50 disabled:scale-100">
+                                    {historyLoading ? 'Searching...' : 'Get History'}
+                                </button>
+                            </form>
+                        </div>
+                    </div>
+                );
+
             case 'other':
-                 return otherResult ? <OtherResultDisplay result={otherResult} onSearchAgain={resetAndGoToSelection} /> : (
+                 return otherResult ? <OtherResultDisplay result={otherResult} gradingScheme={gradingScheme} logoUrl={logoUrl} onSearchAgain={resetAndGoToSelection} /> : (
                     <div className="w-full max-w-lg">
                         <div className="bg-surface border border-border rounded-2xl p-8 shadow-2xl">
                              <button onClick={() => setView('selection')} className="flex items-center gap-1 text-sm text-secondary mb-6 hover:underline">
@@ -0,0 +1,179 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { supabase } from '../supabase';
+import { motion } from 'framer-motion';
+import type { VerificationRecord, VerificationStatus } from '../utils/verification';
+
+
+// --- Types for the snapshots stored by `issue_result_verification` ---
+interface FinalSnapshot {
+    session_name: string;
+    roll: string;
+    gpas: { semester: string; gpa: string }[];
+    referred_subjects: string[];
+    is_dropout: boolean;
+}
+
+interface OtherSnapshot {
+    roll_number: string;
+    student_name: string;
+    exam_name: string;
+    semester: string;
+    student_group: string;
+    subjects: { subject_name: string; marks_obtained: number; total_marks: number }[];
+}
+
+const statusDetails: Record<VerificationStatus, { icon: string; title: string; message: string; className: string }> = {
+    valid: {
+        icon: 'verified',
+        title: 'Genuine Document',
+        message: 'This document matches the result currently published by the department.',
+        className: 'bg-green-500/10 border-green-500/30 text-green-300',
+    },
+    changed: {
+        icon: 'report',
+        title: 'Result Has Changed',
+        message: 'This document was genuine when it was downloaded, but the published result has been corrected since. Compare it with the current result below.',
+        className: 'bg-amber-500/10 border-amber-500/30 text-amber-300',
+    },
+    withdrawn: {
+        icon: 'cancel',
+        title: 'Result Withdrawn',
+        message: 'This document was issued by the department, but the result it shows is no longer published.',
+        className: 'bg-red-500/10 border-red-500/30 text-red-300',
+    },
+};
+
+// --- Snapshot Display ---
+const SnapshotDetails: React.FC<{ kind: VerificationRecord['kind']; snapshot: Record<string, unknown> }> = ({ kind, snapshot }) => {
+    if (kind === 'final') {
+        const result = snapshot as unknown as FinalSnapshot;
+        return (
+            <div className="space-y-3 text-sm">
+                <p><span className="text-text/60">Session:</span> {result.session_name}</p>
+                <p><span className="text-text/60">Roll:</span> <span className="font-mono">{result.roll}</span></p>
+                {result.is_dropout ? (
+                    <p className="font-bold text-red-400">DROP OUT</p>
+                ) : (
+                    <>
+                        <div className="flex flex-wrap gap-2">
+                            {result.gpas.map(g => (
+                                <span key={g.semester} className="px-2 py-1 rounded bg-surface border border-border">{g.semester}: <span className={g.gpa === 'Ref.' ? 'text-red-400' : 'text-green-400'}>{g.gpa}</span></span>
+                            ))}
+                        </div>
+                        {result.referred_subjects.length > 0 && <p><span className="text-text/60">Referred:</span> <span className="font-mono">{result.referred_subjects.join(', ')}</span></p>}
+                    </>
+                )}
+            </div>
+        );
+    }
+
+    const result = snapshot as unknown as OtherSnapshot;
+    return (
+        <div className="space-y-3 text-sm">
+            <p><span className="text-text/60">Student:</span> {result.student_name} (<span className="font-mono">{result.roll_number}</span>)</p>
+            <p><span className="text-text/60">Exam:</span> {result.exam_name} &bull; {result.semester}, Group {result.student_group}</p>
+            <table className="w-full text-left">
+                <tbody>
+                    {result.subjects.map(s => (
+                        <tr key={s.subject_name} className="border-t border-border">
+                            <td className="py-1">{s.subject_name}</td>
+                            <td className="py-1 text-right font-mono">{s.marks_obtained} / {s.total_marks}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+const VerifyPage: React.FC = () => {
+    const { id } = useParams<{ id: string }>();
+    const navigate = useNavigate();
+    const [inputId, setInputId] = useState(id || '');
+    const [record, setRecord] = useState<VerificationRecord | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        setInputId(id || '');
+        setRecord(null);
+        setError('');
+        if (!id) return;
+
+        const verify = async () => {
+            setLoading(true);
+            const { data, error: rpcError } = await supabase.rpc('verify_result_document', { p_id: id });
+            if (rpcError) {
+                console.error("Error verifying document:", rpcError.message);
+                setError(`Could not verify the document: ${rpcError.message}`);
+            } else if (!data) {
+                setError(`No document with verification ID "${id}" was issued by this department. The document may be forged or the ID mistyped.`);
+            } else {
+                setRecord(data as VerificationRecord);
+            }
+            setLoading(false);
+        };
+        verify();
+    }, [id]);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (inputId.trim()) navigate(`/verify/${encodeURIComponent(inputId.trim().toUpperCase())}`);
+    };
+
+    const details = record ? statusDetails[record.status] : null;
+
+    return (
+        <div className="min-h-screen bg-background flex flex-col items-center py-12 px-4 font-display">
+            <div className="text-center mb-10">
+                <h1 className="text-4xl font-black tracking-tight text-text">Document Verification</h1>
+                <p className="text-lg text-text/80 mt-2">Check whether a result document issued by Dinajpur Polytechnic Institute is genuine.</p>
+            </div>
+
+            <div className="w-full max-w-2xl space-y-6">
+                <form onSubmit={handleSubmit} className="flex gap-3">
+                    <input
+                        value={inputId}
+                        onChange={e => setInputId(e.target.value)}
+                        placeholder="Verification ID printed on the document"
+                        className="flex-grow px-4 py-3 rounded-lg bg-surface border border-border text-text placeholder-text/60 focus:outline-none focus:ring-2 focus:ring-primary/80 font-mono uppercase"
+                    />
+                    <button type="submit" className="bg-gradient-to-r from-primary to-secondary text-white font-bold py-3 px-6 rounded-lg hover:opacity-90 transition-all">Verify</button>
+                </form>
+
+                {loading && <p className="text-center text-text/70">Verifying...</p>}
+                {error && <p className="text-center text-sm text-red-400 bg-red-500/10 p-4 rounded-lg border border-red-500/20">{error}</p>}
+
+                {record && details && (
+                    <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="space-y-6">
+                        <div className={`p-5 rounded-2xl border flex gap-4 items-start ${details.className}`}>
+                            <span className="material-symbols-outlined text-4xl">{details.icon}</span>
+                            <div>
+                                <h2 className="text-2xl font-bold">{details.title}</h2>
+                                <p className="text-sm mt-1 text-text/80">{details.message}</p>
+                                <p className="text-xs mt-2 text-text/60">ID {record.id} &bull; Issued {new Date(record.issued_at).toLocaleString()}</p>
+                            </div>
+                        </div>
+
+                        <div className="bg-surface border border-border rounded-2xl p-6">
+                            <h3 className="font-semibold text-lg text-secondary mb-4">{record.status === 'valid' ? 'Published Result' : 'As Printed on the Document'}</h3>
+                            <SnapshotDetails kind={record.kind} snapshot={record.issued} />
+                        </div>
+
+                        {record.status === 'changed' && record.current && (
+                            <div className="bg-surface border border-amber-500/30 rounded-2xl p-6">
+                                <h3 className="font-semibold text-lg text-amber-300 mb-4">Current Published Result</h3>
+                                <SnapshotDetails kind={record.kind} snapshot={record.current} />
+                            </div>
+                        )}
+                    </motion.div>
+                )}
+
+                <p className="text-center text-sm text-text/60">Looking for your own result? <Link to="/results" className="text-secondary hover:underline">Go to the result page</Link>.</p>
+            </div>
+        </div>
+    );
+};
+
+export default VerifyPage;
@@ -2,6 +2,39 @@
 import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { supabase } from '../../supabase';
+import { getNoticeVisibility } from '../../utils/noticeSchedule';
+
+interface NoticeViewDay {
+    notice_id: string;
+    day: string;
+    views: number;
+    downloads: number;
+}
+
+interface NoticeSummary {
+    id: string;
+    title: string;
+    createdAt: string;
+    status: 'published' | 'draft';
+    publish_at: string | null;
+    expire_at: string | null;
+}
+
+interface NoticeReachRow {
+    id: string;
+    title: string;
+    views: number;
+    downloads: number;
+}
+
+const REACH_WINDOW_DAYS = 30;
+const CHART_DAYS = 14;
+// A notice gets a couple of days to find its readers before it's flagged.
+const LOW_REACH_MIN_AGE_DAYS = 2;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// notice_view_daily.day is the database's current_date, which is UTC.
+const utcDayKey = (daysAgo: number) => new Date(Date.now() - daysAgo * DAY_MS).toISOString().slice(0, 10);
 
 const StatCard: React.FC<{ title: string; value: string; icon: string; }> = ({ title, value, icon }) => (
     <div className="bg-surface border border-border rounded-xl p-5 flex items-center gap-4">
@@ -29,6 +62,25 @@ const QuickLink: React.FC<{ title: string; description: string; icon: string; pa
     </Link>
 );
 
+const ReachList: React.FC<{ title: string; icon: string; rows: NoticeReachRow[]; empty: string; }> = ({ title, icon, rows, empty }) => (
+    <div className="bg-surface border border-border rounded-xl p-5">
+        <h3 className="flex items-center gap-2 text-lg font-bold text-text mb-4"><span className="material-symbols-outlined text-secondary">{icon}</span>{title}</h3>
+        {rows.length > 0 ? (
+            <ul className="space-y-3">
+                {rows.map(row => (
+                    <li key={row.id} className="flex items-center justify-between gap-4 text-sm">
+                        <Link to="/admin/notices" className="text-text/90 hover:text-secondary truncate">{row.title}</Link>
+                        <span className="flex items-center gap-3 shrink-0 text-text/70">
+                            <span className="flex items-center gap-1" title="Views"><span className="material-symbols-outlined text-base">visibility</span>{row.views}</span>
+                            <span className="flex items-center gap-1" title="Downloads"><span className="material-symbols-outlined text-base">download</span>{row.downloads}</span>
+                        </span>
+                    </li>
+                ))}
+            </ul>
+        ) : <p className="text-sm text-text/60">{empty}</p>}
+    </div>
+);
+
 const AdminDashboardPage: React.FC = () => {
     const [stats, setStats] = useState({
         notices: 0,
@@ -37,6 +89,8 @@ const AdminDashboardPage: React.FC = () => {
         students: 1600 // This remains static as there is no central student table
     });
     const [loading, setLoading] = useState(true);
+    const [reach, setReach] = useState<{ totalViews: number; daily: { day: string; views: number; downloads: number }[]; top: NoticeReachRow[]; low: NoticeReachRow[] } | null>(null);
+    const [reachError, setReachError] = useState<string | null>(null);
 
     useEffect(() => {
         const fetchStats = async () => {
@@ -80,9 +134,69 @@ const AdminDashboardPage: React.FC = () => {
             }
         };
 
+        // Views are stored as per-notice daily totals; the last 30 days are
+        // small enough to aggregate here.
+        const fetchReach = async () => {
+            const [{ data: days, error: daysError }, { data: notices, error: noticesError }] = await Promise.all([
+                supabase.from('notice_view_daily').select('notice_id, day, views, downloads').gte('day', utcDayKey(REACH_WINDOW_DAYS - 1)),
+                supabase.from('notices').select('id, title, createdAt, status, publish_at, expire_at'),
+            ]);
+            if (daysError || noticesError) {
+                const message = (daysError || noticesError)!.message;
+                console.error("Error fetching notice views:", message);
+                setReachError(daysError?.code === '42P01'
+                    ? "Notice view tracking is not set up. Run supabase/migrations/20261019180000_notice_views.sql in the Supabase SQL Editor."
+                    : message);
+                return;
+            }
+
+            const perNotice = new Map<string, { views: number; downloads: number }>();
+            const perDay = new Map<string, { views: number; downloads: number }>();
+            let totalViews = 0;
+            for (const row of (days as NoticeViewDay[]) || []) {
+                const id = String(row.notice_id);
+                const noticeTotals = perNotice.get(id) || { views: 0, downloads: 0 };
+                noticeTotals.views += row.views;
+                noticeTotals.downloads += row.downloads;
+                perNotice.set(id, noticeTotals);
+                const dayTotals = perDay.get(row.day) || { views: 0, downloads: 0 };
+                dayTotals.views += row.views;
+                dayTotals.downloads += row.downloads;
+                perDay.set(row.day, dayTotals);
+                totalViews += row.views;
+            }
+
+            const now = new Date();
+            const rows: (NoticeReachRow & { postedAt: number })[] = ((notices as NoticeSummary[]) || [])
+                .filter(notice => getNoticeVisibility(notice, now) === 'live')
+                .map(notice => ({
+                    id: String(notice.id),
+                    title: notice.title,
+                    postedAt: new Date(notice.publish_at || notice.createdAt).getTime(),
+                    ...(perNotice.get(String(notice.id)) || { views: 0, downloads: 0 }),
+                }));
+            const byViews = (a: NoticeReachRow, b: NoticeReachRow) => b.views - a.views || b.downloads - a.downloads;
+
+            setReach({
+                totalViews,
+                daily: Array.from({ length: CHART_DAYS }, (_, i) => {
+                    const day = utcDayKey(CHART_DAYS - 1 - i);
+                    return { day, ...(perDay.get(day) || { views: 0, downloads: 0 }) };
+                }),
+                top: rows.filter(row => row.views > 0).sort(byViews).slice(0, 5),
+                low: rows
+                    .filter(row => now.getTime() - row.postedAt >= LOW_REACH_MIN_AGE_DAYS * DAY_MS)
+                    .sort((a, b) => byViews(b, a))
+                    .slice(0, 5),
+            });
+        };
+
         fetchStats();
+        fetchReach();
     }, []);
 
+    const maxDailyViews = Math.max(1, ...(reach?.daily.map(d => d.views) || []));
+
     return (
         <div>
             <div className="mb-8">
@@ -91,11 +205,42 @@ const AdminDashboardPage: React.FC = () => {
             </div>
 
             {/* Quick Stats */}
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6 mb-10">
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-6 mb-10">
                 <StatCard title="Total Notices" value={loading ? '...' : stats.notices.toString()} icon="campaign" />
                 <StatCard title="Upcoming Events" value={loading ? '...' : stats.upcomingEvents.toString()} icon="event" />
                 <StatCard title="Teachers" value={loading ? '...' : stats.faculty.toString()} icon="groups" />
                 <StatCard title="Total Students" value={stats.students.toString()} icon="school" />
+                <StatCard title={`Notice Views (${REACH_WINDOW_DAYS} days)`} value={reach ? reach.totalViews.toString() : reachError ? '—' : '...'} icon="visibility" />
+            </div>
+
+            {/* Notice Reach */}
+            <div className="mb-10">
+                <h2 className="text-2xl font-bold mb-1">Notice Reach</h2>
+                <p className="text-sm text-text/60 mb-4">Anonymous counts: each notice is counted once per browser session, and visitors with Do Not Track enabled aren't counted.</p>
+                {reachError ? (
+                    <p className="bg-surface border border-border rounded-xl p-5 text-sm text-red-400">{reachError}</p>
+                ) : !reach ? (
+                    <p className="text-text/70">Loading notice views...</p>
+                ) : (
+                    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                        <div className="bg-surface border border-border rounded-xl p-5">
+                            <h3 className="text-lg font-bold text-text mb-4">Daily Views ({CHART_DAYS} days)</h3>
+                            <div className="flex items-end gap-1 h-40">
+                                {reach.daily.map(d => (
+                                    <div key={d.day} className="flex-1 h-full flex flex-col justify-end" title={`${new Date(`${d.day}T00:00:00Z`).toLocaleDateString(undefined, { timeZone: 'UTC' })}: ${d.views} views, ${d.downloads} downloads`}>
+                                        <div className="bg-secondary/70 hover:bg-secondary rounded-t" style={{ height: `${(d.views / maxDailyViews) * 100}%`, minHeight: d.views > 0 ? '2px' : 0 }} />
+                                    </div>
+                                ))}
+                            </div>
+                            <div className="flex justify-between text-xs text-text/50 mt-2">
+                                <span>{new Date(`${reach.daily[0].day}T00:00:00Z`).toLocaleDateString(undefined, { timeZone: 'UTC', month: 'short', day: 'numeric' })}</span>
+                                <span>Today</span>
+                            </div>
+                        </div>
+                        <ReachList title="Most Read" icon="trending_up" rows={reach.top} empty="No views recorded in the last 30 days." />
+                        <ReachList title="Low Reach" icon="campaign" rows={reach.low} empty="Every live notice is getting read." />
+                    </div>
+                )}
             </div>
 
             {/* Quick Actions */}
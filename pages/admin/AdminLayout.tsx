@@ -14,6 +14,7 @@ const allAdminNavLinks = [
     { name: 'Teachers', path: '/admin/teachers', icon: 'groups' },
     { name: 'Academic', path: '/admin/academic', icon: 'school' },
     { name: 'Results', path: '/admin/results', icon: 'grade' },
+    { name: 'Analytics', path: '/admin/analytics', icon: 'analytics' },
     { name: 'Resources', path: '/admin/resources', icon: 'folder' },
     { name: 'Settings', path: '/admin/settings', icon: 'settings' },
 ];
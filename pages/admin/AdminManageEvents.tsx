@@ -1,18 +1,60 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { supabase } from '../../supabase';
 import { motion, AnimatePresence } from 'framer-motion';
 import ConfirmModal from '../../components/ConfirmModal';
+import { fromDateTimeInputValue, toDateTimeInputValue } from '../../utils/noticeSchedule';
+import { formatConfirmationCode } from '../../utils/eventRegistration';
+import { exportTableCsv, exportTablePdf, exportTableXlsx, toExportFilename, type ExportTable } from '../../utils/tableExport';
+import {
+    CORE_FIELD_IDS,
+    DEFAULT_REGISTRATION_FORM,
+    REGISTRATION_FIELD_TYPES,
+    fieldHasOptions,
+    fieldHasTextRules,
+    formatRegistrationAnswer,
+    normalizeRegistrationForm,
+    slugifyFieldId,
+    validateRegistrationForm,
+    type RegistrationField,
+    type RegistrationFieldValidation,
+    type RegistrationFormSchema,
+} from '../../utils/registrationForm';
 
 interface Event {
     id: string;
     title: string;
     date: string;
     description: string;
+    title_bn: string | null;
+    description_bn: string | null;
     imageUrl: string;
     status: 'published' | 'draft';
+    capacity: number | null; // null = unlimited
+    registration_opens_at: string | null;
+    registration_closes_at: string | null;
+    registration_form: unknown; // null = the standard form, see utils/registrationForm
     file_path?: string; // For storage management
 }
 
+interface EventRegistration {
+    id: string;
+    event_id: string;
+    full_name: string;
+    roll: string;
+    phone: string | null;
+    email: string | null;
+    department: string | null;
+    session: string | null;
+    semester: string | null;
+    student_group: string | null;
+    shift: string | null;
+    answers: Record<string, unknown> | null; // keyed by form field id
+    status: 'confirmed' | 'waitlisted' | 'cancelled';
+    status_changed_at: string | null;
+    confirmation_code: string | null;
+    created_at: string;
+}
+
 interface GalleryImage {
     id: string;
     image_url: string;
@@ -59,7 +101,8 @@ const StatusToggle = ({ enabled, onChange }) => (
 );
 
 const EventModal = ({ isOpen, onClose, onSave, event, isSaving }) => {
-    const [formData, setFormData] = useState({ title: '', date: '', description: ''});
+    const [formData, setFormData] = useState({ title: '', date: '', description: '', title_bn: '', description_bn: '', capacity: '', registration_opens_at: '', registration_closes_at: '' });
+    const [editingLanguage, setEditingLanguage] = useState<'en' | 'bn'>('en');
     const [imageFile, setImageFile] = useState<File | null>(null);
     const [imagePreview, setImagePreview] = useState<string | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
@@ -72,14 +115,20 @@ const EventModal = ({ isOpen, onClose, onSave, event, isSaving }) => {
                 title: event.title,
                 date: date,
                 description: event.description,
+                title_bn: event.title_bn || '',
+                description_bn: event.description_bn || '',
+                capacity: event.capacity ? String(event.capacity) : '',
+                registration_opens_at: toDateTimeInputValue(event.registration_opens_at),
+                registration_closes_at: toDateTimeInputValue(event.registration_closes_at),
             });
             setImagePreview(event.imageUrl);
             setImageFile(null); // Reset file on open
         } else {
-            setFormData({ title: '', date: '', description: '' });
+            setFormData({ title: '', date: '', description: '', title_bn: '', description_bn: '', capacity: '', registration_opens_at: '', registration_closes_at: '' });
             setImagePreview(null);
             setImageFile(null);
         }
+        setEditingLanguage('en');
     }, [event, isOpen]);
 
     const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
@@ -100,14 +149,32 @@ const EventModal = ({ isOpen, onClose, onSave, event, isSaving }) => {
 
     const handleSave = () => {
         if (!formData.title.trim() || !formData.date || !formData.description.trim()) {
-            return alert("Title, Date, and Description are required.");
+            setEditingLanguage('en');
+            return alert("Title, Date, and Description are required. The Bangla translation is optional.");
         }
         if (!imageFile && !event) {
             return alert("An image is required for a new event.");
         }
+        const capacity = formData.capacity.trim() ? Number(formData.capacity) : null;
+        if (capacity !== null && (!Number.isInteger(capacity) || capacity < 1)) {
+            return alert("Capacity must be a whole number of at least 1, or empty for unlimited seats.");
+        }
+        const registration_opens_at = fromDateTimeInputValue(formData.registration_opens_at);
+        const registration_closes_at = fromDateTimeInputValue(formData.registration_closes_at);
+        if (registration_opens_at && registration_closes_at && new Date(registration_closes_at) <= new Date(registration_opens_at)) {
+            return alert("Registration must close after it opens.");
+        }
         
         const dateISOString = new Date(formData.date).toISOString();
-        onSave({ ...formData, date: dateISOString }, imageFile);
+        onSave({
+            ...formData,
+            title_bn: formData.title_bn.trim() || null,
+            description_bn: formData.description_bn.trim() || null,
+            date: dateISOString,
+            capacity,
+            registration_opens_at,
+            registration_closes_at,
+        }, imageFile);
     };
 
     if (!isOpen) return null;
@@ -118,16 +185,51 @@ const EventModal = ({ isOpen, onClose, onSave, event, isSaving }) => {
                 <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
                     <motion.div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose} initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} />
                     <motion.div
-                        className="relative w-full max-w-2xl bg-surface border border-border rounded-xl shadow-2xl p-6"
+                        className="relative w-full max-w-2xl bg-surface border border-border rounded-xl shadow-2xl p-6 max-h-[90vh] overflow-y-auto"
                         initial={{ opacity: 0, scale: 0.95 }}
                         animate={{ opacity: 1, scale: 1 }}
                         exit={{ opacity: 0, scale: 0.95 }}
                     >
                         <h2 className="text-2xl font-bold mb-6">{event ? 'Edit Event' : 'Create New Event'}</h2>
                         <div className="space-y-4">
-                            <input name="title" value={formData.title} onChange={handleChange} placeholder="Event Title" className="w-full input-style" />
+                            <div className="flex items-center gap-2">
+                                {([['en', 'English'], ['bn', 'বাংলা']] as const).map(([lang, label]) => (
+                                    <button
+                                        key={lang}
+                                        onClick={() => setEditingLanguage(lang)}
+                                        className={`px-3 py-1 rounded-full text-sm font-semibold border ${editingLanguage === lang ? 'bg-primary/20 border-primary/50 text-text' : 'border-border text-text/60 hover:text-text'}`}
+                                    >
+                                        {label}
+                                        {lang === 'bn' && <span className="ml-1 text-xs font-normal text-text/50">(optional)</span>}
+                                    </button>
+                                ))}
+                            </div>
+                            {editingLanguage === 'en' ? (
+                                <input name="title" value={formData.title} onChange={handleChange} placeholder="Event Title" className="w-full input-style" />
+                            ) : (
+                                <input name="title_bn" lang="bn" value={formData.title_bn} onChange={handleChange} placeholder="অনুষ্ঠানের নাম (Bangla title)" className="w-full input-style" />
+                            )}
                             <input name="date" value={formData.date} onChange={handleChange} type="datetime-local" className="w-full input-style" />
-                            <textarea name="description" value={formData.description} onChange={handleChange} placeholder="Event Description" rows={5} className="w-full input-style" />
+                            {editingLanguage === 'en' ? (
+                                <textarea name="description" value={formData.description} onChange={handleChange} placeholder="Event Description" rows={5} className="w-full input-style" />
+                            ) : (
+                                <textarea name="description_bn" lang="bn" value={formData.description_bn} onChange={handleChange} placeholder="বিবরণ (Bangla description)" rows={5} className="w-full input-style" />
+                            )}
+                            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                                <div>
+                                    <label className="block text-sm font-medium text-text/90 mb-2">Seats (optional)</label>
+                                    <input name="capacity" type="number" min={1} step={1} value={formData.capacity} onChange={handleChange} placeholder="Unlimited" className="w-full input-style" />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-text/90 mb-2">Registration opens</label>
+                                    <input name="registration_opens_at" type="datetime-local" value={formData.registration_opens_at} onChange={handleChange} className="w-full input-style" />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-text/90 mb-2">Registration closes</label>
+                                    <input name="registration_closes_at" type="datetime-local" value={formData.registration_closes_at} onChange={handleChange} className="w-full input-style" />
+                                </div>
+                                <p className="sm:col-span-3 text-xs text-text/60 -mt-2">When all seats are taken, new registrations join a waitlist and are confirmed in order as seats free up. Leave the times empty to accept registrations at any time.</p>
+                            </div>
                             <div>
                                 <label className="block text-sm font-medium text-text/90 mb-2">Event Image</label>
                                 <div className="flex items-center gap-4">
@@ -657,6 +759,501 @@ const AlumniManager: React.FC = () => {
 };
 
 
+// --- Registration form builder ---
+interface EditorField {
+    uid: string;
+    // New fields take their id from the label. Saved fields keep theirs so
+    // answers already submitted still line up with the field.
+    autoId: boolean;
+    optionsText: string;
+    field: RegistrationField;
+}
+
+const toEditorFields = (schema: RegistrationFormSchema): EditorField[] =>
+    schema.fields.map(field => ({ uid: field.id, autoId: false, optionsText: (field.options || []).join('\n'), field }));
+
+const uniqueFieldId = (base: string, taken: string[]) => {
+    let id = base;
+    for (let n = 2; taken.includes(id); n++) id = `${base}_${n}`;
+    return id;
+};
+
+// Drops empty settings so the stored JSON only holds what the admin set.
+const toStoredField = ({ field, optionsText }: EditorField): RegistrationField => {
+    const validation = Object.fromEntries(
+        Object.entries(field.validation || {}).filter(([, value]) => value !== undefined && value !== '')
+    ) as RegistrationFieldValidation;
+    const options = Array.from(new Set(optionsText.split('\n').map(o => o.trim()).filter(Boolean)));
+    return {
+        id: field.id,
+        label: field.label.trim(),
+        type: field.type,
+        required: field.required,
+        ...(field.placeholder?.trim() ? { placeholder: field.placeholder.trim() } : {}),
+        ...(field.helpText?.trim() ? { helpText: field.helpText.trim() } : {}),
+        ...(fieldHasOptions(field.type) ? { options } : {}),
+        ...(Object.keys(validation).length > 0 ? { validation } : {}),
+    };
+};
+
+const RegistrationFormModal: React.FC<{ event: Event | null; onClose: () => void; onSaved: () => void }> = ({ event, onClose, onSaved }) => {
+    const [fields, setFields] = useState<EditorField[]>([]);
+    const [expandedUid, setExpandedUid] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    useEffect(() => {
+        if (!event) return;
+        setFields(toEditorFields(normalizeRegistrationForm(event.registration_form)));
+        setExpandedUid(null);
+    }, [event]);
+
+    const updateField = (uid: string, changes: Partial<RegistrationField>, extra: Partial<EditorField> = {}) => {
+        setFields(prev => prev.map(item => {
+            if (item.uid !== uid) return item;
+            const field = { ...item.field, ...changes };
+            if (item.autoId && changes.label !== undefined) {
+                field.id = uniqueFieldId(slugifyFieldId(changes.label), prev.filter(other => other.uid !== uid).map(other => other.field.id));
+            }
+            return { ...item, ...extra, field };
+        }));
+    };
+
+    const updateValidation = (uid: string, key: keyof RegistrationFieldValidation, value: string, numeric: boolean) => {
+        const item = fields.find(f => f.uid === uid);
+        if (!item) return;
+        const parsed = value.trim() === '' ? undefined : numeric ? Number(value) : value;
+        updateField(uid, { validation: { ...item.field.validation, [key]: parsed } });
+    };
+
+    const addField = () => {
+        const uid = `new-${Date.now()}`;
+        const id = uniqueFieldId('new_field', fields.map(f => f.field.id));
+        setFields(prev => [...prev, { uid, autoId: true, optionsText: '', field: { id, label: '', type: 'text', required: false } }]);
+        setExpandedUid(uid);
+    };
+
+    const moveField = (index: number, offset: -1 | 1) => {
+        setFields(prev => {
+            const next = [...prev];
+            const target = index + offset;
+            if (target < 0 || target >= next.length) return prev;
+            [next[index], next[target]] = [next[target], next[index]];
+            return next;
+        });
+    };
+
+    const removeField = (uid: string) => {
+        setFields(prev => prev.filter(f => f.uid !== uid));
+    };
+
+    const handleReset = () => {
+        if (!window.confirm('Replace this form with the standard student registration form?')) return;
+        setFields(toEditorFields(DEFAULT_REGISTRATION_FORM));
+        setExpandedUid(null);
+    };
+
+    const handleSave = async () => {
+        if (!event) return;
+        const schema: RegistrationFormSchema = { version: 1, fields: fields.map(toStoredField) };
+        const errors = validateRegistrationForm(schema);
+        if (errors.length > 0) {
+            return alert(`Please fix the form before saving:\n\n${errors.join('\n')}`);
+        }
+        // The standard form is stored as null so it keeps following the built-in default.
+        const isDefault = JSON.stringify(schema) === JSON.stringify({ version: 1, fields: toEditorFields(DEFAULT_REGISTRATION_FORM).map(toStoredField) });
+        setIsSaving(true);
+        const { error } = await supabase.from('events').update({ registration_form: isDefault ? null : schema }).eq('id', event.id);
+        setIsSaving(false);
+        if (error) {
+            console.error("Error saving registration form:", error.message);
+            if (error.message.includes('registration_form')) {
+                alert("Database Schema Error: Registration forms are not set up. Please go to the Supabase SQL Editor and run supabase/migrations/20261019230000_registration_forms.sql.");
+            } else {
+                alert(`Could not save the registration form: ${getErrorMessage(error)}`);
+            }
+            return;
+        }
+        onSaved();
+        onClose();
+    };
+
+    const smallInput = "w-full input-style text-sm";
+
+    return (
+        <AnimatePresence>
+            {event && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+                    <motion.div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose} initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} />
+                    <motion.div
+                        className="relative w-full max-w-3xl bg-[#001833] border border-border rounded-xl shadow-2xl p-6 max-h-[90vh] flex flex-col"
+                        initial={{ opacity: 0, scale: 0.95 }}
+                        animate={{ opacity: 1, scale: 1 }}
+                        exit={{ opacity: 0, scale: 0.95 }}
+                    >
+                        <div className="flex justify-between items-start gap-4 mb-2 shrink-0">
+                            <div className="min-w-0">
+                                <h2 className="text-2xl font-bold text-text">Registration Form</h2>
+                                <p className="text-sm text-text/70 truncate">{event.title}</p>
+                            </div>
+                            <button onClick={onClose} className="p-2 rounded-full hover:bg-surface text-text/70"><span className="material-symbols-outlined">close</span></button>
+                        </div>
+                        <p className="text-xs text-text/60 mb-4 shrink-0">Name and roll are on every form; the roll is used to stop duplicate registrations. Changes apply to new registrations only.</p>
+
+                        <div className="overflow-y-auto space-y-3 pr-1 flex-grow">
+                            {fields.map((item, index) => {
+                                const { field } = item;
+                                const isCore = CORE_FIELD_IDS.includes(field.id) && !item.autoId;
+                                const isExpanded = expandedUid === item.uid;
+                                return (
+                                    <div key={item.uid} className="bg-surface border border-border rounded-lg">
+                                        <div className="flex items-center gap-2 p-3">
+                                            <div className="flex flex-col">
+                                                <button onClick={() => moveField(index, -1)} disabled={index === 0} title="Move up" className="text-text/60 hover:text-text disabled:opacity-30"><span className="material-symbols-outlined text-base">keyboard_arrow_up</span></button>
+                                                <button onClick={() => moveField(index, 1)} disabled={index === fields.length - 1} title="Move down" className="text-text/60 hover:text-text disabled:opacity-30"><span className="material-symbols-outlined text-base">keyboard_arrow_down</span></button>
+                                            </div>
+                                            <div className="flex-grow min-w-0 grid grid-cols-1 sm:grid-cols-2 gap-2">
+                                                <input value={field.label} onChange={e => updateField(item.uid, { label: e.target.value })} placeholder="Question label" className={smallInput} />
+                                                <select
+                                                    value={field.type}
+                                                    disabled={isCore}
+                                                    onChange={e => updateField(item.uid, { type: e.target.value as RegistrationField['type'] })}
+                                                    className={`${smallInput} disabled:opacity-60`}
+                                                >
+                                                    {REGISTRATION_FIELD_TYPES.map(type => <option key={type.value} value={type.value}>{type.label}</option>)}
+                                                </select>
+                                            </div>
+                                            <label className="flex items-center gap-1 text-xs text-text/80 shrink-0" title={isCore ? 'Always required' : undefined}>
+                                                <input type="checkbox" checked={field.required} disabled={isCore} onChange={e => updateField(item.uid, { required: e.target.checked })} />
+                                                Required
+                                            </label>
+                                            <button onClick={() => setExpandedUid(isExpanded ? null : item.uid)} title="Field settings" className={`p-1 rounded-full hover:bg-surface/50 ${isExpanded ? 'text-secondary' : 'text-text/60'}`}><span className="material-symbols-outlined text-base">tune</span></button>
+                                            <button onClick={() => removeField(item.uid)} disabled={isCore} title={isCore ? 'Name and roll cannot be removed' : 'Remove field'} className="p-1 rounded-full hover:bg-surface/50 text-text/60 hover:text-red-400 disabled:opacity-30 disabled:hover:text-text/60"><span className="material-symbols-outlined text-base">delete</span></button>
+                                        </div>
+                                        {fieldHasOptions(field.type) && (
+                                            <div className="px-3 pb-3">
+                                                <textarea
+                                                    value={item.optionsText}
+                                                    onChange={e => updateField(item.uid, {}, { optionsText: e.target.value })}
+                                                    placeholder="One option per line"
+                                                    rows={3}
+                                                    className={smallInput}
+                                                />
+                                            </div>
+                                        )}
+                                        {isExpanded && (
+                                            <div className="px-3 pb-3 grid grid-cols-1 sm:grid-cols-2 gap-2 border-t border-border pt-3">
+                                                <p className="sm:col-span-2 text-xs text-text/50">Key: <span className="font-mono">{field.id}</span></p>
+                                                <input value={field.placeholder || ''} onChange={e => updateField(item.uid, { placeholder: e.target.value })} placeholder="Placeholder" className={smallInput} />
+                                                <input value={field.helpText || ''} onChange={e => updateField(item.uid, { helpText: e.target.value })} placeholder="Help text shown under the field" className={smallInput} />
+                                                {fieldHasTextRules(field.type) && (
+                                                    <>
+                                                        <input type="number" min={0} value={field.validation?.minLength ?? ''} onChange={e => updateValidation(item.uid, 'minLength', e.target.value, true)} placeholder="Minimum length" className={smallInput} />
+                                                        <input type="number" min={1} value={field.validation?.maxLength ?? ''} onChange={e => updateValidation(item.uid, 'maxLength', e.target.value, true)} placeholder="Maximum length" className={smallInput} />
+                                                        <input value={field.validation?.pattern || ''} onChange={e => updateValidation(item.uid, 'pattern', e.target.value, false)} placeholder="Pattern (regular expression), e.g. ^\d{11}$" className={`${smallInput} font-mono`} />
+                                                        <input value={field.validation?.patternMessage || ''} onChange={e => updateValidation(item.uid, 'patternMessage', e.target.value, false)} placeholder="Message when the pattern doesn't match" className={smallInput} />
+                                                    </>
+                                                )}
+                                                {field.type === 'number' && (
+                                                    <>
+                                                        <input type="number" value={field.validation?.min ?? ''} onChange={e => updateValidation(item.uid, 'min', e.target.value, true)} placeholder="Minimum value" className={smallInput} />
+                                                        <input type="number" value={field.validation?.max ?? ''} onChange={e => updateValidation(item.uid, 'max', e.target.value, true)} placeholder="Maximum value" className={smallInput} />
+                                                    </>
+                                                )}
+                                            </div>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+
+                        <div className="mt-4 flex flex-wrap justify-between gap-3 shrink-0">
+                            <div className="flex gap-2">
+                                <button onClick={addField} className="flex items-center gap-1 px-3 py-2 rounded-lg text-sm font-semibold bg-primary/20 hover:bg-primary/30 text-primary"><span className="material-symbols-outlined text-base">add</span>Add Field</button>
+                                <button onClick={handleReset} className="px-3 py-2 rounded-lg text-sm font-semibold text-text/70 hover:text-text hover:bg-surface">Use Standard Form</button>
+                            </div>
+                            <div className="flex gap-3">
+                                <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm font-semibold bg-surface/80 hover:bg-surface text-text/90">Cancel</button>
+                                <button onClick={handleSave} disabled={isSaving} className="px-4 py-2 rounded-lg text-sm font-semibold bg-primary hover:bg-primary/90 text-white min-w-[100px]">
+                                    {isSaving ? 'Saving...' : 'Save Form'}
+                                </button>
+                            </div>
+                        </div>
+                    </motion.div>
+                </div>
+            )}
+        </AnimatePresence>
+    );
+};
+
+
+// --- Registrations ---
+interface RegistrationColumn {
+    key: string;
+    label: string;
+    field?: RegistrationField;
+    value: (r: EventRegistration) => string;
+}
+
+// Answers live in `answers`; rows saved before forms were configurable only
+// have the old columns, which use the same ids as the standard form.
+const registrationAnswer = (r: EventRegistration, fieldId: string) => {
+    const value = r.answers && fieldId in r.answers ? r.answers[fieldId] : (r as unknown as Record<string, unknown>)[fieldId];
+    return formatRegistrationAnswer(value);
+};
+
+// Answers to fields that were removed or renamed after people registered are
+// still shown (and searched and exported), after the current form's fields.
+const buildRegistrationColumns = (form: RegistrationFormSchema, registrations: EventRegistration[]): RegistrationColumn[] => {
+    const formIds = new Set(form.fields.map(field => field.id));
+    const leftoverIds = Array.from(new Set(registrations.flatMap(r => Object.keys(r.answers || {}))))
+        .filter(id => !formIds.has(id) && !CORE_FIELD_IDS.includes(id));
+    const leftoverFields: RegistrationField[] = leftoverIds.map(id => ({ id, label: `${id.replace(/_/g, ' ')} (removed field)`, type: 'text', required: false }));
+    return [
+        { key: 'full_name', label: 'Name', value: r => r.full_name || '' },
+        { key: 'roll', label: 'Roll', value: r => r.roll || '' },
+        ...[...form.fields.filter(field => !CORE_FIELD_IDS.includes(field.id)), ...leftoverFields]
+            .map(field => ({ key: field.id, label: field.label, field, value: (r: EventRegistration) => registrationAnswer(r, field.id) })),
+        { key: 'status', label: 'Status', value: r => r.status },
+        { key: 'created_at', label: 'Registered', value: r => r.created_at || '' },
+    ];
+};
+
+const formatColumnValue = (column: RegistrationColumn, r: EventRegistration) =>
+    column.key === 'created_at' ? (r.created_at ? new Date(r.created_at).toLocaleString() : '') : column.value(r);
+
+const registrationStatusStyles: Record<EventRegistration['status'], string> = {
+    confirmed: 'bg-green-500/20 text-green-300',
+    waitlisted: 'bg-amber-500/20 text-amber-300',
+    cancelled: 'bg-red-500/20 text-red-300 line-through',
+};
+
+const countBy = (registrations: EventRegistration[], fieldId: string) => {
+    const counts = new Map<string, number>();
+    registrations.forEach(r => {
+        const value = registrationAnswer(r, fieldId) || 'Unknown';
+        counts.set(value, (counts.get(value) || 0) + 1);
+    });
+    // "1st Semester", "2nd Semester", ... sort by their number.
+    return Array.from(counts.entries()).sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }));
+};
+
+const RegistrationAnswerCell: React.FC<{ field: RegistrationField; value: string }> = ({ field, value }) => {
+    if (!value) return null;
+    if (field.type === 'phone') return <a href={`tel:${value}`} className="hover:underline whitespace-nowrap">{value}</a>;
+    if (field.type === 'email') return <a href={`mailto:${value}`} className="hover:underline">{value}</a>;
+    if (field.type === 'url' && /^https?:\/\//i.test(value)) return <a href={value} target="_blank" rel="noopener noreferrer" className="hover:underline break-all">{value}</a>;
+    if (field.type === 'textarea') return <span title={value} className="block max-w-xs truncate">{value}</span>;
+    return <span className="whitespace-nowrap">{value}</span>;
+};
+
+const RegistrationsModal: React.FC<{ event: Event | null; onClose: () => void }> = ({ event, onClose }) => {
+    const [registrations, setRegistrations] = useState<EventRegistration[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [searchTerm, setSearchTerm] = useState('');
+    const [sort, setSort] = useState<{ key: string; ascending: boolean }>({ key: 'created_at', ascending: true });
+    const [statusFilter, setStatusFilter] = useState<'active' | EventRegistration['status'] | 'all'>('active');
+    const [cancellingId, setCancellingId] = useState<string | null>(null);
+
+    const fetchRegistrations = async (eventId: string) => {
+        setLoading(true);
+        const { data, error } = await supabase
+            .from('event_registrations')
+            .select('*')
+            .eq('event_id', eventId)
+            .order('created_at', { ascending: true });
+        if (error) {
+            console.error("Error fetching registrations:", error.message);
+            if (error.message.includes('created_at') || error.code === '42501') {
+                alert("Database Schema Error: Registrations can't be read yet. Please go to the Supabase SQL Editor and run supabase/migrations/20261019200000_event_registrations_admin.sql.");
+            } else {
+                alert(`Could not fetch registrations: ${getErrorMessage(error)}`);
+            }
+            setRegistrations([]);
+        } else {
+            // Rows from before the capacity migration have no status yet.
+            setRegistrations((data as EventRegistration[] || []).map(r => ({ ...r, status: r.status || 'confirmed' })));
+        }
+        setLoading(false);
+    };
+
+    useEffect(() => {
+        if (!event) return;
+        setSearchTerm('');
+        setSort({ key: 'created_at', ascending: true });
+        setStatusFilter('active');
+        fetchRegistrations(event.id);
+    }, [event]);
+
+    const form = useMemo(() => normalizeRegistrationForm(event?.registration_form), [event]);
+    const columns = useMemo(() => buildRegistrationColumns(form, registrations), [form, registrations]);
+
+    const visibleRegistrations = useMemo(() => {
+        const term = searchTerm.trim().toLowerCase();
+        const sortColumn = columns.find(c => c.key === sort.key) || columns[columns.length - 1];
+        const filtered = registrations.filter(r => {
+            if (statusFilter === 'active' ? r.status === 'cancelled' : statusFilter !== 'all' && r.status !== statusFilter) return false;
+            return !term || [...columns.map(c => c.value(r)), r.confirmation_code].some(v => (v || '').toLowerCase().includes(term));
+        });
+        return [...filtered].sort((a, b) => {
+            const result = sortColumn.value(a).localeCompare(sortColumn.value(b), undefined, { numeric: true, sensitivity: 'base' });
+            return sort.ascending ? result : -result;
+        });
+    }, [registrations, columns, searchTerm, sort, statusFilter]);
+
+    // Seat breakdowns only count people who are actually coming.
+    const confirmedRegistrations = useMemo(() => registrations.filter(r => r.status === 'confirmed'), [registrations]);
+    const hasField = (fieldId: string) => form.fields.some(f => f.id === fieldId);
+    const semesterCounts = useMemo(() => (hasField('semester') ? countBy(confirmedRegistrations, 'semester') : []), [confirmedRegistrations, form]);
+    const shiftCounts = useMemo(() => (hasField('shift') ? countBy(confirmedRegistrations, 'shift') : []), [confirmedRegistrations, form]);
+    const waitlistedCount = registrations.filter(r => r.status === 'waitlisted').length;
+    const cancelledCount = registrations.filter(r => r.status === 'cancelled').length;
+
+    // Cancelling a confirmed seat promotes the next waitlisted person in the
+    // database, so the list is reloaded rather than patched locally.
+    const handleCancel = async (registration: EventRegistration) => {
+        if (!event || !window.confirm(`Cancel the registration of ${registration.full_name} (${registration.roll})?${registration.status === 'confirmed' && waitlistedCount > 0 ? ' The next person on the waitlist will get the seat.' : ''}`)) return;
+        setCancellingId(registration.id);
+        const { error } = await supabase.from('event_registrations').update({ status: 'cancelled' }).eq('id', registration.id);
+        setCancellingId(null);
+        if (error) {
+            if (error.message.includes('status')) {
+                alert("Database Schema Error: Registration statuses are not set up. Please go to the Supabase SQL Editor and run supabase/migrations/20261019210000_event_capacity.sql.");
+            } else {
+                alert(`Could not cancel the registration: ${getErrorMessage(error)}`);
+            }
+            return;
+        }
+        await fetchRegistrations(event.id);
+    };
+
+    const toggleSort = (key: string) => {
+        setSort(prev => ({ key, ascending: prev.key === key ? !prev.ascending : true }));
+    };
+
+    const handleExport = (format: 'csv' | 'xlsx' | 'pdf') => {
+        if (!event) return;
+        const table: ExportTable = {
+            title: `Registrations: ${event.title}`,
+            subtitle: `${event.date ? new Date(event.date).toLocaleString() : 'No date'} · ${visibleRegistrations.length} registration(s) · exported ${new Date().toLocaleString()}`,
+            headers: ['#', ...columns.map(c => c.label), 'Confirmation Code'],
+            rows: visibleRegistrations.map((r, i) => [
+                String(i + 1),
+                ...columns.map(c => formatColumnValue(c, r)),
+                r.confirmation_code ? formatConfirmationCode(r.confirmation_code) : '',
+            ]),
+        };
+        const filename = `${toExportFilename(event.title)}-registrations`;
+        if (format === 'csv') exportTableCsv(table, filename);
+        else if (format === 'xlsx') exportTableXlsx(table, filename);
+        else exportTablePdf(table, filename);
+    };
+
+    return (
+        <AnimatePresence>
+            {event && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+                    <motion.div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose} initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} />
+                    <motion.div
+                        className="relative w-full max-w-6xl bg-[#001833] border border-border rounded-xl shadow-2xl p-6 max-h-[90vh] flex flex-col"
+                        initial={{ opacity: 0, scale: 0.95 }}
+                        animate={{ opacity: 1, scale: 1 }}
+                        exit={{ opacity: 0, scale: 0.95 }}
+                    >
+                        <div className="flex justify-between items-start gap-4 mb-4 shrink-0">
+                            <div className="min-w-0">
+                                <h2 className="text-2xl font-bold text-text">Registrations</h2>
+                                <p className="text-sm text-text/70 truncate">{event.title}</p>
+                            </div>
+                            <button onClick={onClose} className="p-2 rounded-full hover:bg-surface text-text/70"><span className="material-symbols-outlined">close</span></button>
+                        </div>
+
+                        {loading ? <p className="text-center text-text/70 py-10">Loading registrations...</p> : (
+                            <>
+                                <div className="flex flex-wrap items-center gap-2 mb-4 text-xs shrink-0">
+                                    <span className="px-2.5 py-1 rounded-full bg-primary/20 text-text font-semibold">Confirmed: {confirmedRegistrations.length}{event.capacity ? ` / ${event.capacity}` : ''}</span>
+                                    {waitlistedCount > 0 && <span className="px-2.5 py-1 rounded-full bg-amber-500/20 text-amber-300 font-semibold">Waitlisted: {waitlistedCount}</span>}
+                                    {cancelledCount > 0 && <span className="px-2.5 py-1 rounded-full bg-red-500/20 text-red-300">Cancelled: {cancelledCount}</span>}
+                                    {semesterCounts.map(([semester, count]) => <span key={`sem-${semester}`} className="px-2.5 py-1 rounded-full border border-border text-text/80">{semester}: {count}</span>)}
+                                    {shiftCounts.map(([shift, count]) => <span key={`shift-${shift}`} className="px-2.5 py-1 rounded-full border border-secondary/40 text-secondary">{shift}: {count}</span>)}
+                                </div>
+                                <div className="flex flex-col sm:flex-row gap-3 mb-4 shrink-0">
+                                    <div className="relative flex-grow"><span className="material-symbols-outlined absolute left-3 top-1/2 -translate-y-1/2 text-text/50">search</span><input type="text" placeholder="Search answers, roll, code..." value={searchTerm} onChange={e => setSearchTerm(e.target.value)} className="w-full rounded-lg border border-border bg-surface/50 pl-10 pr-3 py-2 text-text" /></div>
+                                    <select value={statusFilter} onChange={e => setStatusFilter(e.target.value as typeof statusFilter)} className="rounded-lg border border-border bg-surface/50 px-3 py-2 text-text">
+                                        <option value="active">Confirmed &amp; waitlisted</option>
+                                        <option value="confirmed">Confirmed</option>
+                                        <option value="waitlisted">Waitlisted</option>
+                                        <option value="cancelled">Cancelled</option>
+                                        <option value="all">All</option>
+                                    </select>
+                                    <div className="flex gap-2">
+                                        {(['csv', 'xlsx', 'pdf'] as const).map(format => (
+                                            <button key={format} onClick={() => handleExport(format)} disabled={visibleRegistrations.length === 0} className="flex items-center gap-1 px-3 py-2 rounded-lg text-sm font-semibold bg-primary/20 hover:bg-primary/30 text-primary disabled:opacity-40 disabled:cursor-not-allowed uppercase">
+                                                <span className="material-symbols-outlined text-base">download</span>{format}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                                {visibleRegistrations.length === 0 ? (
+                                    registrations.length === 0 ? (
+                                        <div className="text-center text-text/60 py-10">
+                                            <p>No one has registered yet.</p>
+                                            {/* Without the admin read policy RLS returns an empty list rather than an error. */}
+                                            <p className="text-xs mt-2">Expecting registrations? Make sure supabase/migrations/20261019200000_event_registrations_admin.sql has been run.</p>
+                                        </div>
+                                    ) : <p className="text-center text-text/60 py-10">No registrations match your search.</p>
+                                ) : (
+                                    <div className="overflow-auto border border-border rounded-lg">
+                                        <table className="w-full text-sm text-left">
+                                            <thead className="bg-surface sticky top-0">
+                                                <tr>
+                                                    {columns.map(column => (
+                                                        <th key={column.key} className="px-3 py-2 font-semibold text-text/90 whitespace-nowrap">
+                                                            <button onClick={() => toggleSort(column.key)} className="flex items-center gap-1 hover:text-secondary">
+                                                                {column.label}
+                                                                {sort.key === column.key && <span className="material-symbols-outlined text-base">{sort.ascending ? 'arrow_upward' : 'arrow_downward'}</span>}
+                                                            </button>
+                                                        </th>
+                                                    ))}
+                                                    <th className="px-3 py-2"><span className="sr-only">Actions</span></th>
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {visibleRegistrations.map(r => (
+                                                    <tr key={r.id} className="border-t border-border hover:bg-surface/50">
+                                                        <td className="px-3 py-2 text-text">
+                                                            {r.full_name}
+                                                            {r.confirmation_code && <div className="text-xs font-mono text-text/50">{formatConfirmationCode(r.confirmation_code)}</div>}
+                                                        </td>
+                                                        <td className="px-3 py-2 text-text/80">{r.roll}</td>
+                                                        {columns.filter(c => c.field).map(column => (
+                                                            <td key={column.key} className="px-3 py-2 text-text/80">
+                                                                <RegistrationAnswerCell field={column.field!} value={column.value(r)} />
+                                                            </td>
+                                                        ))}
+                                                        <td className="px-3 py-2"><span className={`text-xs font-semibold px-2 py-0.5 rounded-full capitalize ${registrationStatusStyles[r.status]}`}>{r.status}</span></td>
+                                                        <td className="px-3 py-2 text-text/60 whitespace-nowrap">{r.created_at ? new Date(r.created_at).toLocaleString() : ''}</td>
+                                                        <td className="px-3 py-2 text-right">
+                                                            {r.status !== 'cancelled' && (
+                                                                <button onClick={() => handleCancel(r)} disabled={cancellingId === r.id} title="Cancel registration" className="p-1 rounded-full hover:bg-surface text-text/60 hover:text-red-400 disabled:opacity-50">
+                                                                    <span className="material-symbols-outlined text-base">{cancellingId === r.id ? 'hourglass_top' : 'person_remove'}</span>
+                                                                </button>
+                                                            )}
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                )}
+                            </>
+                        )}
+                    </motion.div>
+                </div>
+            )}
+        </AnimatePresence>
+    );
+};
+
 const AdminManageEvents: React.FC = () => {
     const [activeTab, setActiveTab] = useState<'events' | 'gallery' | 'alumni'>('events');
     const [events, setEvents] = useState<Event[]>([]);
@@ -666,6 +1263,8 @@ const AdminManageEvents: React.FC = () => {
     const [isSaving, setIsSaving] = useState(false);
     const [deletingId, setDeletingId] = useState<string | null>(null);
     const [eventToDelete, setEventToDelete] = useState<Event | null>(null);
+    const [registrationsEvent, setRegistrationsEvent] = useState<Event | null>(null);
+    const [formEvent, setFormEvent] = useState<Event | null>(null);
     
     const fetchEvents = async () => {
         setLoading(true);
@@ -726,6 +1325,14 @@ const AdminManageEvents: React.FC = () => {
         } catch (error: any) {
             console.error("Error saving event:", error.message);
             const detailedMessage = error.message ? error.message : JSON.stringify(error);
+            if (detailedMessage.includes('title_bn') || detailedMessage.includes('description_bn')) {
+                alert("Database Schema Error: Bangla event fields are not set up. Please go to the Supabase SQL Editor and run supabase/migrations/20261019190000_bilingual_content.sql.");
+                return;
+            }
+            if (detailedMessage.includes('capacity') || detailedMessage.includes('registration_opens_at') || detailedMessage.includes('registration_closes_at')) {
+                alert("Database Schema Error: Event capacity and registration windows are not set up. Please go to the Supabase SQL Editor and run supabase/migrations/20261019210000_event_capacity.sql.");
+                return;
+            }
             alert(`Failed to save event. This is likely due to a permission issue in your Supabase project. Please check the browser console for more details.\n\nError: ${detailedMessage}`);
         } finally {
             setIsSaving(false);
@@ -831,6 +1438,12 @@ const AdminManageEvents: React.FC = () => {
                                                         <p className="text-sm text-secondary font-medium my-2">
                                                             {event.date ? new Date(event.date).toLocaleString() : 'No date'}
                                                         </p>
+                                                        {(event.capacity || event.registration_closes_at) && (
+                                                            <p className="flex flex-wrap items-center gap-3 text-xs text-text/60 mb-2">
+                                                                {event.capacity && <span className="flex items-center gap-1"><span className="material-symbols-outlined text-sm">event_seat</span>{event.capacity} seats</span>}
+                                                                {event.registration_closes_at && <span className="flex items-center gap-1"><span className="material-symbols-outlined text-sm">timer_off</span>Closes {new Date(event.registration_closes_at).toLocaleString()}</span>}
+                                                            </p>
+                                                        )}
                                                         <p className="text-sm text-text/80 leading-relaxed line-clamp-3 flex-grow">{event.description}</p>
                                                     </div>
                                                     <div className="border-t border-border p-4 flex justify-between items-center bg-black/10">
@@ -839,6 +1452,8 @@ const AdminManageEvents: React.FC = () => {
                                                             <span className={`text-sm font-medium ${event.status === 'published' ? 'text-green-400' : 'text-text/60'}`}>{event.status === 'published' ? 'Published' : 'Draft'}</span>
                                                         </div>
                                                         <div className="flex items-center gap-2">
+                                                            <button onClick={() => setFormEvent(event)} title="Registration form" className="p-2 rounded-full hover:bg-surface text-text/70 hover:text-secondary"><span className="material-symbols-outlined">dynamic_form</span></button>
+                                                            <button onClick={() => setRegistrationsEvent(event)} title="Registrations" className="p-2 rounded-full hover:bg-surface text-text/70 hover:text-secondary"><span className="material-symbols-outlined">how_to_reg</span></button>
                                                             <button onClick={() => openModal(event)} className="p-2 rounded-full hover:bg-surface text-text/70 hover:text-secondary"><span className="material-symbols-outlined">edit</span></button>
                                                             <button 
                                                                 onClick={() => requestDelete(event)} 
@@ -873,6 +1488,8 @@ const AdminManageEvents: React.FC = () => {
             </div>
             
             <EventModal isOpen={isModalOpen} onClose={closeModal} onSave={handleSave} event={currentEvent} isSaving={isSaving} />
+            <RegistrationsModal event={registrationsEvent} onClose={() => setRegistrationsEvent(null)} />
+            <RegistrationFormModal event={formEvent} onClose={() => setFormEvent(null)} onSaved={fetchEvents} />
 
             <ConfirmModal
                 isOpen={!!eventToDelete}
@@ -2,6 +2,11 @@ import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { supabase } from '../../supabase';
 import { motion, AnimatePresence } from 'framer-motion';
 import ConfirmModal from '../../components/ConfirmModal';
+import RichTextEditor from '../../components/RichTextEditor';
+import { fromDateTimeInputValue, getNoticeVisibility, toDateTimeInputValue, validatePublishWindow, type NoticeVisibility } from '../../utils/noticeSchedule';
+import { extractNoticeImagePaths, htmlToPlainText, sanitizeNoticeHtml } from '../../utils/richText';
+import { diffLines, type DiffLine } from '../../utils/textDiff';
+import { compressImage, processAttachment, type EncodedImage } from '../../utils/attachmentPipeline';
 
 // --- Interfaces ---
 interface Attachment {
@@ -9,6 +14,9 @@ interface Attachment {
     path: string;
     name: string;
     type: 'image' | 'pdf';
+    // Small JPEG for list views: a downscaled image or a PDF's first page.
+    thumbUrl?: string;
+    thumbPath?: string;
 }
 
 interface Notice {
@@ -16,10 +24,42 @@ interface Notice {
     title: string;
     category: 'Academic' | 'Event' | 'General';
     content: string;
+    title_bn: string | null;
+    content_bn: string | null;
     status: 'published' | 'draft';
     createdAt: string;
     author: string;
     attachments: Attachment[] | null;
+    publish_at: string | null;
+    expire_at: string | null;
+    is_pinned: boolean;
+    priority: 'normal' | 'important' | 'urgent';
+    semesters: number[] | null;
+}
+
+interface NoticeViewTotals {
+    notice_id: string;
+    views: number;
+    downloads: number;
+    last_viewed_on: string | null;
+}
+
+interface NoticeRevision {
+    id: number;
+    notice_id: string;
+    title: string;
+    content: string | null;
+    title_bn: string | null;
+    content_bn: string | null;
+    category: Notice['category'];
+    priority: Notice['priority'] | null;
+    is_pinned: boolean | null;
+    semesters: number[] | null;
+    publish_at: string | null;
+    expire_at: string | null;
+    attachments: Attachment[] | null;
+    editor_email: string | null;
+    created_at: string;
 }
 
 // --- Helper Functions ---
@@ -33,6 +73,52 @@ function getErrorMessage(error: unknown): string {
     return 'An unexpected error occurred.';
 }
 
+const safeStorageFileName = (name: string) => name.replace(/[^a-zA-Z0-9.]/g, '_');
+
+const storageBaseName = (name: string) => safeStorageFileName(name.replace(/\.[^.]+$/, '')) || 'file';
+
+const uploadEncoded = async (path: string, encoded: EncodedImage) => {
+    const { data, error } = await supabase.storage.from('notices').upload(path, encoded.blob, { contentType: encoded.contentType });
+    if (error) throw error;
+    return { path: data.path, url: supabase.storage.from('notices').getPublicUrl(data.path).data.publicUrl };
+};
+
+// Runs a file through the attachment pipeline and uploads the original with
+// its thumbnail next to it (<base>.<ext> and <base>.thumb.jpg).
+const uploadAttachment = async (file: File): Promise<Attachment> => {
+    const processed = await processAttachment(file);
+    const base = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}-${storageBaseName(file.name)}`;
+    const original = await uploadEncoded(`${base}.${processed.original.extension}`, processed.original);
+    let thumb: { path: string; url: string } | null = null;
+    if (processed.thumbnail) {
+        try {
+            thumb = await uploadEncoded(`${base}.thumb.${processed.thumbnail.extension}`, processed.thumbnail);
+        } catch (error) {
+            console.warn(`Thumbnail upload failed for ${file.name}:`, getErrorMessage(error));
+        }
+    }
+    return {
+        url: original.url,
+        path: original.path,
+        name: file.name,
+        type: processed.type,
+        ...(thumb ? { thumbUrl: thumb.url, thumbPath: thumb.path } : {}),
+    };
+};
+
+const attachmentPaths = (att: Attachment) => (att.thumbPath ? [att.path, att.thumbPath] : [att.path]);
+
+// Storage files a notice (or one of its revisions) refers to: attachments plus
+// images embedded in the content.
+const noticeStoragePaths = (notice: { content: string | null; content_bn?: string | null; attachments: Attachment[] | null }) => [
+    ...(notice.attachments || []).flatMap(attachmentPaths),
+    ...extractNoticeImagePaths(notice.content),
+    ...extractNoticeImagePaths(notice.content_bn),
+];
+
+// An editor left with only empty paragraphs counts as no content.
+const hasNoticeContent = (html: string) => !!htmlToPlainText(html).trim() || extractNoticeImagePaths(html).length > 0;
+
 const getCategoryBadgeStyle = (category: Notice['category']) => {
     switch (category) {
         case 'Academic': return 'bg-blue-500/20 text-blue-300 border-blue-500/30';
@@ -42,6 +128,21 @@ const getCategoryBadgeStyle = (category: Notice['category']) => {
     }
 };
 
+const visibilityStyles: Record<NoticeVisibility, { label: string; className: string }> = {
+    draft: { label: 'Draft', className: 'text-text/60' },
+    scheduled: { label: 'Scheduled', className: 'text-amber-300' },
+    live: { label: 'Published', className: 'text-green-400' },
+    expired: { label: 'Expired', className: 'text-red-400' },
+};
+
+const priorityBadgeStyles: Record<Notice['priority'], string> = {
+    normal: '',
+    important: 'bg-amber-500/20 text-amber-300 border-amber-500/30',
+    urgent: 'bg-red-500/20 text-red-300 border-red-500/30',
+};
+
+const SEMESTERS = [1, 2, 3, 4, 5, 6, 7, 8];
+
 // --- Components ---
 const StatusToggle = ({ enabled, onChange }) => (
     <div 
@@ -61,10 +162,21 @@ const NoticeModal = ({ isOpen, onClose, onSave, notice, isSaving }) => {
     const [title, setTitle] = useState('');
     const [category, setCategory] = useState<'Academic' | 'Event' | 'General'>('General');
     const [content, setContent] = useState('');
+    const [titleBn, setTitleBn] = useState('');
+    const [contentBn, setContentBn] = useState('');
+    const [editingLanguage, setEditingLanguage] = useState<'en' | 'bn'>('en');
+    const [publishAt, setPublishAt] = useState('');
+    const [expireAt, setExpireAt] = useState('');
+    const [isPinned, setIsPinned] = useState(false);
+    const [priority, setPriority] = useState<Notice['priority']>('normal');
+    const [semesters, setSemesters] = useState<number[]>([]);
     
     const [existingAttachments, setExistingAttachments] = useState<Attachment[]>([]);
     const [newFiles, setNewFiles] = useState<File[]>([]);
     const [attachmentsToRemove, setAttachmentsToRemove] = useState<Attachment[]>([]);
+    // Inline images uploaded while this modal is open; any that don't end up
+    // in the saved content are removed from storage again.
+    const [uploadedImagePaths, setUploadedImagePaths] = useState<string[]>([]);
     
     const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -74,15 +186,31 @@ const NoticeModal = ({ isOpen, onClose, onSave, notice, isSaving }) => {
                 setTitle(notice.title);
                 setCategory(notice.category);
                 setContent(notice.content);
+                setTitleBn(notice.title_bn || '');
+                setContentBn(notice.content_bn || '');
+                setPublishAt(toDateTimeInputValue(notice.publish_at));
+                setExpireAt(toDateTimeInputValue(notice.expire_at));
+                setIsPinned(!!notice.is_pinned);
+                setPriority(notice.priority || 'normal');
+                setSemesters(notice.semesters || []);
                 setExistingAttachments(notice.attachments || []);
             } else {
                 setTitle('');
                 setCategory('General');
                 setContent('');
+                setTitleBn('');
+                setContentBn('');
+                setPublishAt('');
+                setExpireAt('');
+                setIsPinned(false);
+                setPriority('normal');
+                setSemesters([]);
                 setExistingAttachments([]);
             }
+            setEditingLanguage('en');
             setNewFiles([]);
             setAttachmentsToRemove([]);
+            setUploadedImagePaths([]);
         }
     }, [notice, isOpen]);
     
@@ -101,12 +229,57 @@ const NoticeModal = ({ isOpen, onClose, onSave, notice, isSaving }) => {
         if (fileInputRef.current) fileInputRef.current.value = "";
     };
 
+    const handleUploadImage = async (file: File) => {
+        const image = await compressImage(file);
+        const uploaded = await uploadEncoded(`inline/${Date.now()}-${storageBaseName(file.name)}.${image.extension}`, image);
+        setUploadedImagePaths(prev => [...prev, uploaded.path]);
+        return uploaded.url;
+    };
+
+    const handleClose = () => {
+        if (uploadedImagePaths.length > 0) {
+            supabase.storage.from('notices').remove(uploadedImagePaths).then(({ error }) => {
+                if (error) console.warn("Unused inline images could not be removed:", error.message);
+            });
+        }
+        onClose();
+    };
+
     const handleSave = () => {
-        if (!title.trim() || !content.trim()) {
-            alert("Title and Content cannot be empty.");
+        const cleanContent = sanitizeNoticeHtml(content);
+        const cleanContentBn = sanitizeNoticeHtml(contentBn);
+        // The English title is always needed (feeds and alert emails use it);
+        // the body may be written in either language or both.
+        if (!title.trim()) {
+            alert("The English title cannot be empty.");
+            setEditingLanguage('en');
+            return;
+        }
+        if (!hasNoticeContent(cleanContent) && !hasNoticeContent(cleanContentBn)) {
+            alert("Content cannot be empty. Write it in English, Bangla, or both.");
+            return;
+        }
+        const publish_at = fromDateTimeInputValue(publishAt);
+        const expire_at = fromDateTimeInputValue(expireAt);
+        const windowError = validatePublishWindow(publish_at, expire_at);
+        if (windowError) {
+            alert(windowError);
             return;
         }
-        onSave({ title, category, content }, newFiles, attachmentsToRemove);
+        const keptImages = [...extractNoticeImagePaths(cleanContent), ...extractNoticeImagePaths(cleanContentBn)];
+        const unusedUploads = uploadedImagePaths.filter(path => !keptImages.includes(path));
+        onSave({
+            title,
+            category,
+            content: hasNoticeContent(cleanContent) ? cleanContent : '',
+            title_bn: titleBn.trim() || null,
+            content_bn: hasNoticeContent(cleanContentBn) ? cleanContentBn : null,
+            publish_at,
+            expire_at,
+            is_pinned: isPinned,
+            priority,
+            semesters: semesters.length > 0 ? [...semesters].sort((a, b) => a - b) : null,
+        }, newFiles, attachmentsToRemove, unusedUploads);
     };
     
     if (!isOpen) return null;
@@ -115,7 +288,7 @@ const NoticeModal = ({ isOpen, onClose, onSave, notice, isSaving }) => {
         <AnimatePresence>
             {isOpen && (
                  <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
-                    <motion.div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose} initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} />
+                    <motion.div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={handleClose} initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} />
                     <motion.div
                         className="relative w-full max-w-2xl bg-[#001833] border border-border rounded-xl shadow-2xl p-6 max-h-[90vh] flex flex-col"
                         initial={{ opacity: 0, scale: 0.95 }}
@@ -124,16 +297,69 @@ const NoticeModal = ({ isOpen, onClose, onSave, notice, isSaving }) => {
                     >
                         <h2 className="text-2xl font-bold mb-6 text-text shrink-0">{notice ? 'Edit Notice' : 'Create New Notice'}</h2>
                         <div className="space-y-4 overflow-y-auto pr-2">
-                            <input type="text" value={title} onChange={e => setTitle(e.target.value)} placeholder="Title" className="w-full input-style" />
-                            <select value={category} onChange={e => setCategory(e.target.value as any)} className="w-full input-style bg-surface/50"><option>General</option><option>Academic</option><option>Event</option></select>
-                            <textarea rows={6} value={content} onChange={e => setContent(e.target.value)} placeholder="Content" className="w-full input-style" />
+                            <div className="flex items-center gap-2">
+                                {([['en', 'English'], ['bn', 'বাংলা']] as const).map(([lang, label]) => (
+                                    <button
+                                        key={lang}
+                                        onClick={() => setEditingLanguage(lang)}
+                                        className={`px-3 py-1 rounded-full text-sm font-semibold border ${editingLanguage === lang ? 'bg-primary/20 border-primary/50 text-text' : 'border-border text-text/60 hover:text-text'}`}
+                                    >
+                                        {label}
+                                        {lang === 'bn' && !titleBn.trim() && !hasNoticeContent(contentBn) && <span className="ml-1 text-xs font-normal text-text/50">(optional)</span>}
+                                    </button>
+                                ))}
+                            </div>
+                            {editingLanguage === 'en'
+                                ? <input type="text" value={title} onChange={e => setTitle(e.target.value)} placeholder="Title" className="w-full input-style" />
+                                : <input type="text" lang="bn" value={titleBn} onChange={e => setTitleBn(e.target.value)} placeholder="শিরোনাম (Bangla title)" className="w-full input-style" />}
+                            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-center">
+                                <select value={category} onChange={e => setCategory(e.target.value as any)} className="w-full input-style bg-surface/50"><option>General</option><option>Academic</option><option>Event</option></select>
+                                <select value={priority} onChange={e => setPriority(e.target.value as Notice['priority'])} className="w-full input-style bg-surface/50">
+                                    <option value="normal">Normal priority</option>
+                                    <option value="important">Important</option>
+                                    <option value="urgent">Urgent (site-wide banner)</option>
+                                </select>
+                                <label className="flex items-center gap-2 text-sm cursor-pointer"><input type="checkbox" checked={isPinned} onChange={e => setIsPinned(e.target.checked)} className="w-4 h-4" /> Pin to top</label>
+                            </div>
+                            <RichTextEditor
+                                value={editingLanguage === 'en' ? content : contentBn}
+                                onChange={editingLanguage === 'en' ? setContent : setContentBn}
+                                placeholder={editingLanguage === 'en' ? 'Content' : 'বিস্তারিত (Bangla content)'}
+                                onUploadImage={handleUploadImage}
+                            />
+                            <p className="text-xs text-text/60 -mt-2">Visitors see their chosen language; a missing Bangla title or content falls back to English, and vice versa.</p>
+                            <div>
+                                <label className="block text-sm font-medium text-text/90 mb-2">For semesters (optional)</label>
+                                <div className="flex flex-wrap gap-2">
+                                    {SEMESTERS.map(s => (
+                                        <label key={s} className={`px-3 py-1 rounded-full text-sm cursor-pointer border ${semesters.includes(s) ? 'bg-primary/20 border-primary/50 text-text' : 'border-border text-text/60'}`}>
+                                            <input type="checkbox" className="sr-only" checked={semesters.includes(s)} onChange={() => setSemesters(prev => prev.includes(s) ? prev.filter(v => v !== s) : [...prev, s])} />
+                                            {s}
+                                        </label>
+                                    ))}
+                                </div>
+                                <p className="text-xs text-text/60 mt-1">Email alerts go to subscribers of these semesters. Leave empty to alert everyone subscribed to the category.</p>
+                            </div>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                <div>
+                                    <label className="block text-sm font-medium text-text/90 mb-2">Publish at (optional)</label>
+                                    <input type="datetime-local" value={publishAt} onChange={e => setPublishAt(e.target.value)} className="w-full input-style bg-surface/50" />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-text/90 mb-2">Expire at (optional)</label>
+                                    <input type="datetime-local" value={expireAt} onChange={e => setExpireAt(e.target.value)} className="w-full input-style bg-surface/50" />
+                                </div>
+                                <p className="sm:col-span-2 text-xs text-text/60 -mt-2">A published notice goes live at the publish time and disappears from the site after the expiry time. Leave empty to publish immediately and never expire.</p>
+                            </div>
                             <div>
                                 <label className="block text-sm font-medium text-text/90 mb-2">Attachments (Images or PDFs)</label>
                                 <div className="p-3 bg-surface/50 border border-dashed border-border rounded-lg space-y-3">
                                     {(existingAttachments.length === 0 && newFiles.length === 0) && <p className="text-sm text-center text-text/60 py-2">No attachments.</p>}
                                     {existingAttachments.map(att => (
                                         <div key={att.path} className="flex items-center justify-between gap-2 p-2 bg-surface rounded-md">
-                                            <span className="material-symbols-outlined text-secondary text-lg">{att.type === 'pdf' ? 'picture_as_pdf' : 'image'}</span>
+                                            {att.thumbUrl
+                                                ? <img src={att.thumbUrl} alt="" className="w-10 h-10 rounded object-cover shrink-0" loading="lazy" />
+                                                : <span className="material-symbols-outlined text-secondary text-lg">{att.type === 'pdf' ? 'picture_as_pdf' : 'image'}</span>}
                                             <a href={att.url} target="_blank" rel="noopener noreferrer" className="text-sm text-text/80 truncate flex-grow hover:underline">{att.name}</a>
                                             <button onClick={() => handleRemoveExisting(att)} className="text-sm font-semibold text-red-400 hover:text-red-300 shrink-0">Remove</button>
                                         </div>
@@ -150,7 +376,7 @@ const NoticeModal = ({ isOpen, onClose, onSave, notice, isSaving }) => {
                             </div>
                         </div>
                         <div className="mt-6 flex justify-end gap-4 shrink-0">
-                            <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm font-semibold bg-surface hover:bg-surface/80">Cancel</button>
+                            <button onClick={handleClose} className="px-4 py-2 rounded-lg text-sm font-semibold bg-surface hover:bg-surface/80">Cancel</button>
                             <button onClick={handleSave} disabled={isSaving} className="px-4 py-2 rounded-lg text-sm font-semibold bg-primary hover:bg-primary/90 text-white min-w-[110px]">
                                 {isSaving ? 'Saving...' : 'Save Notice'}
                             </button>
@@ -162,6 +388,238 @@ const NoticeModal = ({ isOpen, onClose, onSave, notice, isSaving }) => {
     );
 };
 
+const diffLineStyles: Record<DiffLine['type'], string> = {
+    same: 'text-text/70',
+    added: 'bg-green-500/10 text-green-300',
+    removed: 'bg-red-500/10 text-red-300 line-through decoration-red-400/50',
+};
+
+const diffLinePrefix: Record<DiffLine['type'], string> = { same: ' ', added: '+', removed: '-' };
+
+const formatSchedule = (revision: NoticeRevision) =>
+    [revision.publish_at && `from ${new Date(revision.publish_at).toLocaleString()}`, revision.expire_at && `until ${new Date(revision.expire_at).toLocaleString()}`]
+        .filter(Boolean).join(' ') || 'Immediately, no expiry';
+
+// Shows what changed between a revision and the one before it (or the current
+// version), with restore and purge actions.
+const NoticeHistoryModal: React.FC<{ notice: Notice | null; onClose: () => void; onRestored: () => void }> = ({ notice, onClose, onRestored }) => {
+    const [revisions, setRevisions] = useState<NoticeRevision[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [selectedId, setSelectedId] = useState<number | null>(null);
+    const [compareWithCurrent, setCompareWithCurrent] = useState(false);
+    const [isWorking, setIsWorking] = useState(false);
+    const [revisionToPurge, setRevisionToPurge] = useState<NoticeRevision | null>(null);
+
+    const fetchRevisions = async (noticeId: string) => {
+        setLoading(true);
+        const { data, error } = await supabase.from('notice_revisions').select('*').eq('notice_id', noticeId).order('created_at', { ascending: false }).order('id', { ascending: false });
+        if (error) {
+            const message = getErrorMessage(error);
+            if (message.includes('notice_revisions')) {
+                alert("Database Schema Error: Notice history is not set up. Please go to the Supabase SQL Editor and run supabase/migrations/20261019170000_notice_revisions.sql.");
+            } else {
+                alert(`Failed to load history: ${message}`);
+            }
+            setRevisions([]);
+        } else {
+            setRevisions(data as NoticeRevision[]);
+        }
+        setLoading(false);
+    };
+
+    useEffect(() => {
+        if (!notice) return;
+        setSelectedId(null);
+        setCompareWithCurrent(false);
+        fetchRevisions(notice.id);
+    }, [notice]);
+
+    const selectedIndex = Math.max(0, revisions.findIndex(r => r.id === selectedId));
+    const selected = revisions[selectedIndex];
+    const current = revisions[0];
+    // Without "compare with current" a revision is shown against the one it replaced.
+    const [before, after] = compareWithCurrent ? [selected, current] : [revisions[selectedIndex + 1], selected];
+
+    const changes = useMemo(() => {
+        if (!after) return null;
+        const beforeAttachments = before?.attachments || [];
+        const afterAttachments = after.attachments || [];
+        const fields: { label: string; from: string; to: string }[] = before ? [
+            { label: 'Title', from: before.title, to: after.title },
+            { label: 'Bangla title', from: before.title_bn || '', to: after.title_bn || '' },
+            { label: 'Category', from: before.category, to: after.category },
+            { label: 'Priority', from: before.priority || 'normal', to: after.priority || 'normal' },
+            { label: 'Schedule', from: formatSchedule(before), to: formatSchedule(after) },
+        ] : [];
+        return {
+            fields: fields.filter(field => field.from !== field.to),
+            addedAttachments: afterAttachments.filter(a => !beforeAttachments.some(b => b.path === a.path)),
+            removedAttachments: beforeAttachments.filter(b => !afterAttachments.some(a => a.path === b.path)),
+            content: diffLines(htmlToPlainText(before?.content), htmlToPlainText(after.content)),
+            contentBn: diffLines(htmlToPlainText(before?.content_bn), htmlToPlainText(after.content_bn)),
+        };
+    }, [before, after]);
+
+    const handleRestore = async (revision: NoticeRevision) => {
+        if (!notice || !window.confirm(`Restore the version from ${new Date(revision.created_at).toLocaleString()}? The current version stays in the history.`)) return;
+        setIsWorking(true);
+        const { error } = await supabase.from('notices').update({
+            title: revision.title,
+            content: revision.content,
+            title_bn: revision.title_bn,
+            content_bn: revision.content_bn,
+            category: revision.category,
+            priority: revision.priority || 'normal',
+            semesters: revision.semesters,
+            publish_at: revision.publish_at,
+            expire_at: revision.expire_at,
+            attachments: revision.attachments && revision.attachments.length > 0 ? revision.attachments : null,
+        }).eq('id', notice.id);
+        setIsWorking(false);
+        if (error) {
+            alert(`Restore failed: ${getErrorMessage(error)}`);
+            return;
+        }
+        await fetchRevisions(notice.id);
+        setSelectedId(null);
+        onRestored();
+    };
+
+    // Purging deletes the revision for good, along with any stored files that
+    // no remaining revision (including the current one) still uses.
+    const handlePurge = async () => {
+        if (!revisionToPurge) return;
+        setIsWorking(true);
+        try {
+            const { error } = await supabase.from('notice_revisions').delete().eq('id', revisionToPurge.id);
+            if (error) throw error;
+            const remaining = revisions.filter(r => r.id !== revisionToPurge.id);
+            const stillUsed = new Set(remaining.flatMap(noticeStoragePaths));
+            const orphaned = noticeStoragePaths(revisionToPurge).filter(path => !stillUsed.has(path));
+            if (orphaned.length > 0) {
+                const { error: removeError } = await supabase.storage.from('notices').remove(Array.from(new Set(orphaned)));
+                if (removeError) console.warn("Some files could not be removed from storage:", removeError.message);
+            }
+            setRevisions(remaining);
+            setSelectedId(null);
+        } catch (error) {
+            alert(`Purge failed: ${getErrorMessage(error)}`);
+        } finally {
+            setIsWorking(false);
+            setRevisionToPurge(null);
+        }
+    };
+
+    return (
+        <AnimatePresence>
+            {notice && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+                    <motion.div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose} initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} />
+                    <motion.div
+                        className="relative w-full max-w-5xl bg-[#001833] border border-border rounded-xl shadow-2xl p-6 max-h-[90vh] flex flex-col"
+                        initial={{ opacity: 0, scale: 0.95 }}
+                        animate={{ opacity: 1, scale: 1 }}
+                        exit={{ opacity: 0, scale: 0.95 }}
+                    >
+                        <div className="flex justify-between items-start gap-4 mb-4 shrink-0">
+                            <div>
+                                <h2 className="text-2xl font-bold text-text">Revision History</h2>
+                                <p className="text-sm text-text/70 truncate">{notice.title}</p>
+                            </div>
+                            <button onClick={onClose} className="p-1 text-text/60 hover:text-text"><span className="material-symbols-outlined">close</span></button>
+                        </div>
+
+                        {loading ? <p className="text-center text-text/70 py-12">Loading history...</p> : revisions.length === 0 ? (
+                            <p className="text-center text-text/70 py-12">No revisions recorded for this notice yet.</p>
+                        ) : (
+                            <div className="grid grid-cols-1 md:grid-cols-[260px_1fr] gap-4 min-h-0 flex-grow">
+                                <ul className="space-y-2 overflow-y-auto pr-1 max-h-[30vh] md:max-h-none">
+                                    {revisions.map((revision, index) => (
+                                        <li key={revision.id}>
+                                            <button
+                                                onClick={() => setSelectedId(revision.id)}
+                                                className={`w-full text-left p-3 rounded-lg border transition-colors ${revision.id === selected?.id ? 'bg-primary/20 border-primary/50' : 'bg-surface/50 border-border hover:bg-surface'}`}
+                                            >
+                                                <div className="flex items-center justify-between gap-2">
+                                                    <span className="text-sm font-semibold text-text">{new Date(revision.created_at).toLocaleString()}</span>
+                                                    {index === 0 && <span className="text-[10px] font-bold uppercase px-2 py-0.5 rounded-full bg-green-500/20 text-green-300">Current</span>}
+                                                </div>
+                                                <p className="text-xs text-text/60 mt-1 truncate">{revision.editor_email || 'Unknown editor'}</p>
+                                            </button>
+                                        </li>
+                                    ))}
+                                </ul>
+
+                                {selected && changes && (
+                                    <div className="flex flex-col min-h-0 bg-surface/30 border border-border rounded-lg">
+                                        <div className="flex flex-wrap items-center justify-between gap-3 p-3 border-b border-border shrink-0">
+                                            <label className="flex items-center gap-2 text-sm text-text/80 cursor-pointer">
+                                                <input type="checkbox" checked={compareWithCurrent} onChange={e => setCompareWithCurrent(e.target.checked)} disabled={selectedIndex === 0} className="w-4 h-4" />
+                                                Compare with current version
+                                            </label>
+                                            <div className="flex gap-2">
+                                                <button onClick={() => handleRestore(selected)} disabled={selectedIndex === 0 || isWorking} className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-semibold bg-primary hover:bg-primary/90 text-white disabled:opacity-40 disabled:cursor-not-allowed">
+                                                    <span className="material-symbols-outlined text-base">restore</span> Restore
+                                                </button>
+                                                <button onClick={() => setRevisionToPurge(selected)} disabled={selectedIndex === 0 || isWorking} title="Permanently delete this revision" className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-semibold bg-red-600/80 hover:bg-red-600 text-white disabled:opacity-40 disabled:cursor-not-allowed">
+                                                    <span className="material-symbols-outlined text-base">delete_forever</span> Purge
+                                                </button>
+                                            </div>
+                                        </div>
+                                        <div className="p-4 space-y-4 overflow-y-auto text-sm">
+                                            {!before && <p className="text-text/60 italic">This is the first recorded version.</p>}
+                                            {compareWithCurrent && <p className="text-text/60">Showing what changed from this version to the current one.</p>}
+                                            {changes.fields.map(field => (
+                                                <div key={field.label}>
+                                                    <p className="font-semibold text-text/90 mb-1">{field.label}</p>
+                                                    <p><span className="text-red-300 line-through">{field.from}</span> <span className="text-text/50">→</span> <span className="text-green-300">{field.to}</span></p>
+                                                </div>
+                                            ))}
+                                            {(changes.addedAttachments.length > 0 || changes.removedAttachments.length > 0) && (
+                                                <div>
+                                                    <p className="font-semibold text-text/90 mb-1">Attachments</p>
+                                                    {changes.addedAttachments.map(att => <p key={`+${att.path}`} className="text-green-300">+ {att.name}</p>)}
+                                                    {changes.removedAttachments.map(att => <p key={`-${att.path}`} className="text-red-300">- {att.name}</p>)}
+                                                </div>
+                                            )}
+                                            <div>
+                                                <p className="font-semibold text-text/90 mb-1">Content</p>
+                                                <pre className="font-mono text-xs whitespace-pre-wrap break-words rounded-md bg-black/20 p-2">
+                                                    {changes.content.length === 0 ? <span className="text-text/50">(empty)</span> : changes.content.map((line, i) => (
+                                                        <div key={i} className={diffLineStyles[line.type]}>{diffLinePrefix[line.type]} {line.text || ' '}</div>
+                                                    ))}
+                                                </pre>
+                                            </div>
+                                            {changes.contentBn.length > 0 && (
+                                                <div>
+                                                    <p className="font-semibold text-text/90 mb-1">Bangla content</p>
+                                                    <pre lang="bn" className="font-mono text-xs whitespace-pre-wrap break-words rounded-md bg-black/20 p-2">
+                                                        {changes.contentBn.map((line, i) => (
+                                                            <div key={i} className={diffLineStyles[line.type]}>{diffLinePrefix[line.type]} {line.text || ' '}</div>
+                                                        ))}
+                                                    </pre>
+                                                </div>
+                                            )}
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                    </motion.div>
+                    <ConfirmModal
+                        isOpen={!!revisionToPurge}
+                        onClose={() => setRevisionToPurge(null)}
+                        onConfirm={handlePurge}
+                        title="Purge Revision"
+                        message="Permanently delete this revision? Files only this revision used will be removed from storage. This cannot be undone."
+                        isConfirming={isWorking}
+                    />
+                </div>
+            )}
+        </AnimatePresence>
+    );
+};
+
 
 const AdminManageNotices: React.FC = () => {
     const [notices, setNotices] = useState<Notice[]>([]);
@@ -171,55 +629,62 @@ const AdminManageNotices: React.FC = () => {
     const [deletingId, setDeletingId] = useState<string | null>(null);
     const [noticeToDelete, setNoticeToDelete] = useState<Notice | null>(null);
     const [isSaving, setIsSaving] = useState(false);
+    const [historyNotice, setHistoryNotice] = useState<Notice | null>(null);
+    const [viewTotals, setViewTotals] = useState<Record<string, NoticeViewTotals>>({});
     
     const [searchTerm, setSearchTerm] = useState('');
     const [filterCategory, setFilterCategory] = useState<'all' | Notice['category']>('all');
-    const [filterStatus, setFilterStatus] = useState<'all' | Notice['status']>('all');
+    const [filterStatus, setFilterStatus] = useState<'all' | NoticeVisibility>('all');
     
     const fetchNotices = async () => {
         setLoading(true);
-        const { data, error } = await supabase.from('notices').select('*').order('createdAt', { ascending: false });
+        const { data, error } = await supabase.from('notices').select('*').order('is_pinned', { ascending: false }).order('createdAt', { ascending: false });
         if (error) { console.error("Error fetching notices:", error.message); } 
         else { setNotices(data as Notice[] || []); }
         setLoading(false);
+
+        // Reach numbers are a nice-to-have; the list works without them.
+        const { data: totals, error: totalsError } = await supabase.from('notice_view_totals').select('*');
+        if (totalsError) {
+            console.warn("Could not load notice views (run supabase/migrations/20261019180000_notice_views.sql):", totalsError.message);
+        } else {
+            setViewTotals(Object.fromEntries((totals as NoticeViewTotals[] || []).map(row => [String(row.notice_id), row])));
+        }
     };
 
     useEffect(() => { fetchNotices(); }, []);
 
-    const handleSaveNotice = async (formData: { title: string; category: Notice['category']; content: string }, newFiles: File[], attachmentsToRemove: Attachment[]) => {
+    const handleSaveNotice = async (formData: Pick<Notice, 'title' | 'category' | 'content' | 'title_bn' | 'content_bn' | 'publish_at' | 'expire_at' | 'is_pinned' | 'priority' | 'semesters'>, newFiles: File[], attachmentsToRemove: Attachment[], unusedUploads: string[] = []) => {
         setIsSaving(true);
         try {
-            // 1. Handle file removals from storage
+            // 1. Inline images uploaded in this session but not kept never made it
+            // into a revision, so they can go now. Files removed from the notice
+            // stay in storage while older revisions still reference them; they
+            // are cleaned up when those revisions are purged.
             const pathsToRemove = attachmentsToRemove.map(att => att.path);
-            if (pathsToRemove.length > 0) {
-                const { error: removeError } = await supabase.storage.from('notices').remove(pathsToRemove);
-                if (removeError) console.warn("Some attachments could not be removed from storage:", removeError.message);
+            if (unusedUploads.length > 0) {
+                const { error: removeError } = await supabase.storage.from('notices').remove(unusedUploads);
+                if (removeError) console.warn("Unused inline images could not be removed from storage:", removeError.message);
             }
 
-            // 2. Handle new file uploads
-            const uploadPromises = newFiles.map(file => {
-                const safeFileName = file.name.replace(/[^a-zA-Z0-9.]/g, '_');
-                const newFilePath = `${Date.now()}-${safeFileName}`;
-                return supabase.storage.from('notices').upload(newFilePath, file);
-            });
-            const uploadResults = await Promise.all(uploadPromises);
-
-            const uploadErrors = uploadResults.filter(result => result.error);
+            // 2. Process and upload new files one at a time; decoding several
+            // large photos at once can exhaust memory on phones.
+            const newUploadedAttachments: Attachment[] = [];
+            const uploadErrors: string[] = [];
+            for (const file of newFiles) {
+                try {
+                    newUploadedAttachments.push(await uploadAttachment(file));
+                } catch (error) {
+                    uploadErrors.push(`${file.name}: ${getErrorMessage(error)}`);
+                }
+            }
             if (uploadErrors.length > 0) {
-                throw new Error(`Failed to upload files: ${uploadErrors.map(e => e.error!.message).join(', ')}`);
+                const uploadedPaths = newUploadedAttachments.flatMap(attachmentPaths);
+                if (uploadedPaths.length > 0) await supabase.storage.from('notices').remove(uploadedPaths);
+                throw new Error(`Failed to upload files: ${uploadErrors.join(', ')}`);
             }
 
             // 3. Construct the final attachments array
-            const newUploadedAttachments: Attachment[] = uploadResults.map((result, index) => {
-                const file = newFiles[index];
-                const { data: urlData } = supabase.storage.from('notices').getPublicUrl(result.data!.path);
-                return {
-                    url: urlData.publicUrl,
-                    path: result.data!.path,
-                    name: file.name,
-                    type: file.type.startsWith('image/') ? 'image' : 'pdf'
-                };
-            });
             
             const remainingAttachments = (currentNotice?.attachments || []).filter(att => !pathsToRemove.includes(att.path));
             const finalAttachments = [...remainingAttachments, ...newUploadedAttachments];
@@ -240,7 +705,15 @@ const AdminManageNotices: React.FC = () => {
         } catch (error) {
             const friendlyError = getErrorMessage(error);
             console.error("Error saving notice: ", friendlyError);
-            if (friendlyError.includes('Bucket not found')) {
+            if (friendlyError.includes('publish_at') || friendlyError.includes('expire_at')) {
+                alert("Database Schema Error: Notice scheduling is not set up. Please go to the Supabase SQL Editor and run supabase/migrations/20261019130000_notice_schedule.sql.");
+            } else if (friendlyError.includes('is_pinned') || friendlyError.includes('priority')) {
+                alert("Database Schema Error: Notice pinning is not set up. Please go to the Supabase SQL Editor and run supabase/migrations/20261019140000_notice_priority.sql.");
+            } else if (friendlyError.includes('title_bn') || friendlyError.includes('content_bn')) {
+                alert("Database Schema Error: Bangla notice fields are not set up. Please go to the Supabase SQL Editor and run supabase/migrations/20261019190000_bilingual_content.sql.");
+            } else if (friendlyError.includes('semesters')) {
+                alert("Database Schema Error: Notice alerts are not set up. Please go to the Supabase SQL Editor and run supabase/migrations/20261019160000_notice_subscriptions.sql.");
+            } else if (friendlyError.includes('Bucket not found')) {
                 alert("Configuration Error: The 'notices' storage bucket was not found. Please go to your Supabase project dashboard, navigate to Storage, and create a new public bucket named 'notices'.");
             } else {
                 alert(`Failed to save notice: ${friendlyError}`);
@@ -256,12 +729,18 @@ const AdminManageNotices: React.FC = () => {
         if (!noticeToDelete) return;
         setDeletingId(noticeToDelete.id);
         try {
-            const pathsToRemove = noticeToDelete.attachments?.map(att => att.path) || [];
-            if (pathsToRemove.length > 0) {
-                await supabase.storage.from('notices').remove(pathsToRemove);
-            }
+            // Revisions are deleted with the notice, so every file any of them
+            // referenced can go too.
+            const { data: revisions, error: revisionsError } = await supabase.from('notice_revisions').select('content, content_bn, attachments').eq('notice_id', noticeToDelete.id);
+            if (revisionsError) console.warn("Could not load notice revisions:", revisionsError.message);
+            const pathsToRemove = Array.from(new Set([noticeToDelete, ...(revisions || [])].flatMap(noticeStoragePaths)));
+
             const { error } = await supabase.from('notices').delete().eq('id', noticeToDelete.id);
             if (error) throw error;
+            if (pathsToRemove.length > 0) {
+                const { error: removeError } = await supabase.storage.from('notices').remove(pathsToRemove);
+                if (removeError) console.warn("Some attachments could not be removed from storage:", removeError.message);
+            }
             await fetchNotices();
         } catch (error: any) {
             alert(`Delete failed: ${getErrorMessage(error)}`);
@@ -271,6 +750,12 @@ const AdminManageNotices: React.FC = () => {
         }
     };
 
+    const handleTogglePin = async (notice: Notice) => {
+        const { error } = await supabase.from('notices').update({ is_pinned: !notice.is_pinned }).eq('id', notice.id);
+        if (error) { console.error("Error updating pin: ", error.message); }
+        else { fetchNotices(); }
+    };
+
     const handleToggleStatus = async (notice: Notice) => {
         const newStatus = notice.status === 'published' ? 'draft' : 'published';
         const { error } = await supabase.from('notices').update({ status: newStatus }).eq('id', notice.id);
@@ -283,9 +768,10 @@ const AdminManageNotices: React.FC = () => {
 
     const filteredNotices = useMemo(() => {
         return notices.filter(notice => {
-            const matchesSearch = notice.title.toLowerCase().includes(searchTerm.toLowerCase()) || notice.content.toLowerCase().includes(searchTerm.toLowerCase());
+            const term = searchTerm.toLowerCase();
+            const matchesSearch = [notice.title, notice.title_bn || '', htmlToPlainText(notice.content), htmlToPlainText(notice.content_bn)].some(text => text.toLowerCase().includes(term));
             const matchesCategory = filterCategory === 'all' || notice.category === filterCategory;
-            const matchesStatus = filterStatus === 'all' || notice.status === filterStatus;
+            const matchesStatus = filterStatus === 'all' || getNoticeVisibility(notice) === filterStatus;
             return matchesSearch && matchesCategory && matchesStatus;
         });
     }, [notices, searchTerm, filterCategory, filterStatus]);
@@ -306,29 +792,45 @@ const AdminManageNotices: React.FC = () => {
             <div className="mb-6 bg-surface p-4 rounded-xl border border-border grid grid-cols-1 md:grid-cols-3 gap-4">
                  <div className="relative"><span className="material-symbols-outlined absolute left-3 top-1/2 -translate-y-1/2 text-text/50">search</span><input type="text" placeholder="Search..." value={searchTerm} onChange={e => setSearchTerm(e.target.value)} className="w-full rounded-lg border border-border bg-surface/50 pl-10 pr-3 py-2 text-text" /></div>
                 <select value={filterCategory} onChange={e => setFilterCategory(e.target.value as any)} className="w-full rounded-lg border border-border bg-surface/50 px-3 py-2 text-text"><option value="all">All Categories</option><option value="Academic">Academic</option><option value="Event">Event</option><option value="General">General</option></select>
-                <select value={filterStatus} onChange={e => setFilterStatus(e.target.value as any)} className="w-full rounded-lg border border-border bg-surface/50 px-3 py-2 text-text"><option value="all">All Statuses</option><option value="published">Published</option><option value="draft">Draft</option></select>
+                <select value={filterStatus} onChange={e => setFilterStatus(e.target.value as any)} className="w-full rounded-lg border border-border bg-surface/50 px-3 py-2 text-text"><option value="all">All Statuses</option><option value="live">Published</option><option value="scheduled">Scheduled</option><option value="expired">Expired</option><option value="draft">Draft</option></select>
             </div>
 
              {loading ? <p className="text-center text-text/70">Loading notices...</p> : filteredNotices.length > 0 ? (
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                     {filteredNotices.map(notice => {
                         const isDeleting = deletingId === notice.id;
+                        const visibility = visibilityStyles[getNoticeVisibility(notice)];
+                        const reach = viewTotals[String(notice.id)];
                         return (
                         <div key={notice.id} className="bg-surface border border-border rounded-xl shadow-lg flex flex-col h-full hover:-translate-y-1 transition-transform">
                             <div className="p-5 flex-grow">
                                 <div className="flex justify-between items-start gap-3 mb-2">
-                                    <h3 className="text-lg font-bold text-text">{notice.title}</h3>
-                                    <span className={`text-xs font-semibold px-2.5 py-1 rounded-full shrink-0 border ${getCategoryBadgeStyle(notice.category)}`}>{notice.category}</span>
+                                    <h3 className="text-lg font-bold text-text">{notice.is_pinned && <span className="material-symbols-outlined text-base text-secondary align-middle mr-1" title="Pinned">push_pin</span>}{notice.title}</h3>
+                                    <div className="flex flex-col items-end gap-1 shrink-0">
+                                        <span className={`text-xs font-semibold px-2.5 py-1 rounded-full border ${getCategoryBadgeStyle(notice.category)}`}>{notice.category}</span>
+                                        {notice.priority && notice.priority !== 'normal' && <span className={`text-xs font-semibold px-2.5 py-1 rounded-full border capitalize ${priorityBadgeStyles[notice.priority]}`}>{notice.priority}</span>}
+                                    </div>
                                 </div>
-                                <div className="flex items-center gap-2 text-sm text-text/70 mb-4">
+                                <div className="flex flex-wrap items-center gap-2 text-sm text-text/70 mb-4">
                                     <span>{new Date(notice.createdAt).toLocaleDateString()}</span>
+                                    {notice.publish_at && <span className="flex items-center gap-1" title="Publish time"><span className="material-symbols-outlined text-base">schedule</span>{new Date(notice.publish_at).toLocaleString()}</span>}
+                                    {notice.expire_at && <span className="flex items-center gap-1" title="Expiry time"><span className="material-symbols-outlined text-base">event_busy</span>{new Date(notice.expire_at).toLocaleString()}</span>}
                                     {notice.attachments && notice.attachments.length > 0 && <span className="material-symbols-outlined text-base text-secondary" title={`Has ${notice.attachments.length} attachment(s)`}>attachment</span>}
+                                    {(notice.title_bn || notice.content_bn) && <span lang="bn" className="text-xs font-semibold px-1.5 py-0.5 rounded border border-border text-secondary" title="Has a Bangla translation">বাং</span>}
+                                    {notice.status === 'published' && (
+                                        <span className="flex items-center gap-3" title={reach?.last_viewed_on ? `Last viewed ${new Date(reach.last_viewed_on).toLocaleDateString()}` : 'Not viewed yet'}>
+                                            <span className="flex items-center gap-1"><span className="material-symbols-outlined text-base">visibility</span>{reach?.views ?? 0}</span>
+                                            <span className="flex items-center gap-1"><span className="material-symbols-outlined text-base">download</span>{reach?.downloads ?? 0}</span>
+                                        </span>
+                                    )}
                                 </div>
-                                <p className="text-sm text-text/90 leading-relaxed line-clamp-4">{notice.content}</p>
+                                <p className="text-sm text-text/90 leading-relaxed line-clamp-4 whitespace-pre-line">{htmlToPlainText(notice.content) || htmlToPlainText(notice.content_bn)}</p>
                             </div>
                             <div className="border-t border-border p-4 flex justify-between items-center bg-black/10">
-                                <div className="flex items-center gap-3"><StatusToggle enabled={notice.status === 'published'} onChange={() => handleToggleStatus(notice)} /><span className={`text-sm font-medium ${notice.status === 'published' ? 'text-green-400' : 'text-text/60'}`}>{notice.status === 'published' ? 'Published' : 'Draft'}</span></div>
+                                <div className="flex items-center gap-3"><StatusToggle enabled={notice.status === 'published'} onChange={() => handleToggleStatus(notice)} /><span className={`text-sm font-medium ${visibility.className}`}>{visibility.label}</span></div>
                                 <div className="flex items-center gap-2">
+                                     <button onClick={() => handleTogglePin(notice)} title={notice.is_pinned ? 'Unpin' : 'Pin to top'} className={`p-2 rounded-full hover:bg-surface ${notice.is_pinned ? 'text-secondary' : 'text-text/70 hover:text-secondary'}`}><span className="material-symbols-outlined">push_pin</span></button>
+                                     <button onClick={() => setHistoryNotice(notice)} title="Revision history" className="p-2 rounded-full hover:bg-surface text-text/70 hover:text-secondary"><span className="material-symbols-outlined">history</span></button>
                                      <button onClick={() => openModal(notice)} className="p-2 rounded-full hover:bg-surface text-text/70 hover:text-secondary"><span className="material-symbols-outlined">edit</span></button>
                                      <button onClick={() => requestDeleteNotice(notice)} disabled={isDeleting} className="p-2 rounded-full hover:bg-surface text-text/70 hover:text-red-400 w-9 h-9 flex items-center justify-center"><span className="material-symbols-outlined">{isDeleting ? 'hourglass_top' : 'delete'}</span></button>
                                 </div>
@@ -339,6 +841,7 @@ const AdminManageNotices: React.FC = () => {
             ) : <div className="text-center py-16 bg-surface rounded-xl border border-border"><h3 className="text-xl font-semibold">No Notices Found</h3><p className="mt-2 text-text/60">Try adjusting your filters.</p></div>}
             
             <NoticeModal isOpen={isModalOpen} onClose={closeModal} onSave={handleSaveNotice} notice={currentNotice} isSaving={isSaving} />
+            <NoticeHistoryModal notice={historyNotice} onClose={() => setHistoryNotice(null)} onRestored={fetchNotices} />
             <ConfirmModal isOpen={!!noticeToDelete} onClose={() => setNoticeToDelete(null)} onConfirm={handleDeleteNotice} title="Confirm Deletion" message={`Delete "${noticeToDelete?.title}"? This cannot be undone.`} isConfirming={!!deletingId}/>
         </div>
     );
@@ -3,6 +3,18 @@ import { supabase } from '../../supabase';
 import { motion, AnimatePresence } from 'framer-motion';
 import ConfirmModal from '../../components/ConfirmModal';
 import * as pdfjsLib from 'pdfjs-dist';
+import {
+    detectResultFormats, diffResultSets, formatResultSummary, fromFinalResultRow, getResultStatus, parseResultSheet, summarizeResults, toFinalResultRow,
+    type FinalResultData, type FinalResultRow, type ParsedResultSheet, type ResultSetDiff,
+} from '../../utils/resultParser';
+import {
+    DEFAULT_GRADING_SCHEME, GRADING_SCHEME_SETTING_KEY, gradeResult, parseGradingScheme, validateGradingScheme,
+    type GradeBand, type GradingScheme, type SubjectGradingRule,
+} from '../../utils/grading';
+import { AT_RISK_REFERRED_COUNT, countBySemester, findAtRiskStudents, groupBySubject, type ReferredSubjectRow } from '../../utils/backlog';
+import { downloadCsv } from '../../utils/csv';
+import { fetchAllPages } from '../../utils/pagination';
+import { parseMarkSheet, readMarkSheetFile, type MarkSheetRow, type MarkSheetSubject } from '../../utils/markSheet';
 
 // Setup for pdf.js worker to enable PDF processing in the browser.
 pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/4.5.136/pdf.worker.mjs';
@@ -11,7 +23,7 @@ pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://cdnjs.cloudflare.com/ajax/libs
 // --- Types ---
 interface OtherSubjectResult { subject_name: string; marks_obtained: number; total_marks: number; }
 interface OtherResult { id: string; roll_number: string; student_name: string; exam_name: string; semester: string; student_group: string; subjects: OtherSubjectResult[]; }
-interface FinalResultSession { id: string; session_name: string; pdf_path: string | null; file_name: string | null; updated_at: string | null; }
+interface FinalResultSession { id: string; session_name: string; pdf_path: string | null; file_name: string | null; updated_at: string | null; indexed_count: number | null; indexed_at: string | null; }
 
 const semesters = ['1st Semester', '2nd Semester', '3rd Semester', '4th Semester', '5th Semester', '6th Semester', '7th Semester', '8th Semester'];
 
@@ -29,6 +41,164 @@ function getErrorMessage(error: unknown): string {
     return 'An unexpected error occurred. Check the console for more details.';
 }
 
+// Loads the grading scheme from site_settings; falls back to the BTEB default.
+const fetchGradingScheme = async (): Promise<GradingScheme> => {
+    const { data } = await supabase.from('site_settings').select('value').eq('key', GRADING_SCHEME_SETTING_KEY).maybeSingle();
+    return parseGradingScheme(data?.value);
+};
+
+// --- Final Result PDF Parsing ---
+const extractPdfText = async (data: Uint8Array): Promise<string> => {
+    const pdf = await pdfjsLib.getDocument(data).promise;
+    let fullText = '';
+    for (let i = 1; i <= pdf.numPages; i++) {
+        const page = await pdf.getPage(i);
+        const textContent = await page.getTextContent();
+        fullText += textContent.items.map(item => 'str' in item ? item.str : '').join(' ') + ' ';
+    }
+    return fullText;
+};
+
+const isMissingIndexSchema = (message: string) =>
+    message.includes('replace_final_results') || message.includes('final_results') || message.includes('indexed_count');
+
+const INDEX_SCHEMA_ERROR = "Database Schema Error: The final result index is not set up. Please go to the Supabase SQL Editor and run supabase/migrations/20261019090000_final_results_index.sql.";
+
+const fetchIndexedResults = async (sessionName: string): Promise<FinalResultData[]> => {
+    const rows = await fetchAllPages<FinalResultRow>((from, to) => supabase
+        .from('final_results')
+        .select('roll, gpas, referred_subjects, is_dropout')
+        .eq('session_name', sessionName)
+        .order('roll')
+        .range(from, to));
+    return rows.map(fromFinalResultRow);
+};
+
+// A replacement that loses this share of the published rolls is probably a truncated PDF.
+const SHRINK_WARNING_RATIO = 0.1;
+
+const statusBadgeStyles = {
+    passed: 'bg-green-500/20 text-green-300',
+    referred: 'bg-amber-500/20 text-amber-300',
+    dropout: 'bg-red-500/20 text-red-300',
+};
+
+// --- Upload Preview ---
+interface ResultUploadPreview {
+    file: File;
+    sheet: ParsedResultSheet;
+    diff: ResultSetDiff | null;
+    // The published results, put back if the new PDF can't be stored.
+    previous: FinalResultData[];
+}
+
+const SummaryStat: React.FC<{ label: string; value: number; className: string }> = ({ label, value, className }) => (
+    <div className={`rounded-lg p-3 text-center ${className}`}>
+        <p className="text-2xl font-bold">{value}</p>
+        <p className="text-xs uppercase tracking-wide opacity-80">{label}</p>
+    </div>
+);
+
+const ResultPreviewModal: React.FC<{
+    sessionName: string;
+    preview: ResultUploadPreview;
+    onClose: () => void;
+    onConfirm: () => void;
+}> = ({ sessionName, preview, onClose, onConfirm }) => {
+    const [search, setSearch] = useState('');
+    const { sheet, diff } = preview;
+    const previousCount = preview.previous.length;
+    const summary = useMemo(() => summarizeResults(sheet.results), [sheet]);
+    const visibleResults = useMemo(() => sheet.results.filter(r => r.roll.includes(search.trim())).slice(0, 200), [sheet, search]);
+
+    const lostShare = previousCount > 0 ? (previousCount - summary.total) / previousCount : 0;
+    const looksTruncated = lostShare >= SHRINK_WARNING_RATIO;
+
+    return (
+        <AnimatePresence>
+            <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+                <motion.div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose} initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} />
+                <motion.div className="relative w-full max-w-4xl bg-[#001833] border border-border rounded-xl shadow-2xl flex flex-col max-h-[90vh]" initial={{ opacity: 0, y: -30 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -30 }}>
+                    <div className="p-6 border-b border-border shrink-0">
+                        <h2 className="text-xl font-bold">Preview: {sessionName}</h2>
+                        <p className="text-sm text-text/70 mt-1">{preview.file.name} &bull; Check the parsed results before they go live.</p>
+                    </div>
+                    <div className="p-6 overflow-y-auto space-y-6">
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                            <SummaryStat label="Rolls" value={summary.total} className="bg-primary/10 text-primary" />
+                            <SummaryStat label="Passed" value={summary.passed} className="bg-green-500/10 text-green-300" />
+                            <SummaryStat label="Referred" value={summary.referred} className="bg-amber-500/10 text-amber-300" />
+                            <SummaryStat label="Drop Out" value={summary.dropout} className="bg-red-500/10 text-red-300" />
+                        </div>
+
+                        {looksTruncated && (
+                            <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-sm text-red-300 flex gap-2">
+                                <span className="material-symbols-outlined">warning</span>
+                                <p>This PDF has {summary.total} rolls, but the published version has {previousCount}. It may be truncated or the wrong file.</p>
+                            </div>
+                        )}
+
+                        {sheet.unparsedLines.length > 0 && (
+                            <div className="p-3 rounded-lg bg-amber-500/10 border border-amber-500/30">
+                                <p className="text-sm font-semibold text-amber-300 mb-2">{sheet.unparsedLines.length} line(s) could not be parsed and will be skipped:</p>
+                                <ul className="text-xs font-mono text-text/80 space-y-1 max-h-32 overflow-y-auto">
+                                    {sheet.unparsedLines.map((line, i) => <li key={i} className="truncate">{line}</li>)}
+                                </ul>
+                            </div>
+                        )}
+
+                        {diff && (
+                            <div className="bg-surface/50 border border-border rounded-lg p-4">
+                                <h3 className="font-semibold mb-2">Changes from the published results</h3>
+                                <p className="text-sm text-text/70 mb-3">{diff.added.length} added &bull; {diff.removed.length} removed &bull; {diff.changed.length} changed &bull; {diff.unchangedCount} unchanged</p>
+                                <div className="space-y-1 text-xs font-mono max-h-48 overflow-y-auto">
+                                    {diff.removed.map(r => <p key={`removed-${r.roll}`} className="text-red-300">- {r.roll}: {formatResultSummary(r)}</p>)}
+                                    {diff.added.map(r => <p key={`added-${r.roll}`} className="text-green-300">+ {r.roll}: {formatResultSummary(r)}</p>)}
+                                    {diff.changed.map(c => (
+                                        <p key={`changed-${c.roll}`} className="text-amber-300">~ {c.roll}: {formatResultSummary(c.before)} &rarr; {formatResultSummary(c.after)}</p>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        <div>
+                            <div className="flex justify-between items-center gap-4 mb-2">
+                                <h3 className="font-semibold">Parsed Results</h3>
+                                <input value={search} onChange={e => setSearch(e.target.value)} placeholder="Filter by roll..." className="input-style bg-surface/50 text-sm max-w-xs" />
+                            </div>
+                            <div className="bg-surface border border-border rounded-lg overflow-x-auto">
+                                <table className="w-full text-sm">
+                                    <thead><tr className="text-left"><th className="p-2">Roll</th><th className="p-2">Status</th><th className="p-2">GPAs</th><th className="p-2">Referred Subjects</th></tr></thead>
+                                    <tbody>
+                                        {visibleResults.map(r => {
+                                            const resultStatus = getResultStatus(r);
+                                            return (
+                                                <tr key={r.roll} className="border-t border-border">
+                                                    <td className="p-2 font-mono">{r.roll}</td>
+                                                    <td className="p-2"><span className={`text-xs font-semibold px-2 py-0.5 rounded-full capitalize ${statusBadgeStyles[resultStatus]}`}>{resultStatus}</span></td>
+                                                    <td className="p-2">{r.gpas.map(g => `${parseInt(g.semester, 10)}: ${g.gpa}`).join(', ') || '-'}</td>
+                                                    <td className="p-2 font-mono text-xs">{r.referredSubjects.join(', ') || '-'}</td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            </div>
+                            {sheet.results.length > visibleResults.length && <p className="text-xs text-text/60 mt-2">Showing {visibleResults.length} of {sheet.results.length} rolls. Use the filter to find a specific roll.</p>}
+                        </div>
+                    </div>
+                    <div className="p-6 border-t border-border flex justify-end gap-3 shrink-0">
+                        <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm font-semibold bg-surface hover:bg-surface/80">Cancel</button>
+                        <button onClick={onConfirm} className={`px-4 py-2 rounded-lg text-sm font-semibold text-white ${looksTruncated ? 'bg-red-600 hover:bg-red-600/90' : 'bg-primary hover:bg-primary/90'}`}>
+                            {looksTruncated ? 'Publish Anyway' : 'Publish Results'}
+                        </button>
+                    </div>
+                </motion.div>
+            </div>
+        </AnimatePresence>
+    );
+};
+
 // --- Final Results Manager (PDF Upload per session) ---
 const SessionRow: React.FC<{
     session: FinalResultSession;
@@ -38,9 +208,45 @@ const SessionRow: React.FC<{
     const [statusMessage, setStatusMessage] = useState('');
     const [sessionToDelete, setSessionToDelete] = useState<FinalResultSession | null>(null);
     const [isDeleting, setIsDeleting] = useState(false);
+    const [preview, setPreview] = useState<ResultUploadPreview | null>(null);
 
     const isProcessing = status === 'validating' || status === 'uploading';
 
+    const parsePdf = async (pdfData: Uint8Array) => {
+        const fullText = await extractPdfText(pdfData);
+        if (detectResultFormats(fullText).length === 0) {
+            throw new Error('PDF content does not match any known result format. It should contain either the old format (e.g., "gpa1: 3.50") or the new format (e.g., "123456 (3.47)" or "123456 { 25711(T) }").');
+        }
+
+        const sheet = parseResultSheet(fullText);
+        if (sheet.results.length === 0) {
+            throw new Error('No roll numbers with result data could be parsed from this PDF.');
+        }
+        return sheet;
+    };
+
+    const saveIndex = async (records: FinalResultRow[]) => {
+        setStatusMessage(`Indexing ${records.length} results...`);
+        const { error } = await supabase.rpc('replace_final_results', { p_session_name: session.session_name, p_rows: records });
+        if (error) throw error;
+    };
+
+    const reportError = (err: any) => {
+        console.error("File processing error:", err.message);
+        const friendlyMessage = getErrorMessage(err);
+        // FIX: Improved error message for specific Supabase storage issue.
+        if (friendlyMessage.includes('Bucket not found')) {
+            alert("CRITICAL ERROR: The storage bucket named 'results' was not found. Please go to your Supabase project dashboard, navigate to Storage, and create a new public bucket named exactly 'results'.");
+            setStatusMessage("Configuration Error: 'results' bucket not found.");
+        } else if (isMissingIndexSchema(friendlyMessage)) {
+            alert(INDEX_SCHEMA_ERROR);
+            setStatusMessage("Configuration Error: final result index not set up.");
+        } else {
+             setStatusMessage(friendlyMessage);
+        }
+        setStatus('error');
+    };
+
     const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
         const selectedFile = e.target.files?.[0];
         if (!selectedFile) return;
@@ -50,79 +256,103 @@ const SessionRow: React.FC<{
         
         try {
             const buffer = await selectedFile.arrayBuffer();
-            const typedarray = new Uint8Array(buffer);
-            const pdf = await pdfjsLib.getDocument(typedarray).promise;
-            let fullText = '';
-            for (let i = 1; i <= pdf.numPages; i++) {
-                const page = await pdf.getPage(i);
-                const textContent = await page.getTextContent();
-                fullText += textContent.items.map(item => 'str' in item ? item.str : '').join(' ');
-            }
-            // --- UPDATED VALIDATION LOGIC ---
-            const sanitizedFullText = fullText.replace(/\s+/g, ' ');
-            const oldFormatRegex = /\bgpa\d:/; // A simple check for "gpa1:", "gpa2:", etc.
-            const newFormatRegexPass = /\b\d{6,}\s*\(\s*[\d.]+\s*\)/; // Checks for "123456 ( 3.47 )"
-            const newFormatRegexFail = /\b\d{6,}\s*\{[^{}]+\}/; // Checks for "123456 { ... }"
-
-            if (
-                !oldFormatRegex.test(sanitizedFullText) &&
-                !newFormatRegexPass.test(sanitizedFullText) &&
-                !newFormatRegexFail.test(sanitizedFullText)
-            ) {
-                throw new Error('PDF content does not match any known result format. It should contain either the old format (e.g., "gpa1: 3.50") or the new format (e.g., "123456 (3.47)" or "123456 { 25711(T) }").');
+            const sheet = await parsePdf(new Uint8Array(buffer));
+
+            let diff: ResultSetDiff | null = null;
+            let previous: FinalResultData[] = [];
+            if (session.indexed_count) {
+                setStatusMessage('Comparing with the published results...');
+                previous = await fetchIndexedResults(session.session_name);
+                diff = diffResultSets(previous, sheet.results);
             }
-            
+
+            setPreview({ file: selectedFile, sheet, diff, previous });
+            setStatus('idle');
+        } catch (err: any) {
+            reportError(err);
+        }
+        e.target.value = ''; // Allow re-selecting the same file
+    };
+
+    const handlePublish = async () => {
+        if (!preview) return;
+        const { file, sheet, previous } = preview;
+        setPreview(null);
+
+        try {
             setStatus('uploading');
+            // Index first: if that fails, the published PDF is untouched.
+            await saveIndex(sheet.results.map(toFinalResultRow));
+
             setStatusMessage('Uploading file...');
             const filePath = `final_results/${session.session_name}.pdf`;
-            
-            const { error: uploadError } = await supabase.storage.from('results').upload(filePath, selectedFile, { upsert: true });
-            if (uploadError) throw uploadError;
+            const { error: uploadError } = await supabase.storage.from('results').upload(filePath, file, { upsert: true });
+            if (uploadError) {
+                // Keep the index matching the PDF that is still published.
+                const { error: restoreError } = await supabase.rpc('replace_final_results', { p_session_name: session.session_name, p_rows: previous.map(toFinalResultRow) });
+                if (restoreError) console.error("Could not restore the previous result index:", restoreError.message);
+                throw uploadError;
+            }
 
             const { error: dbError } = await supabase.from('final_result_sessions').update({
                 pdf_path: filePath,
-                file_name: selectedFile.name,
+                file_name: file.name,
                 updated_at: new Date().toISOString()
             }).eq('id', session.id);
             if (dbError) throw dbError;
 
             setStatus('success');
-            setStatusMessage('Upload Complete!');
+            setStatusMessage(`Upload Complete! ${sheet.results.length} results indexed.`);
             setTimeout(() => {
                 onRefresh();
                 setStatus('idle');
             }, 2000);
 
         } catch (err: any) {
-            console.error("File processing error:", err.message);
-            const friendlyMessage = getErrorMessage(err);
-            // FIX: Improved error message for specific Supabase storage issue.
-            if (friendlyMessage.includes('Bucket not found')) {
-                alert("CRITICAL ERROR: The storage bucket named 'results' was not found. Please go to your Supabase project dashboard, navigate to Storage, and create a new public bucket named exactly 'results'.");
-                setStatusMessage("Configuration Error: 'results' bucket not found.");
-            } else {
-                 setStatusMessage(friendlyMessage);
-            }
-            setStatus('error');
+            reportError(err);
         }
-        e.target.value = ''; // Allow re-selecting the same file
     };
 
+    // Indexes a PDF that was uploaded before the result index existed.
+    const handleReindex = async () => {
+        if (!session.pdf_path) return;
+        setStatus('validating');
+        setStatusMessage('Downloading current PDF...');
+        try {
+            const { data: blob, error: downloadError } = await supabase.storage.from('results').download(session.pdf_path);
+            if (downloadError) throw downloadError;
+            setStatusMessage('Parsing PDF...');
+            const sheet = await parsePdf(new Uint8Array(await blob.arrayBuffer()));
+            setStatus('uploading');
+            await saveIndex(sheet.results.map(toFinalResultRow));
+            setStatus('success');
+            setStatusMessage(`${sheet.results.length} results indexed.`);
+            setTimeout(() => {
+                onRefresh();
+                setStatus('idle');
+            }, 2000);
+        } catch (err: any) {
+            reportError(err);
+        }
+    };
 
     const handleDeletePdf = async () => {
         if (!session.pdf_path || !window.confirm(`Are you sure you want to delete the PDF for the ${session.session_name} session?`)) return;
         setStatus('uploading'); // Re-use uploading state for generic processing feedback
         setStatusMessage('Deleting PDF...');
         try {
-            await supabase.storage.from('results').remove([session.pdf_path]);
-            await supabase.from('final_result_sessions').update({ pdf_path: null, file_name: null, updated_at: new Date().toISOString() }).eq('id', session.id);
+            const { error: removeError } = await supabase.storage.from('results').remove([session.pdf_path]);
+            if (removeError) throw removeError;
+            const { error: indexError } = await supabase.rpc('replace_final_results', { p_session_name: session.session_name, p_rows: [] });
+            if (indexError) throw indexError;
+            const { error: dbError } = await supabase.from('final_result_sessions').update({ pdf_path: null, file_name: null, updated_at: new Date().toISOString() }).eq('id', session.id);
+            if (dbError) throw dbError;
+            setStatus('idle');
             onRefresh();
         } catch (err: any) {
             console.error("Delete PDF error:", err.message);
             setStatusMessage(`Error: ${err.message}`);
             setStatus('error');
-        } finally {
-            if(status !== 'error') setStatus('idle');
         }
     };
     
@@ -154,6 +384,7 @@ const SessionRow: React.FC<{
                 message={`Are you sure you want to permanently delete the '${sessionToDelete?.session_name}' session and its results PDF? This action cannot be undone.`}
                 isConfirming={isDeleting}
             />
+            {preview && <ResultPreviewModal sessionName={session.session_name} preview={preview} onClose={() => setPreview(null)} onConfirm={handlePublish} />}
             <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-2">
                 <h4 className="text-lg font-semibold text-text">{session.session_name}</h4>
                 <div className="flex items-center gap-2">
@@ -168,6 +399,7 @@ const SessionRow: React.FC<{
                             session.pdf_path ? 'Replace PDF' : 'Choose PDF'
                         )}
                     </label>
+                    {session.pdf_path && !session.indexed_count && <button onClick={handleReindex} disabled={isProcessing} title="Index this PDF so students can look up their results" className="p-1.5 text-accent hover:bg-accent/10 rounded-full disabled:opacity-50"><span className="material-symbols-outlined text-xl">manage_search</span></button>}
                     {session.pdf_path && <button onClick={handleDeletePdf} disabled={isProcessing} className="p-1.5 text-red-400 hover:bg-red-500/10 rounded-full disabled:opacity-50"><span className="material-symbols-outlined text-xl">delete</span></button>}
                     <button onClick={() => setSessionToDelete(session)} disabled={isProcessing || isDeleting} className="p-1.5 text-red-500 hover:bg-red-500/10 rounded-full disabled:opacity-50"><span className="material-symbols-outlined text-xl">delete_forever</span></button>
                 </div>
@@ -189,6 +421,9 @@ const SessionRow: React.FC<{
             {status === 'idle' && session.file_name && (
                 <p className="text-xs text-text/60 mt-2">
                     Current file: {session.file_name} (Uploaded: {new Date(session.updated_at!).toLocaleString()})
+                    {session.indexed_count
+                        ? <span className="text-green-400/80"> &bull; {session.indexed_count} results indexed</span>
+                        : <span className="text-accent"> &bull; Not indexed yet. Students cannot look up this session until you re-index it.</span>}
                 </p>
             )}
         </div>
@@ -383,6 +618,217 @@ const OtherResultModal: React.FC<{
 };
 
 
+// --- Bulk Mark Sheet Import ---
+const IMPORT_SCHEMA_ERROR = "Database Schema Error: The bulk import function is missing. Please go to the Supabase SQL Editor and run supabase/migrations/20261019100000_import_other_results.sql.";
+const LOOKUP_CHUNK_SIZE = 200;
+
+interface ImportPreviewRow extends MarkSheetRow {
+    isUpdate: boolean;
+}
+
+interface ImportPreview {
+    fileName: string;
+    subjects: MarkSheetSubject[];
+    rows: ImportPreviewRow[];
+}
+
+// Looks rolls up in chunks so a large class doesn't exceed the URL length limit of `.in()`.
+const fetchInChunks = async <T,>(rolls: string[], fetchChunk: (chunk: string[]) => PromiseLike<{ data: T[] | null; error: unknown }>): Promise<T[]> => {
+    const rows: T[] = [];
+    for (let i = 0; i < rolls.length; i += LOOKUP_CHUNK_SIZE) {
+        const { data, error } = await fetchChunk(rolls.slice(i, i + LOOKUP_CHUNK_SIZE));
+        if (error) throw error;
+        rows.push(...(data || []));
+    }
+    return rows;
+};
+
+const OtherResultImportModal: React.FC<{
+    isOpen: boolean;
+    onClose: () => void;
+    onImported: () => void;
+}> = ({ isOpen, onClose, onImported }) => {
+    const [settings, setSettings] = useState({ exam_name: 'Class Test', semester: '1st Semester', student_group: 'A', default_total: 20 });
+    const [file, setFile] = useState<File | null>(null);
+    const [preview, setPreview] = useState<ImportPreview | null>(null);
+    const [sheetErrors, setSheetErrors] = useState<string[]>([]);
+    const [isValidating, setIsValidating] = useState(false);
+    const [isImporting, setIsImporting] = useState(false);
+
+    useEffect(() => {
+        if (!isOpen) {
+            setFile(null);
+            setPreview(null);
+            setSheetErrors([]);
+        }
+    }, [isOpen]);
+
+    // Any change to the exam, semester, group or default total invalidates the preview.
+    useEffect(() => { setPreview(null); }, [settings]);
+
+    const validRows = useMemo(() => preview ? preview.rows.filter(r => r.errors.length === 0) : [], [preview]);
+
+    const handleValidate = async () => {
+        if (!file) return;
+        setIsValidating(true);
+        setSheetErrors([]);
+        setPreview(null);
+        try {
+            const sheet = parseMarkSheet(await readMarkSheetFile(file), settings.default_total);
+            if (sheet.errors.length > 0) {
+                setSheetErrors(sheet.errors);
+                return;
+            }
+            if (sheet.rows.length === 0) {
+                setSheetErrors(['The sheet has a header row but no student rows.']);
+                return;
+            }
+
+            const rolls = [...new Set(sheet.rows.map(r => r.roll_number).filter(Boolean))];
+            const students = await fetchInChunks<{ roll: string; name: string }>(rolls, chunk =>
+                supabase.from('students').select('roll, name').in('roll', chunk));
+            const existing = await fetchInChunks<{ roll_number: string }>(rolls, chunk =>
+                supabase.from('other_results').select('roll_number')
+                    .eq('exam_name', settings.exam_name).eq('semester', settings.semester).eq('student_group', settings.student_group)
+                    .in('roll_number', chunk));
+
+            const studentNames = new Map(students.map(s => [String(s.roll), s.name]));
+            const existingRolls = new Set(existing.map(r => r.roll_number));
+
+            const rows = sheet.rows.map(row => {
+                const errors = [...row.errors];
+                const registeredName = studentNames.get(row.roll_number);
+                if (/^\d+$/.test(row.roll_number) && registeredName === undefined) {
+                    errors.push(`Roll ${row.roll_number} is not in the students list.`);
+                }
+                return {
+                    ...row,
+                    student_name: row.student_name || registeredName || '',
+                    errors,
+                    isUpdate: existingRolls.has(row.roll_number),
+                };
+            });
+
+            setPreview({ fileName: file.name, subjects: sheet.subjects, rows });
+        } catch (error) {
+            setSheetErrors([`Could not read the file: ${getErrorMessage(error)}`]);
+        } finally {
+            setIsValidating(false);
+        }
+    };
+
+    const handleImport = async () => {
+        if (!preview || validRows.length === 0) return;
+        setIsImporting(true);
+        try {
+            const { data, error } = await supabase.rpc('import_other_results', {
+                p_exam_name: settings.exam_name,
+                p_semester: settings.semester,
+                p_student_group: settings.student_group,
+                p_rows: validRows.map(({ roll_number, student_name, subjects }) => ({ roll_number, student_name, subjects })),
+            });
+            if (error) {
+                if (error.message.includes('import_other_results')) throw new Error(IMPORT_SCHEMA_ERROR);
+                throw error;
+            }
+            const counts = data as { inserted: number; updated: number } | null;
+            alert(`Import complete: ${counts?.inserted ?? 0} added, ${counts?.updated ?? 0} updated.`);
+            onImported();
+            onClose();
+        } catch (error) {
+            alert(`Import failed: ${getErrorMessage(error)}`);
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    const invalidCount = preview ? preview.rows.length - validRows.length : 0;
+
+    return (
+        <AnimatePresence>
+            <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+                <motion.div className="absolute inset-0 bg-black/70 backdrop-blur-sm" onClick={onClose} initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} />
+                <motion.div className="relative w-full max-w-5xl bg-[#001833] border border-border rounded-xl shadow-2xl flex flex-col max-h-[90vh]" initial={{ opacity: 0, y: -30 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -30 }}>
+                    <div className="p-6 border-b border-border shrink-0">
+                        <h2 className="text-xl font-bold">Bulk Import Results</h2>
+                        <p className="text-sm text-text/70 mt-1">Upload a CSV or Excel sheet with a <span className="font-mono">Roll</span> column, an optional <span className="font-mono">Name</span> column and one column per subject, e.g. <span className="font-mono">Mathematics (20)</span>.</p>
+                    </div>
+                    <div className="p-6 overflow-y-auto space-y-6">
+                        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                            <select value={settings.exam_name} onChange={e => setSettings({ ...settings, exam_name: e.target.value })} className="input-style bg-surface/50"><option>Class Test</option><option>Quiz Test</option><option>Midterm Exam</option></select>
+                            <select value={settings.semester} onChange={e => setSettings({ ...settings, semester: e.target.value })} className="input-style bg-surface/50">{semesters.map(s => <option key={s}>{s}</option>)}</select>
+                            <select value={settings.student_group} onChange={e => setSettings({ ...settings, student_group: e.target.value })} className="input-style bg-surface/50"><option value="A">Group A</option><option value="B">Group B</option></select>
+                            <label className="flex items-center gap-2 text-sm">
+                                <span className="shrink-0">Default total</span>
+                                <input type="number" min={1} value={settings.default_total} onChange={e => setSettings({ ...settings, default_total: Number(e.target.value) || 1 })} className="w-full input-style bg-surface/50" />
+                            </label>
+                        </div>
+                        <div className="flex flex-col sm:flex-row gap-3 sm:items-center">
+                            <input type="file" accept=".csv,.xlsx,.xls" onChange={e => { setFile(e.target.files?.[0] || null); setPreview(null); setSheetErrors([]); }} className="text-sm file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-primary/10 file:text-primary hover:file:bg-primary/20" />
+                            <button onClick={handleValidate} disabled={!file || isValidating} className="px-4 py-2 bg-surface text-sm font-semibold rounded-lg disabled:opacity-50">{isValidating ? 'Checking...' : 'Check Sheet'}</button>
+                        </div>
+
+                        {sheetErrors.length > 0 && (
+                            <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-sm text-red-300 space-y-1">
+                                {sheetErrors.map((e, i) => <p key={i}>{e}</p>)}
+                            </div>
+                        )}
+
+                        {preview && (
+                            <div>
+                                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+                                    <SummaryStat label="Rows" value={preview.rows.length} className="bg-primary/10 text-primary" />
+                                    <SummaryStat label="New" value={validRows.filter(r => !r.isUpdate).length} className="bg-green-500/10 text-green-300" />
+                                    <SummaryStat label="Updates" value={validRows.filter(r => r.isUpdate).length} className="bg-amber-500/10 text-amber-300" />
+                                    <SummaryStat label="Errors" value={invalidCount} className="bg-red-500/10 text-red-300" />
+                                </div>
+                                <div className="bg-surface border border-border rounded-lg overflow-x-auto">
+                                    <table className="w-full text-sm">
+                                        <thead>
+                                            <tr className="text-left">
+                                                <th className="p-2">Row</th><th className="p-2">Roll</th><th className="p-2">Name</th>
+                                                {preview.subjects.map(s => <th key={s.subject_name} className="p-2 whitespace-nowrap">{s.subject_name} <span className="text-text/50">/{s.total_marks}</span></th>)}
+                                                <th className="p-2">Status</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {preview.rows.map(row => (
+                                                <tr key={row.rowNumber} className={`border-t border-border ${row.errors.length > 0 ? 'bg-red-500/5' : ''}`}>
+                                                    <td className="p-2 text-text/50">{row.rowNumber}</td>
+                                                    <td className="p-2 font-mono">{row.roll_number}</td>
+                                                    <td className="p-2">{row.student_name || '-'}</td>
+                                                    {row.subjects.map(s => <td key={s.subject_name} className="p-2">{s.marks_obtained}</td>)}
+                                                    <td className="p-2">
+                                                        {row.errors.length > 0 ? (
+                                                            <span className="text-xs text-red-300">{row.errors.join(' ')}</span>
+                                                        ) : (
+                                                            <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${row.isUpdate ? 'bg-amber-500/20 text-amber-300' : 'bg-green-500/20 text-green-300'}`}>{row.isUpdate ? 'Update' : 'New'}</span>
+                                                        )}
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                                {invalidCount > 0 && <p className="text-xs text-amber-300 mt-2">Rows with errors will be skipped. Fix them in the sheet and import again to include them.</p>}
+                            </div>
+                        )}
+                    </div>
+                    <div className="p-6 border-t border-border flex justify-end gap-3 shrink-0">
+                        <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm font-semibold bg-surface hover:bg-surface/80">Cancel</button>
+                        <button onClick={handleImport} disabled={validRows.length === 0 || isImporting} className="px-4 py-2 rounded-lg text-sm font-semibold text-white bg-primary hover:bg-primary/90 disabled:opacity-50">
+                            {isImporting ? 'Importing...' : `Import ${validRows.length} Row(s)`}
+                        </button>
+                    </div>
+                </motion.div>
+            </div>
+        </AnimatePresence>
+    );
+};
+
+
 const OtherResultsManager: React.FC = () => {
     const [results, setResults] = useState<OtherResult[]>([]);
     const [loading, setLoading] = useState(true);
@@ -391,6 +837,8 @@ const OtherResultsManager: React.FC = () => {
     const [resultToDelete, setResultToDelete] = useState<OtherResult | null>(null);
     const [deletingId, setDeletingId] = useState<string | null>(null);
     const [isSaving, setIsSaving] = useState(false);
+    const [isImportOpen, setIsImportOpen] = useState(false);
+    const [gradingScheme, setGradingScheme] = useState<GradingScheme>(DEFAULT_GRADING_SCHEME);
 
     const [filters, setFilters] = useState({ exam_name: 'all', semester: 'all', search: '' });
 
@@ -405,7 +853,10 @@ const OtherResultsManager: React.FC = () => {
         setLoading(false);
     };
 
-    useEffect(() => { fetchResults(); }, []);
+    useEffect(() => {
+        fetchResults();
+        fetchGradingScheme().then(setGradingScheme);
+    }, []);
 
     const filteredResults = useMemo(() => {
         return results.filter(r => {
@@ -459,7 +910,10 @@ const OtherResultsManager: React.FC = () => {
         <div>
             <div className="flex justify-between items-center mb-4">
                 <p>Manage class tests, quizzes, and midterm results.</p>
-                <button onClick={() => { setCurrentResult(null); setIsModalOpen(true); }} className="px-4 py-2 bg-primary text-white text-sm font-semibold rounded-lg">Add Result</button>
+                <div className="flex gap-2">
+                    <button onClick={() => setIsImportOpen(true)} className="px-4 py-2 bg-surface text-sm font-semibold rounded-lg">Bulk Import</button>
+                    <button onClick={() => { setCurrentResult(null); setIsModalOpen(true); }} className="px-4 py-2 bg-primary text-white text-sm font-semibold rounded-lg">Add Result</button>
+                </div>
             </div>
              <div className="grid grid-cols-3 gap-4 mb-4">
                 <input value={filters.search} onChange={e => setFilters({...filters, search: e.target.value})} placeholder="Search by Roll or Name..." className="input-style bg-surface/50"/>
@@ -470,13 +924,16 @@ const OtherResultsManager: React.FC = () => {
             {loading ? <p>Loading...</p> : (
                  <div className="bg-surface border border-border rounded-lg overflow-x-auto">
                     <table className="w-full text-sm">
-                        <thead><tr className="text-left"><th className="p-2">Roll</th><th className="p-2">Name</th><th className="p-2">Exam</th><th className="p-2">Semester</th><th className="p-2">Actions</th></tr></thead>
+                        <thead><tr className="text-left"><th className="p-2">Roll</th><th className="p-2">Name</th><th className="p-2">Exam</th><th className="p-2">Semester</th><th className="p-2">GPA</th><th className="p-2">Status</th><th className="p-2">Actions</th></tr></thead>
                         <tbody>
                         {filteredResults.map(r => {
                             const isDeleting = deletingId === r.id;
+                            const graded = gradeResult(r.subjects || [], gradingScheme);
                             return (
                                 <tr key={r.id} className="border-t border-border">
                                     <td className="p-2">{r.roll_number}</td><td className="p-2">{r.student_name}</td><td className="p-2">{r.exam_name}</td><td className="p-2">{r.semester}</td>
+                                    <td className="p-2">{graded.gpa.toFixed(2)} <span className="text-text/60">({graded.letter})</span></td>
+                                    <td className="p-2"><span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${graded.passed ? 'bg-green-500/20 text-green-300' : 'bg-red-500/20 text-red-300'}`}>{graded.passed ? 'Passed' : 'Failed'}</span></td>
                                     <td className="p-2 flex gap-2"><button onClick={() => { setCurrentResult(r); setIsModalOpen(true); }} className="text-secondary text-xs">Edit</button><button onClick={() => requestDelete(r)} disabled={isDeleting} className="text-red-400 text-xs">{isDeleting ? '...': 'Delete'}</button></td>
                                 </tr>
                             )
@@ -486,20 +943,269 @@ const OtherResultsManager: React.FC = () => {
                 </div>
             )}
              <OtherResultModal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} onSave={handleSave} result={currentResult} isSaving={isSaving} />
+             <OtherResultImportModal isOpen={isImportOpen} onClose={() => setIsImportOpen(false)} onImported={fetchResults} />
              <ConfirmModal isOpen={!!resultToDelete} onClose={()=>setResultToDelete(null)} onConfirm={handleDelete} title="Confirm Delete" message={`Delete result for ${resultToDelete?.student_name}?`} isConfirming={!!deletingId}/>
         </div>
     );
 };
 
 
+// --- Referred Subject Backlog ---
+const BACKLOG_SCHEMA_ERROR = "Database Schema Error: The referred subject tracker is not set up. Please go to the Supabase SQL Editor and run supabase/migrations/20261019120000_referred_subjects.sql.";
+
+const BacklogManager: React.FC = () => {
+    const [rows, setRows] = useState<ReferredSubjectRow[]>([]);
+    const [studentNames, setStudentNames] = useState<Map<string, string>>(new Map());
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState('');
+    const [filters, setFilters] = useState({ semester: 'all', search: '' });
+    const [expandedSubject, setExpandedSubject] = useState<string | null>(null);
+
+    useEffect(() => {
+        const fetchBacklog = async () => {
+            setLoading(true);
+            try {
+                const outstanding = await fetchAllPages<ReferredSubjectRow>((from, to) => supabase
+                    .from('referred_subjects')
+                    .select('roll, subject_code, semester, first_referred_session, last_referred_session, cleared_session')
+                    .is('cleared_session', null)
+                    .order('roll')
+                    .range(from, to)
+                ).catch(fetchError => {
+                    if (getErrorMessage(fetchError).includes('referred_subjects')) throw new Error(BACKLOG_SCHEMA_ERROR);
+                    throw fetchError;
+                });
+                setRows(outstanding);
+
+                const atRiskRolls = findAtRiskStudents(outstanding).map(s => s.roll);
+                const students = await fetchInChunks<{ roll: string; name: string }>(atRiskRolls, chunk =>
+                    supabase.from('students').select('roll, name').in('roll', chunk));
+                setStudentNames(new Map(students.map(s => [String(s.roll), s.name])));
+            } catch (fetchError) {
+                setError(getErrorMessage(fetchError));
+            } finally {
+                setLoading(false);
+            }
+        };
+        fetchBacklog();
+    }, []);
+
+    const filteredRows = useMemo(() => rows.filter(row => {
+        const search = filters.search.trim().toLowerCase();
+        const searchMatch = !search || row.roll.includes(search) || row.subject_code.toLowerCase().includes(search);
+        const semesterMatch = filters.semester === 'all' || String(row.semester) === filters.semester;
+        return searchMatch && semesterMatch;
+    }), [rows, filters]);
+
+    const semesterCounts = useMemo(() => countBySemester(rows), [rows]);
+    const subjects = useMemo(() => groupBySubject(filteredRows), [filteredRows]);
+    const atRisk = useMemo(() => findAtRiskStudents(rows), [rows]);
+
+    const exportBacklog = () => {
+        downloadCsv('referred_subjects.csv', [
+            ['Subject Code', 'Semester', 'Roll', 'Referred Since', 'Last Listed In'],
+            ...filteredRows.map(r => [r.subject_code, r.semester ?? '', r.roll, r.first_referred_session, r.last_referred_session]),
+        ]);
+    };
+
+    if (loading) return <p>Loading...</p>;
+    if (error) return <p className="text-sm text-red-400 bg-red-500/10 p-3 rounded-md border border-red-500/20">{error}</p>;
+
+    return (
+        <div className="space-y-8">
+            <div className="flex justify-between items-center gap-4">
+                <p>Students with outstanding referred subjects, rebuilt every time a final result PDF is published.</p>
+                <button onClick={exportBacklog} disabled={filteredRows.length === 0} className="px-4 py-2 bg-surface text-sm font-semibold rounded-lg shrink-0 disabled:opacity-50">Export CSV</button>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-3">
+                {semesterCounts.map(c => (
+                    <button
+                        key={String(c.semester)}
+                        onClick={() => setFilters({ ...filters, semester: filters.semester === String(c.semester) ? 'all' : String(c.semester) })}
+                        className={`rounded-lg p-3 text-center border transition-colors ${filters.semester === String(c.semester) ? 'border-primary bg-primary/10' : 'border-border bg-surface hover:border-primary/50'}`}
+                    >
+                        <p className="text-xs uppercase tracking-wide text-text/70">{c.semester ? `Semester ${c.semester}` : 'Unknown'}</p>
+                        <p className="text-2xl font-bold">{c.students}</p>
+                        <p className="text-xs text-text/60">{c.referrals} referral(s), {c.subjects} subject(s)</p>
+                    </button>
+                ))}
+            </div>
+
+            <div>
+                <h3 className="font-semibold mb-2 flex items-center gap-2 text-red-300"><span className="material-symbols-outlined">warning</span>At Risk ({atRisk.length})</h3>
+                <p className="text-xs text-text/60 mb-3">Students with {AT_RISK_REFERRED_COUNT} or more outstanding referred subjects. One more makes them a drop out.</p>
+                {atRisk.length === 0 ? <p className="text-sm text-text/70">No students are close to the drop-out threshold.</p> : (
+                    <div className="bg-surface border border-border rounded-lg overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead><tr className="text-left"><th className="p-2">Roll</th><th className="p-2">Name</th><th className="p-2">Outstanding</th><th className="p-2">Subjects</th></tr></thead>
+                            <tbody>
+                                {atRisk.map(student => (
+                                    <tr key={student.roll} className="border-t border-border">
+                                        <td className="p-2 font-mono">{student.roll}</td>
+                                        <td className="p-2">{studentNames.get(student.roll) || '-'}</td>
+                                        <td className="p-2 font-bold text-red-300">{student.subjectCodes.length}</td>
+                                        <td className="p-2 font-mono text-xs">{student.subjectCodes.join(', ')}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+
+            <div>
+                <div className="flex justify-between items-center gap-4 mb-3">
+                    <h3 className="font-semibold">By Subject ({subjects.length})</h3>
+                    <input value={filters.search} onChange={e => setFilters({ ...filters, search: e.target.value })} placeholder="Search roll or subject code..." className="input-style bg-surface/50 text-sm max-w-xs" />
+                </div>
+                {subjects.length === 0 ? <p className="text-sm text-text/70">No outstanding referred subjects.</p> : (
+                    <div className="bg-surface border border-border rounded-lg divide-y divide-border">
+                        {subjects.map(subject => (
+                            <div key={subject.subject_code}>
+                                <button onClick={() => setExpandedSubject(expandedSubject === subject.subject_code ? null : subject.subject_code)} className="w-full flex items-center justify-between p-3 text-left hover:bg-black/10">
+                                    <span className="font-mono font-semibold">{subject.subject_code}</span>
+                                    <span className="flex items-center gap-3 text-sm text-text/70">
+                                        {subject.semester && <span>Semester {subject.semester}</span>}
+                                        <span className="font-semibold text-text">{subject.rolls.length} student(s)</span>
+                                        <span className="material-symbols-outlined">{expandedSubject === subject.subject_code ? 'expand_less' : 'expand_more'}</span>
+                                    </span>
+                                </button>
+                                {expandedSubject === subject.subject_code && (
+                                    <div className="px-3 pb-3 flex flex-wrap gap-2">
+                                        {subject.rolls.map(roll => <span key={roll} className="font-mono text-xs px-2 py-1 rounded bg-black/20">{roll}</span>)}
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+
+// --- Grading Scheme ---
+const GradingSchemeManager: React.FC = () => {
+    const [scheme, setScheme] = useState<GradingScheme>(DEFAULT_GRADING_SCHEME);
+    const [loading, setLoading] = useState(true);
+    const [isSaving, setIsSaving] = useState(false);
+    const [errors, setErrors] = useState<string[]>([]);
+    const [saveSuccess, setSaveSuccess] = useState(false);
+
+    useEffect(() => {
+        fetchGradingScheme().then(loaded => {
+            setScheme(loaded);
+            setLoading(false);
+        });
+    }, []);
+
+    const updateBand = (index: number, field: keyof GradeBand, value: string) => {
+        const bands = [...scheme.bands];
+        bands[index] = { ...bands[index], [field]: field === 'letter' ? value : Number(value) };
+        setScheme({ ...scheme, bands });
+    };
+
+    const updateSubject = (index: number, field: keyof SubjectGradingRule, value: string) => {
+        const subjects = [...scheme.subjects];
+        subjects[index] = { ...subjects[index], [field]: field === 'subject_name' ? value : (value === '' ? undefined : Number(value)) };
+        setScheme({ ...scheme, subjects });
+    };
+
+    const handleSave = async () => {
+        const normalized: GradingScheme = { ...scheme, bands: [...scheme.bands].sort((a, b) => b.minPercent - a.minPercent) };
+        const validationErrors = validateGradingScheme(normalized);
+        setErrors(validationErrors);
+        setSaveSuccess(false);
+        if (validationErrors.length > 0) return;
+
+        setIsSaving(true);
+        try {
+            const { error } = await supabase.from('site_settings').upsert({ key: GRADING_SCHEME_SETTING_KEY, value: JSON.stringify(normalized) }, { onConflict: 'key' });
+            if (error) throw error;
+            setScheme(normalized);
+            setSaveSuccess(true);
+            setTimeout(() => setSaveSuccess(false), 3000);
+        } catch (error) {
+            alert(`Save failed: ${getErrorMessage(error)}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (loading) return <p>Loading...</p>;
+
+    return (
+        <div className="space-y-8">
+            <p>Letter grades, grade points and pass marks used for class test, quiz and midterm results.</p>
+
+            <div>
+                <h3 className="font-semibold mb-2">Grade Scale</h3>
+                <div className="bg-surface border border-border rounded-lg overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead><tr className="text-left"><th className="p-2">Letter</th><th className="p-2">Minimum %</th><th className="p-2">Grade Point</th><th className="p-2"></th></tr></thead>
+                        <tbody>
+                            {scheme.bands.map((band, i) => (
+                                <tr key={i} className="border-t border-border">
+                                    <td className="p-2"><input value={band.letter} onChange={e => updateBand(i, 'letter', e.target.value)} className="w-full input-style bg-surface/50" /></td>
+                                    <td className="p-2"><input type="number" value={band.minPercent} onChange={e => updateBand(i, 'minPercent', e.target.value)} className="w-full input-style bg-surface/50" /></td>
+                                    <td className="p-2"><input type="number" step="0.01" value={band.gradePoint} onChange={e => updateBand(i, 'gradePoint', e.target.value)} className="w-full input-style bg-surface/50" /></td>
+                                    <td className="p-2 text-right"><button onClick={() => setScheme({ ...scheme, bands: scheme.bands.filter((_, j) => j !== i) })} className="text-red-400"><span className="material-symbols-outlined">delete</span></button></td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                <div className="flex justify-between mt-2">
+                    <button onClick={() => setScheme({ ...scheme, bands: [...scheme.bands, { letter: '', minPercent: 0, gradePoint: 0 }] })} className="text-sm text-primary">+ Add Grade</button>
+                    <button onClick={() => setScheme({ ...scheme, bands: DEFAULT_GRADING_SCHEME.bands })} className="text-sm text-text/70 hover:text-text">Reset to BTEB scale</button>
+                </div>
+            </div>
+
+            <div>
+                <h3 className="font-semibold mb-2">Pass Marks</h3>
+                <label className="flex items-center gap-3 text-sm max-w-sm">
+                    <span className="shrink-0">Default pass mark (%)</span>
+                    <input type="number" value={scheme.passPercent} onChange={e => setScheme({ ...scheme, passPercent: Number(e.target.value) })} className="w-full input-style bg-surface/50" />
+                </label>
+                <p className="text-xs text-text/60 mt-3 mb-2">Subject overrides are matched by subject name. Leave a field empty to use the default. Credits weight the subject in the GPA (default 1).</p>
+                {scheme.subjects.map((subject, i) => (
+                    <div key={i} className="grid grid-cols-12 gap-2 mb-2 items-center">
+                        <input value={subject.subject_name} onChange={e => updateSubject(i, 'subject_name', e.target.value)} placeholder="Subject Name" className="col-span-5 input-style bg-surface/50" />
+                        <input type="number" value={subject.passPercent ?? ''} onChange={e => updateSubject(i, 'passPercent', e.target.value)} placeholder="Pass %" className="col-span-3 input-style bg-surface/50" />
+                        <input type="number" step="0.5" value={subject.credits ?? ''} onChange={e => updateSubject(i, 'credits', e.target.value)} placeholder="Credits" className="col-span-3 input-style bg-surface/50" />
+                        <button onClick={() => setScheme({ ...scheme, subjects: scheme.subjects.filter((_, j) => j !== i) })} className="col-span-1 text-red-400"><span className="material-symbols-outlined">delete</span></button>
+                    </div>
+                ))}
+                <button onClick={() => setScheme({ ...scheme, subjects: [...scheme.subjects, { subject_name: '' }] })} className="text-sm text-primary">+ Add Subject Rule</button>
+            </div>
+
+            {errors.length > 0 && (
+                <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-sm text-red-300 space-y-1">
+                    {errors.map((e, i) => <p key={i}>{e}</p>)}
+                </div>
+            )}
+
+            <div className="flex justify-end items-center gap-4">
+                {saveSuccess && <p className="text-sm text-green-400">Grading scheme saved.</p>}
+                <button onClick={handleSave} disabled={isSaving} className="px-4 py-2 bg-primary text-white text-sm font-semibold rounded-lg disabled:opacity-50">{isSaving ? 'Saving...' : 'Save Grading Scheme'}</button>
+            </div>
+        </div>
+    );
+};
+
+
 // --- Main Component ---
 const AdminManageResults: React.FC = () => {
-    const [activeTab, setActiveTab] = useState<'final' | 'other'>('final');
+    const [activeTab, setActiveTab] = useState<'final' | 'other' | 'backlog' | 'grading'>('final');
 
     const renderContent = () => {
         switch (activeTab) {
             case 'final': return <FinalResultsManager />;
             case 'other': return <OtherResultsManager />;
+            case 'backlog': return <BacklogManager />;
+            case 'grading': return <GradingSchemeManager />;
             default: return null;
         }
     };
@@ -520,6 +1226,14 @@ const AdminManageResults: React.FC = () => {
                         Other Results
                         {activeTab === 'other' && <motion.div className="absolute bottom-0 left-0 right-0 h-0.5 bg-primary" layoutId="results-tab" />}
                     </button>
+                    <button onClick={() => setActiveTab('backlog')} className={`relative shrink-0 px-4 py-3 text-sm font-medium transition-colors ${activeTab === 'backlog' ? 'text-primary' : 'text-text/70 hover:text-text'}`}>
+                        Backlog
+                        {activeTab === 'backlog' && <motion.div className="absolute bottom-0 left-0 right-0 h-0.5 bg-primary" layoutId="results-tab" />}
+                    </button>
+                    <button onClick={() => setActiveTab('grading')} className={`relative shrink-0 px-4 py-3 text-sm font-medium transition-colors ${activeTab === 'grading' ? 'text-primary' : 'text-text/70 hover:text-text'}`}>
+                        Grading
+                        {activeTab === 'grading' && <motion.div className="absolute bottom-0 left-0 right-0 h-0.5 bg-primary" layoutId="results-tab" />}
+                    </button>
                 </div>
                 <div className="p-6">
                     <AnimatePresence mode="wait">
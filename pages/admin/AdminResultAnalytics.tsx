@@ -0,0 +1,346 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '../../supabase';
+import { motion, AnimatePresence } from 'framer-motion';
+import { DEFAULT_GRADING_SCHEME, GRADING_SCHEME_SETTING_KEY, gradeResult, parseGradingScheme, type GradingScheme } from '../../utils/grading';
+import { fromFinalResultRow, getResultStatus, type FinalResultData, type FinalResultRow } from '../../utils/resultParser';
+import { analyzeFinalResults, analyzeOtherResults, latestNumericGpa, type HistogramBucket, type OtherResultInput, type TopPerformer } from '../../utils/resultAnalytics';
+import { downloadCsv } from '../../utils/csv';
+import { fetchAllPages } from '../../utils/pagination';
+
+
+// --- Types ---
+interface OtherResultRow extends OtherResultInput { id: string; }
+
+const semesters = ['1st Semester', '2nd Semester', '3rd Semester', '4th Semester', '5th Semester', '6th Semester', '7th Semester', '8th Semester'];
+
+// --- Helper for better error messages ---
+function getErrorMessage(error: unknown): string {
+    if (error && typeof error === 'object' && 'message' in error) {
+        return String((error as { message: unknown }).message);
+    }
+    if (error instanceof Error) {
+        return error.message;
+    }
+    if (typeof error === 'string') {
+        return error;
+    }
+    return 'An unexpected error occurred. Check the console for more details.';
+}
+
+const toFileName = (...parts: string[]) => parts.join('_').replace(/[^a-zA-Z0-9_-]+/g, '_') + '.csv';
+
+// --- Shared UI ---
+const StatCard: React.FC<{ title: string; value: string; icon: string; }> = ({ title, value, icon }) => (
+    <div className="bg-surface border border-border rounded-xl p-5 flex items-center gap-4">
+        <div className="flex h-12 w-12 items-center justify-center rounded-full bg-primary/20 text-secondary">
+            <span className="material-symbols-outlined text-3xl">{icon}</span>
+        </div>
+        <div>
+            <p className="text-text/70 text-sm font-medium">{title}</p>
+            <p className="text-2xl font-bold text-text">{value}</p>
+        </div>
+    </div>
+);
+
+const Histogram: React.FC<{ title: string; buckets: HistogramBucket[]; barClassName?: string }> = ({ title, buckets, barClassName = 'bg-primary' }) => {
+    const max = Math.max(1, ...buckets.map(b => b.count));
+    return (
+        <div className="bg-surface border border-border rounded-xl p-5">
+            <h3 className="font-semibold mb-4">{title}</h3>
+            {buckets.length === 0 ? <p className="text-sm text-text/60">No data.</p> : (
+                <div className="space-y-2">
+                    {buckets.map(bucket => (
+                        <div key={bucket.label} className="flex items-center gap-3 text-sm">
+                            <span className="w-28 shrink-0 text-text/80 font-mono text-xs">{bucket.label}</span>
+                            <div className="flex-grow h-5 bg-black/20 rounded">
+                                <motion.div className={`h-5 rounded ${barClassName}`} initial={{ width: 0 }} animate={{ width: `${(bucket.count / max) * 100}%` }} transition={{ duration: 0.4 }} />
+                            </div>
+                            <span className="w-10 text-right font-semibold">{bucket.count}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const TopPerformersTable: React.FC<{ performers: TopPerformer[]; scoreLabel: string }> = ({ performers, scoreLabel }) => (
+    <div className="bg-surface border border-border rounded-xl p-5">
+        <h3 className="font-semibold mb-4">Top Performers</h3>
+        {performers.length === 0 ? <p className="text-sm text-text/60">No passing students.</p> : (
+            <table className="w-full text-sm">
+                <thead><tr className="text-left text-text/70"><th className="p-2">#</th><th className="p-2">Roll</th><th className="p-2">Name</th><th className="p-2 text-right">{scoreLabel}</th></tr></thead>
+                <tbody>
+                    {performers.map((p, i) => (
+                        <tr key={p.roll} className="border-t border-border">
+                            <td className="p-2 text-text/60">{i + 1}</td>
+                            <td className="p-2 font-mono">{p.roll}</td>
+                            <td className="p-2">{p.name || '-'}</td>
+                            <td className="p-2 text-right font-semibold">{scoreLabel === 'GPA' ? p.gpa.toFixed(2) : `${p.gpa.toFixed(2)} (${p.score.toFixed(1)}%)`}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        )}
+    </div>
+);
+
+// --- Other Results (class tests, quizzes, midterms) ---
+const OtherResultsAnalyticsView: React.FC = () => {
+    const [filters, setFilters] = useState({ exam_name: 'Class Test', semester: '1st Semester', student_group: 'all' });
+    const [results, setResults] = useState<OtherResultRow[]>([]);
+    const [gradingScheme, setGradingScheme] = useState<GradingScheme>(DEFAULT_GRADING_SCHEME);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        supabase.from('site_settings').select('value').eq('key', GRADING_SCHEME_SETTING_KEY).maybeSingle()
+            .then(({ data }) => setGradingScheme(parseGradingScheme(data?.value)));
+    }, []);
+
+    useEffect(() => {
+        const fetchResults = async () => {
+            setLoading(true);
+            setError('');
+            let query = supabase.from('other_results').select('id, roll_number, student_name, subjects')
+                .eq('exam_name', filters.exam_name)
+                .eq('semester', filters.semester);
+            if (filters.student_group !== 'all') query = query.eq('student_group', filters.student_group);
+            const { data, error: fetchError } = await query.order('roll_number');
+            if (fetchError) {
+                setError(`Could not load results: ${getErrorMessage(fetchError)}`);
+                setResults([]);
+            } else {
+                setResults(data as OtherResultRow[]);
+            }
+            setLoading(false);
+        };
+        fetchResults();
+    }, [filters]);
+
+    const analytics = useMemo(() => analyzeOtherResults(results, gradingScheme), [results, gradingScheme]);
+    const fileLabel = [filters.exam_name, filters.semester, filters.student_group === 'all' ? 'All_Groups' : `Group_${filters.student_group}`];
+
+    const exportStudents = () => {
+        const subjectNames = [...new Set(results.flatMap(r => (r.subjects || []).map(s => s.subject_name)))];
+        const rows = results.map(r => {
+            const graded = gradeResult(r.subjects || [], gradingScheme);
+            const marks = subjectNames.map(name => graded.subjects.find(s => s.subject_name === name)?.marks_obtained ?? '');
+            return [r.roll_number, r.student_name, ...marks, graded.obtainedMarks, graded.totalMarks, graded.percentage.toFixed(2), graded.gpa.toFixed(2), graded.letter, graded.passed ? 'Passed' : 'Failed'];
+        });
+        downloadCsv(toFileName(...fileLabel, 'students'), [
+            ['Roll', 'Name', ...subjectNames, 'Obtained', 'Total', 'Percentage', 'GPA', 'Grade', 'Status'],
+            ...rows,
+        ]);
+    };
+
+    const exportSubjects = () => {
+        downloadCsv(toFileName(...fileLabel, 'subjects'), [
+            ['Subject', 'Students', 'Average %', 'Median %', 'Pass Rate %', 'Failed'],
+            ...analytics.subjects.map(s => [s.subject_name, s.students, s.averagePercentage, s.medianPercentage, s.passRate, s.failed]),
+        ]);
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col lg:flex-row gap-4 lg:items-center lg:justify-between">
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 flex-grow">
+                    <select value={filters.exam_name} onChange={e => setFilters({ ...filters, exam_name: e.target.value })} className="input-style bg-surface/50"><option>Class Test</option><option>Quiz Test</option><option>Midterm Exam</option></select>
+                    <select value={filters.semester} onChange={e => setFilters({ ...filters, semester: e.target.value })} className="input-style bg-surface/50">{semesters.map(s => <option key={s}>{s}</option>)}</select>
+                    <select value={filters.student_group} onChange={e => setFilters({ ...filters, student_group: e.target.value })} className="input-style bg-surface/50"><option value="all">All Groups</option><option value="A">Group A</option><option value="B">Group B</option></select>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                    <button onClick={exportStudents} disabled={results.length === 0} className="px-4 py-2 bg-surface text-sm font-semibold rounded-lg disabled:opacity-50">Export Students CSV</button>
+                    <button onClick={exportSubjects} disabled={results.length === 0} className="px-4 py-2 bg-surface text-sm font-semibold rounded-lg disabled:opacity-50">Export Subjects CSV</button>
+                </div>
+            </div>
+
+            {error && <p className="text-sm text-red-400 bg-red-500/10 p-3 rounded-md border border-red-500/20">{error}</p>}
+
+            {loading ? <p>Loading...</p> : results.length === 0 ? (
+                <p className="text-center text-text/70 py-10">No results found for this exam.</p>
+            ) : (
+                <>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                        <StatCard title="Students" value={String(analytics.students)} icon="groups" />
+                        <StatCard title="Pass Rate" value={`${analytics.passRate.toFixed(1)}%`} icon="task_alt" />
+                        <StatCard title="Average / Median" value={`${analytics.percentage.mean.toFixed(1)}% / ${analytics.percentage.median.toFixed(1)}%`} icon="functions" />
+                        <StatCard title="Average GPA (passed)" value={analytics.gpa.mean.toFixed(2)} icon="grade" />
+                    </div>
+
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                        <Histogram title="Grade Distribution" buckets={analytics.gradeDistribution} />
+                        <TopPerformersTable performers={analytics.topPerformers} scoreLabel="GPA (%)" />
+                    </div>
+
+                    <div className="bg-surface border border-border rounded-xl p-5 overflow-x-auto">
+                        <h3 className="font-semibold mb-4">Subjects (weakest first)</h3>
+                        <table className="w-full text-sm">
+                            <thead><tr className="text-left text-text/70"><th className="p-2">Subject</th><th className="p-2">Students</th><th className="p-2">Average</th><th className="p-2">Median</th><th className="p-2">Pass Rate</th><th className="p-2">Failed</th></tr></thead>
+                            <tbody>
+                                {analytics.subjects.map(s => (
+                                    <tr key={s.subject_name} className="border-t border-border">
+                                        <td className="p-2">{s.subject_name}</td>
+                                        <td className="p-2">{s.students}</td>
+                                        <td className="p-2">{s.averagePercentage.toFixed(1)}%</td>
+                                        <td className="p-2">{s.medianPercentage.toFixed(1)}%</td>
+                                        <td className={`p-2 font-semibold ${s.passRate < 60 ? 'text-red-400' : s.passRate < 80 ? 'text-amber-300' : 'text-green-400'}`}>{s.passRate.toFixed(1)}%</td>
+                                        <td className="p-2">{s.failed}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+// --- Final Results (indexed BTEB sheets) ---
+const FinalResultsAnalyticsView: React.FC = () => {
+    const [sessions, setSessions] = useState<string[]>([]);
+    const [sessionName, setSessionName] = useState('');
+    const [results, setResults] = useState<FinalResultData[]>([]);
+    const [studentNames, setStudentNames] = useState<Map<string, string>>(new Map());
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        const fetchSessions = async () => {
+            const { data, error: fetchError } = await supabase.from('final_result_sessions')
+                .select('session_name')
+                .not('indexed_count', 'is', null)
+                .order('session_name', { ascending: false });
+            if (fetchError) {
+                setError(`Could not load sessions: ${getErrorMessage(fetchError)}`);
+                setLoading(false);
+                return;
+            }
+            const names = (data || []).map(s => s.session_name as string);
+            setSessions(names);
+            if (names.length > 0) setSessionName(names[0]);
+            else setLoading(false);
+        };
+        fetchSessions();
+    }, []);
+
+    useEffect(() => {
+        if (!sessionName) return;
+        const fetchResults = async () => {
+            setLoading(true);
+            setError('');
+            try {
+                const rows = await fetchAllPages<FinalResultRow>((from, to) => supabase.from('final_results')
+                    .select('roll, gpas, referred_subjects, is_dropout')
+                    .eq('session_name', sessionName)
+                    .order('roll')
+                    .range(from, to));
+                setResults(rows.map(fromFinalResultRow));
+            } catch (fetchError) {
+                setError(`Could not load results: ${getErrorMessage(fetchError)}`);
+                setResults([]);
+            } finally {
+                setLoading(false);
+            }
+        };
+        fetchResults();
+    }, [sessionName]);
+
+    const analytics = useMemo(() => analyzeFinalResults(results), [results]);
+
+    // Final result sheets carry rolls only; names come from the students table.
+    useEffect(() => {
+        const rolls = analytics.topPerformers.map(p => p.roll);
+        if (rolls.length === 0) return;
+        supabase.from('students').select('roll, name').in('roll', rolls)
+            .then(({ data }) => setStudentNames(new Map((data || []).map(s => [String(s.roll), s.name as string]))));
+    }, [analytics]);
+
+    const topPerformers = analytics.topPerformers.map(p => ({ ...p, name: studentNames.get(p.roll) || '' }));
+
+    const exportResults = () => {
+        downloadCsv(toFileName('Final_Results', sessionName), [
+            ['Roll', 'Status', 'Latest GPA', 'GPAs', 'Referred Subjects'],
+            ...results.map(r => [
+                r.roll,
+                getResultStatus(r),
+                latestNumericGpa(r)?.toFixed(2) ?? '',
+                r.gpas.map(g => `${g.semester}: ${g.gpa}`).join('; '),
+                r.referredSubjects.join(' '),
+            ]),
+        ]);
+    };
+
+    if (!loading && sessions.length === 0 && !error) {
+        return <p className="text-center text-text/70 py-10">No indexed final result sessions yet. Upload a result PDF in <Link to="/admin/results" className="text-secondary hover:underline">Manage Results</Link> first.</p>;
+    }
+
+    return (
+        <div className="space-y-6">
+            <div className="flex flex-col sm:flex-row gap-4 sm:items-center sm:justify-between">
+                <select value={sessionName} onChange={e => setSessionName(e.target.value)} className="input-style bg-surface/50 sm:max-w-xs">
+                    {sessions.map(s => <option key={s}>{s}</option>)}
+                </select>
+                <button onClick={exportResults} disabled={results.length === 0} className="px-4 py-2 bg-surface text-sm font-semibold rounded-lg disabled:opacity-50">Export CSV</button>
+            </div>
+
+            {error && <p className="text-sm text-red-400 bg-red-500/10 p-3 rounded-md border border-red-500/20">{error}</p>}
+
+            {loading ? <p>Loading...</p> : (
+                <>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                        <StatCard title="Students" value={String(analytics.students)} icon="groups" />
+                        <StatCard title="Pass Rate" value={`${analytics.passRate.toFixed(1)}%`} icon="task_alt" />
+                        <StatCard title="Referred / Drop Out" value={`${analytics.referred} / ${analytics.dropout}`} icon="report" />
+                        <StatCard title="Average / Median GPA" value={`${analytics.gpa.mean.toFixed(2)} / ${analytics.gpa.median.toFixed(2)}`} icon="grade" />
+                    </div>
+
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                        <Histogram title="GPA Distribution (passed)" buckets={analytics.gpaDistribution} />
+                        <Histogram title="Most Referred Subjects" buckets={analytics.mostReferredSubjects} barClassName="bg-red-500/70" />
+                    </div>
+
+                    <TopPerformersTable performers={topPerformers} scoreLabel="GPA" />
+                </>
+            )}
+        </div>
+    );
+};
+
+
+// --- Main Component ---
+const AdminResultAnalytics: React.FC = () => {
+    const [activeTab, setActiveTab] = useState<'other' | 'final'>('other');
+
+    return (
+        <div>
+            <div className="mb-8">
+                <h1 className="text-3xl font-bold">Result Analytics</h1>
+                <p className="text-text/70 mt-1">Pass rates, averages and grade distributions for each exam and session.</p>
+            </div>
+            <div className="bg-surface/30 border border-border rounded-xl">
+                <div className="border-b border-border flex">
+                    <button onClick={() => setActiveTab('other')} className={`relative shrink-0 px-4 py-3 text-sm font-medium transition-colors ${activeTab === 'other' ? 'text-primary' : 'text-text/70 hover:text-text'}`}>
+                        Class Tests &amp; Midterms
+                        {activeTab === 'other' && <motion.div className="absolute bottom-0 left-0 right-0 h-0.5 bg-primary" layoutId="analytics-tab" />}
+                    </button>
+                    <button onClick={() => setActiveTab('final')} className={`relative shrink-0 px-4 py-3 text-sm font-medium transition-colors ${activeTab === 'final' ? 'text-primary' : 'text-text/70 hover:text-text'}`}>
+                        Final Results
+                        {activeTab === 'final' && <motion.div className="absolute bottom-0 left-0 right-0 h-0.5 bg-primary" layoutId="analytics-tab" />}
+                    </button>
+                </div>
+                <div className="p-6">
+                    <AnimatePresence mode="wait">
+                        <motion.div key={activeTab} initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -10 }} transition={{ duration: 0.2 }}>
+                            {activeTab === 'other' ? <OtherResultsAnalyticsView /> : <FinalResultsAnalyticsView />}
+                        </motion.div>
+                    </AnimatePresence>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AdminResultAnalytics;
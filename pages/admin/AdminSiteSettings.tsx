@@ -3,6 +3,7 @@ import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { supabase } from '../../supabase';
 import { motion, AnimatePresence } from 'framer-motion';
 import ReactCrop, { centerCrop, makeAspectCrop, type Crop, type PixelCrop } from 'react-image-crop';
+import { NOTIFICATION_PROVIDERS, requestNotificationDispatch, type NotificationStatus } from '../../utils/notifications';
 
 // --- Types ---
 interface Facility {
@@ -19,6 +20,19 @@ interface Achievement {
     details?: string;
 }
 
+interface OutboxEntry {
+    id: string;
+    kind: 'event_registration' | 'contact_message';
+    payload: Record<string, any>;
+    status: NotificationStatus;
+    attempts: number;
+    next_attempt_at: string;
+    last_error: string | null;
+    provider: string | null;
+    sent_at: string | null;
+    created_at: string;
+}
+
 // --- Image Cropper Logic ---
 
 // Helper to draw cropped image on canvas
@@ -239,7 +253,8 @@ const SETTING_KEYS = [
     'welcome_home_title', 'welcome_home_subtitle',
     'hero_about_image_url', 'hero_about_title', 'hero_about_subtitle',
     'hero_academic_image_url', 'hero_academic_title', 'hero_academic_subtitle',
-    'hero_events_image_url', 'hero_events_title', 'hero_events_subtitle'
+    'hero_events_image_url', 'hero_events_title', 'hero_events_subtitle',
+    'notification_provider', 'notification_recipients', 'notification_function', 'notification_max_attempts'
 ];
 
 const PREDEFINED_FACILITIES: Facility[] = [
@@ -322,6 +337,117 @@ const IconPickerModal: React.FC<{
     );
 };
 
+// --- Notification Outbox ---
+const outboxStatusStyles: Record<NotificationStatus, string> = {
+    pending: 'bg-amber-500/20 text-amber-300',
+    sending: 'bg-primary/20 text-primary',
+    sent: 'bg-green-500/20 text-green-300',
+    failed: 'bg-red-500/20 text-red-300',
+};
+
+const describeOutboxEntry = (entry: OutboxEntry) =>
+    entry.kind === 'event_registration'
+        ? `Registration: ${entry.payload.full_name} (${entry.payload.roll}) for ${entry.payload.event_title}`
+        : `Message from ${entry.payload.name}${entry.payload.subject ? `: ${entry.payload.subject}` : ''}`;
+
+const NotificationOutbox: React.FC = () => {
+    const [entries, setEntries] = useState<OutboxEntry[]>([]);
+    const [counts, setCounts] = useState({ pending: 0, failed: 0 });
+    const [loading, setLoading] = useState(true);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [isDispatching, setIsDispatching] = useState(false);
+    const [dispatchResult, setDispatchResult] = useState<string | null>(null);
+
+    const fetchOutbox = async () => {
+        setLoading(true);
+        const [list, pending, failed] = await Promise.all([
+            supabase.from('notification_outbox').select('id, kind, payload, status, attempts, next_attempt_at, last_error, provider, sent_at, created_at').order('created_at', { ascending: false }).limit(25),
+            supabase.from('notification_outbox').select('id', { count: 'exact', head: true }).in('status', ['pending', 'sending']),
+            supabase.from('notification_outbox').select('id', { count: 'exact', head: true }).eq('status', 'failed'),
+        ]);
+        if (list.error) {
+            console.error("Error fetching notification outbox:", list.error.message);
+            setLoadError(list.error.message.includes('notification_outbox')
+                ? 'The notification outbox is not set up. Please go to the Supabase SQL Editor and run supabase/migrations/20261020000000_notification_outbox.sql.'
+                : `Could not load the notification outbox: ${list.error.message}`);
+        } else {
+            setLoadError(null);
+            setEntries(list.data as OutboxEntry[] || []);
+            setCounts({ pending: pending.count || 0, failed: failed.count || 0 });
+        }
+        setLoading(false);
+    };
+
+    useEffect(() => {
+        fetchOutbox();
+    }, []);
+
+    const handleDispatch = async () => {
+        setIsDispatching(true);
+        setDispatchResult(null);
+        const result = await requestNotificationDispatch();
+        if ('error' in result) {
+            setDispatchResult(`Dispatch failed: ${result.error}`);
+        } else {
+            const unrecorded = result.unrecorded?.length ?? 0;
+            setDispatchResult(`${result.sent} sent, ${result.retrying} will be retried, ${result.failed} failed (provider: ${result.provider}).${unrecorded > 0 ? ` ${unrecorded} could not be recorded in the outbox and may be sent again.` : ''}`);
+        }
+        setIsDispatching(false);
+        fetchOutbox();
+    };
+
+    const handleRequeue = async (entry: OutboxEntry) => {
+        const { error } = await supabase
+            .from('notification_outbox')
+            .update({ status: 'pending', attempts: 0, next_attempt_at: new Date().toISOString(), last_error: null })
+            .eq('id', entry.id);
+        if (error) {
+            alert(`Could not requeue the notification: ${error.message}`);
+            return;
+        }
+        fetchOutbox();
+    };
+
+    if (loading && entries.length === 0 && !loadError) return <p className="text-sm text-text/60">Loading outbox...</p>;
+    if (loadError) return <p className="text-sm text-red-300 bg-red-500/10 p-3 rounded-md">{loadError}</p>;
+
+    return (
+        <div>
+            <div className="flex flex-wrap items-center gap-2 mb-3 text-xs">
+                <span className="px-2.5 py-1 rounded-full bg-amber-500/20 text-amber-300 font-semibold">Waiting: {counts.pending}</span>
+                <span className={`px-2.5 py-1 rounded-full font-semibold ${counts.failed > 0 ? 'bg-red-500/20 text-red-300' : 'border border-border text-text/70'}`}>Failed: {counts.failed}</span>
+                <div className="flex-grow" />
+                <button onClick={fetchOutbox} className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm text-text/70 hover:text-text hover:bg-surface/50"><span className="material-symbols-outlined text-base">refresh</span>Refresh</button>
+                <button onClick={handleDispatch} disabled={isDispatching} className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-semibold bg-primary/20 hover:bg-primary/30 text-primary disabled:opacity-50"><span className="material-symbols-outlined text-base">send</span>{isDispatching ? 'Sending...' : 'Send Due Now'}</button>
+            </div>
+            {dispatchResult && <p className="text-xs text-text/70 mb-3">{dispatchResult}</p>}
+            {entries.length === 0 ? <p className="text-sm text-text/60">Nothing has been queued yet.</p> : (
+                <div className="space-y-2 max-h-96 overflow-y-auto pr-1">
+                    {entries.map(entry => (
+                        <div key={entry.id} className="flex items-start gap-3 p-3 bg-surface/50 rounded-lg text-sm">
+                            <span className="material-symbols-outlined text-text/50">{entry.kind === 'event_registration' ? 'how_to_reg' : 'mail'}</span>
+                            <div className="flex-grow min-w-0">
+                                <p className="text-text/90 truncate">{describeOutboxEntry(entry)}</p>
+                                <p className="text-xs text-text/50">
+                                    Queued {new Date(entry.created_at).toLocaleString()}
+                                    {entry.sent_at && ` · sent ${new Date(entry.sent_at).toLocaleString()}`}
+                                    {entry.provider && ` via ${entry.provider}`}
+                                    {entry.status === 'pending' && entry.attempts > 0 && ` · attempt ${entry.attempts + 1} at ${new Date(entry.next_attempt_at).toLocaleString()}`}
+                                </p>
+                                {entry.last_error && entry.status !== 'sent' && <p className="text-xs text-red-300 mt-1 break-words">{entry.last_error}</p>}
+                            </div>
+                            <span className={`shrink-0 text-xs font-semibold px-2 py-0.5 rounded-full capitalize ${outboxStatusStyles[entry.status]}`}>{entry.status}</span>
+                            {entry.status === 'failed' && (
+                                <button onClick={() => handleRequeue(entry)} title="Try again" className="shrink-0 p-1 rounded-full text-text/60 hover:text-secondary hover:bg-surface"><span className="material-symbols-outlined text-base">replay</span></button>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
 const formatKeyToLabel = (key: string): string => key.replace(/_/g, ' ').replace(/\b\w/g, char => char.toUpperCase());
 
 // --- Main Component ---
@@ -495,6 +621,31 @@ const AdminSiteSettings: React.FC = () => {
             
             <div className="space-y-8">
                 <div className="bg-surface p-6 rounded-xl border border-border"><h2 className="text-xl font-bold gradient-text mb-4">General & Contact</h2><div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-4">{renderInput('institute_name')}{renderInput('department_name')}<ImageUploader label="Site Logo" className="md:col-span-2" currentImageUrl={settings['site_logo_url']} onImageSelect={(file) => handleImageFileSelect('site_logo_url', file)} aspect={1 / 1} />{renderInput('address', 'textarea')}{renderInput('contact_email')}{renderInput('contact_phone')}</div></div>
+                <div className="bg-surface p-6 rounded-xl border border-border">
+                    <h2 className="text-xl font-bold gradient-text mb-4">Notifications</h2>
+                    <p className="text-sm text-text/70 mb-4 -mt-2">Event registrations and contact form messages are queued and delivered by the <code>notification-dispatch</code> edge function, which retries failed deliveries.</p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-4">
+                        <div>
+                            <label htmlFor="notification_provider" className="block text-sm font-medium text-text/90 mb-1">Delivery Provider</label>
+                            <select id="notification_provider" name="notification_provider" value={settings.notification_provider || ''} onChange={e => setSettings({ ...settings, notification_provider: e.target.value })} className={inputStyle}>
+                                {NOTIFICATION_PROVIDERS.map(provider => <option key={provider.value} value={provider.value}>{provider.label}</option>)}
+                            </select>
+                            <p className="text-xs text-text/60 mt-1">{NOTIFICATION_PROVIDERS.find(p => p.value === (settings.notification_provider || ''))?.description}</p>
+                        </div>
+                        <div>
+                            {renderInput('notification_recipients')}
+                            <p className="text-xs text-text/60 mt-1">Comma-separated email addresses. Leave empty to use the contact email.</p>
+                        </div>
+                        {settings.notification_provider === 'edge_function' && renderInput('notification_function')}
+                        <div>
+                            <label htmlFor="notification_max_attempts" className="block text-sm font-medium text-text/90 mb-1">Delivery Attempts</label>
+                            <input type="number" min={1} max={20} id="notification_max_attempts" name="notification_max_attempts" value={settings.notification_max_attempts || ''} onChange={handleChange} placeholder="5" className={inputStyle} />
+                            <p className="text-xs text-text/60 mt-1">Failed deliveries are retried after 1, 2, 4, 8... minutes (at most 6 hours apart) up to this many times.</p>
+                        </div>
+                    </div>
+                    <h3 className="text-lg font-semibold text-text/90 mt-6 mb-3">Outbox</h3>
+                    <NotificationOutbox />
+                </div>
                 <div className="bg-surface p-6 rounded-xl border border-border"><h2 className="text-xl font-bold gradient-text mb-4">Social Links</h2><div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-4">{renderInput('facebook_url')}{renderInput('twitter_url')}{renderInput('github_url')}</div></div>
                 
                 <div className="bg-surface p-6 rounded-xl border border-border">
@@ -0,0 +1,12 @@
+// Settings shared by the edge functions. SUPABASE_* are injected by the
+// platform (and by `supabase functions serve`); SITE_URL is a project secret.
+
+export const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+export const functionsUrl = `${supabaseUrl}/functions/v1`;
+
+// Public site the links in feeds and emails point at (HashRouter routes).
+export const siteUrl = (Deno.env.get('SITE_URL') ?? 'http://localhost:3000').replace(/\/+$/, '');
+
+export const noticeLink = (id: string | number) => `${siteUrl}/#/notice#notice-${id}`;
+export const eventLink = (id: string | number) => `${siteUrl}/#/event/${id}`;
+export const noticeUnsubscribeUrl = (token: string) => `${functionsUrl}/notice-subscriptions/unsubscribe?token=${token}`;
@@ -0,0 +1,151 @@
+// --- Feed builders ---
+// Pure RSS 2.0 / Atom 1.0 serialisers shared by the feed functions. They take
+// already-shaped items so they can be exercised without a database.
+
+import createDOMPurify from 'npm:dompurify@3';
+import { JSDOM } from 'npm:jsdom@26';
+import { NOTICE_ALLOWED_ATTR, NOTICE_ALLOWED_TAGS, htmlToText, isHostedImageSrc, isHtmlContent, plainTextToHtml } from '../../../utils/htmlContent.ts';
+
+export interface FeedEnclosure {
+    url: string;
+    name: string;
+    mimeType: string;
+}
+
+export interface FeedItem {
+    id: string;
+    title: string;
+    link: string;
+    published: string;
+    updated?: string;
+    author?: string;
+    category?: string;
+    html: string;
+    enclosures: FeedEnclosure[];
+}
+
+export interface FeedChannel {
+    title: string;
+    description: string;
+    // Public page the feed mirrors, and the feed's own URL.
+    siteUrl: string;
+    selfUrl: string;
+    items: FeedItem[];
+}
+
+export const escapeXml = (value: string) =>
+    value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+
+// "]]>" can't appear inside a CDATA section, so it is split across two.
+const cdata = (value: string) => `<![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+
+// Feed readers and API clients render this HTML as-is, so stored content is
+// sanitised with the site's allow-list rather than trusted.
+const purify = createDOMPurify(new JSDOM('').window);
+
+purify.addHook('uponSanitizeAttribute', (node, data) => {
+    if (node.nodeName === 'IMG' && data.attrName === 'src' && !isHostedImageSrc(data.attrValue)) {
+        data.keepAttr = false;
+    }
+});
+
+export const sanitizeHtml = (html: string): string =>
+    purify.sanitize(html, { ALLOWED_TAGS: NOTICE_ALLOWED_TAGS, ALLOWED_ATTR: NOTICE_ALLOWED_ATTR });
+
+// Plain-text notices are turned into paragraphs the same way the site does.
+export const contentToHtml = (content: string | null | undefined): string => {
+    if (!content) return '';
+    return isHtmlContent(content) ? sanitizeHtml(content) : plainTextToHtml(content);
+};
+
+export { htmlToText };
+
+export const guessMimeType = (url: string, kind?: 'image' | 'pdf') => {
+    const ext = url.split('?')[0].split('.').pop()?.toLowerCase();
+    if (kind === 'pdf' || ext === 'pdf') return 'application/pdf';
+    switch (ext) {
+        case 'png': return 'image/png';
+        case 'gif': return 'image/gif';
+        case 'webp': return 'image/webp';
+        case 'svg': return 'image/svg+xml';
+        default: return kind === 'image' || ext === 'jpg' || ext === 'jpeg' ? 'image/jpeg' : 'application/octet-stream';
+    }
+};
+
+// Attachments are listed at the end of the body as well, since RSS readers
+// only surface a single enclosure.
+const withAttachmentList = (item: FeedItem) => {
+    if (item.enclosures.length === 0) return item.html;
+    const links = item.enclosures
+        .map(e => `<li><a href="${escapeXml(e.url)}">${escapeXml(e.name)}</a></li>`)
+        .join('');
+    return `${item.html}<p><strong>Attachments:</strong></p><ul>${links}</ul>`;
+};
+
+export const buildRss = (channel: FeedChannel): string => {
+    const lastBuild = channel.items[0]?.updated || channel.items[0]?.published || new Date().toISOString();
+    const items = channel.items.map(item => {
+        const enclosure = item.enclosures[0];
+        return [
+            '    <item>',
+            `      <title>${escapeXml(item.title)}</title>`,
+            `      <link>${escapeXml(item.link)}</link>`,
+            `      <guid isPermaLink="false">${escapeXml(item.id)}</guid>`,
+            `      <pubDate>${new Date(item.published).toUTCString()}</pubDate>`,
+            item.author ? `      <dc:creator>${escapeXml(item.author)}</dc:creator>` : '',
+            item.category ? `      <category>${escapeXml(item.category)}</category>` : '',
+            `      <description>${cdata(withAttachmentList(item))}</description>`,
+            enclosure ? `      <enclosure url="${escapeXml(enclosure.url)}" length="0" type="${escapeXml(enclosure.mimeType)}" />` : '',
+            '    </item>',
+        ].filter(Boolean).join('\n');
+    });
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+        '  <channel>',
+        `    <title>${escapeXml(channel.title)}</title>`,
+        `    <link>${escapeXml(channel.siteUrl)}</link>`,
+        `    <description>${escapeXml(channel.description)}</description>`,
+        `    <atom:link href="${escapeXml(channel.selfUrl)}" rel="self" type="application/rss+xml" />`,
+        `    <lastBuildDate>${new Date(lastBuild).toUTCString()}</lastBuildDate>`,
+        ...items,
+        '  </channel>',
+        '</rss>',
+    ].join('\n');
+};
+
+export const buildAtom = (channel: FeedChannel): string => {
+    const updated = channel.items[0]?.updated || channel.items[0]?.published || new Date().toISOString();
+    const entries = channel.items.map(item => [
+        '  <entry>',
+        `    <title>${escapeXml(item.title)}</title>`,
+        `    <id>${escapeXml(item.link)}</id>`,
+        `    <link rel="alternate" type="text/html" href="${escapeXml(item.link)}" />`,
+        ...item.enclosures.map(e => `    <link rel="enclosure" type="${escapeXml(e.mimeType)}" title="${escapeXml(e.name)}" href="${escapeXml(e.url)}" />`),
+        `    <published>${new Date(item.published).toISOString()}</published>`,
+        `    <updated>${new Date(item.updated || item.published).toISOString()}</updated>`,
+        item.author ? `    <author><name>${escapeXml(item.author)}</name></author>` : '',
+        item.category ? `    <category term="${escapeXml(item.category)}" />` : '',
+        `    <content type="html">${escapeXml(withAttachmentList(item))}</content>`,
+        '  </entry>',
+    ].filter(Boolean).join('\n'));
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<feed xmlns="http://www.w3.org/2005/Atom">',
+        `  <title>${escapeXml(channel.title)}</title>`,
+        `  <subtitle>${escapeXml(channel.description)}</subtitle>`,
+        `  <id>${escapeXml(channel.selfUrl)}</id>`,
+        `  <link rel="self" type="application/atom+xml" href="${escapeXml(channel.selfUrl)}" />`,
+        `  <link rel="alternate" type="text/html" href="${escapeXml(channel.siteUrl)}" />`,
+        `  <updated>${new Date(updated).toISOString()}</updated>`,
+        ...entries,
+        '</feed>',
+    ].join('\n');
+};
@@ -0,0 +1,59 @@
+// Checks the feed serialisers on fixed items:
+//   npm run test:functions
+
+import assert from 'node:assert/strict';
+import { buildAtom, buildRss, contentToHtml, escapeXml, guessMimeType, htmlToText, type FeedChannel } from './feed.ts';
+
+const CHANNEL: FeedChannel = {
+    title: 'Notices & Events',
+    description: 'Latest notices',
+    siteUrl: 'https://institute.example/#/notice',
+    selfUrl: 'https://institute.example/functions/v1/notice-feed/notices.rss',
+    items: [
+        {
+            id: 'notice-2',
+            title: 'Routine <final>',
+            link: 'https://institute.example/#/notice#notice-2',
+            published: '2026-05-01T08:00:00Z',
+            author: 'Exam Cell',
+            category: 'Academic',
+            html: '<p>Exams start soon. ]]> is not the end.</p>',
+            enclosures: [{ url: 'https://files.example/routine.pdf?v=1&dl=1', name: 'Routine', mimeType: 'application/pdf' }],
+        },
+    ],
+};
+
+Deno.test('escapeXml escapes all five XML entities', () => {
+    assert.equal(escapeXml(`<a href="x">Tom & Jerry's</a>`), '&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&apos;s&lt;/a&gt;');
+});
+
+Deno.test('buildRss escapes text, keeps CDATA intact and adds the first attachment as an enclosure', () => {
+    const xml = buildRss(CHANNEL);
+    assert.ok(xml.includes('<title>Notices &amp; Events</title>'));
+    assert.ok(xml.includes('<title>Routine &lt;final&gt;</title>'));
+    assert.ok(xml.includes(`<pubDate>${new Date('2026-05-01T08:00:00Z').toUTCString()}</pubDate>`));
+    assert.ok(xml.includes('<![CDATA[<p>Exams start soon. ]]]]><![CDATA[> is not the end.</p>'));
+    assert.ok(xml.includes('<enclosure url="https://files.example/routine.pdf?v=1&amp;dl=1" length="0" type="application/pdf" />'));
+    // Readers that ignore enclosures still get a link in the body.
+    assert.ok(xml.includes('<li><a href="https://files.example/routine.pdf?v=1&amp;dl=1">Routine</a></li>'));
+});
+
+Deno.test('buildAtom lists every attachment as an enclosure link', () => {
+    const xml = buildAtom(CHANNEL);
+    assert.ok(xml.includes('<updated>2026-05-01T08:00:00.000Z</updated>'));
+    assert.ok(xml.includes('<link rel="enclosure" type="application/pdf" title="Routine" href="https://files.example/routine.pdf?v=1&amp;dl=1" />'));
+    assert.ok(xml.includes('<content type="html">&lt;p&gt;Exams start soon.'));
+});
+
+Deno.test('plain-text notices become paragraphs and HTML becomes text', () => {
+    assert.equal(contentToHtml('Closed on Friday.\nOffice opens Saturday.\n\nBring ID <cards>.'), '<p>Closed on Friday.<br>Office opens Saturday.</p><p>Bring ID &lt;cards&gt;.</p>');
+    assert.equal(contentToHtml(null), '');
+    assert.equal(htmlToText('<p>Fees &amp; fines</p><ul><li>Lab</li><li>Library</li></ul>'), 'Fees & fines\nLab\nLibrary');
+});
+
+Deno.test('guessMimeType goes by the attachment kind, then the extension', () => {
+    assert.equal(guessMimeType('https://files.example/notice', 'pdf'), 'application/pdf');
+    assert.equal(guessMimeType('https://files.example/photo.PNG?token=1'), 'image/png');
+    assert.equal(guessMimeType('https://files.example/photo', 'image'), 'image/jpeg');
+    assert.equal(guessMimeType('https://files.example/archive.zip'), 'application/octet-stream');
+});
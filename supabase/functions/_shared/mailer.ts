@@ -0,0 +1,69 @@
+// --- Pluggable mail delivery ---
+// MAIL_PROVIDER picks the transport:
+//   smtp     SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_SECURE ("true" for TLS)
+//   console  logs messages instead of sending them (default)
+// Pointing smtp at a local sink (e.g. the Inbucket/Mailpit container started by
+// `supabase start`, SMTP on port 54325) lets the whole flow be tested offline.
+
+import nodemailer from 'npm:nodemailer@6';
+
+export interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+    html: string;
+    headers?: Record<string, string>;
+}
+
+export interface Mailer {
+    readonly name: string;
+    send(message: MailMessage): Promise<void>;
+}
+
+const mailFrom = () => Deno.env.get('MAIL_FROM') ?? 'DPI Computer Department <no-reply@localhost>';
+
+export const createSmtpMailer = (): Mailer => {
+    const host = Deno.env.get('SMTP_HOST');
+    if (!host) throw new Error('MAIL_PROVIDER is "smtp" but SMTP_HOST is not set.');
+    const user = Deno.env.get('SMTP_USER');
+    const transport = nodemailer.createTransport({
+        host,
+        port: Number(Deno.env.get('SMTP_PORT') ?? 587),
+        secure: Deno.env.get('SMTP_SECURE') === 'true',
+        auth: user ? { user, pass: Deno.env.get('SMTP_PASS') ?? '' } : undefined,
+    });
+    return {
+        name: 'smtp',
+        async send(message) {
+            await transport.sendMail({ from: mailFrom(), ...message });
+        },
+    };
+};
+
+const createConsoleMailer = (): Mailer => ({
+    name: 'console',
+    async send(message) {
+        console.log(`[mail] to=${message.to} subject=${JSON.stringify(message.subject)}\n${message.text}`);
+    },
+});
+
+export const createMailer = (): Mailer => {
+    const provider = (Deno.env.get('MAIL_PROVIDER') ?? 'console').toLowerCase();
+    switch (provider) {
+        case 'smtp': return createSmtpMailer();
+        case 'console': return createConsoleMailer();
+        default: throw new Error(`Unknown MAIL_PROVIDER "${provider}". Use "smtp" or "console".`);
+    }
+};
+
+// Wraps a message body in the simple layout used for all outgoing mail.
+export const renderEmailLayout = (title: string, bodyHtml: string, footerHtml = '') => `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f4f6f9;font-family:Arial,Helvetica,sans-serif;color:#1f2933;">
+  <div style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:8px;overflow:hidden;">
+    <div style="background:#001833;color:#ffffff;padding:16px 24px;font-size:18px;font-weight:bold;">${title}</div>
+    <div style="padding:24px;font-size:14px;line-height:1.6;">${bodyHtml}</div>
+    ${footerHtml ? `<div style="padding:16px 24px;border-top:1px solid #e4e7eb;font-size:12px;color:#7b8794;">${footerHtml}</div>` : ''}
+  </div>
+</body>
+</html>`;
@@ -0,0 +1,86 @@
+// --- Pluggable notification delivery ---
+// Used by notification-dispatch. The provider comes from the
+// notification_provider site setting, falling back to MAIL_PROVIDER; with
+// neither set the dispatcher refuses to run:
+//   smtp           email through _shared/mailer.ts (SMTP_* secrets)
+//   edge_function  hands the message to another edge function, named by the
+//                  notification_function setting, as a JSON POST
+//   file           appends messages as JSON lines to NOTIFICATION_FILE_PATH
+//                  (default /tmp/notifications.jsonl), for local testing
+//   console        logs messages instead of sending them
+
+import { createSmtpMailer, type MailMessage } from './mailer.ts';
+import { functionsUrl } from './env.ts';
+
+export interface Notification extends MailMessage {
+    kind: string;
+    replyTo?: string;
+}
+
+export interface Notifier {
+    readonly name: string;
+    send(notification: Notification): Promise<void>;
+}
+
+export const NOTIFIER_PROVIDERS = ['smtp', 'edge_function', 'file', 'console'];
+
+export interface NotifierOptions {
+    provider: string;
+    functionName?: string;
+    serviceRoleKey: string;
+}
+
+const createSmtpNotifier = (): Notifier => {
+    const mailer = createSmtpMailer();
+    return {
+        name: 'smtp',
+        async send({ replyTo, kind: _kind, ...message }) {
+            await mailer.send({ ...message, headers: { ...message.headers, ...(replyTo ? { 'Reply-To': replyTo } : {}) } });
+        },
+    };
+};
+
+const createEdgeFunctionNotifier = (functionName: string | undefined, serviceRoleKey: string): Notifier => {
+    if (!functionName) throw new Error('The "edge_function" provider needs the notification_function setting.');
+    return {
+        name: `edge_function:${functionName}`,
+        async send(notification) {
+            const response = await fetch(`${functionsUrl}/${encodeURIComponent(functionName)}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${serviceRoleKey}` },
+                body: JSON.stringify(notification),
+            });
+            if (!response.ok) {
+                throw new Error(`${functionName} responded ${response.status}: ${(await response.text()).slice(0, 200)}`);
+            }
+        },
+    };
+};
+
+const createFileNotifier = (): Notifier => {
+    const path = Deno.env.get('NOTIFICATION_FILE_PATH') ?? '/tmp/notifications.jsonl';
+    return {
+        name: 'file',
+        async send(notification) {
+            const line = JSON.stringify({ at: new Date().toISOString(), ...notification, html: undefined });
+            await Deno.writeTextFile(path, `${line}\n`, { append: true });
+        },
+    };
+};
+
+const createConsoleNotifier = (): Notifier => ({
+    name: 'console',
+    async send(notification) {
+        console.log(`[notify] kind=${notification.kind} to=${notification.to} subject=${JSON.stringify(notification.subject)}\n${notification.text}`);
+    },
+});
+
+export const createNotifier = ({ provider, functionName, serviceRoleKey }: NotifierOptions): Notifier => {
+    switch (provider) {
+        case 'smtp': return createSmtpNotifier();
+        case 'edge_function': return createEdgeFunctionNotifier(functionName, serviceRoleKey);
+        case 'file': return createFileNotifier();
+        case 'console': return createConsoleNotifier();
+        default: throw new Error(`Unknown notification provider "${provider}". Use one of: ${NOTIFIER_PROVIDERS.join(', ')}.`);
+    }
+};
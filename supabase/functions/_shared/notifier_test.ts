@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+import { createNotifier, type Notification } from './notifier.ts';
+
+const NOTIFICATION: Notification = {
+    kind: 'contact_message',
+    to: 'office@example.test',
+    replyTo: 'visitor@example.test',
+    subject: 'Contact form: Admission',
+    text: 'When does admission start?',
+    html: '<p>When does admission start?</p>',
+};
+
+Deno.test('the file provider appends one JSON line per message, without the HTML', async () => {
+    const path = await Deno.makeTempFile({ suffix: '.jsonl' });
+    Deno.env.set('NOTIFICATION_FILE_PATH', path);
+    try {
+        const notifier = createNotifier({ provider: 'file', serviceRoleKey: '' });
+        assert.equal(notifier.name, 'file');
+        await notifier.send(NOTIFICATION);
+        await notifier.send({ ...NOTIFICATION, subject: 'Second' });
+
+        const lines = (await Deno.readTextFile(path)).trim().split('\n').map(line => JSON.parse(line));
+        assert.equal(lines.length, 2);
+        assert.equal(lines[0].to, 'office@example.test');
+        assert.equal(lines[0].replyTo, 'visitor@example.test');
+        assert.equal(lines[0].kind, 'contact_message');
+        assert.equal(lines[0].html, undefined);
+        assert.equal(lines[1].subject, 'Second');
+    } finally {
+        Deno.env.delete('NOTIFICATION_FILE_PATH');
+        await Deno.remove(path);
+    }
+});
+
+Deno.test('the console provider only logs', async () => {
+    const logged: unknown[][] = [];
+    const original = console.log;
+    console.log = (...args: unknown[]) => { logged.push(args); };
+    try {
+        await createNotifier({ provider: 'console', serviceRoleKey: '' }).send(NOTIFICATION);
+    } finally {
+        console.log = original;
+    }
+    assert.equal(logged.length, 1);
+    assert.ok(String(logged[0][0]).includes('to=office@example.test'));
+});
+
+Deno.test('misconfigured providers fail when the notifier is created', () => {
+    assert.throws(() => createNotifier({ provider: 'sms', serviceRoleKey: '' }), /Unknown notification provider "sms"/);
+    assert.throws(() => createNotifier({ provider: 'edge_function', serviceRoleKey: '' }), /needs the notification_function setting/);
+    Deno.env.delete('SMTP_HOST');
+    assert.throws(() => createNotifier({ provider: 'smtp', serviceRoleKey: '' }), /SMTP_HOST is not set/);
+});
+
+Deno.test('the edge_function provider is named after its target', () => {
+    assert.equal(createNotifier({ provider: 'edge_function', functionName: 'sms-relay', serviceRoleKey: 'key' }).name, 'edge_function:sms-relay');
+});
@@ -0,0 +1,190 @@
+// Sends queued notice alerts.
+//
+//   POST /notice-alerts?mode=instant  every few minutes: one email per subscriber
+//                                     covering whatever became due since the last run
+//   POST /notice-alerts?mode=digest   once a day: the daily-digest subscribers
+//
+// Rows are queued by the notices_queue_alerts trigger. Only callers holding the
+// service role key may run it (e.g. pg_cron + pg_net, see the README).
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { noticeLink, noticeUnsubscribeUrl, siteUrl, supabaseUrl } from '../_shared/env.ts';
+import { contentToHtml, escapeXml, htmlToText } from '../_shared/feed.ts';
+import { createMailer, renderEmailLayout, type Mailer } from '../_shared/mailer.ts';
+
+interface QueueRow {
+    id: number;
+    subscriber_id: string;
+    notice_id: number;
+    attempts: number;
+    notice_subscribers: {
+        email: string;
+        unsubscribe_token: string;
+        unsubscribed_at: string | null;
+        last_digest_at: string | null;
+    } | null;
+}
+
+interface NoticeRow {
+    id: number;
+    title: string;
+    content: string;
+    category: string;
+    priority: string | null;
+    published_at: string;
+    attachments: unknown[] | null;
+}
+
+const MAX_ATTEMPTS = 5;
+const BATCH_SIZE = 500;
+const EXCERPT_LENGTH = 280;
+// A little under a day, so a digest run that starts a few minutes early
+// doesn't skip a subscriber for 48 hours.
+const DIGEST_INTERVAL_MS = 20 * 60 * 60 * 1000;
+
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json; charset=utf-8' } });
+
+const excerpt = (content: string) => {
+    const text = htmlToText(contentToHtml(content)).replace(/\s+/g, ' ');
+    return text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH).trimEnd()}...` : text;
+};
+
+const buildAlertEmail = (notices: NoticeRow[], unsubscribeToken: string, isDigest: boolean) => {
+    const unsubscribeLink = noticeUnsubscribeUrl(unsubscribeToken);
+    const subject = isDigest
+        ? `Daily notice digest: ${notices.length} new notice${notices.length === 1 ? '' : 's'}`
+        : notices.length === 1
+            ? `${notices[0].priority === 'urgent' ? '[Urgent] ' : ''}New notice: ${notices[0].title}`
+            : `${notices.length} new notices from the Computer Department`;
+
+    const htmlItems = notices.map(notice => {
+        const attachmentCount = notice.attachments?.length ?? 0;
+        return `<div style="margin-bottom:20px;">
+  <p style="margin:0;font-size:12px;color:#7b8794;">${escapeXml(notice.category)} &middot; ${new Date(notice.published_at).toDateString()}${attachmentCount ? ` &middot; ${attachmentCount} attachment${attachmentCount === 1 ? '' : 's'}` : ''}</p>
+  <h3 style="margin:4px 0;font-size:16px;"><a href="${noticeLink(notice.id)}" style="color:#007BFF;text-decoration:none;">${escapeXml(notice.title)}</a></h3>
+  <p style="margin:0;">${escapeXml(excerpt(notice.content))}</p>
+</div>`;
+    }).join('');
+
+    const textItems = notices
+        .map(notice => `${notice.title} (${notice.category})\n${excerpt(notice.content)}\n${noticeLink(notice.id)}`)
+        .join('\n\n');
+
+    return {
+        subject,
+        text: `${textItems}\n\nAll notices: ${siteUrl}/#/notice\nUnsubscribe: ${unsubscribeLink}`,
+        html: renderEmailLayout(isDigest ? 'Your daily notice digest' : 'New notice',
+            `${htmlItems}<p><a href="${siteUrl}/#/notice">View all notices</a></p>`,
+            `You are receiving this because you subscribed to notice alerts. <a href="${unsubscribeLink}">Unsubscribe</a>`),
+        headers: {
+            'List-Unsubscribe': `<${unsubscribeLink}>`,
+            'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+        },
+    };
+};
+
+const markRows = async (ids: number[], values: Record<string, unknown>) => {
+    if (ids.length === 0) return;
+    const { error } = await supabase.from('notice_alert_queue').update(values).in('id', ids);
+    if (error) console.error('Failed to update alert queue:', error.message);
+};
+
+const processQueue = async (mailer: Mailer, isDigest: boolean) => {
+    const now = new Date();
+    const { data, error } = await supabase
+        .from('notice_alert_queue')
+        .select('id, subscriber_id, notice_id, attempts, notice_subscribers(email, unsubscribe_token, unsubscribed_at, last_digest_at)')
+        .is('sent_at', null)
+        .eq('frequency', isDigest ? 'daily' : 'instant')
+        .lte('deliver_after', now.toISOString())
+        .lt('attempts', MAX_ATTEMPTS)
+        .order('id')
+        .limit(BATCH_SIZE);
+    if (error) throw error;
+    const rows = (data ?? []) as unknown as QueueRow[];
+
+    // Only notices that are live get sent. One that isn't live yet stays queued
+    // (the trigger keeps deliver_after in step with publish_at, so this is only
+    // clock skew or a status change in flight); one that has expired or been
+    // deleted since it was queued is dropped.
+    const noticeIds = Array.from(new Set(rows.map(r => r.notice_id)));
+    const { data: noticeData, error: noticeError } = noticeIds.length > 0
+        ? await supabase.from('public_notices').select('id, title, content, category, priority, published_at, attachments').in('id', noticeIds)
+        : { data: [], error: null };
+    if (noticeError) throw noticeError;
+    const notices = new Map((noticeData as NoticeRow[]).map(n => [n.id, n]));
+
+    const notLiveIds = noticeIds.filter(id => !notices.has(id));
+    const { data: waitingData, error: waitingError } = notLiveIds.length > 0
+        ? await supabase.from('notices').select('id').in('id', notLiveIds).or(`expire_at.is.null,expire_at.gt.${now.toISOString()}`)
+        : { data: [], error: null };
+    if (waitingError) throw waitingError;
+    const waiting = new Set((waitingData as { id: number }[]).map(n => n.id));
+
+    const bySubscriber = new Map<string, QueueRow[]>();
+    const skipped: number[] = [];
+    let deferred = 0;
+    for (const row of rows) {
+        const subscriber = row.notice_subscribers;
+        if (subscriber && !subscriber.unsubscribed_at && waiting.has(row.notice_id)) {
+            deferred += 1;
+            continue;
+        }
+        if (!subscriber || subscriber.unsubscribed_at || !notices.has(row.notice_id)) {
+            skipped.push(row.id);
+            continue;
+        }
+        if (isDigest && subscriber.last_digest_at && now.getTime() - new Date(subscriber.last_digest_at).getTime() < DIGEST_INTERVAL_MS) {
+            continue;
+        }
+        bySubscriber.set(row.subscriber_id, [...(bySubscriber.get(row.subscriber_id) ?? []), row]);
+    }
+    await markRows(skipped, { sent_at: now.toISOString(), last_error: 'Skipped: notice expired or subscriber gone' });
+
+    let sent = 0;
+    let failed = 0;
+    for (const [subscriberId, subscriberRows] of bySubscriber) {
+        const subscriber = subscriberRows[0].notice_subscribers!;
+        const subscriberNotices = subscriberRows
+            .map(r => notices.get(r.notice_id)!)
+            .sort((a, b) => new Date(b.published_at).getTime() - new Date(a.published_at).getTime());
+        const ids = subscriberRows.map(r => r.id);
+        try {
+            await mailer.send({ to: subscriber.email, ...buildAlertEmail(subscriberNotices, subscriber.unsubscribe_token, isDigest) });
+            await markRows(ids, { sent_at: new Date().toISOString(), last_error: null });
+            if (isDigest) {
+                await supabase.from('notice_subscribers').update({ last_digest_at: now.toISOString() }).eq('id', subscriberId);
+            }
+            sent += 1;
+        } catch (sendError) {
+            failed += 1;
+            const message = sendError instanceof Error ? sendError.message : String(sendError);
+            console.error(`Failed to send notice alert to subscriber ${subscriberId}:`, message);
+            await markRows(ids, { attempts: Math.max(...subscriberRows.map(r => r.attempts)) + 1, last_error: message.slice(0, 500) });
+        }
+    }
+
+    return { queued: rows.length, emailsSent: sent, emailsFailed: failed, skipped: skipped.length, deferred };
+};
+
+Deno.serve(async (req) => {
+    if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+        return jsonResponse({ error: 'Unauthorized.' }, 401);
+    }
+    const mode = new URL(req.url).searchParams.get('mode') ?? 'instant';
+    if (mode !== 'instant' && mode !== 'digest') {
+        return jsonResponse({ error: 'mode must be "instant" or "digest".' }, 400);
+    }
+    try {
+        const result = await processQueue(createMailer(), mode === 'digest');
+        return jsonResponse({ mode, ...result });
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String((error as { message?: unknown })?.message ?? error);
+        console.error('notice-alerts error:', message);
+        return jsonResponse({ error: message }, 500);
+    }
+});
@@ -0,0 +1,253 @@
+// Routing and shaping for the notice-feed function; see index.ts for the routes.
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { eventLink, functionsUrl, noticeLink, siteUrl } from '../_shared/env.ts';
+import { buildAtom, buildRss, contentToHtml, guessMimeType, htmlToText, type FeedChannel, type FeedItem } from '../_shared/feed.ts';
+
+interface Attachment {
+    url: string;
+    name: string;
+    type: 'image' | 'pdf';
+    path: string;
+    thumbUrl?: string;
+}
+
+interface NoticeRow {
+    id: string;
+    title: string;
+    content: string;
+    title_bn: string | null;
+    content_bn: string | null;
+    author: string | null;
+    category: string;
+    priority: string | null;
+    is_pinned: boolean | null;
+    attachments: Attachment[] | null;
+    published_at: string;
+    expire_at: string | null;
+}
+
+interface EventRow {
+    id: string;
+    title: string;
+    date: string;
+    description: string | null;
+    title_bn: string | null;
+    description_bn: string | null;
+    imageUrl: string | null;
+}
+
+type Language = 'en' | 'bn';
+
+const NOTICE_CATEGORIES = ['Academic', 'Event', 'General'];
+const FEED_LIMIT = 50;
+const MAX_JSON_LIMIT = 100;
+const API_VERSION = 1;
+
+const functionUrl = `${functionsUrl}/notice-feed`;
+
+class HttpError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+    }
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'public, max-age=300' },
+    });
+
+const xmlResponse = (body: string, contentType: string) =>
+    new Response(body, {
+        headers: { ...corsHeaders, 'Content-Type': `${contentType}; charset=utf-8`, 'Cache-Control': 'public, max-age=300' },
+    });
+
+const parseCategory = (url: URL) => {
+    const category = url.searchParams.get('category');
+    if (!category) return null;
+    const match = NOTICE_CATEGORIES.find(c => c.toLowerCase() === category.toLowerCase());
+    if (!match) throw new HttpError(400, `Unknown category "${category}". Use one of: ${NOTICE_CATEGORIES.join(', ')}.`);
+    return match;
+};
+
+const parseLimit = (url: URL, fallback: number) => {
+    const raw = url.searchParams.get('limit');
+    if (!raw) return fallback;
+    const limit = parseInt(raw, 10);
+    if (!Number.isFinite(limit) || limit < 1) throw new HttpError(400, 'limit must be a positive integer.');
+    return Math.min(limit, MAX_JSON_LIMIT);
+};
+
+const parseLanguage = (url: URL): Language => {
+    const lang = url.searchParams.get('lang');
+    if (!lang || lang === 'en') return 'en';
+    if (lang === 'bn') return 'bn';
+    throw new HttpError(400, `Unknown language "${lang}". Use en or bn.`);
+};
+
+// Same fallback rule as the site's language switcher.
+const localize = (lang: Language, english: string | null, bangla: string | null) => {
+    const [preferred, fallback] = lang === 'bn' ? [bangla, english] : [english, bangla];
+    if (preferred && preferred.trim()) return preferred;
+    return fallback && fallback.trim() ? fallback : '';
+};
+
+// --- Data access ---
+const fetchNotices = async (supabase: SupabaseClient, options: { category?: string | null; limit: number; id?: string }) => {
+    let query = supabase
+        .from('public_notices')
+        .select('id, title, content, title_bn, content_bn, author, category, priority, is_pinned, attachments, published_at, expire_at');
+    if (options.id) query = query.eq('id', options.id);
+    if (options.category) query = query.eq('category', options.category);
+    const { data, error } = await query.order('published_at', { ascending: false }).limit(options.limit);
+    if (error) throw new HttpError(502, `Could not load notices: ${error.message}`);
+    return (data ?? []) as NoticeRow[];
+};
+
+const fetchEvents = async (supabase: SupabaseClient, options: { limit: number; id?: string }) => {
+    let query = supabase
+        .from('events')
+        .select('id, title, date, description, title_bn, description_bn, imageUrl')
+        .eq('status', 'published');
+    if (options.id) query = query.eq('id', options.id);
+    const { data, error } = await query.order('date', { ascending: false }).limit(options.limit);
+    if (error) throw new HttpError(502, `Could not load events: ${error.message}`);
+    return (data ?? []) as EventRow[];
+};
+
+// --- Shaping ---
+const noticeToFeedItem = (notice: NoticeRow, lang: Language): FeedItem => ({
+    id: `notice-${notice.id}`,
+    title: localize(lang, notice.title, notice.title_bn),
+    link: noticeLink(notice.id),
+    published: notice.published_at,
+    author: notice.author || 'Admin',
+    category: notice.category,
+    html: contentToHtml(localize(lang, notice.content, notice.content_bn)),
+    enclosures: (notice.attachments ?? []).map(att => ({ url: att.url, name: att.name, mimeType: guessMimeType(att.url, att.type) })),
+});
+
+const eventToFeedItem = (event: EventRow, lang: Language): FeedItem => ({
+    id: `event-${event.id}`,
+    title: localize(lang, event.title, event.title_bn),
+    link: eventLink(event.id),
+    published: event.date,
+    html: contentToHtml(localize(lang, event.description, event.description_bn)),
+    enclosures: event.imageUrl ? [{ url: event.imageUrl, name: event.title, mimeType: guessMimeType(event.imageUrl, 'image') }] : [],
+});
+
+const noticeToJson = (notice: NoticeRow, lang: Language) => {
+    const html = contentToHtml(localize(lang, notice.content, notice.content_bn));
+    return {
+        id: notice.id,
+        title: localize(lang, notice.title, notice.title_bn),
+        category: notice.category,
+        priority: notice.priority ?? 'normal',
+        is_pinned: !!notice.is_pinned,
+        author: notice.author || 'Admin',
+        published_at: notice.published_at,
+        expires_at: notice.expire_at,
+        url: noticeLink(notice.id),
+        content_html: html,
+        content_text: htmlToText(html),
+        attachments: (notice.attachments ?? []).map(att => ({
+            name: att.name,
+            type: att.type,
+            mime_type: guessMimeType(att.url, att.type),
+            url: att.url,
+            thumbnail_url: att.thumbUrl ?? null,
+        })),
+    };
+};
+
+const eventToJson = (event: EventRow, lang: Language) => ({
+    id: event.id,
+    title: localize(lang, event.title, event.title_bn),
+    date: event.date,
+    url: eventLink(event.id),
+    description: localize(lang, event.description, event.description_bn),
+    image_url: event.imageUrl,
+});
+
+// --- Routing ---
+const handleRequest = async (supabase: SupabaseClient, req: Request): Promise<Response> => {
+    const url = new URL(req.url);
+    // Strip everything up to the function name so routes work both hosted
+    // (/functions/v1/notice-feed/...) and behind the local gateway.
+    const route = url.pathname.replace(/^.*\/notice-feed/, '') || '/';
+    const selfUrl = `${functionUrl}${route}${url.search}`;
+    const lang = parseLanguage(url);
+
+    const feedMatch = route.match(/^\/(notices|events)\.(rss|atom)$/);
+    if (feedMatch) {
+        const [, resource, format] = feedMatch;
+        let channel: FeedChannel;
+        if (resource === 'notices') {
+            const category = parseCategory(url);
+            const notices = await fetchNotices(supabase, { category, limit: FEED_LIMIT });
+            channel = {
+                title: category ? `DPI Computer Department – ${category} Notices` : 'DPI Computer Department – Notices',
+                description: 'Announcements from the Computer Department, Dinajpur Polytechnic Institute.',
+                siteUrl: `${siteUrl}/#/notice${category ? `?category=${category}` : ''}`,
+                selfUrl,
+                items: notices.map(notice => noticeToFeedItem(notice, lang)),
+            };
+        } else {
+            const events = await fetchEvents(supabase, { limit: FEED_LIMIT });
+            channel = {
+                title: 'DPI Computer Department – Events',
+                description: 'Events organised by the Computer Department, Dinajpur Polytechnic Institute.',
+                siteUrl: `${siteUrl}/#/events`,
+                selfUrl,
+                items: events.map(event => eventToFeedItem(event, lang)),
+            };
+        }
+        return format === 'rss'
+            ? xmlResponse(buildRss(channel), 'application/rss+xml')
+            : xmlResponse(buildAtom(channel), 'application/atom+xml');
+    }
+
+    const apiMatch = route.match(/^\/v(\d+)\/(notices|events)(?:\/([^/]+))?\/?$/);
+    if (apiMatch) {
+        const [, version, resource, id] = apiMatch;
+        if (Number(version) !== API_VERSION) throw new HttpError(404, `API version v${version} is not supported. Use /v${API_VERSION}.`);
+
+        if (resource === 'notices') {
+            const notices = await fetchNotices(supabase, { category: parseCategory(url), limit: id ? 1 : parseLimit(url, FEED_LIMIT), id });
+            if (id) {
+                if (!notices[0]) throw new HttpError(404, 'Notice not found.');
+                return jsonResponse({ version: API_VERSION, data: noticeToJson(notices[0], lang) });
+            }
+            return jsonResponse({ version: API_VERSION, generated_at: new Date().toISOString(), count: notices.length, data: notices.map(notice => noticeToJson(notice, lang)) });
+        }
+
+        const events = await fetchEvents(supabase, { limit: id ? 1 : parseLimit(url, FEED_LIMIT), id });
+        if (id) {
+            if (!events[0]) throw new HttpError(404, 'Event not found.');
+            return jsonResponse({ version: API_VERSION, data: eventToJson(events[0], lang) });
+        }
+        return jsonResponse({ version: API_VERSION, generated_at: new Date().toISOString(), count: events.length, data: events.map(event => eventToJson(event, lang)) });
+    }
+
+    throw new HttpError(404, 'Not found. Try /notices.rss, /notices.atom, /events.rss, /events.atom, /v1/notices or /v1/events.');
+};
+
+// Wrapped in a factory so tests can point it at a stand-in PostgREST server.
+export const createFeedHandler = (supabase: SupabaseClient) => async (req: Request): Promise<Response> => {
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders });
+    }
+    if (req.method !== 'GET') {
+        return jsonResponse({ error: 'Method not allowed.' }, 405);
+    }
+    try {
+        return await handleRequest(supabase, req);
+    } catch (error) {
+        const status = error instanceof HttpError ? error.status : 500;
+        const message = error instanceof Error ? error.message : 'An unexpected error occurred.';
+        if (status >= 500) console.error('notice-feed error:', message);
+        return jsonResponse({ error: message }, status);
+    }
+};
@@ -0,0 +1,117 @@
+// Runs the feed handler against a stand-in for the local Supabase REST API, so
+// the routes, filters and serialisers are exercised without a database:
+//   npm run test:functions
+
+import assert from 'node:assert/strict';
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { createFeedHandler } from './handler.ts';
+
+// --- Stand-in PostgREST ---
+type Row = Record<string, unknown>;
+
+const TABLES: Record<string, Row[]> = {
+    public_notices: [
+        {
+            id: '2', title: 'Midterm routine', content: '<p>Exams start on <strong>5 May</strong>.</p>', title_bn: 'মধ্যবর্তী পরীক্ষার রুটিন', content_bn: null,
+            author: 'Exam Cell', category: 'Academic', priority: 'high', is_pinned: true, published_at: '2026-05-01T08:00:00Z', expire_at: null,
+            attachments: [{ url: 'https://files.example/routine.pdf', name: 'Routine', type: 'pdf', path: 'routine.pdf' }],
+        },
+        {
+            id: '3', title: 'Library hours', content: '<p onclick="steal()">Open till 8.<img src="x" onerror="alert(1)"><script>alert(2)</script></p>', title_bn: null, content_bn: null,
+            author: 'Library', category: 'General', priority: null, is_pinned: false, published_at: '2026-04-25T08:00:00Z', expire_at: null,
+            attachments: null,
+        },
+        {
+            id: '1', title: 'Campus closed', content: 'Closed on Friday.\n\nOffice opens Saturday.', title_bn: null, content_bn: null,
+            author: null, category: 'General', priority: null, is_pinned: false, published_at: '2026-04-20T08:00:00Z', expire_at: null,
+            attachments: null,
+        },
+    ],
+    events: [
+        { id: '7', title: 'Programming contest', date: '2026-06-10', description: 'Teams of three.', title_bn: null, description_bn: null, imageUrl: null, status: 'published' },
+    ],
+};
+
+const requests: URL[] = [];
+
+const serveRest = (req: Request) => {
+    const url = new URL(req.url);
+    requests.push(url);
+    const table = url.pathname.replace('/rest/v1/', '');
+    let rows = [...(TABLES[table] ?? [])];
+    for (const [key, value] of url.searchParams) {
+        if (value.startsWith('eq.')) rows = rows.filter(row => String(row[key]) === value.slice(3));
+    }
+    const limit = url.searchParams.get('limit');
+    if (limit) rows = rows.slice(0, Number(limit));
+    return Response.json(rows);
+};
+
+const withFeed = async (test: (fetchFeed: (path: string) => Promise<Response>) => Promise<void>) => {
+    const server = Deno.serve({ port: 0, onListen: () => {} }, serveRest);
+    const handler = createFeedHandler(createClient(`http://localhost:${server.addr.port}`, 'anon-key'));
+    requests.length = 0;
+    try {
+        await test(path => handler(new Request(`http://localhost/functions/v1/notice-feed${path}`)));
+    } finally {
+        await server.shutdown();
+    }
+};
+
+// --- Tests ---
+Deno.test('notices.rss lists live notices with attachments as enclosures', () => withFeed(async fetchFeed => {
+    const res = await fetchFeed('/notices.rss');
+    assert.equal(res.status, 200);
+    assert.ok(res.headers.get('Content-Type')?.includes('application/rss+xml'));
+    const xml = await res.text();
+    assert.ok(xml.includes('<title>Midterm routine</title>'));
+    assert.ok(xml.includes('<enclosure url="https://files.example/routine.pdf" length="0" type="application/pdf" />'));
+    // Plain-text notices are turned into paragraphs.
+    assert.ok(xml.includes('<p>Closed on Friday.</p><p>Office opens Saturday.</p>'));
+    assert.equal(requests[0].pathname, '/rest/v1/public_notices');
+    assert.equal(requests[0].searchParams.get('order'), 'published_at.desc');
+}));
+
+Deno.test('the category filter is passed to the query and validated', () => withFeed(async fetchFeed => {
+    const res = await fetchFeed('/notices.atom?category=academic');
+    assert.equal(res.status, 200);
+    assert.equal(requests[0].searchParams.get('category'), 'eq.Academic');
+    const xml = await res.text();
+    assert.ok(xml.includes('Academic Notices'));
+    assert.ok(!xml.includes('Campus closed'));
+
+    const bad = await fetchFeed('/notices.rss?category=Sports');
+    assert.equal(bad.status, 400);
+}));
+
+Deno.test('lang=bn prefers the translation and falls back to English', () => withFeed(async fetchFeed => {
+    const body = await (await fetchFeed('/v1/notices?lang=bn')).json();
+    assert.equal(body.count, 3);
+    assert.equal(body.data[0].title, 'মধ্যবর্তী পরীক্ষার রুটিন');
+    assert.equal(body.data[0].content_text, 'Exams start on 5 May.');
+    assert.equal(body.data[2].title, 'Campus closed');
+    assert.equal(body.data[2].author, 'Admin');
+}));
+
+Deno.test('single items and unknown routes', () => withFeed(async fetchFeed => {
+    const event = await (await fetchFeed('/v1/events/7')).json();
+    assert.equal(event.data.title, 'Programming contest');
+    assert.equal(requests[0].searchParams.get('status'), 'eq.published');
+
+    assert.equal((await fetchFeed('/v1/notices/99')).status, 404);
+    assert.equal((await fetchFeed('/v2/notices')).status, 404);
+    assert.equal((await fetchFeed('/notices.json')).status, 404);
+}));
+
+Deno.test('stored HTML is sanitised before it reaches feeds and the API', () => withFeed(async fetchFeed => {
+    const xml = await (await fetchFeed('/notices.rss')).text();
+    const body = await (await fetchFeed('/v1/notices/3')).json();
+    for (const html of [xml, body.data.content_html]) {
+        assert.ok(html.includes('Open till 8.'));
+        assert.ok(!html.includes('<script'));
+        assert.ok(!html.includes('onerror'));
+        assert.ok(!html.includes('onclick'));
+        // Only hosted images are kept, as on the site.
+        assert.ok(!html.includes('src="x"'));
+    }
+}));
@@ -0,0 +1,24 @@
+// Public notice and event feeds.
+//
+//   GET /notice-feed/notices.rss   RSS 2.0
+//   GET /notice-feed/notices.atom  Atom 1.0
+//   GET /notice-feed/events.rss
+//   GET /notice-feed/events.atom
+//   GET /notice-feed/v1/notices[/:id]  JSON
+//   GET /notice-feed/v1/events[/:id]
+//
+// Notice routes accept ?category=Academic|Event|General and JSON routes accept
+// ?limit= (max 100). Every route accepts ?lang=en|bn (default en); items without
+// a translation fall back to the other language. Only published, live rows are returned: notices come from
+// the `public_notices` view and the anon key is used so RLS still applies.
+//
+// Deploy without JWT verification so feed readers can fetch it:
+//   supabase functions deploy notice-feed --no-verify-jwt
+// Locally, `supabase start` and `supabase functions serve notice-feed --no-verify-jwt`
+// serve it at http://localhost:54321/functions/v1/notice-feed/notices.rss.
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { supabaseUrl } from '../_shared/env.ts';
+import { createFeedHandler } from './handler.ts';
+
+Deno.serve(createFeedHandler(createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY') ?? '')));
@@ -0,0 +1,192 @@
+// Notice alert subscriptions with double opt-in.
+//
+//   POST /notice-subscriptions                 { email, categories, semesters, frequency }
+//   GET  /notice-subscriptions/confirm?token=  link from the confirmation email
+//   POST /notice-subscriptions/confirm?token=
+//   GET  /notice-subscriptions/unsubscribe?token=
+//   POST /notice-subscriptions/unsubscribe?token=  also RFC 8058 one-click unsubscribe
+//
+// GET never changes anything, since mail scanners and link previews open links
+// too: the confirm/unsubscribe links redirect to the site's /notice/subscription
+// page, which asks the visitor and then POSTs. Deploy with --no-verify-jwt
+// since the links are opened from email.
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { functionsUrl, noticeUnsubscribeUrl, siteUrl, supabaseUrl } from '../_shared/env.ts';
+import { createMailer, renderEmailLayout } from '../_shared/mailer.ts';
+
+const NOTICE_CATEGORIES = ['Academic', 'Event', 'General'];
+const SEMESTERS = [1, 2, 3, 4, 5, 6, 7, 8];
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// Each subscribe request sends an email, so an address gets at most this many
+// per window.
+const MAX_REQUESTS_PER_WINDOW = 3;
+const REQUEST_WINDOW_MS = 60 * 60 * 1000;
+
+const supabase = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '');
+const functionUrl = `${functionsUrl}/notice-subscriptions`;
+
+const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json; charset=utf-8' },
+    });
+
+const redirectToSite = (query: string) =>
+    new Response(null, { status: 303, headers: { Location: `${siteUrl}/#/notice/subscription?${query}` } });
+
+const describePreferences = (categories: string[], semesters: number[], frequency: string) => {
+    const semesterText = semesters.length === 0 ? 'all semesters' : `semester ${semesters.join(', ')}`;
+    const frequencyText = frequency === 'daily' ? 'a daily digest' : 'an email for each new notice';
+    return `${categories.join(', ')} notices for ${semesterText}, as ${frequencyText}`;
+};
+
+// --- Subscribe ---
+// Records the request unless the address has used up its window.
+const allowRequest = async (email: string) => {
+    const windowStart = new Date(Date.now() - REQUEST_WINDOW_MS).toISOString();
+    const { count, error } = await supabase
+        .from('notice_subscription_requests')
+        .select('id', { count: 'exact', head: true })
+        .eq('email', email)
+        .gte('created_at', windowStart);
+    if (error) throw error;
+    if ((count ?? 0) >= MAX_REQUESTS_PER_WINDOW) return false;
+
+    const { error: insertError } = await supabase.from('notice_subscription_requests').insert({ email });
+    if (insertError) throw insertError;
+    // Older rows no longer count towards any window.
+    await supabase.from('notice_subscription_requests').delete().lt('created_at', windowStart);
+    return true;
+};
+
+const handleSubscribe = async (req: Request) => {
+    let body: { email?: unknown; categories?: unknown; semesters?: unknown; frequency?: unknown };
+    try {
+        body = await req.json();
+    } catch {
+        return jsonResponse({ error: 'Request body must be JSON.' }, 400);
+    }
+
+    const email = typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
+    if (!EMAIL_RE.test(email) || email.length > 254) {
+        return jsonResponse({ error: 'Please enter a valid email address.' }, 400);
+    }
+    const categories = Array.isArray(body.categories)
+        ? NOTICE_CATEGORIES.filter(c => (body.categories as unknown[]).includes(c))
+        : NOTICE_CATEGORIES;
+    if (categories.length === 0) {
+        return jsonResponse({ error: 'Choose at least one category.' }, 400);
+    }
+    const semesters = Array.isArray(body.semesters)
+        ? SEMESTERS.filter(s => (body.semesters as unknown[]).map(Number).includes(s))
+        : [];
+    const frequency = body.frequency === 'daily' ? 'daily' : 'instant';
+
+    if (!(await allowRequest(email))) {
+        return jsonResponse({ error: 'Too many requests for this address. Please try again in an hour.' }, 429);
+    }
+
+    const { data: existing, error: lookupError } = await supabase
+        .from('notice_subscribers')
+        .select('id, confirmed_at, unsubscribed_at, confirm_token, unsubscribe_token')
+        .eq('email', email)
+        .maybeSingle();
+    if (lookupError) throw lookupError;
+
+    const mailer = createMailer();
+
+    // An active subscriber's preferences are only changed through a fresh
+    // opt-in, so nobody can alter someone else's subscription by knowing their
+    // address. They get a reminder with the unsubscribe link instead.
+    if (existing?.confirmed_at && !existing.unsubscribed_at) {
+        const link = noticeUnsubscribeUrl(existing.unsubscribe_token);
+        await mailer.send({
+            to: email,
+            subject: 'You are already subscribed to notice alerts',
+            text: `This address is already subscribed to notice alerts from the Computer Department.\n\nTo change your preferences, unsubscribe and subscribe again:\n${link}`,
+            html: renderEmailLayout('Notice alerts',
+                `<p>This address is already subscribed to notice alerts from the Computer Department.</p><p>To change your preferences, <a href="${link}">unsubscribe</a> and subscribe again.</p>`),
+        });
+        return jsonResponse({ ok: true });
+    }
+
+    const row = { email, categories, semesters, frequency, confirmed_at: null, unsubscribed_at: null };
+    const { data: saved, error: saveError } = existing
+        ? await supabase.from('notice_subscribers').update({ ...row, confirm_token: crypto.randomUUID() }).eq('id', existing.id).select('confirm_token').single()
+        : await supabase.from('notice_subscribers').insert(row).select('confirm_token').single();
+    if (saveError) throw saveError;
+
+    const confirmLink = `${functionUrl}/confirm?token=${saved.confirm_token}`;
+    const preferences = describePreferences(categories, semesters, frequency);
+    await mailer.send({
+        to: email,
+        subject: 'Confirm your notice alert subscription',
+        text: `Please confirm that you want to receive ${preferences}.\n\nConfirm: ${confirmLink}\n\nIf you didn't ask for this, ignore this email and nothing will be sent.`,
+        html: renderEmailLayout('Confirm your subscription',
+            `<p>Please confirm that you want to receive ${preferences}.</p>
+             <p><a href="${confirmLink}" style="display:inline-block;background:#007BFF;color:#ffffff;padding:10px 18px;border-radius:6px;text-decoration:none;font-weight:bold;">Confirm subscription</a></p>
+             <p>If you didn't ask for this, ignore this email and nothing will be sent.</p>`),
+    });
+
+    return jsonResponse({ ok: true });
+};
+
+// --- Confirm / unsubscribe ---
+// The email links only lead to the site page that asks for confirmation.
+const handleLink = (action: 'confirm' | 'unsubscribe', token: string | null) =>
+    token && UUID_RE.test(token) ? redirectToSite(`action=${action}&token=${token}`) : redirectToSite('status=invalid');
+
+const handleConfirm = async (token: string | null) => {
+    if (!token || !UUID_RE.test(token)) return jsonResponse({ error: 'Invalid token.' }, 400);
+    const { data, error } = await supabase
+        .from('notice_subscribers')
+        .update({ confirmed_at: new Date().toISOString() })
+        .eq('confirm_token', token)
+        .is('unsubscribed_at', null)
+        .select('id')
+        .maybeSingle();
+    if (error) throw error;
+    return jsonResponse({ ok: !!data });
+};
+
+const handleUnsubscribe = async (token: string | null) => {
+    if (!token || !UUID_RE.test(token)) return jsonResponse({ error: 'Invalid token.' }, 400);
+    const { data, error } = await supabase
+        .from('notice_subscribers')
+        .update({ unsubscribed_at: new Date().toISOString() })
+        .eq('unsubscribe_token', token)
+        .select('id')
+        .maybeSingle();
+    if (error) throw error;
+    if (data) {
+        // Nothing still queued should go out after an unsubscribe.
+        await supabase.from('notice_alert_queue').delete().eq('subscriber_id', data.id).is('sent_at', null);
+    }
+    return jsonResponse({ ok: !!data });
+};
+
+Deno.serve(async (req) => {
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders });
+    }
+    const url = new URL(req.url);
+    const route = url.pathname.replace(/^.*\/notice-subscriptions/, '') || '/';
+    const token = url.searchParams.get('token');
+
+    try {
+        if ((route === '/confirm' || route === '/unsubscribe') && req.method === 'GET') {
+            return handleLink(route === '/confirm' ? 'confirm' : 'unsubscribe', token);
+        }
+        if (route === '/confirm' && req.method === 'POST') return await handleConfirm(token);
+        if (route === '/unsubscribe' && req.method === 'POST') return await handleUnsubscribe(token);
+        if ((route === '/' || route === '') && req.method === 'POST') return await handleSubscribe(req);
+        return jsonResponse({ error: 'Not found.' }, 404);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String((error as { message?: unknown })?.message ?? error);
+        console.error('notice-subscriptions error:', message);
+        return jsonResponse({ error: 'Something went wrong. Please try again later.' }, 500);
+    }
+});
@@ -0,0 +1,189 @@
+// Delivery logic for the notification-dispatch function; see index.ts.
+
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { eventLink, siteUrl } from '../_shared/env.ts';
+import { escapeXml } from '../_shared/feed.ts';
+import { renderEmailLayout } from '../_shared/mailer.ts';
+import { createNotifier, type Notification, type Notifier } from '../_shared/notifier.ts';
+
+interface OutboxRow {
+    id: number;
+    kind: 'event_registration' | 'contact_message';
+    payload: Record<string, unknown>;
+    reply_to: string | null;
+    attempts: number;
+}
+
+interface DispatchSettings {
+    provider: string;
+    recipients: string[];
+    functionName?: string;
+    maxAttempts: number;
+}
+
+const BATCH_SIZE = 20;
+const RETRY_BASE_MS = 60 * 1000;
+const RETRY_MAX_MS = 6 * 60 * 60 * 1000;
+
+const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json; charset=utf-8' } });
+
+const loadSettings = async (supabase: SupabaseClient): Promise<DispatchSettings> => {
+    const { data, error } = await supabase
+        .from('site_settings')
+        .select('key, value')
+        .in('key', ['notification_provider', 'notification_recipients', 'notification_function', 'notification_max_attempts', 'contact_email']);
+    if (error) throw error;
+    const settings = Object.fromEntries((data ?? []).map(({ key, value }) => [key, (value ?? '').trim()]));
+    const recipients = (settings.notification_recipients || settings.contact_email || '')
+        .split(/[,;\s]+/)
+        .filter((address: string) => address.includes('@'));
+    // No silent fallback: with nothing configured, notifications would only be
+    // logged while the outbox showed them as sent.
+    const provider = (settings.notification_provider || Deno.env.get('MAIL_PROVIDER') || '').toLowerCase();
+    if (!provider) {
+        throw new Error('No notification provider is configured. Choose one under Site Settings > Notifications or set the MAIL_PROVIDER secret.');
+    }
+    return {
+        provider,
+        recipients,
+        functionName: settings.notification_function || undefined,
+        maxAttempts: Math.max(1, Number(settings.notification_max_attempts) || 5),
+    };
+};
+
+const humanize = (key: string) => key.replace(/_/g, ' ').replace(/\b\w/g, char => char.toUpperCase());
+
+const formatValue = (value: unknown) => (Array.isArray(value) ? value.join(', ') : value == null ? '' : String(value));
+
+// Label/value pairs in the order of the event's form; answers to fields that
+// were removed since are listed after them.
+const registrationRows = (payload: Record<string, unknown>) => {
+    const answers = (payload.answers ?? {}) as Record<string, unknown>;
+    const fields = ((payload.form as { fields?: { id: string; label: string }[] } | null)?.fields ?? [])
+        .filter(field => typeof field?.id === 'string');
+    const labelled = fields.map(field => [field.label || humanize(field.id), formatValue(answers[field.id])]);
+    const known = new Set(fields.map(field => field.id));
+    const rest = Object.entries(answers).filter(([key]) => !known.has(key)).map(([key, value]) => [humanize(key), formatValue(value)]);
+    return [...labelled, ...rest].filter(([, value]) => value !== '');
+};
+
+const renderTable = (rows: string[][]) =>
+    `<table style="border-collapse:collapse;width:100%;">${rows
+        .map(([label, value]) => `<tr><td style="padding:4px 12px 4px 0;color:#7b8794;vertical-align:top;white-space:nowrap;">${escapeXml(label)}</td><td style="padding:4px 0;">${escapeXml(value)}</td></tr>`)
+        .join('')}</table>`;
+
+const buildMessage = (row: OutboxRow): Omit<Notification, 'to'> => {
+    const payload = row.payload;
+    if (row.kind === 'event_registration') {
+        const code = String(payload.confirmation_code ?? '');
+        const rows = [
+            ['Event', String(payload.event_title ?? '')],
+            ['Status', String(payload.status ?? '')],
+            ['Confirmation code', code.length === 10 ? `${code.slice(0, 5)}-${code.slice(5)}` : code],
+            ...registrationRows(payload),
+        ];
+        return {
+            kind: row.kind,
+            replyTo: row.reply_to ?? undefined,
+            subject: `New Event Registration: ${payload.event_title ?? 'Event'}${payload.status === 'waitlisted' ? ' (waitlisted)' : ''}`,
+            text: `${rows.map(([label, value]) => `${label}: ${value}`).join('\n')}\n\n${eventLink(String(payload.event_id))}`,
+            html: renderEmailLayout('New event registration',
+                `${renderTable(rows)}<p><a href="${eventLink(String(payload.event_id))}">View the event</a> &middot; registrations are listed under Manage Events.</p>`),
+        };
+    }
+    const rows = [
+        ['Name', String(payload.name ?? '')],
+        ['Email', String(payload.email ?? '')],
+        ['Subject', String(payload.subject ?? '')],
+    ];
+    const message = String(payload.message ?? '');
+    return {
+        kind: row.kind,
+        replyTo: row.reply_to ?? undefined,
+        subject: `Contact form: ${payload.subject || `message from ${payload.name}`}`,
+        text: `${rows.map(([label, value]) => `${label}: ${value}`).join('\n')}\n\n${message}`,
+        html: renderEmailLayout('New message from the contact form',
+            `${renderTable(rows)}<p style="white-space:pre-wrap;">${escapeXml(message)}</p>`,
+            `Sent from the contact form on <a href="${siteUrl}">${escapeXml(siteUrl)}</a>. Reply to this email to answer ${escapeXml(String(payload.name ?? 'the sender'))}.`),
+    };
+};
+
+export const retryDelay = (attempts: number) => Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+
+const deliver = async (notifier: Notifier, settings: DispatchSettings, row: OutboxRow) => {
+    if (settings.recipients.length === 0) {
+        throw new Error('No notification recipients. Set Notification Recipients (or Contact Email) in Site Settings.');
+    }
+    // One message addressed to everyone, so the row succeeds or fails as a
+    // whole and a retry never repeats it to someone who already has it.
+    await notifier.send({ ...buildMessage(row), to: settings.recipients.join(', ') });
+};
+
+export const dispatch = async (supabase: SupabaseClient, serviceRoleKey: string) => {
+    const settings = await loadSettings(supabase);
+    const notifier = createNotifier({ provider: settings.provider, functionName: settings.functionName, serviceRoleKey });
+
+    const { data, error } = await supabase.rpc('claim_notifications', { p_limit: BATCH_SIZE });
+    if (error) throw error;
+    const rows = (data ?? []) as OutboxRow[];
+
+    // A row whose outcome couldn't be saved stays 'sending' and is claimed
+    // again after the lock times out, so it is reported rather than ignored.
+    const unrecorded: number[] = [];
+    const updateRow = async (id: number, values: Record<string, unknown>) => {
+        const { error: updateError } = await supabase.from('notification_outbox').update(values).eq('id', id);
+        if (updateError) {
+            console.error(`Could not record the outcome of notification ${id}:`, updateError.message);
+            unrecorded.push(id);
+        }
+    };
+
+    let sent = 0;
+    let retrying = 0;
+    let failed = 0;
+    for (const row of rows) {
+        try {
+            await deliver(notifier, settings, row);
+            await updateRow(row.id, {
+                status: 'sent', sent_at: new Date().toISOString(), provider: notifier.name, attempts: row.attempts + 1, last_error: null, locked_at: null,
+            });
+            sent += 1;
+        } catch (sendError) {
+            const message = sendError instanceof Error ? sendError.message : String(sendError);
+            const attempts = row.attempts + 1;
+            const giveUp = attempts >= settings.maxAttempts;
+            console.error(`Notification ${row.id} failed (attempt ${attempts}/${settings.maxAttempts}):`, message);
+            await updateRow(row.id, {
+                status: giveUp ? 'failed' : 'pending',
+                attempts,
+                next_attempt_at: new Date(Date.now() + retryDelay(attempts)).toISOString(),
+                last_error: message.slice(0, 500),
+                provider: notifier.name,
+                locked_at: null,
+            });
+            if (giveUp) failed += 1;
+            else retrying += 1;
+        }
+    }
+
+    return { provider: notifier.name, claimed: rows.length, sent, retrying, failed, unrecorded };
+};
+
+// Wrapped in a factory so tests can point it at a stand-in PostgREST server.
+export const createDispatchHandler = (supabase: SupabaseClient, serviceRoleKey: string) => async (req: Request): Promise<Response> => {
+    if (req.method === 'OPTIONS') {
+        return new Response('ok', { headers: corsHeaders });
+    }
+    if (req.method !== 'POST') {
+        return jsonResponse({ error: 'Use POST.' }, 405);
+    }
+    try {
+        return jsonResponse(await dispatch(supabase, serviceRoleKey));
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String((error as { message?: unknown })?.message ?? error);
+        console.error('notification-dispatch error:', message);
+        return jsonResponse({ error: message }, 500);
+    }
+};
@@ -0,0 +1,177 @@
+// Runs the dispatcher against a stand-in for the Supabase REST API, with the
+// file provider as the sink:
+//   npm run test:functions
+
+import assert from 'node:assert/strict';
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { createDispatchHandler, retryDelay } from './handler.ts';
+
+// --- Stand-in PostgREST ---
+interface OutboxRow {
+    id: number;
+    kind: string;
+    payload: Record<string, unknown>;
+    reply_to: string | null;
+    status: string;
+    attempts: number;
+    next_attempt_at: string;
+    last_error?: string | null;
+    [key: string]: unknown;
+}
+
+interface StandIn {
+    settings: Record<string, string>;
+    outbox: OutboxRow[];
+    failUpdates: boolean;
+}
+
+const serveRest = (state: StandIn) => async (req: Request) => {
+    const url = new URL(req.url);
+    if (url.pathname === '/rest/v1/site_settings') {
+        return Response.json(Object.entries(state.settings).map(([key, value]) => ({ key, value })));
+    }
+    if (url.pathname === '/rest/v1/rpc/claim_notifications') {
+        const due = state.outbox.filter(row => row.status === 'pending' && new Date(row.next_attempt_at) <= new Date());
+        due.forEach(row => { row.status = 'sending'; });
+        return Response.json(due.map(row => ({ ...row })));
+    }
+    if (url.pathname === '/rest/v1/notification_outbox' && req.method === 'PATCH') {
+        if (state.failUpdates) return Response.json({ message: 'permission denied for table notification_outbox', code: '42501' }, { status: 403 });
+        const id = Number(url.searchParams.get('id')?.replace('eq.', ''));
+        Object.assign(state.outbox.find(row => row.id === id)!, await req.json());
+        return new Response(null, { status: 204 });
+    }
+    return Response.json({ message: `Unexpected ${req.method} ${url.pathname}` }, { status: 404 });
+};
+
+const contactRow = (id: number): OutboxRow => ({
+    id,
+    kind: 'contact_message',
+    payload: { name: 'Karim', email: 'karim@example.test', subject: 'Admission', message: 'When does admission start?' },
+    reply_to: 'karim@example.test',
+    status: 'pending',
+    attempts: 0,
+    next_attempt_at: new Date(Date.now() - 1000).toISOString(),
+});
+
+const withDispatcher = async (state: StandIn, test: (run: () => Promise<{ status: number; body: Record<string, unknown> }>) => Promise<void>) => {
+    const server = Deno.serve({ port: 0, onListen: () => {} }, serveRest(state));
+    const handler = createDispatchHandler(createClient(`http://localhost:${server.addr.port}`, 'service-role-key'), 'service-role-key');
+    try {
+        await test(async () => {
+            const res = await handler(new Request('http://localhost/functions/v1/notification-dispatch', { method: 'POST' }));
+            return { status: res.status, body: await res.json() };
+        });
+    } finally {
+        await server.shutdown();
+    }
+};
+
+// console.error is expected for the failure cases; keep the output readable.
+const quietly = async (fn: () => Promise<void>) => {
+    const original = console.error;
+    console.error = () => {};
+    try {
+        await fn();
+    } finally {
+        console.error = original;
+    }
+};
+
+// --- Tests ---
+Deno.test('retryDelay doubles from a minute and is capped at six hours', () => {
+    assert.equal(retryDelay(1), 60 * 1000);
+    assert.equal(retryDelay(2), 2 * 60 * 1000);
+    assert.equal(retryDelay(4), 8 * 60 * 1000);
+    assert.equal(retryDelay(20), 6 * 60 * 60 * 1000);
+});
+
+Deno.test('sends one message to all recipients and marks the row sent', async () => {
+    const path = await Deno.makeTempFile({ suffix: '.jsonl' });
+    Deno.env.set('NOTIFICATION_FILE_PATH', path);
+    const state: StandIn = {
+        settings: { notification_provider: 'file', notification_recipients: 'office@example.test, head@example.test', notification_max_attempts: '3' },
+        outbox: [contactRow(1)],
+        failUpdates: false,
+    };
+    try {
+        await withDispatcher(state, async run => {
+            const { status, body } = await run();
+            assert.equal(status, 200);
+            assert.deepEqual(body, { provider: 'file', claimed: 1, sent: 1, retrying: 0, failed: 0, unrecorded: [] });
+        });
+        const lines = (await Deno.readTextFile(path)).trim().split('\n').map(line => JSON.parse(line));
+        assert.equal(lines.length, 1);
+        assert.equal(lines[0].to, 'office@example.test, head@example.test');
+        assert.equal(lines[0].replyTo, 'karim@example.test');
+        assert.equal(lines[0].subject, 'Contact form: Admission');
+        assert.equal(state.outbox[0].status, 'sent');
+        assert.equal(state.outbox[0].attempts, 1);
+        assert.equal(state.outbox[0].provider, 'file');
+    } finally {
+        Deno.env.delete('NOTIFICATION_FILE_PATH');
+        await Deno.remove(path);
+    }
+});
+
+Deno.test('a failed send backs off and gives up at notification_max_attempts', async () => {
+    // A sink in a directory that doesn't exist fails every write.
+    const dir = await Deno.makeTempDir();
+    Deno.env.set('NOTIFICATION_FILE_PATH', `${dir}/missing/notifications.jsonl`);
+    const state: StandIn = {
+        settings: { notification_provider: 'file', contact_email: 'office@example.test', notification_max_attempts: '2' },
+        outbox: [contactRow(1)],
+        failUpdates: false,
+    };
+    try {
+        await quietly(() => withDispatcher(state, async run => {
+            const before = Date.now();
+            const first = await run();
+            assert.deepEqual(first.body, { provider: 'file', claimed: 1, sent: 0, retrying: 1, failed: 0, unrecorded: [] });
+            const row = state.outbox[0];
+            assert.equal(row.status, 'pending');
+            assert.equal(row.attempts, 1);
+            assert.ok(row.last_error);
+            const delay = new Date(row.next_attempt_at).getTime() - before;
+            assert.ok(delay >= retryDelay(1) && delay < retryDelay(1) + 5000, `next attempt in ${delay} ms`);
+
+            // Not due yet: nothing is claimed.
+            assert.equal((await run()).body.claimed, 0);
+
+            row.next_attempt_at = new Date(Date.now() - 1000).toISOString();
+            const second = await run();
+            assert.deepEqual(second.body, { provider: 'file', claimed: 1, sent: 0, retrying: 0, failed: 1, unrecorded: [] });
+            assert.equal(row.status, 'failed');
+            assert.equal(row.attempts, 2);
+        }));
+    } finally {
+        Deno.env.delete('NOTIFICATION_FILE_PATH');
+        await Deno.remove(dir, { recursive: true });
+    }
+});
+
+Deno.test('refuses to run without a provider', async () => {
+    Deno.env.delete('MAIL_PROVIDER');
+    const state: StandIn = { settings: { notification_provider: '', contact_email: 'office@example.test' }, outbox: [contactRow(1)], failUpdates: false };
+    await quietly(() => withDispatcher(state, async run => {
+        const { status, body } = await run();
+        assert.equal(status, 500);
+        assert.match(String(body.error), /No notification provider is configured/);
+        assert.equal(state.outbox[0].status, 'pending');
+    }));
+});
+
+Deno.test('reports rows whose outcome could not be saved', async () => {
+    const state: StandIn = { settings: { notification_provider: 'console', contact_email: 'office@example.test' }, outbox: [contactRow(7)], failUpdates: true };
+    const originalLog = console.log;
+    console.log = () => {};
+    try {
+        await quietly(() => withDispatcher(state, async run => {
+            const { body } = await run();
+            assert.deepEqual(body.unrecorded, [7]);
+            assert.equal(body.sent, 1);
+        }));
+    } finally {
+        console.log = originalLog;
+    }
+});
@@ -0,0 +1,18 @@
+// Delivers the notifications waiting in notification_outbox.
+//
+//   POST /notification-dispatch   sends everything that is due
+//
+// The site calls it right after a registration or contact message so mail goes
+// out straight away; a scheduled run (e.g. pg_cron + pg_net every few minutes)
+// retries whatever failed. A failed send is retried with exponential backoff
+// until notification_max_attempts, then marked 'failed' for an admin to requeue.
+// Any caller with the project's anon key may trigger a run: it only sends what
+// is already queued.
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { supabaseUrl } from '../_shared/env.ts';
+import { createDispatchHandler } from './handler.ts';
+
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+Deno.serve(createDispatchHandler(createClient(supabaseUrl, serviceRoleKey), serviceRoleKey));
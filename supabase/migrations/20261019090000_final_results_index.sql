@@ -0,0 +1,72 @@
+-- Per-roll index of the BTEB final result PDFs.
+-- The admin panel parses each session PDF once at upload time and stores one
+-- row per roll here, so the public /results lookup is a single indexed query
+-- instead of downloading and scanning the whole PDF in the visitor's browser.
+
+create table if not exists public.final_results (
+    id bigint generated always as identity primary key,
+    session_name text not null references public.final_result_sessions (session_name) on update cascade on delete cascade,
+    roll text not null,
+    gpas jsonb not null default '[]'::jsonb,
+    referred_subjects text[] not null default '{}',
+    is_dropout boolean not null default false,
+    created_at timestamptz not null default now(),
+    constraint final_results_session_roll_key unique (session_name, roll)
+);
+
+create index if not exists final_results_roll_idx on public.final_results (roll);
+
+alter table public.final_result_sessions
+    add column if not exists indexed_count integer,
+    add column if not exists indexed_at timestamptz;
+
+alter table public.final_results enable row level security;
+
+drop policy if exists "Final results are public" on public.final_results;
+create policy "Final results are public"
+    on public.final_results for select
+    using (true);
+
+drop policy if exists "Admins manage final results" on public.final_results;
+create policy "Admins manage final results"
+    on public.final_results for all
+    using (public.get_user_role() = 'admin')
+    with check (public.get_user_role() = 'admin');
+
+-- Replaces every indexed row of a session in one transaction, so a failed
+-- upload never leaves a session half indexed.
+-- p_rows: [{ "roll": "702893", "gpas": [{ "semester": "1st Semester", "gpa": "3.47" }],
+--            "referred_subjects": ["25711(T)"], "is_dropout": false }, ...]
+create or replace function public.replace_final_results(p_session_name text, p_rows jsonb)
+returns integer
+language plpgsql
+security invoker
+as $$
+declare
+    inserted_count integer;
+begin
+    if public.get_user_role() is distinct from 'admin' then
+        raise exception 'Only admins can replace final results.';
+    end if;
+
+    delete from public.final_results where session_name = p_session_name;
+
+    insert into public.final_results (session_name, roll, gpas, referred_subjects, is_dropout)
+    select
+        p_session_name,
+        row_data ->> 'roll',
+        coalesce(row_data -> 'gpas', '[]'::jsonb),
+        coalesce(array(select jsonb_array_elements_text(row_data -> 'referred_subjects')), '{}'),
+        coalesce((row_data ->> 'is_dropout')::boolean, false)
+    from jsonb_array_elements(p_rows) as row_data;
+
+    get diagnostics inserted_count = row_count;
+
+    update public.final_result_sessions
+    set indexed_count = case when inserted_count > 0 then inserted_count else null end,
+        indexed_at = case when inserted_count > 0 then now() else null end
+    where session_name = p_session_name;
+
+    return inserted_count;
+end;
+$$;
@@ -0,0 +1,49 @@
+-- Bulk import of class test / quiz / midterm marks from a CSV or XLSX mark sheet.
+-- Every row of the sheet is inserted or updated inside this one function call,
+-- so a failed import leaves `other_results` untouched.
+-- p_rows: [{ "roll_number": "702893", "student_name": "...",
+--            "subjects": [{ "subject_name": "Mathematics", "marks_obtained": 18, "total_marks": 20 }] }, ...]
+
+create index if not exists other_results_lookup_idx
+    on public.other_results (exam_name, semester, student_group, roll_number);
+
+create or replace function public.import_other_results(
+    p_exam_name text,
+    p_semester text,
+    p_student_group text,
+    p_rows jsonb
+)
+returns jsonb
+language plpgsql
+security invoker
+as $$
+declare
+    row_data jsonb;
+    inserted_count integer := 0;
+    updated_count integer := 0;
+begin
+    if public.get_user_role() is distinct from 'admin' then
+        raise exception 'Only admins can import results.';
+    end if;
+
+    for row_data in select * from jsonb_array_elements(p_rows) loop
+        update public.other_results
+        set student_name = row_data ->> 'student_name',
+            subjects = row_data -> 'subjects'
+        where roll_number = row_data ->> 'roll_number'
+          and exam_name = p_exam_name
+          and semester = p_semester
+          and student_group = p_student_group;
+
+        if found then
+            updated_count := updated_count + 1;
+        else
+            insert into public.other_results (roll_number, student_name, exam_name, semester, student_group, subjects)
+            values (row_data ->> 'roll_number', row_data ->> 'student_name', p_exam_name, p_semester, p_student_group, row_data -> 'subjects');
+            inserted_count := inserted_count + 1;
+        end if;
+    end loop;
+
+    return jsonb_build_object('inserted', inserted_count, 'updated', updated_count);
+end;
+$$;
@@ -0,0 +1,132 @@
+-- Verification records for downloaded result PDFs.
+-- Every generated PDF gets a short verification ID (printed with a QR code).
+-- The snapshot is built here from the canonical tables, never from what the
+-- browser sends, so /verify/:id can tell whether a printout still matches the
+-- published result.
+
+create table if not exists public.result_verifications (
+    id text primary key,
+    kind text not null check (kind in ('final', 'other')),
+    reference text not null, -- "<session_name>/<roll>" for final results, other_results.id for other results
+    snapshot jsonb not null,
+    snapshot_hash text not null,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists result_verifications_lookup_idx
+    on public.result_verifications (kind, reference, snapshot_hash);
+
+-- Visitors only reach this table through the two functions below.
+alter table public.result_verifications enable row level security;
+
+drop policy if exists "Admins read result verifications" on public.result_verifications;
+create policy "Admins read result verifications"
+    on public.result_verifications for select
+    using (public.get_user_role() = 'admin');
+
+-- The canonical content of a result, or null when it no longer exists.
+create or replace function public.result_verification_snapshot(p_kind text, p_reference text)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select case p_kind
+        when 'final' then (
+            select jsonb_build_object(
+                'session_name', fr.session_name,
+                'roll', fr.roll,
+                'gpas', fr.gpas,
+                'referred_subjects', to_jsonb(fr.referred_subjects),
+                'is_dropout', fr.is_dropout
+            )
+            from public.final_results fr
+            where fr.session_name || '/' || fr.roll = p_reference
+        )
+        when 'other' then (
+            select jsonb_build_object(
+                'roll_number', o.roll_number,
+                'student_name', o.student_name,
+                'exam_name', o.exam_name,
+                'semester', o.semester,
+                'student_group', o.student_group,
+                'subjects', o.subjects
+            )
+            from public.other_results o
+            where o.id::text = p_reference
+        )
+    end;
+$$;
+
+-- Issues (or reuses) a verification ID for the current state of a result.
+create or replace function public.issue_result_verification(p_kind text, p_reference text)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    current_snapshot jsonb;
+    current_hash text;
+    verification_id text;
+begin
+    current_snapshot := public.result_verification_snapshot(p_kind, p_reference);
+    if current_snapshot is null then
+        raise exception 'Result not found.';
+    end if;
+    current_hash := encode(sha256(convert_to(current_snapshot::text, 'UTF8')), 'hex');
+
+    -- Downloading the same unchanged result twice gives the same ID.
+    select id into verification_id
+    from public.result_verifications
+    where kind = p_kind and reference = p_reference and snapshot_hash = current_hash
+    limit 1;
+
+    if verification_id is null then
+        verification_id := upper(substr(md5(random()::text || clock_timestamp()::text), 1, 10));
+        insert into public.result_verifications (id, kind, reference, snapshot, snapshot_hash)
+        values (verification_id, p_kind, p_reference, current_snapshot, current_hash);
+    end if;
+
+    return verification_id;
+end;
+$$;
+
+-- Returns the snapshot as issued next to the current canonical record.
+-- status: 'valid' (unchanged), 'changed' (result edited since) or 'withdrawn' (result deleted).
+create or replace function public.verify_result_document(p_id text)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+    verification public.result_verifications%rowtype;
+    current_snapshot jsonb;
+begin
+    select * into verification from public.result_verifications where id = upper(trim(p_id));
+    if not found then
+        return null;
+    end if;
+
+    current_snapshot := public.result_verification_snapshot(verification.kind, verification.reference);
+
+    return jsonb_build_object(
+        'id', verification.id,
+        'kind', verification.kind,
+        'issued_at', verification.created_at,
+        'issued', verification.snapshot,
+        'current', current_snapshot,
+        'status', case
+            when current_snapshot is null then 'withdrawn'
+            when encode(sha256(convert_to(current_snapshot::text, 'UTF8')), 'hex') = verification.snapshot_hash then 'valid'
+            else 'changed'
+        end
+    );
+end;
+$$;
+
+grant execute on function public.issue_result_verification(text, text) to anon, authenticated;
+grant execute on function public.verify_result_document(text) to anon, authenticated;
@@ -0,0 +1,101 @@
+-- Referred-subject (backlog) tracker.
+-- One row per roll and subject code that has ever been referred, rebuilt from
+-- `final_results` whenever a session is (re)indexed. Each BTEB sheet lists every
+-- subject still referred at that point, so a subject is cleared by the first
+-- later session of that roll that no longer lists it.
+
+create table if not exists public.referred_subjects (
+    roll text not null,
+    subject_code text not null, -- e.g. "25711(T)"
+    semester smallint, -- 4th digit of the BTEB subject code
+    first_referred_session text not null,
+    last_referred_session text not null,
+    cleared_session text,
+    updated_at timestamptz not null default now(),
+    primary key (roll, subject_code)
+);
+
+create index if not exists referred_subjects_outstanding_idx
+    on public.referred_subjects (subject_code)
+    where cleared_session is null;
+
+alter table public.referred_subjects enable row level security;
+
+drop policy if exists "Admins manage referred subjects" on public.referred_subjects;
+create policy "Admins manage referred subjects"
+    on public.referred_subjects for all
+    using (public.get_user_role() = 'admin')
+    with check (public.get_user_role() = 'admin');
+
+-- Drop-out rows list no subjects, so they neither refer nor clear anything.
+create or replace view public.referred_subject_spans
+with (security_invoker = true)
+as
+with listed as (
+    select fr.roll, unnest(fr.referred_subjects) as subject_code, fr.session_name
+    from public.final_results fr
+    where not fr.is_dropout
+),
+spans as (
+    select roll, subject_code, min(session_name) as first_session, max(session_name) as last_session
+    from listed
+    group by roll, subject_code
+)
+select
+    s.roll,
+    s.subject_code,
+    case when s.subject_code ~ '^\d{4}' then substr(s.subject_code, 4, 1)::smallint end as semester,
+    s.first_session as first_referred_session,
+    s.last_session as last_referred_session,
+    (
+        select min(fr.session_name)
+        from public.final_results fr
+        where fr.roll = s.roll and not fr.is_dropout and fr.session_name > s.last_session
+    ) as cleared_session
+from spans s;
+
+-- Same as 20261019090000_final_results_index.sql, plus the backlog rebuild.
+create or replace function public.replace_final_results(p_session_name text, p_rows jsonb)
+returns integer
+language plpgsql
+security invoker
+as $$
+declare
+    inserted_count integer;
+begin
+    if public.get_user_role() is distinct from 'admin' then
+        raise exception 'Only admins can replace final results.';
+    end if;
+
+    delete from public.final_results where session_name = p_session_name;
+
+    insert into public.final_results (session_name, roll, gpas, referred_subjects, is_dropout)
+    select
+        p_session_name,
+        row_data ->> 'roll',
+        coalesce(row_data -> 'gpas', '[]'::jsonb),
+        coalesce(array(select jsonb_array_elements_text(row_data -> 'referred_subjects')), '{}'),
+        coalesce((row_data ->> 'is_dropout')::boolean, false)
+    from jsonb_array_elements(p_rows) as row_data;
+
+    get diagnostics inserted_count = row_count;
+
+    update public.final_result_sessions
+    set indexed_count = case when inserted_count > 0 then inserted_count else null end,
+        indexed_at = case when inserted_count > 0 then now() else null end
+    where session_name = p_session_name;
+
+    delete from public.referred_subjects where true;
+    insert into public.referred_subjects (roll, subject_code, semester, first_referred_session, last_referred_session, cleared_session)
+    select roll, subject_code, semester, first_referred_session, last_referred_session, cleared_session
+    from public.referred_subject_spans;
+
+    return inserted_count;
+end;
+$$;
+
+-- Backfill from the sessions indexed so far.
+delete from public.referred_subjects where true;
+insert into public.referred_subjects (roll, subject_code, semester, first_referred_session, last_referred_session, cleared_session)
+select roll, subject_code, semester, first_referred_session, last_referred_session, cleared_session
+from public.referred_subject_spans;
@@ -0,0 +1,48 @@
+-- Scheduled publishing and expiry for notices.
+-- A published notice is only visible between publish_at and expire_at (either
+-- may be null for "immediately" / "never"). Public pages read the
+-- `public_notices` view, which applies that window at query time, so nothing
+-- has to run when a notice goes live or goes stale.
+
+alter table public.notices
+    add column if not exists publish_at timestamptz,
+    add column if not exists expire_at timestamptz;
+
+alter table public.notices
+    drop constraint if exists notices_publish_window_check;
+alter table public.notices
+    add constraint notices_publish_window_check
+    check (publish_at is null or expire_at is null or expire_at > publish_at);
+
+-- published_at is the date visitors see and sort by: the scheduled time when
+-- there is one, otherwise the creation time.
+--
+-- `n.*` is expanded when a view is created, so the view has to be rebuilt
+-- whenever notices gains a column. The definition lives only here; later
+-- migrations that change the table call this instead of repeating it.
+create or replace function public.refresh_public_notices_view()
+returns void
+language plpgsql
+set search_path = public
+as $$
+begin
+    drop view if exists public.public_notices;
+
+    create view public.public_notices
+    with (security_invoker = true)
+    as
+    select
+        n.*,
+        coalesce(n.publish_at, n."createdAt") as published_at
+    from public.notices n
+    where n.status = 'published'
+      and (n.publish_at is null or n.publish_at <= now())
+      and (n.expire_at is null or n.expire_at > now());
+
+    grant select on public.public_notices to anon, authenticated;
+end;
+$$;
+
+revoke execute on function public.refresh_public_notices_view() from public, anon, authenticated;
+
+select public.refresh_public_notices_view();
@@ -0,0 +1,20 @@
+-- Pinned and priority notices.
+-- Pinned notices always sort first; urgent notices also show in the site-wide
+-- banner above the header.
+
+alter table public.notices
+    add column if not exists is_pinned boolean not null default false,
+    add column if not exists priority text not null default 'normal';
+
+alter table public.notices
+    drop constraint if exists notices_priority_check;
+alter table public.notices
+    add constraint notices_priority_check
+    check (priority in ('normal', 'important', 'urgent'));
+
+create index if not exists notices_urgent_idx
+    on public.notices (priority)
+    where priority = 'urgent';
+
+-- Picks up the new columns in the public view.
+select public.refresh_public_notices_view();
@@ -0,0 +1,19 @@
+-- Full-text search and pagination support for the public notice board.
+-- The 'simple' configuration doesn't stem or drop stop words, so it works for
+-- both English and Bangla text.
+
+alter table public.notices
+    add column if not exists search_vector tsvector
+    generated always as (
+        setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+        setweight(to_tsvector('simple', coalesce(content, '')), 'B')
+    ) stored;
+
+create index if not exists notices_search_vector_idx
+    on public.notices using gin (search_vector);
+
+create index if not exists notices_public_listing_idx
+    on public.notices (status, is_pinned desc, "createdAt" desc);
+
+-- Picks up search_vector in the public view.
+select public.refresh_public_notices_view();
@@ -0,0 +1,109 @@
+-- Email alerts for new notices.
+-- Visitors subscribe to categories and semesters through the
+-- notice-subscriptions edge function (double opt-in). When a notice is
+-- published a row per matching subscriber is queued here, and the notice-alerts
+-- edge function sends them either straight away or as a daily digest.
+
+-- Semesters a notice is aimed at (1-8). Null or empty means everyone.
+alter table public.notices
+    add column if not exists semesters smallint[];
+
+create table if not exists public.notice_subscribers (
+    id uuid primary key default gen_random_uuid(),
+    email text not null,
+    categories text[] not null default array['Academic', 'Event', 'General'],
+    -- Empty means all semesters.
+    semesters smallint[] not null default '{}',
+    frequency text not null default 'instant' check (frequency in ('instant', 'daily')),
+    confirm_token uuid not null default gen_random_uuid(),
+    unsubscribe_token uuid not null default gen_random_uuid(),
+    confirmed_at timestamptz,
+    unsubscribed_at timestamptz,
+    last_digest_at timestamptz,
+    created_at timestamptz not null default now()
+);
+
+create unique index if not exists notice_subscribers_email_idx
+    on public.notice_subscribers (lower(email));
+create unique index if not exists notice_subscribers_confirm_token_idx
+    on public.notice_subscribers (confirm_token);
+create unique index if not exists notice_subscribers_unsubscribe_token_idx
+    on public.notice_subscribers (unsubscribe_token);
+
+create table if not exists public.notice_alert_queue (
+    id bigint generated always as identity primary key,
+    subscriber_id uuid not null references public.notice_subscribers (id) on delete cascade,
+    -- notices.id is the dashboard default int8 identity.
+    notice_id bigint not null references public.notices (id) on delete cascade,
+    frequency text not null,
+    -- Scheduled notices are queued on publish but only sent once they go live.
+    deliver_after timestamptz not null default now(),
+    attempts int not null default 0,
+    last_error text,
+    sent_at timestamptz,
+    created_at timestamptz not null default now(),
+    unique (subscriber_id, notice_id)
+);
+
+create index if not exists notice_alert_queue_pending_idx
+    on public.notice_alert_queue (frequency, deliver_after)
+    where sent_at is null;
+
+-- Subscribers are only ever touched by the edge functions (service role);
+-- admins may read them from the dashboard.
+alter table public.notice_subscribers enable row level security;
+alter table public.notice_alert_queue enable row level security;
+
+drop policy if exists "Admins can read subscribers" on public.notice_subscribers;
+create policy "Admins can read subscribers"
+    on public.notice_subscribers for select
+    using (public.get_user_role() = 'admin');
+
+drop policy if exists "Admins can read the alert queue" on public.notice_alert_queue;
+create policy "Admins can read the alert queue"
+    on public.notice_alert_queue for select
+    using (public.get_user_role() = 'admin');
+
+-- Queue alerts whenever a notice becomes published. Re-publishing a notice that
+-- was already queued doesn't alert the same subscriber twice.
+create or replace function public.queue_notice_alerts()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if new.status <> 'published' then
+        return new;
+    end if;
+    if tg_op = 'UPDATE' and old.status = 'published' then
+        return new;
+    end if;
+    if new.expire_at is not null and new.expire_at <= now() then
+        return new;
+    end if;
+
+    insert into public.notice_alert_queue (subscriber_id, notice_id, frequency, deliver_after)
+    select s.id, new.id, s.frequency, greatest(coalesce(new.publish_at, now()), now())
+    from public.notice_subscribers s
+    where s.confirmed_at is not null
+      and s.unsubscribed_at is null
+      and new.category = any (s.categories)
+      and (
+          cardinality(s.semesters) = 0
+          or coalesce(cardinality(new.semesters), 0) = 0
+          or s.semesters && new.semesters
+      )
+    on conflict (subscriber_id, notice_id) do nothing;
+
+    return new;
+end;
+$$;
+
+drop trigger if exists notices_queue_alerts on public.notices;
+create trigger notices_queue_alerts
+    after insert or update of status on public.notices
+    for each row execute function public.queue_notice_alerts();
+
+-- Picks up the semesters column in the public view.
+select public.refresh_public_notices_view();
@@ -0,0 +1,88 @@
+-- Revision history for notices.
+-- Every insert, and every update that changes what a notice says, snapshots the
+-- row into notice_revisions. Rolling back is just saving an old revision's
+-- fields again (which itself becomes a new revision). Attachment files stay in
+-- storage until no revision references them any more; the admin page removes
+-- them when a revision is purged.
+
+create table if not exists public.notice_revisions (
+    id bigint generated always as identity primary key,
+    notice_id bigint not null references public.notices (id) on delete cascade,
+    title text not null,
+    content text,
+    category text,
+    priority text,
+    is_pinned boolean,
+    semesters smallint[],
+    publish_at timestamptz,
+    expire_at timestamptz,
+    attachments jsonb,
+    editor_id uuid,
+    editor_email text,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists notice_revisions_notice_idx
+    on public.notice_revisions (notice_id, created_at desc);
+
+alter table public.notice_revisions enable row level security;
+
+drop policy if exists "Admins can read notice revisions" on public.notice_revisions;
+create policy "Admins can read notice revisions"
+    on public.notice_revisions for select
+    using (public.get_user_role() = 'admin');
+
+-- Purging a revision is the only way rows leave the table (apart from deleting
+-- the notice). Inserts come from the trigger below.
+drop policy if exists "Admins can purge notice revisions" on public.notice_revisions;
+create policy "Admins can purge notice revisions"
+    on public.notice_revisions for delete
+    using (public.get_user_role() = 'admin');
+
+create or replace function public.record_notice_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    -- Status and pin toggles aren't edits of the notice itself.
+    if tg_op = 'UPDATE'
+       and new.title is not distinct from old.title
+       and new.content is not distinct from old.content
+       and new.category is not distinct from old.category
+       and new.priority is not distinct from old.priority
+       and new.semesters is not distinct from old.semesters
+       and new.publish_at is not distinct from old.publish_at
+       and new.expire_at is not distinct from old.expire_at
+       and new.attachments::jsonb is not distinct from old.attachments::jsonb then
+        return new;
+    end if;
+
+    insert into public.notice_revisions (
+        notice_id, title, content, category, priority, is_pinned, semesters,
+        publish_at, expire_at, attachments, editor_id, editor_email
+    )
+    values (
+        new.id, new.title, new.content, new.category, new.priority, new.is_pinned, new.semesters,
+        new.publish_at, new.expire_at, new.attachments::jsonb, auth.uid(), auth.jwt() ->> 'email'
+    );
+    return new;
+end;
+$$;
+
+drop trigger if exists notices_record_revision on public.notices;
+create trigger notices_record_revision
+    after insert or update on public.notices
+    for each row execute function public.record_notice_revision();
+
+-- Existing notices start with their current state as the first revision.
+insert into public.notice_revisions (
+    notice_id, title, content, category, priority, is_pinned, semesters,
+    publish_at, expire_at, attachments, created_at
+)
+select
+    n.id, n.title, n.content, n.category, n.priority, n.is_pinned, n.semesters,
+    n.publish_at, n.expire_at, n.attachments::jsonb, coalesce(n."createdAt"::timestamptz, now())
+from public.notices n
+where not exists (select 1 from public.notice_revisions r where r.notice_id = n.id);
@@ -0,0 +1,66 @@
+-- Anonymous view and download counts for notices.
+-- Only per-notice, per-day totals are stored: no IP addresses, user IDs or
+-- cookies. The browser counts each notice at most once per session.
+
+create table if not exists public.notice_view_daily (
+    notice_id bigint not null references public.notices (id) on delete cascade,
+    day date not null default current_date,
+    views integer not null default 0,
+    downloads integer not null default 0,
+    primary key (notice_id, day)
+);
+
+create index if not exists notice_view_daily_day_idx
+    on public.notice_view_daily (day);
+
+alter table public.notice_view_daily enable row level security;
+
+drop policy if exists "Admins can read notice views" on public.notice_view_daily;
+create policy "Admins can read notice views"
+    on public.notice_view_daily for select
+    using (public.get_user_role() = 'admin');
+
+-- Visitors can't write the table directly; they go through this function, which
+-- only counts notices that are currently public.
+create or replace function public.record_notice_event(p_notice_id bigint, p_kind text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if p_kind not in ('view', 'download') then
+        raise exception 'Unknown notice event kind: %', p_kind;
+    end if;
+
+    if not exists (select 1 from public.public_notices where id = p_notice_id) then
+        return;
+    end if;
+
+    insert into public.notice_view_daily (notice_id, day, views, downloads)
+    values (
+        p_notice_id,
+        current_date,
+        case when p_kind = 'view' then 1 else 0 end,
+        case when p_kind = 'download' then 1 else 0 end
+    )
+    on conflict (notice_id, day) do update
+    set views = notice_view_daily.views + excluded.views,
+        downloads = notice_view_daily.downloads + excluded.downloads;
+end;
+$$;
+
+grant execute on function public.record_notice_event(bigint, text) to anon, authenticated;
+
+create or replace view public.notice_view_totals
+with (security_invoker = true)
+as
+select
+    notice_id,
+    sum(views)::integer as views,
+    sum(downloads)::integer as downloads,
+    max(day) filter (where views > 0) as last_viewed_on
+from public.notice_view_daily
+group by notice_id;
+
+grant select on public.notice_view_totals to authenticated;
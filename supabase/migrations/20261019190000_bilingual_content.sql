@@ -0,0 +1,70 @@
+-- Bangla translations for notices and events.
+-- The existing title/content (notices) and title/description (events) columns
+-- hold the English text; the *_bn columns are optional. The site shows the
+-- visitor's chosen language and falls back to the other one when a field is
+-- empty.
+
+alter table public.notices
+    add column if not exists title_bn text,
+    add column if not exists content_bn text;
+
+alter table public.events
+    add column if not exists title_bn text,
+    add column if not exists description_bn text;
+
+-- Search matches either language. A generated column's expression can't be
+-- altered, so it is dropped (with its index and the view using it) and re-added.
+drop view if exists public.public_notices;
+drop index if exists public.notices_search_vector_idx;
+alter table public.notices drop column if exists search_vector;
+
+alter table public.notices
+    add column search_vector tsvector
+    generated always as (
+        setweight(to_tsvector('simple', coalesce(title, '') || ' ' || coalesce(title_bn, '')), 'A') ||
+        setweight(to_tsvector('simple', coalesce(content, '') || ' ' || coalesce(content_bn, '')), 'B')
+    ) stored;
+
+create index if not exists notices_search_vector_idx
+    on public.notices using gin (search_vector);
+
+select public.refresh_public_notices_view();
+
+-- Translations are part of the revision history too.
+alter table public.notice_revisions
+    add column if not exists title_bn text,
+    add column if not exists content_bn text;
+
+create or replace function public.record_notice_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    -- Status and pin toggles aren't edits of the notice itself.
+    if tg_op = 'UPDATE'
+       and new.title is not distinct from old.title
+       and new.content is not distinct from old.content
+       and new.title_bn is not distinct from old.title_bn
+       and new.content_bn is not distinct from old.content_bn
+       and new.category is not distinct from old.category
+       and new.priority is not distinct from old.priority
+       and new.semesters is not distinct from old.semesters
+       and new.publish_at is not distinct from old.publish_at
+       and new.expire_at is not distinct from old.expire_at
+       and new.attachments::jsonb is not distinct from old.attachments::jsonb then
+        return new;
+    end if;
+
+    insert into public.notice_revisions (
+        notice_id, title, content, title_bn, content_bn, category, priority, is_pinned, semesters,
+        publish_at, expire_at, attachments, editor_id, editor_email
+    )
+    values (
+        new.id, new.title, new.content, new.title_bn, new.content_bn, new.category, new.priority, new.is_pinned, new.semesters,
+        new.publish_at, new.expire_at, new.attachments::jsonb, auth.uid(), auth.jwt() ->> 'email'
+    );
+    return new;
+end;
+$$;
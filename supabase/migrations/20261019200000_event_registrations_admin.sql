@@ -0,0 +1,39 @@
+-- Admin access to event registrations.
+-- The registration form on the event page has always inserted into
+-- event_registrations, but nothing could read it back. The table is created
+-- here for fresh projects (matching the columns the form sends) and admins get
+-- read access for the registrations panel in Manage Events.
+
+create table if not exists public.event_registrations (
+    id bigint generated always as identity primary key,
+    event_id bigint not null references public.events (id) on delete cascade,
+    full_name text not null,
+    roll text not null,
+    phone text,
+    email text,
+    department text,
+    session text,
+    semester text,
+    student_group text,
+    shift text,
+    created_at timestamptz not null default now()
+);
+
+alter table public.event_registrations
+    add column if not exists created_at timestamptz not null default now();
+
+create index if not exists event_registrations_event_idx
+    on public.event_registrations (event_id, created_at);
+
+alter table public.event_registrations enable row level security;
+
+-- Anyone may register; only admins may read the list.
+drop policy if exists "Anyone can register for events" on public.event_registrations;
+create policy "Anyone can register for events"
+    on public.event_registrations for insert
+    with check (true);
+
+drop policy if exists "Admins can read event registrations" on public.event_registrations;
+create policy "Admins can read event registrations"
+    on public.event_registrations for select
+    using (public.get_user_role() = 'admin');
@@ -0,0 +1,210 @@
+-- Event capacity, registration window and waitlist.
+-- capacity null means unlimited; a null opens/closes time leaves that side of
+-- the window open. Once an event is full new registrations are waitlisted, and
+-- the earliest waitlisted person is confirmed whenever a seat frees up (a
+-- confirmed registration is cancelled or the capacity is raised).
+
+alter table public.events
+    add column if not exists capacity integer check (capacity is null or capacity > 0),
+    add column if not exists registration_opens_at timestamptz,
+    add column if not exists registration_closes_at timestamptz;
+
+alter table public.event_registrations
+    add column if not exists status text not null default 'confirmed'
+        check (status in ('confirmed', 'waitlisted', 'cancelled')),
+    add column if not exists status_changed_at timestamptz;
+
+create index if not exists event_registrations_status_idx
+    on public.event_registrations (event_id, status, created_at);
+
+-- Decides the status of a new registration. The event row is locked so two
+-- people can't both take the last seat.
+create or replace function public.assign_event_registration_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    ev public.events%rowtype;
+    confirmed_count integer;
+begin
+    select * into ev from public.events where id = new.event_id for update;
+    if not found or ev.status <> 'published' then
+        raise exception 'This event is not open for registration.' using errcode = 'P0001';
+    end if;
+    if ev.registration_opens_at is not null and now() < ev.registration_opens_at then
+        raise exception 'Registration for this event has not opened yet.' using errcode = 'P0001';
+    end if;
+    if ev.registration_closes_at is not null and now() >= ev.registration_closes_at then
+        raise exception 'Registration for this event is closed.' using errcode = 'P0001';
+    end if;
+
+    select count(*) into confirmed_count
+    from public.event_registrations
+    where event_id = new.event_id and status = 'confirmed';
+
+    -- Whatever the client sent, the seat count decides.
+    new.status := case when ev.capacity is null or confirmed_count < ev.capacity then 'confirmed' else 'waitlisted' end;
+    new.status_changed_at := null;
+    new.created_at := now();
+    return new;
+end;
+$$;
+
+drop trigger if exists event_registrations_assign_status on public.event_registrations;
+create trigger event_registrations_assign_status
+    before insert on public.event_registrations
+    for each row execute function public.assign_event_registration_status();
+
+-- Confirms waitlisted registrations, oldest first, while seats are free.
+create or replace function public.promote_event_waitlist(p_event_id bigint)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    ev_capacity integer;
+    free_seats integer;
+    promoted integer;
+begin
+    select capacity into ev_capacity from public.events where id = p_event_id for update;
+    if not found then
+        return 0;
+    end if;
+
+    if ev_capacity is null then
+        free_seats := null;
+    else
+        select ev_capacity - count(*) into free_seats
+        from public.event_registrations
+        where event_id = p_event_id and status = 'confirmed';
+        if free_seats <= 0 then
+            return 0;
+        end if;
+    end if;
+
+    with next_in_line as (
+        select id
+        from public.event_registrations
+        where event_id = p_event_id and status = 'waitlisted'
+        order by created_at, id
+        limit free_seats
+        for update
+    )
+    update public.event_registrations r
+    set status = 'confirmed', status_changed_at = now()
+    from next_in_line
+    where r.id = next_in_line.id;
+
+    get diagnostics promoted = row_count;
+    return promoted;
+end;
+$$;
+
+create or replace function public.handle_event_registration_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if new.status is distinct from old.status then
+        new.status_changed_at := now();
+    end if;
+    return new;
+end;
+$$;
+
+drop trigger if exists event_registrations_status_change on public.event_registrations;
+create trigger event_registrations_status_change
+    before update of status on public.event_registrations
+    for each row execute function public.handle_event_registration_change();
+
+create or replace function public.promote_after_registration_cancel()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if old.status = 'confirmed' and new.status <> 'confirmed' then
+        perform public.promote_event_waitlist(new.event_id);
+    end if;
+    return null;
+end;
+$$;
+
+drop trigger if exists event_registrations_promote_waitlist on public.event_registrations;
+create trigger event_registrations_promote_waitlist
+    after update of status on public.event_registrations
+    for each row execute function public.promote_after_registration_cancel();
+
+create or replace function public.promote_after_capacity_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+    if new.capacity is distinct from old.capacity
+       and (new.capacity is null or old.capacity is null or new.capacity > old.capacity) then
+        perform public.promote_event_waitlist(new.id);
+    end if;
+    return null;
+end;
+$$;
+
+drop trigger if exists events_promote_waitlist on public.events;
+create trigger events_promote_waitlist
+    after update of capacity on public.events
+    for each row execute function public.promote_after_capacity_change();
+
+-- Admins cancel registrations from the registrations panel.
+drop policy if exists "Admins can update event registrations" on public.event_registrations;
+create policy "Admins can update event registrations"
+    on public.event_registrations for update
+    using (public.get_user_role() = 'admin')
+    with check (public.get_user_role() = 'admin');
+
+-- Seat counts for the event page. Visitors can't read registrations, so this
+-- only returns totals.
+create or replace function public.get_event_registration_stats(p_event_id bigint)
+returns table (
+    capacity integer,
+    confirmed_count integer,
+    waitlisted_count integer,
+    seats_left integer,
+    registration_opens_at timestamptz,
+    registration_closes_at timestamptz,
+    is_open boolean
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select
+        e.capacity,
+        coalesce(c.confirmed, 0)::integer,
+        coalesce(c.waitlisted, 0)::integer,
+        case when e.capacity is null then null else greatest(e.capacity - coalesce(c.confirmed, 0), 0)::integer end,
+        e.registration_opens_at,
+        e.registration_closes_at,
+        (e.registration_opens_at is null or now() >= e.registration_opens_at)
+            and (e.registration_closes_at is null or now() < e.registration_closes_at)
+    from public.events e
+    left join lateral (
+        select
+            count(*) filter (where r.status = 'confirmed') as confirmed,
+            count(*) filter (where r.status = 'waitlisted') as waitlisted
+        from public.event_registrations r
+        where r.event_id = e.id
+    ) c on true
+    where e.id = p_event_id and e.status = 'published';
+$$;
+
+grant execute on function public.get_event_registration_stats(bigint) to anon, authenticated;
+revoke execute on function public.promote_event_waitlist(bigint) from public, anon;
+grant execute on function public.promote_event_waitlist(bigint) to authenticated;
@@ -0,0 +1,193 @@
+-- One registration per roll per event, and self-service access by code.
+-- Every registration gets a confirmation code. Whoever holds the code can look
+-- the registration up and cancel it at /#/registration/<code>, so no account is
+-- needed. Registering now goes through register_for_event(), which returns the
+-- code; visitors can no longer insert rows directly.
+
+-- Earlier duplicates are cancelled (keeping the first registration) so the
+-- unique index can be built. Cancelling a confirmed duplicate frees its seat
+-- for the waitlist.
+update public.event_registrations r
+set status = 'cancelled'
+where r.status <> 'cancelled'
+  and exists (
+      select 1
+      from public.event_registrations earlier
+      where earlier.event_id = r.event_id
+        and lower(btrim(earlier.roll)) = lower(btrim(r.roll))
+        and earlier.status <> 'cancelled'
+        and (earlier.created_at, earlier.id) < (r.created_at, r.id)
+  );
+
+create unique index if not exists event_registrations_event_roll_key
+    on public.event_registrations (event_id, lower(btrim(roll)))
+    where status <> 'cancelled';
+
+-- Ten characters from an alphabet without look-alikes (no 0/O, 1/I/L), taken
+-- from the random bytes of a v4 UUID. Bytes 6 and 8 carry the version and
+-- variant bits, so they are skipped.
+create or replace function public.generate_registration_code()
+returns text
+language plpgsql
+volatile
+as $$
+declare
+    alphabet constant text := 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+    bytes bytea := uuid_send(gen_random_uuid());
+    positions constant int[] := array[0, 1, 2, 3, 4, 5, 7, 9, 10, 11];
+    code text := '';
+    pos int;
+begin
+    foreach pos in array positions loop
+        code := code || substr(alphabet, (get_byte(bytes, pos) % length(alphabet)) + 1, 1);
+    end loop;
+    return code;
+end;
+$$;
+
+alter table public.event_registrations
+    add column if not exists confirmation_code text;
+
+update public.event_registrations
+set confirmation_code = public.generate_registration_code()
+where confirmation_code is null;
+
+alter table public.event_registrations
+    alter column confirmation_code set default public.generate_registration_code(),
+    alter column confirmation_code set not null;
+
+create unique index if not exists event_registrations_confirmation_code_key
+    on public.event_registrations (confirmation_code);
+
+-- Codes are shown as XXXXX-XXXXX; accept them typed any way.
+create or replace function public.normalize_registration_code(p_code text)
+returns text
+language sql
+immutable
+as $$
+    select upper(regexp_replace(coalesce(p_code, ''), '[^A-Za-z0-9]', '', 'g'));
+$$;
+
+drop policy if exists "Anyone can register for events" on public.event_registrations;
+
+create or replace function public.register_for_event(p_event_id bigint, p_registration jsonb)
+returns table (registration_id bigint, status text, confirmation_code text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+    new_row public.event_registrations%rowtype;
+begin
+    if coalesce(btrim(p_registration ->> 'roll'), '') = '' then
+        raise exception 'Please enter your roll number.' using errcode = 'P0001';
+    end if;
+
+    begin
+        insert into public.event_registrations (
+            event_id, full_name, roll, phone, email, department, session, semester, student_group, shift
+        )
+        values (
+            p_event_id,
+            btrim(p_registration ->> 'full_name'),
+            btrim(p_registration ->> 'roll'),
+            btrim(p_registration ->> 'phone'),
+            lower(btrim(p_registration ->> 'email')),
+            p_registration ->> 'department',
+            p_registration ->> 'session',
+            p_registration ->> 'semester',
+            p_registration ->> 'student_group',
+            p_registration ->> 'shift'
+        )
+        returning * into new_row;
+    exception when unique_violation then
+        raise exception 'Roll % is already registered for this event. Use your confirmation code to check or cancel that registration.', btrim(p_registration ->> 'roll')
+            using errcode = 'P0001';
+    end;
+
+    return query select new_row.id, new_row.status, new_row.confirmation_code;
+end;
+$$;
+
+create or replace function public.get_registration_by_code(p_code text)
+returns table (
+    confirmation_code text,
+    status text,
+    full_name text,
+    roll text,
+    semester text,
+    shift text,
+    registered_at timestamptz,
+    waitlist_position integer,
+    event_id bigint,
+    event_title text,
+    event_title_bn text,
+    event_date timestamptz,
+    can_cancel boolean
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select
+        r.confirmation_code,
+        r.status,
+        r.full_name,
+        r.roll,
+        r.semester,
+        r.shift,
+        r.created_at,
+        case when r.status = 'waitlisted' then (
+            select count(*)::integer + 1
+            from public.event_registrations w
+            where w.event_id = r.event_id
+              and w.status = 'waitlisted'
+              and (w.created_at, w.id) < (r.created_at, r.id)
+        ) end,
+        e.id,
+        e.title,
+        e.title_bn,
+        e.date::timestamptz,
+        r.status <> 'cancelled' and e.date::timestamptz > now()
+    from public.event_registrations r
+    join public.events e on e.id = r.event_id
+    where r.confirmation_code = public.normalize_registration_code(p_code);
+$$;
+
+create or replace function public.cancel_registration_by_code(p_code text)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    reg record;
+begin
+    select r.id, r.status, e.date::timestamptz as event_date
+    into reg
+    from public.event_registrations r
+    join public.events e on e.id = r.event_id
+    where r.confirmation_code = public.normalize_registration_code(p_code)
+    for update of r;
+
+    if not found then
+        raise exception 'No registration matches this confirmation code.' using errcode = 'P0001';
+    end if;
+    if reg.status = 'cancelled' then
+        return 'cancelled';
+    end if;
+    if reg.event_date <= now() then
+        raise exception 'This event has already started, so the registration can no longer be cancelled.' using errcode = 'P0001';
+    end if;
+
+    -- The status triggers promote the next waitlisted registration.
+    update public.event_registrations set status = 'cancelled' where id = reg.id;
+    return 'cancelled';
+end;
+$$;
+
+grant execute on function public.register_for_event(bigint, jsonb) to anon, authenticated;
+grant execute on function public.get_registration_by_code(text) to anon, authenticated;
+grant execute on function public.cancel_registration_by_code(text) to anon, authenticated;
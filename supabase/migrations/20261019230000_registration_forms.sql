@@ -0,0 +1,222 @@
+-- Per-event registration forms.
+-- events.registration_form holds the form an admin built in Manage Events
+-- ({"version": 1, "fields": [...]}, see utils/registrationForm.ts); null keeps
+-- the standard student form. Answers are stored as JSON keyed by field id.
+-- full_name and roll are on every form and still fill their own columns, which
+-- the one-registration-per-roll index and the admin list use. The old detail
+-- columns are filled too when a form has a field with that id.
+
+alter table public.events
+    add column if not exists registration_form jsonb
+        check (registration_form is null or jsonb_typeof(registration_form -> 'fields') = 'array');
+
+alter table public.event_registrations
+    add column if not exists answers jsonb not null default '{}'::jsonb;
+
+-- Older projects may have created these as required columns.
+alter table public.event_registrations
+    alter column phone drop not null,
+    alter column email drop not null,
+    alter column department drop not null,
+    alter column session drop not null,
+    alter column semester drop not null,
+    alter column student_group drop not null,
+    alter column shift drop not null;
+
+update public.event_registrations
+set answers = jsonb_strip_nulls(jsonb_build_object(
+    'full_name', full_name,
+    'roll', roll,
+    'phone', phone,
+    'email', email,
+    'department', department,
+    'session', session,
+    'semester', semester,
+    'student_group', student_group,
+    'shift', shift
+))
+where answers = '{}'::jsonb;
+
+-- Dates are stored as the YYYY-MM-DD value of a date input.
+create or replace function public.is_iso_date(p_text text)
+returns boolean
+language plpgsql
+immutable
+as $$
+begin
+    if p_text !~ '^[0-9]{4}-[0-9]{2}-[0-9]{2}$' then
+        return false;
+    end if;
+    perform p_text::date;
+    return true;
+exception when others then
+    return false;
+end;
+$$;
+
+-- Checks answers against a form and returns only the answers to its fields,
+-- with text trimmed. Mirrors validateRegistrationAnswers() on the client;
+-- errors are shown to the visitor as-is.
+create or replace function public.validate_registration_answers(p_form jsonb, p_answers jsonb)
+returns jsonb
+language plpgsql
+immutable
+set search_path = public
+as $$
+declare
+    field jsonb;
+    field_id text;
+    field_label text;
+    field_type text;
+    rules jsonb;
+    answer jsonb;
+    answer_text text;
+    choice text;
+    cleaned jsonb := '{}'::jsonb;
+begin
+    if p_form is null then
+        -- DEFAULT_REGISTRATION_FORM in utils/registrationForm.ts.
+        p_form := '{"fields": [
+            {"id": "full_name", "label": "Full Name", "type": "text", "required": true},
+            {"id": "roll", "label": "Roll", "type": "text", "required": true},
+            {"id": "phone", "label": "Phone Number", "type": "phone", "required": true,
+             "validation": {"pattern": "^\\d{11}$", "patternMessage": "Phone number must be exactly 11 digits."}},
+            {"id": "email", "label": "Email Address", "type": "email", "required": true},
+            {"id": "department", "label": "Department", "type": "select", "required": true,
+             "options": ["Computer", "Civil", "Architecture", "Mechanical", "Power", "Electrical"]},
+            {"id": "session", "label": "Session", "type": "session", "required": true},
+            {"id": "semester", "label": "Semester", "type": "select", "required": true,
+             "options": ["1st Semester", "2nd Semester", "3rd Semester", "4th Semester", "5th Semester", "6th Semester", "7th Semester", "8th Semester"]},
+            {"id": "shift", "label": "Shift", "type": "radio", "required": true, "options": ["Morning", "Day"]},
+            {"id": "student_group", "label": "Group", "type": "radio", "required": true, "options": ["A", "B"]}
+        ]}'::jsonb;
+    end if;
+    p_answers := coalesce(p_answers, '{}'::jsonb);
+
+    for field in select value from jsonb_array_elements(p_form -> 'fields') loop
+        field_id := field ->> 'id';
+        field_label := coalesce(nullif(field ->> 'label', ''), field_id);
+        field_type := coalesce(field ->> 'type', 'text');
+        rules := coalesce(field -> 'validation', '{}'::jsonb);
+        answer := p_answers -> field_id;
+
+        if field_type = 'checkboxes' then
+            if answer is not null and jsonb_typeof(answer) <> 'array' then
+                raise exception 'Please choose from the options for %.', field_label using errcode = 'P0001';
+            end if;
+            if answer is null or jsonb_array_length(answer) = 0 then
+                if (field ->> 'required')::boolean is true then
+                    raise exception 'Please fill out the ''%'' field.', field_label using errcode = 'P0001';
+                end if;
+                continue;
+            end if;
+            for choice in select value from jsonb_array_elements_text(answer) loop
+                if not coalesce(field -> 'options', '[]'::jsonb) ? choice then
+                    raise exception '''%'' is not an option for %.', choice, field_label using errcode = 'P0001';
+                end if;
+            end loop;
+            cleaned := cleaned || jsonb_build_object(field_id, answer);
+            continue;
+        end if;
+
+        answer_text := case when jsonb_typeof(answer) in ('string', 'number') then btrim(answer #>> '{}') end;
+        if coalesce(answer_text, '') = '' then
+            if (field ->> 'required')::boolean is true or field_id in ('full_name', 'roll') then
+                raise exception 'Please fill out the ''%'' field.', field_label using errcode = 'P0001';
+            end if;
+            continue;
+        end if;
+
+        if field_type in ('select', 'radio') and not coalesce(field -> 'options', '[]'::jsonb) ? answer_text then
+            raise exception 'Please choose a valid option for %.', field_label using errcode = 'P0001';
+        elsif field_type = 'email' and answer_text !~ '^[^[:space:]@]+@[^[:space:]@]+\.[^[:space:]@]+$' then
+            raise exception 'Please enter a valid email address.' using errcode = 'P0001';
+        elsif field_type = 'url' and answer_text !~* '^https?://[^[:space:]]+$' then
+            raise exception '% must be a link starting with http:// or https://.', field_label using errcode = 'P0001';
+        elsif field_type = 'phone' and not rules ? 'pattern' and answer_text !~ '^\+?[0-9[:space:]-]{6,20}$' then
+            raise exception 'Please enter a valid phone number for %.', field_label using errcode = 'P0001';
+        elsif field_type = 'date' and not public.is_iso_date(answer_text) then
+            raise exception 'Please enter a valid date for %.', field_label using errcode = 'P0001';
+        elsif field_type = 'session' and answer_text !~ '^[0-9]{4}-[0-9]{4}$' then
+            raise exception 'Please choose a session for %.', field_label using errcode = 'P0001';
+        elsif field_type = 'number' then
+            if answer_text !~ '^-?[0-9]+(\.[0-9]+)?$' then
+                raise exception '% must be a number.', field_label using errcode = 'P0001';
+            end if;
+            if rules ? 'min' and answer_text::numeric < (rules ->> 'min')::numeric then
+                raise exception '% must be at least %.', field_label, rules ->> 'min' using errcode = 'P0001';
+            end if;
+            if rules ? 'max' and answer_text::numeric > (rules ->> 'max')::numeric then
+                raise exception '% must be at most %.', field_label, rules ->> 'max' using errcode = 'P0001';
+            end if;
+        end if;
+
+        if rules ? 'minLength' and length(answer_text) < (rules ->> 'minLength')::integer then
+            raise exception '% must be at least % characters.', field_label, rules ->> 'minLength' using errcode = 'P0001';
+        end if;
+        -- Even without a limit, don't let one answer fill the table
+        -- (MAX_ANSWER_LENGTH on the client).
+        if length(answer_text) > coalesce((rules ->> 'maxLength')::integer, 2000) then
+            raise exception '% must be at most % characters.', field_label, coalesce(rules ->> 'maxLength', '2000') using errcode = 'P0001';
+        end if;
+        if rules ? 'pattern' then
+            begin
+                if answer_text !~ (rules ->> 'pattern') then
+                    raise exception '%', coalesce(rules ->> 'patternMessage', field_label || ' is not in the expected format.') using errcode = 'P0001';
+                end if;
+            exception when invalid_regular_expression then
+                -- Same as the client: a broken pattern doesn't block registrants.
+                null;
+            end;
+        end if;
+
+        cleaned := cleaned || jsonb_build_object(field_id, answer_text);
+    end loop;
+
+    return cleaned;
+end;
+$$;
+
+create or replace function public.register_for_event(p_event_id bigint, p_registration jsonb)
+returns table (registration_id bigint, status text, confirmation_code text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+    new_row public.event_registrations%rowtype;
+    form jsonb;
+    answers jsonb;
+begin
+    select e.registration_form into form from public.events e where e.id = p_event_id;
+    answers := public.validate_registration_answers(form, p_registration);
+
+    begin
+        insert into public.event_registrations (
+            event_id, full_name, roll, phone, email, department, session, semester, student_group, shift, answers
+        )
+        values (
+            p_event_id,
+            answers ->> 'full_name',
+            answers ->> 'roll',
+            answers ->> 'phone',
+            lower(answers ->> 'email'),
+            answers ->> 'department',
+            answers ->> 'session',
+            answers ->> 'semester',
+            answers ->> 'student_group',
+            answers ->> 'shift',
+            answers
+        )
+        returning * into new_row;
+    exception when unique_violation then
+        raise exception 'Roll % is already registered for this event. Use your confirmation code to check or cancel that registration.', answers ->> 'roll'
+            using errcode = 'P0001';
+    end;
+
+    return query select new_row.id, new_row.status, new_row.confirmation_code;
+end;
+$$;
+
+grant execute on function public.register_for_event(bigint, jsonb) to anon, authenticated;
@@ -0,0 +1,150 @@
+-- Notification outbox.
+-- Registration and contact form notifications used to be posted from the
+-- browser to Formspree; when that failed (e.g. the monthly quota ran out) they
+-- were silently lost. They are now written to this table in the same
+-- transaction as the registration or message, and the notification-dispatch
+-- edge function delivers them, retrying with backoff until max attempts.
+-- The delivery provider and recipients are site settings (Admin > Site Settings).
+
+create table if not exists public.notification_outbox (
+    id bigint generated always as identity primary key,
+    kind text not null check (kind in ('event_registration', 'contact_message')),
+    payload jsonb not null default '{}'::jsonb,
+    -- Where a reply should go (the visitor's address for contact messages).
+    reply_to text,
+    status text not null default 'pending' check (status in ('pending', 'sending', 'sent', 'failed')),
+    attempts integer not null default 0,
+    next_attempt_at timestamptz not null default now(),
+    locked_at timestamptz,
+    last_error text,
+    provider text,
+    sent_at timestamptz,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists notification_outbox_due_idx
+    on public.notification_outbox (next_attempt_at)
+    where status in ('pending', 'sending');
+
+alter table public.notification_outbox enable row level security;
+
+-- Rows are written by the functions below and delivered by the edge function
+-- (service role). Admins can read the outbox and requeue failed rows.
+drop policy if exists "Admins can read the notification outbox" on public.notification_outbox;
+create policy "Admins can read the notification outbox"
+    on public.notification_outbox for select
+    using (public.get_user_role() = 'admin');
+
+drop policy if exists "Admins can requeue notifications" on public.notification_outbox;
+create policy "Admins can requeue notifications"
+    on public.notification_outbox for update
+    using (public.get_user_role() = 'admin')
+    with check (public.get_user_role() = 'admin');
+
+create or replace function public.queue_registration_notification()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    ev public.events%rowtype;
+begin
+    select * into ev from public.events where id = new.event_id;
+    insert into public.notification_outbox (kind, payload, reply_to)
+    values (
+        'event_registration',
+        jsonb_build_object(
+            'registration_id', new.id,
+            'event_id', new.event_id,
+            'event_title', ev.title,
+            'event_date', ev.date,
+            'status', new.status,
+            'confirmation_code', new.confirmation_code,
+            'full_name', new.full_name,
+            'roll', new.roll,
+            'answers', new.answers,
+            'form', ev.registration_form
+        ),
+        nullif(new.email, '')
+    );
+    return null;
+end;
+$$;
+
+drop trigger if exists event_registrations_queue_notification on public.event_registrations;
+create trigger event_registrations_queue_notification
+    after insert on public.event_registrations
+    for each row execute function public.queue_registration_notification();
+
+-- The contact form. The outbox row is the only copy of the message, so admins
+-- can still read it there if delivery keeps failing.
+create or replace function public.submit_contact_message(p_name text, p_email text, p_subject text, p_message text)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    new_id bigint;
+begin
+    p_name := btrim(coalesce(p_name, ''));
+    p_email := lower(btrim(coalesce(p_email, '')));
+    p_subject := btrim(coalesce(p_subject, ''));
+    p_message := btrim(coalesce(p_message, ''));
+
+    if p_name = '' or p_message = '' then
+        raise exception 'Please enter your name and a message.' using errcode = 'P0001';
+    end if;
+    if p_email !~ '^[^[:space:]@]+@[^[:space:]@]+\.[^[:space:]@]+$' then
+        raise exception 'Please enter a valid email address.' using errcode = 'P0001';
+    end if;
+    if length(p_name) > 200 or length(p_subject) > 200 or length(p_message) > 5000 then
+        raise exception 'Your message is too long. Please keep it under 5000 characters.' using errcode = 'P0001';
+    end if;
+
+    insert into public.notification_outbox (kind, payload, reply_to)
+    values (
+        'contact_message',
+        jsonb_build_object('name', p_name, 'email', p_email, 'subject', p_subject, 'message', p_message),
+        p_email
+    )
+    returning id into new_id;
+    return new_id;
+end;
+$$;
+
+-- Hands the dispatcher a batch of due rows. Rows stuck in 'sending' (a run
+-- that crashed mid-batch) are picked up again after ten minutes.
+create or replace function public.claim_notifications(p_limit integer default 20)
+returns setof public.notification_outbox
+language sql
+security definer
+set search_path = public
+as $$
+    update public.notification_outbox o
+    set status = 'sending', locked_at = now()
+    where o.id in (
+        select id
+        from public.notification_outbox
+        where (status = 'pending' and next_attempt_at <= now())
+           or (status = 'sending' and locked_at < now() - interval '10 minutes')
+        order by id
+        limit p_limit
+        for update skip locked
+    )
+    returning o.*;
+$$;
+
+grant execute on function public.submit_contact_message(text, text, text, text) to anon, authenticated;
+revoke execute on function public.claim_notifications(integer) from public, anon, authenticated;
+grant execute on function public.claim_notifications(integer) to service_role;
+
+-- Defaults for the notification settings shown in Site Settings.
+insert into public.site_settings (key, value)
+values
+    ('notification_provider', ''),
+    ('notification_recipients', ''),
+    ('notification_function', ''),
+    ('notification_max_attempts', '5')
+on conflict (key) do nothing;
@@ -0,0 +1,40 @@
+-- Final result references are "<session_name>/<roll>". Matching on the
+-- concatenation couldn't use an index, so every verification scanned all of
+-- final_results. The reference is split at its last "/" (rolls are digits)
+-- and compared column by column, which uses final_results_session_roll_key.
+
+create or replace function public.result_verification_snapshot(p_kind text, p_reference text)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+    select case p_kind
+        when 'final' then (
+            select jsonb_build_object(
+                'session_name', fr.session_name,
+                'roll', fr.roll,
+                'gpas', fr.gpas,
+                'referred_subjects', to_jsonb(fr.referred_subjects),
+                'is_dropout', fr.is_dropout
+            )
+            from public.final_results fr
+            where fr.session_name = regexp_replace(p_reference, '/[^/]*$', '')
+              and fr.roll = substring(p_reference from '[^/]*$')
+              and position('/' in p_reference) > 0
+        )
+        when 'other' then (
+            select jsonb_build_object(
+                'roll_number', o.roll_number,
+                'student_name', o.student_name,
+                'exam_name', o.exam_name,
+                'semester', o.semester,
+                'student_group', o.student_group,
+                'subjects', o.subjects
+            )
+            from public.other_results o
+            where o.id::text = p_reference
+        )
+    end;
+$$;
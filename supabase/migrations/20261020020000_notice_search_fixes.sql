@@ -0,0 +1,43 @@
+-- Fixes to the notice search and listing support.
+--
+-- The listing sorts by published_at (publish_at, falling back to createdAt),
+-- not createdAt, so the old index couldn't serve that order. The index now
+-- matches the expression the view exposes, with id as the final tie-break.
+--
+-- Notice content is rich text, so the search vector used to index tag names
+-- and attributes ("span", "href", "https") as words. Tags and entities are now
+-- stripped before the text is tokenised.
+
+drop index if exists public.notices_public_listing_idx;
+
+create index if not exists notices_public_listing_idx
+    on public.notices (status, is_pinned desc, (coalesce(publish_at, "createdAt")) desc, id desc);
+
+create or replace function public.strip_html(p_text text)
+returns text
+language sql
+immutable
+as $$
+    select regexp_replace(
+        regexp_replace(coalesce(p_text, ''), '<[^>]*>', ' ', 'g'),
+        '&(#[0-9]+|#x[0-9a-fA-F]+|[a-zA-Z]+);', ' ', 'g'
+    );
+$$;
+
+-- A generated column's expression can't be altered, so it is dropped (with its
+-- index and the view using it) and re-added.
+drop view if exists public.public_notices;
+drop index if exists public.notices_search_vector_idx;
+alter table public.notices drop column if exists search_vector;
+
+alter table public.notices
+    add column search_vector tsvector
+    generated always as (
+        setweight(to_tsvector('simple', coalesce(title, '') || ' ' || coalesce(title_bn, '')), 'A') ||
+        setweight(to_tsvector('simple', public.strip_html(content) || ' ' || public.strip_html(content_bn)), 'B')
+    ) stored;
+
+create index if not exists notices_search_vector_idx
+    on public.notices using gin (search_vector);
+
+select public.refresh_public_notices_view();
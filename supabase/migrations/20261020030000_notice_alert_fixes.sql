@@ -0,0 +1,73 @@
+-- Fixes to notice alerts.
+--
+-- The queue trigger only fired on status changes, so moving a scheduled
+-- notice's publish_at left its alerts due at the old time, and unpublishing or
+-- expiring a notice left them queued. It now also fires on publish_at and
+-- expire_at changes: pending alerts follow the new publish time, and are
+-- removed when the notice stops being published (re-publishing queues them
+-- again; alerts already sent are never repeated).
+
+create or replace function public.queue_notice_alerts()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    v_deliver_after timestamptz := greatest(coalesce(new.publish_at, now()), now());
+begin
+    if new.status <> 'published' or (new.expire_at is not null and new.expire_at <= now()) then
+        if tg_op = 'UPDATE' then
+            delete from public.notice_alert_queue
+            where notice_id = new.id
+              and sent_at is null;
+        end if;
+        return new;
+    end if;
+
+    -- Already published and queued: only the schedule can have changed.
+    if tg_op = 'UPDATE' and old.status = 'published' and (old.expire_at is null or old.expire_at > now()) then
+        update public.notice_alert_queue
+        set deliver_after = v_deliver_after
+        where notice_id = new.id
+          and sent_at is null;
+        return new;
+    end if;
+
+    insert into public.notice_alert_queue (subscriber_id, notice_id, frequency, deliver_after)
+    select s.id, new.id, s.frequency, v_deliver_after
+    from public.notice_subscribers s
+    where s.confirmed_at is not null
+      and s.unsubscribed_at is null
+      and new.category = any (s.categories)
+      and (
+          cardinality(s.semesters) = 0
+          or coalesce(cardinality(new.semesters), 0) = 0
+          or s.semesters && new.semesters
+      )
+    on conflict (subscriber_id, notice_id) do update
+        set deliver_after = excluded.deliver_after
+        where notice_alert_queue.sent_at is null;
+
+    return new;
+end;
+$$;
+
+drop trigger if exists notices_queue_alerts on public.notices;
+create trigger notices_queue_alerts
+    after insert or update of status, publish_at, expire_at on public.notices
+    for each row execute function public.queue_notice_alerts();
+
+-- Every subscribe request sends an email (a confirmation or a reminder), so
+-- the notice-subscriptions function limits them per address. Only the edge
+-- function (service role) touches this table.
+create table if not exists public.notice_subscription_requests (
+    id bigint generated always as identity primary key,
+    email text not null,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists notice_subscription_requests_email_idx
+    on public.notice_subscription_requests (lower(email), created_at desc);
+
+alter table public.notice_subscription_requests enable row level security;
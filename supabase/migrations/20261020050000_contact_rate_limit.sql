@@ -0,0 +1,73 @@
+-- Limits the contact form to a few messages per address per hour, and to a
+-- fixed number per hour overall. submit_contact_message() is open to
+-- anonymous visitors and every message is delivered to the department's
+-- inboxes, so without a limit one script could flood them. The address is
+-- whatever the sender typed, so the overall cap is what actually bounds a
+-- script that varies it. The outbox already records each message with its
+-- sender (reply_to), so it doubles as the log the limits are counted from.
+
+create index if not exists notification_outbox_contact_sender_idx
+    on public.notification_outbox (reply_to, created_at)
+    where kind = 'contact_message';
+
+create index if not exists notification_outbox_contact_created_idx
+    on public.notification_outbox (created_at)
+    where kind = 'contact_message';
+
+create or replace function public.submit_contact_message(p_name text, p_email text, p_subject text, p_message text)
+returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    new_id bigint;
+    recent_count integer;
+begin
+    p_name := btrim(coalesce(p_name, ''));
+    p_email := lower(btrim(coalesce(p_email, '')));
+    p_subject := btrim(coalesce(p_subject, ''));
+    p_message := btrim(coalesce(p_message, ''));
+
+    if p_name = '' or p_message = '' then
+        raise exception 'Please enter your name and a message.' using errcode = 'P0001';
+    end if;
+    if p_email !~ '^[^[:space:]@]+@[^[:space:]@]+\.[^[:space:]@]+$' then
+        raise exception 'Please enter a valid email address.' using errcode = 'P0001';
+    end if;
+    if length(p_name) > 200 or length(p_subject) > 200 or length(p_message) > 5000 then
+        raise exception 'Your message is too long. Please keep it under 5000 characters.' using errcode = 'P0001';
+    end if;
+
+    -- Serialises concurrent submissions so they can't all pass the counts
+    -- below. Contact messages are rare enough that one queue is fine.
+    perform pg_advisory_xact_lock(hashtext('contact_message'));
+    select count(*) into recent_count
+    from public.notification_outbox
+    where kind = 'contact_message'
+      and created_at > now() - interval '1 hour';
+    if recent_count >= 30 then
+        raise exception 'The contact form is receiving a lot of messages right now. Please try again later or email the department directly.' using errcode = 'P0001';
+    end if;
+
+    select count(*) into recent_count
+    from public.notification_outbox
+    where kind = 'contact_message'
+      and reply_to = p_email
+      and created_at > now() - interval '1 hour';
+    if recent_count >= 3 then
+        raise exception 'You have already sent several messages in the last hour. Please wait a while before sending another.' using errcode = 'P0001';
+    end if;
+
+    insert into public.notification_outbox (kind, payload, reply_to)
+    values (
+        'contact_message',
+        jsonb_build_object('name', p_name, 'email', p_email, 'subject', p_subject, 'message', p_message),
+        p_email
+    )
+    returning id into new_id;
+    return new_id;
+end;
+$$;
+
+grant execute on function public.submit_contact_message(text, text, text, text) to anon, authenticated;
@@ -0,0 +1,20 @@
+-- Scheduled and expired notices were only hidden by the public_notices view;
+-- a direct query on public.notices still returned them. This restrictive
+-- policy is combined (AND) with whatever select policies the project already
+-- has, so outside the admin role only live notices can be read, through the
+-- view or not. The view is security_invoker, so it goes through this too.
+
+drop policy if exists "Only admins can read notices outside their publish window" on public.notices;
+create policy "Only admins can read notices outside their publish window"
+    on public.notices
+    as restrictive
+    for select
+    to anon, authenticated
+    using (
+        public.get_user_role() = 'admin'
+        or (
+            status = 'published'
+            and (publish_at is null or publish_at <= now())
+            and (expire_at is null or expire_at > now())
+        )
+    );
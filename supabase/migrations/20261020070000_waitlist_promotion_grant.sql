@@ -0,0 +1,6 @@
+-- promote_event_waitlist is security definer and only meant to run from the
+-- registration and capacity triggers (which are security definer themselves),
+-- but it was executable by any signed-in user, who could confirm waitlisted
+-- people on any event. Nothing in the app calls it directly.
+
+revoke execute on function public.promote_event_waitlist(bigint) from public, anon, authenticated;
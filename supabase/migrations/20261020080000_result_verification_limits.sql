@@ -0,0 +1,64 @@
+-- Tightens the anonymous side of result verification.
+--
+-- result_verification_snapshot is security definer and returns a full result
+-- for any reference, so it must only run inside issue_result_verification and
+-- verify_result_document (security definer themselves), never through the
+-- REST API.
+--
+-- issue_result_verification is open to visitors. Two simultaneous downloads
+-- of the same unchanged result could both miss the existing row and insert
+-- one each; the lookup and insert are now serialised per result. New IDs are
+-- also capped site-wide, so walking through references can't fill the table;
+-- past the cap the results page still gives the PDF, without the QR block.
+
+revoke execute on function public.result_verification_snapshot(text, text) from public, anon, authenticated;
+
+create index if not exists result_verifications_created_at_idx
+    on public.result_verifications (created_at);
+
+create or replace function public.issue_result_verification(p_kind text, p_reference text)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    current_snapshot jsonb;
+    current_hash text;
+    verification_id text;
+    recent_count integer;
+begin
+    current_snapshot := public.result_verification_snapshot(p_kind, p_reference);
+    if current_snapshot is null then
+        raise exception 'Result not found.';
+    end if;
+    current_hash := encode(sha256(convert_to(current_snapshot::text, 'UTF8')), 'hex');
+
+    perform pg_advisory_xact_lock(hashtext('result_verification:' || p_kind || ':' || p_reference));
+
+    -- Downloading the same unchanged result twice gives the same ID.
+    select id into verification_id
+    from public.result_verifications
+    where kind = p_kind and reference = p_reference and snapshot_hash = current_hash
+    order by created_at
+    limit 1;
+
+    if verification_id is null then
+        select count(*) into recent_count
+        from public.result_verifications
+        where created_at > now() - interval '10 minutes';
+        if recent_count >= 500 then
+            raise exception 'Too many result downloads right now. Please try again in a few minutes.'
+                using errcode = 'P0001';
+        end if;
+
+        verification_id := upper(substr(md5(random()::text || clock_timestamp()::text), 1, 10));
+        insert into public.result_verifications (id, kind, reference, snapshot, snapshot_hash)
+        values (verification_id, p_kind, p_reference, current_snapshot, current_hash);
+    end if;
+
+    return verification_id;
+end;
+$$;
+
+grant execute on function public.issue_result_verification(text, text) to anon, authenticated;
@@ -0,0 +1,86 @@
+-- record_notice_event is open to visitors and counted every call, so a script
+-- could inflate any notice's views and downloads. It now counts each notice at
+-- most once per kind, per client, per day.
+--
+-- A client is the first X-Forwarded-For address and the User-Agent that
+-- PostgREST passes in request.headers, hashed with a random salt that only
+-- lives for the day. Neither the address nor the salt is kept: both tables
+-- are emptied of earlier days on the next call, after which a hash can't be
+-- traced back to anyone.
+
+create table if not exists public.notice_event_salts (
+    day date primary key,
+    salt text not null
+);
+
+create table if not exists public.notice_event_clients (
+    notice_id bigint not null references public.notices (id) on delete cascade,
+    kind text not null,
+    day date not null,
+    client_hash text not null,
+    primary key (notice_id, kind, day, client_hash)
+);
+
+create index if not exists notice_event_clients_day_idx
+    on public.notice_event_clients (day);
+
+-- Only record_notice_event touches these.
+alter table public.notice_event_salts enable row level security;
+alter table public.notice_event_clients enable row level security;
+
+create or replace function public.record_notice_event(p_notice_id bigint, p_kind text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+    request_headers json;
+    daily_salt text;
+    client_hash text;
+begin
+    if p_kind not in ('view', 'download') then
+        raise exception 'Unknown notice event kind: %', p_kind;
+    end if;
+
+    if not exists (select 1 from public.public_notices where id = p_notice_id) then
+        return;
+    end if;
+
+    delete from public.notice_event_clients where day < current_date;
+    delete from public.notice_event_salts where day < current_date;
+
+    insert into public.notice_event_salts (day, salt)
+    values (current_date, md5(random()::text || clock_timestamp()::text))
+    on conflict (day) do nothing;
+    select salt into daily_salt from public.notice_event_salts where day = current_date;
+
+    request_headers := coalesce(nullif(current_setting('request.headers', true), ''), '{}')::json;
+    client_hash := encode(sha256(convert_to(
+        daily_salt
+        || '|' || coalesce(btrim(split_part(request_headers ->> 'x-forwarded-for', ',', 1)), '')
+        || '|' || coalesce(request_headers ->> 'user-agent', ''),
+        'UTF8'
+    )), 'hex');
+
+    insert into public.notice_event_clients (notice_id, kind, day, client_hash)
+    values (p_notice_id, p_kind, current_date, client_hash)
+    on conflict do nothing;
+    if not found then
+        return;
+    end if;
+
+    insert into public.notice_view_daily (notice_id, day, views, downloads)
+    values (
+        p_notice_id,
+        current_date,
+        case when p_kind = 'view' then 1 else 0 end,
+        case when p_kind = 'download' then 1 else 0 end
+    )
+    on conflict (notice_id, day) do update
+    set views = notice_view_daily.views + excluded.views,
+        downloads = notice_view_daily.downloads + excluded.downloads;
+end;
+$$;
+
+grant execute on function public.record_notice_event(bigint, text) to anon, authenticated;
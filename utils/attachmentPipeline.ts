@@ -0,0 +1,132 @@
+import * as pdfjsLib from 'pdfjs-dist';
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/4.5.136/pdf.worker.mjs';
+
+// --- Notice attachment processing ---
+// Phone photos are often 4000px+ JPEGs with GPS data in their EXIF block.
+// Re-encoding through a canvas resizes them and drops all metadata; a small
+// thumbnail is produced for list views. PDFs are uploaded untouched, with a
+// rendered first page as their thumbnail.
+
+export const MAX_IMAGE_DIMENSION = 2000;
+export const THUMBNAIL_DIMENSION = 480;
+const PDF_PREVIEW_WIDTH = 800;
+const JPEG_QUALITY = 0.82;
+const THUMBNAIL_QUALITY = 0.7;
+
+export interface EncodedImage {
+    blob: Blob;
+    contentType: string;
+    extension: string;
+}
+
+export interface ProcessedAttachment {
+    type: 'image' | 'pdf';
+    original: EncodedImage;
+    thumbnail: EncodedImage | null;
+}
+
+// Formats that can't be re-encoded without losing something (animation,
+// vectors) are kept as-is.
+const PASSTHROUGH_IMAGE_TYPES = ['image/gif', 'image/svg+xml'];
+
+const extensionOf = (name: string) => name.split('.').pop()?.toLowerCase() || 'bin';
+
+const canvasToBlob = (canvas: HTMLCanvasElement, contentType: string, quality: number) =>
+    new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode image.'))), contentType, quality);
+    });
+
+const drawScaled = (source: CanvasImageSource, width: number, height: number, maxDimension: number, opaque: boolean) => {
+    const scale = Math.min(1, maxDimension / Math.max(width, height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width * scale));
+    canvas.height = Math.max(1, Math.round(height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported in this browser.');
+    if (opaque) {
+        // JPEG has no alpha; fill so transparent areas don't turn black.
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+    return canvas;
+};
+
+const encodeBitmap = async (bitmap: ImageBitmap, maxDimension: number, keepAlpha: boolean, quality: number): Promise<EncodedImage> => {
+    const contentType = keepAlpha ? 'image/png' : 'image/jpeg';
+    const canvas = drawScaled(bitmap, bitmap.width, bitmap.height, maxDimension, !keepAlpha);
+    const blob = await canvasToBlob(canvas, contentType, quality);
+    return { blob, contentType, extension: keepAlpha ? 'png' : 'jpg' };
+};
+
+// Resizes and re-encodes an image. Orientation from EXIF is applied before the
+// metadata is dropped, so portrait photos stay upright.
+export const compressImage = async (file: File, maxDimension = MAX_IMAGE_DIMENSION): Promise<EncodedImage> => {
+    if (PASSTHROUGH_IMAGE_TYPES.includes(file.type)) {
+        return { blob: file, contentType: file.type, extension: extensionOf(file.name) };
+    }
+    const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    try {
+        return await encodeBitmap(bitmap, maxDimension, file.type === 'image/png', JPEG_QUALITY);
+    } finally {
+        bitmap.close();
+    }
+};
+
+const createImageThumbnail = async (file: File): Promise<EncodedImage | null> => {
+    if (file.type === 'image/svg+xml') return null;
+    const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    try {
+        return await encodeBitmap(bitmap, THUMBNAIL_DIMENSION, false, THUMBNAIL_QUALITY);
+    } finally {
+        bitmap.close();
+    }
+};
+
+export const renderPdfPreview = async (file: File): Promise<EncodedImage> => {
+    const pdf = await pdfjsLib.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+    try {
+        const page = await pdf.getPage(1);
+        const baseViewport = page.getViewport({ scale: 1 });
+        const viewport = page.getViewport({ scale: PDF_PREVIEW_WIDTH / baseViewport.width });
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(viewport.width);
+        canvas.height = Math.round(viewport.height);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Canvas is not supported in this browser.');
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        await page.render({ canvasContext: ctx, viewport }).promise;
+        const blob = await canvasToBlob(canvas, 'image/jpeg', THUMBNAIL_QUALITY);
+        return { blob, contentType: 'image/jpeg', extension: 'jpg' };
+    } finally {
+        await pdf.destroy();
+    }
+};
+
+// A failed thumbnail or preview never blocks the upload; the list view falls
+// back to the original.
+export const processAttachment = async (file: File): Promise<ProcessedAttachment> => {
+    if (file.type.startsWith('image/')) {
+        const [original, thumbnail] = await Promise.all([
+            compressImage(file),
+            createImageThumbnail(file).catch(error => {
+                console.warn(`Could not create a thumbnail for ${file.name}:`, error);
+                return null;
+            }),
+        ]);
+        return { type: 'image', original, thumbnail };
+    }
+
+    const thumbnail = await renderPdfPreview(file).catch(error => {
+        console.warn(`Could not render a preview for ${file.name}:`, error);
+        return null;
+    });
+    return {
+        type: 'pdf',
+        original: { blob: file, contentType: file.type || 'application/pdf', extension: extensionOf(file.name) },
+        thumbnail,
+    };
+};
@@ -0,0 +1,72 @@
+import { DROPOUT_REFERRED_THRESHOLD } from './resultParser';
+
+// --- Referred-subject (backlog) grouping ---
+// Pure helpers over rows of the `referred_subjects` table.
+
+// Shape of a row in the `referred_subjects` table.
+export interface ReferredSubjectRow {
+    roll: string;
+    subject_code: string;
+    semester: number | null;
+    first_referred_session: string;
+    last_referred_session: string;
+    cleared_session: string | null;
+}
+
+export interface SubjectBacklog {
+    subject_code: string;
+    semester: number | null;
+    rolls: string[];
+}
+
+export interface SemesterBacklog {
+    semester: number | null;
+    subjects: number;
+    students: number;
+    referrals: number;
+}
+
+export interface AtRiskStudent {
+    roll: string;
+    subjectCodes: string[];
+}
+
+// One more referred subject would make these students drop outs.
+export const AT_RISK_REFERRED_COUNT = DROPOUT_REFERRED_THRESHOLD - 1;
+
+export const isOutstanding = (row: ReferredSubjectRow) => !row.cleared_session;
+
+export const groupBySubject = (rows: ReferredSubjectRow[]): SubjectBacklog[] => {
+    const bySubject = new Map<string, SubjectBacklog>();
+    rows.forEach(row => {
+        const entry = bySubject.get(row.subject_code) || { subject_code: row.subject_code, semester: row.semester, rolls: [] };
+        entry.rolls.push(row.roll);
+        bySubject.set(row.subject_code, entry);
+    });
+    return [...bySubject.values()]
+        .map(entry => ({ ...entry, rolls: entry.rolls.sort() }))
+        .sort((a, b) => b.rolls.length - a.rolls.length || a.subject_code.localeCompare(b.subject_code));
+};
+
+export const countBySemester = (rows: ReferredSubjectRow[]): SemesterBacklog[] => {
+    const bySemester = new Map<number | null, { subjects: Set<string>; students: Set<string>; referrals: number }>();
+    rows.forEach(row => {
+        const entry = bySemester.get(row.semester) || { subjects: new Set(), students: new Set(), referrals: 0 };
+        entry.subjects.add(row.subject_code);
+        entry.students.add(row.roll);
+        entry.referrals += 1;
+        bySemester.set(row.semester, entry);
+    });
+    return [...bySemester.entries()]
+        .map(([semester, entry]) => ({ semester, subjects: entry.subjects.size, students: entry.students.size, referrals: entry.referrals }))
+        .sort((a, b) => (a.semester ?? 99) - (b.semester ?? 99));
+};
+
+export const findAtRiskStudents = (rows: ReferredSubjectRow[]): AtRiskStudent[] => {
+    const byRoll = new Map<string, string[]>();
+    rows.forEach(row => byRoll.set(row.roll, [...(byRoll.get(row.roll) || []), row.subject_code]));
+    return [...byRoll.entries()]
+        .filter(([, codes]) => codes.length >= AT_RISK_REFERRED_COUNT)
+        .map(([roll, codes]) => ({ roll, subjectCodes: codes.sort() }))
+        .sort((a, b) => b.subjectCodes.length - a.subjectCodes.length || a.roll.localeCompare(b.roll));
+};
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { toCsv } from './csv';
+
+describe('toCsv', () => {
+    it('quotes cells with separators, quotes and line breaks', () => {
+        expect(toCsv([['Name', 'Note'], ['Rahim, Karim', 'said "hi"\nthen left']])).toBe('Name,Note\r\n"Rahim, Karim","said ""hi""\nthen left"');
+    });
+
+    it('neutralises text that a spreadsheet would run as a formula', () => {
+        expect(toCsv([['=HYPERLINK("http://evil")', '+A1*2', '-2+cmd|\'/c calc\'!A0', '@SUM(A1)', 'ok']])).toBe(
+            `"'=HYPERLINK(""http://evil"")",'+A1*2,'-2+cmd|'/c calc'!A0,'@SUM(A1),ok`,
+        );
+    });
+
+    it('leaves phone numbers and negative numbers typed as text alone', () => {
+        expect(toCsv([['+8801712345678', '+880 1712-345678', '-5', '-3.5', '(02) 123-456']])).toBe('+8801712345678,+880 1712-345678,-5,-3.5,(02) 123-456');
+    });
+
+    it('leaves numbers and empty cells alone', () => {
+        expect(toCsv([[-3.5, 0, null, undefined, true]])).toBe('-3.5,0,,,true');
+    });
+});
@@ -0,0 +1,31 @@
+// --- CSV export ---
+
+export type CsvCell = string | number | boolean | null | undefined;
+
+// Values typed by the public end up in these files, so text a spreadsheet
+// would run as a formula is prefixed with a quote. Numbers and phone numbers
+// ("+880 1712-345678", "-5") can't run anything and are left alone.
+const NUMBER_LIKE = /^[+-]?[\d\s().-]+$/;
+
+export const neutralizeFormula = (value: string) =>
+    /^[=+\-@\t\r]/.test(value) && !NUMBER_LIKE.test(value) ? `'${value}` : value;
+
+const escapeCell = (cell: CsvCell) => {
+    const text = cell === null || cell === undefined ? '' : typeof cell === 'string' ? neutralizeFormula(cell) : String(cell);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: CsvCell[][]) => rows.map(row => row.map(escapeCell).join(',')).join('\r\n');
+
+// The BOM makes Excel open the file as UTF-8, so Bangla names survive.
+export const downloadCsv = (fileName: string, rows: CsvCell[][]) => {
+    const blob = new Blob(['\uFEFF' + toCsv(rows)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+};
@@ -0,0 +1,7 @@
+// --- Registration confirmation codes ---
+// The database issues ten-character codes (see generate_registration_code);
+// they are shown split in two so they're easier to read out and type.
+
+export const formatConfirmationCode = (code: string) => code.replace(/^(.{5})(.+)$/, '$1-$2');
+
+export const normalizeConfirmationCode = (input: string) => input.toUpperCase().replace(/[^A-Z0-9]/g, '');
@@ -0,0 +1,157 @@
+// --- Grading engine for class test / quiz / midterm results ---
+// Turns raw marks into BTEB letter grades, grade points and an overall GPA.
+// The scheme is stored as JSON in `site_settings` under GRADING_SCHEME_SETTING_KEY
+// so the public result page, the PDF export and the admin list all grade the
+// same way.
+
+export interface GradeBand {
+    letter: string;
+    minPercent: number;
+    gradePoint: number;
+}
+
+// Overrides for one subject, matched by name (case-insensitive).
+export interface SubjectGradingRule {
+    subject_name: string;
+    passPercent?: number;
+    credits?: number;
+}
+
+export interface GradingScheme {
+    bands: GradeBand[];
+    passPercent: number;
+    subjects: SubjectGradingRule[];
+}
+
+export interface MarkedSubject {
+    subject_name: string;
+    marks_obtained: number;
+    total_marks: number;
+}
+
+export interface GradedSubject extends MarkedSubject {
+    percentage: number;
+    letter: string;
+    gradePoint: number;
+    credits: number;
+    passed: boolean;
+}
+
+export interface GradedResult {
+    subjects: GradedSubject[];
+    obtainedMarks: number;
+    totalMarks: number;
+    percentage: number;
+    gpa: number;
+    letter: string;
+    passed: boolean;
+}
+
+export const GRADING_SCHEME_SETTING_KEY = 'grading_scheme';
+
+// BTEB diploma grading scale.
+export const DEFAULT_GRADING_SCHEME: GradingScheme = {
+    bands: [
+        { letter: 'A+', minPercent: 80, gradePoint: 4.0 },
+        { letter: 'A', minPercent: 75, gradePoint: 3.75 },
+        { letter: 'A-', minPercent: 70, gradePoint: 3.5 },
+        { letter: 'B+', minPercent: 65, gradePoint: 3.25 },
+        { letter: 'B', minPercent: 60, gradePoint: 3.0 },
+        { letter: 'B-', minPercent: 55, gradePoint: 2.75 },
+        { letter: 'C+', minPercent: 50, gradePoint: 2.5 },
+        { letter: 'C', minPercent: 45, gradePoint: 2.25 },
+        { letter: 'D', minPercent: 40, gradePoint: 2.0 },
+        { letter: 'F', minPercent: 0, gradePoint: 0 },
+    ],
+    passPercent: 40,
+    subjects: [],
+};
+
+const FAIL_LETTER = 'F';
+
+const sortBands = (bands: GradeBand[]) => [...bands].sort((a, b) => b.minPercent - a.minPercent);
+
+// Reads the stored setting, falling back to the default scale when it is
+// missing or not valid JSON.
+export const parseGradingScheme = (value: string | null | undefined): GradingScheme => {
+    if (!value) return DEFAULT_GRADING_SCHEME;
+    try {
+        const parsed = JSON.parse(value) as Partial<GradingScheme>;
+        if (!Array.isArray(parsed.bands) || parsed.bands.length === 0) return DEFAULT_GRADING_SCHEME;
+        return {
+            bands: sortBands(parsed.bands),
+            passPercent: typeof parsed.passPercent === 'number' ? parsed.passPercent : DEFAULT_GRADING_SCHEME.passPercent,
+            subjects: Array.isArray(parsed.subjects) ? parsed.subjects : [],
+        };
+    } catch {
+        return DEFAULT_GRADING_SCHEME;
+    }
+};
+
+export const validateGradingScheme = (scheme: GradingScheme): string[] => {
+    const errors: string[] = [];
+    if (scheme.bands.length === 0) errors.push('Add at least one grade.');
+    if (scheme.bands.some(b => !b.letter.trim())) errors.push('Every grade needs a letter.');
+    if (scheme.bands.some(b => b.minPercent < 0 || b.minPercent > 100)) errors.push('Minimum percentages must be between 0 and 100.');
+    if (scheme.bands.some(b => b.gradePoint < 0)) errors.push('Grade points cannot be negative.');
+    if (!scheme.bands.some(b => b.minPercent === 0)) errors.push('One grade must start at 0% so every mark gets a grade.');
+    if (new Set(scheme.bands.map(b => b.minPercent)).size !== scheme.bands.length) errors.push('Two grades share the same minimum percentage.');
+    if (scheme.passPercent < 0 || scheme.passPercent > 100) errors.push('The pass mark must be between 0 and 100.');
+    scheme.subjects.forEach(s => {
+        if (!s.subject_name.trim()) errors.push('Every subject rule needs a subject name.');
+        if (s.passPercent !== undefined && (s.passPercent < 0 || s.passPercent > 100)) errors.push(`${s.subject_name}: pass mark must be between 0 and 100.`);
+        if (s.credits !== undefined && s.credits <= 0) errors.push(`${s.subject_name}: credits must be greater than 0.`);
+    });
+    return errors;
+};
+
+const findSubjectRule = (scheme: GradingScheme, subjectName: string) => {
+    const name = subjectName.trim().toLowerCase();
+    return scheme.subjects.find(s => s.subject_name.trim().toLowerCase() === name);
+};
+
+const bandForPercent = (scheme: GradingScheme, percentage: number) =>
+    sortBands(scheme.bands).find(b => percentage >= b.minPercent) || { letter: FAIL_LETTER, minPercent: 0, gradePoint: 0 };
+
+// The letter whose grade point the GPA reaches, e.g. 3.60 -> "A-".
+export const letterForGpa = (scheme: GradingScheme, gpa: number) => {
+    const band = [...scheme.bands].sort((a, b) => b.gradePoint - a.gradePoint).find(b => gpa >= b.gradePoint);
+    return band ? band.letter : FAIL_LETTER;
+};
+
+export const gradeSubject = (subject: MarkedSubject, scheme: GradingScheme): GradedSubject => {
+    const rule = findSubjectRule(scheme, subject.subject_name);
+    const percentage = subject.total_marks > 0 ? (subject.marks_obtained / subject.total_marks) * 100 : 0;
+    const passed = percentage >= (rule?.passPercent ?? scheme.passPercent);
+    const band = bandForPercent(scheme, percentage);
+    return {
+        ...subject,
+        percentage,
+        letter: passed ? band.letter : FAIL_LETTER,
+        gradePoint: passed ? band.gradePoint : 0,
+        credits: rule?.credits ?? 1,
+        passed,
+    };
+};
+
+// Failing any subject fails the whole result with a GPA of 0, as on BTEB sheets.
+export const gradeResult = (subjects: MarkedSubject[], scheme: GradingScheme): GradedResult => {
+    const graded = subjects.map(s => gradeSubject(s, scheme));
+    const obtainedMarks = graded.reduce((sum, s) => sum + (s.marks_obtained || 0), 0);
+    const totalMarks = graded.reduce((sum, s) => sum + (s.total_marks || 0), 0);
+    const totalCredits = graded.reduce((sum, s) => sum + s.credits, 0);
+    const passed = graded.length > 0 && graded.every(s => s.passed);
+    const gpa = passed && totalCredits > 0
+        ? Math.round((graded.reduce((sum, s) => sum + s.gradePoint * s.credits, 0) / totalCredits) * 100) / 100
+        : 0;
+
+    return {
+        subjects: graded,
+        obtainedMarks,
+        totalMarks,
+        percentage: totalMarks > 0 ? (obtainedMarks / totalMarks) * 100 : 0,
+        gpa,
+        letter: passed ? letterForGpa(scheme, gpa) : FAIL_LETTER,
+        passed,
+    };
+};
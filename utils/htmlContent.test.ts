@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { htmlToText, isHtmlContent, plainTextToHtml } from './htmlContent';
+
+describe('isHtmlContent', () => {
+    it('tells rich-text notices from plain text', () => {
+        expect(isHtmlContent('<p>Exams start <strong>Monday</strong>.</p>')).toBe(true);
+        expect(isHtmlContent('Marks: 40 < 50 and 60 > 50')).toBe(false);
+    });
+});
+
+describe('plainTextToHtml', () => {
+    it('turns blank lines into paragraphs and escapes markup', () => {
+        expect(plainTextToHtml('Line one\nline two\n\n<b>not bold</b>')).toBe('<p>Line one<br>line two</p><p>&lt;b&gt;not bold&lt;/b&gt;</p>');
+    });
+});
+
+describe('htmlToText', () => {
+    it('drops tags, keeps block breaks and decodes entities', () => {
+        expect(htmlToText('<h2>Routine</h2><p>Room&nbsp;301 &amp; 302</p><ul><li>Day 1</li><li>Day 2</li></ul>')).toBe('Routine\nRoom 301 & 302\nDay 1\nDay 2');
+    });
+});
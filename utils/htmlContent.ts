@@ -0,0 +1,54 @@
+// --- Notice content helpers without a DOM ---
+// Shared by the site (utils/richText.ts) and the edge functions
+// (supabase/functions/_shared/feed.ts), so this file must not import anything:
+// Deno loads it by relative path.
+
+const HTML_TAG_RE = /<(p|h[1-6]|ul|ol|li|table|br|div|a|img|strong|em|b|i|u|blockquote)\b[^>]*>/i;
+
+// Notices written before the rich-text editor are plain text.
+export const isHtmlContent = (content: string) => HTML_TAG_RE.test(content);
+
+// What stored notice HTML may contain, wherever it is sanitised: by DOMPurify
+// on the site (utils/richText.ts) and in the feeds.
+export const NOTICE_ALLOWED_TAGS = [
+    'h2', 'h3', 'h4', 'p', 'br', 'hr', 'blockquote',
+    'strong', 'b', 'em', 'i', 'u', 's', 'sub', 'sup', 'span',
+    'ul', 'ol', 'li',
+    'a', 'img',
+    'table', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td', 'caption',
+];
+
+export const NOTICE_ALLOWED_ATTR = ['href', 'src', 'alt', 'title', 'colspan', 'rowspan'];
+
+// Images must be hosted (e.g. in the notices bucket); pasted data: URIs
+// would otherwise bloat the notices table.
+export const isHostedImageSrc = (src: string) => /^https?:\/\//i.test(src);
+
+export const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Blank lines become paragraphs and single line breaks are kept, matching how
+// the old whitespace-pre-wrap rendering looked.
+export const plainTextToHtml = (text: string): string =>
+    text
+        .split(/\n{2,}/)
+        .map(block => block.trim())
+        .filter(Boolean)
+        .map(block => `<p>${escapeHtml(block).replace(/\n/g, '<br>')}</p>`)
+        .join('');
+
+// Block ends become line breaks, tags are dropped and the common entities
+// decoded. Meant for plain-text renderings (feeds, email), not for sanitising.
+export const htmlToText = (html: string): string =>
+    html
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(p|h[1-6]|li|tr|blockquote)>/gi, '\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;|&apos;/g, "'")
+        .replace(/&amp;/g, '&')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
@@ -0,0 +1,106 @@
+import * as XLSX from 'xlsx';
+
+// --- Class test / midterm mark sheet import ---
+// A mark sheet has one header row followed by one row per student:
+//   Roll | Name | Mathematics (20) | Physics (20) | ...
+// The number in brackets is the subject's total marks; subjects without one
+// use the default total chosen in the import dialog.
+
+export interface SubjectMark {
+    subject_name: string;
+    marks_obtained: number;
+    total_marks: number;
+}
+
+export interface MarkSheetSubject {
+    subject_name: string;
+    total_marks: number;
+}
+
+export interface MarkSheetRow {
+    rowNumber: number; // 1-based row number in the spreadsheet, for error messages
+    roll_number: string;
+    student_name: string;
+    subjects: SubjectMark[];
+    errors: string[];
+}
+
+export interface ParsedMarkSheet {
+    subjects: MarkSheetSubject[];
+    rows: MarkSheetRow[];
+    errors: string[];
+}
+
+const ROLL_HEADER = /^roll(\s*(no\.?|number))?$/i;
+const NAME_HEADER = /^(student\s*)?name$/i;
+const SUBJECT_TOTAL = /^(.*?)\s*[([]\s*(\d+(?:\.\d+)?)\s*[)\]]\s*$/; // "Mathematics (20)" or "Mathematics [20]"
+const ABSENT_MARK = /^(ab|abs|absent)$/i;
+
+// Reads the first worksheet of a CSV, XLS or XLSX file into rows of cell text.
+export const readMarkSheetFile = async (file: File): Promise<string[][]> => {
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+    const firstSheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (!firstSheet) return [];
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(firstSheet, { header: 1, raw: false, defval: '' });
+    return rows.map(row => row.map(cell => String(cell ?? '').trim()));
+};
+
+export const parseMarkSheet = (rows: string[][], defaultTotalMarks: number): ParsedMarkSheet => {
+    const headerIndex = rows.findIndex(row => row.some(cell => ROLL_HEADER.test(cell)));
+    if (headerIndex === -1) {
+        return { subjects: [], rows: [], errors: ['No "Roll" column was found. The first row of the sheet must contain the column headers.'] };
+    }
+
+    const header = rows[headerIndex];
+    const rollColumn = header.findIndex(cell => ROLL_HEADER.test(cell));
+    const nameColumn = header.findIndex(cell => NAME_HEADER.test(cell));
+
+    const subjectColumns: { index: number; subject: MarkSheetSubject }[] = [];
+    header.forEach((cell, index) => {
+        if (index === rollColumn || index === nameColumn || !cell) return;
+        const totalMatch = cell.match(SUBJECT_TOTAL);
+        subjectColumns.push({
+            index,
+            subject: totalMatch
+                ? { subject_name: totalMatch[1].trim(), total_marks: Number(totalMatch[2]) }
+                : { subject_name: cell, total_marks: defaultTotalMarks },
+        });
+    });
+
+    if (subjectColumns.length === 0) {
+        return { subjects: [], rows: [], errors: ['No subject columns were found next to the Roll and Name columns.'] };
+    }
+
+    const seenRolls = new Set<string>();
+    const parsedRows: MarkSheetRow[] = [];
+
+    rows.slice(headerIndex + 1).forEach((row, offset) => {
+        if (row.every(cell => !cell)) return; // Skip blank lines
+        const rowNumber = headerIndex + offset + 2;
+        const roll = (row[rollColumn] || '').replace(/\s+/g, '');
+        const errors: string[] = [];
+
+        if (!/^\d+$/.test(roll)) errors.push(`Invalid roll "${row[rollColumn] || ''}".`);
+        else if (seenRolls.has(roll)) errors.push(`Roll ${roll} appears more than once in the sheet.`);
+        seenRolls.add(roll);
+
+        const subjects = subjectColumns.map(({ index, subject }) => {
+            const cell = row[index] || '';
+            let marks = Number(cell);
+            if (ABSENT_MARK.test(cell)) marks = 0;
+            else if (cell === '' || Number.isNaN(marks)) errors.push(`Missing or invalid marks for ${subject.subject_name}.`);
+            else if (marks < 0 || marks > subject.total_marks) errors.push(`${subject.subject_name}: ${marks} is outside 0-${subject.total_marks}.`);
+            return { subject_name: subject.subject_name, marks_obtained: Number.isNaN(marks) ? 0 : marks, total_marks: subject.total_marks };
+        });
+
+        parsedRows.push({
+            rowNumber,
+            roll_number: roll,
+            student_name: nameColumn === -1 ? '' : (row[nameColumn] || ''),
+            subjects,
+            errors,
+        });
+    });
+
+    return { subjects: subjectColumns.map(c => c.subject), rows: parsedRows, errors: [] };
+};
@@ -0,0 +1,35 @@
+// --- Notice publishing window ---
+// A published notice is live between publish_at and expire_at; either may be
+// null. The public `public_notices` view applies the same rule in SQL.
+
+export type NoticeVisibility = 'draft' | 'scheduled' | 'live' | 'expired';
+
+export interface ScheduledNotice {
+    status: 'published' | 'draft';
+    publish_at: string | null;
+    expire_at: string | null;
+}
+
+export const getNoticeVisibility = (notice: ScheduledNotice, now: Date = new Date()): NoticeVisibility => {
+    if (notice.status !== 'published') return 'draft';
+    if (notice.publish_at && new Date(notice.publish_at) > now) return 'scheduled';
+    if (notice.expire_at && new Date(notice.expire_at) <= now) return 'expired';
+    return 'live';
+};
+
+// <input type="datetime-local"> works in local time without a zone suffix.
+export const toDateTimeInputValue = (iso: string | null) => {
+    if (!iso) return '';
+    const date = new Date(iso);
+    const offsetMs = date.getTimezoneOffset() * 60000;
+    return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
+export const fromDateTimeInputValue = (value: string) => (value ? new Date(value).toISOString() : null);
+
+export const validatePublishWindow = (publishAt: string | null, expireAt: string | null): string | null => {
+    if (publishAt && expireAt && new Date(expireAt) <= new Date(publishAt)) {
+        return 'The expiry time must be after the publish time.';
+    }
+    return null;
+};
@@ -0,0 +1,45 @@
+import { supabase } from '../supabase';
+
+// --- Notifications ---
+// Registration and contact form notifications are queued in the database
+// (notification_outbox) together with the data they describe, so a delivery
+// problem can no longer lose them. The notification-dispatch edge function
+// sends them with the provider chosen in Site Settings and retries failures.
+
+export type NotificationStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+export const NOTIFICATION_PROVIDERS: { value: string; label: string; description: string }[] = [
+    { value: '', label: 'Server default', description: "Uses the edge functions' MAIL_PROVIDER secret. Nothing is sent until one of the two is set." },
+    { value: 'smtp', label: 'Email (SMTP)', description: 'Sends email with the SMTP_* secrets of the edge functions.' },
+    { value: 'edge_function', label: 'Edge function', description: 'Posts each notification as JSON to another edge function, e.g. an SMS or chat relay.' },
+    { value: 'file', label: 'File sink', description: 'Appends notifications to NOTIFICATION_FILE_PATH on the function host. For local testing.' },
+    { value: 'console', label: 'Console', description: 'Only writes notifications to the function logs. For local testing.' },
+];
+
+export interface DispatchResult {
+    provider: string;
+    claimed: number;
+    sent: number;
+    retrying: number;
+    failed: number;
+    // Rows delivered or failed whose outcome couldn't be saved.
+    unrecorded: number[];
+}
+
+// Asks the dispatcher to send what was just queued. Failure here isn't an
+// error for the visitor: the notification is already in the outbox and the
+// next scheduled run picks it up.
+export const requestNotificationDispatch = async (): Promise<DispatchResult | { error: string }> => {
+    const { data, error } = await supabase.functions.invoke('notification-dispatch', { method: 'POST' });
+    if (error) {
+        let message = error.message;
+        if ('context' in error) {
+            try {
+                message = (await (error.context as Response).json())?.error || message;
+            } catch { /* keep the generic message */ }
+        }
+        console.warn('Notification dispatch will be retried by the scheduled run:', message);
+        return { error: message };
+    }
+    return data as DispatchResult;
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { fetchAllPages } from './pagination';
+
+const table = Array.from({ length: 25 }, (_, i) => i);
+
+describe('fetchAllPages', () => {
+    it('keeps requesting until a short page', async () => {
+        const ranges: [number, number][] = [];
+        const rows = await fetchAllPages<number>(async (from, to) => {
+            ranges.push([from, to]);
+            return { data: table.slice(from, to + 1), error: null };
+        }, 10);
+        expect(rows).toEqual(table);
+        expect(ranges).toEqual([[0, 9], [10, 19], [20, 29]]);
+    });
+
+    it('makes one extra request when the last page is full', async () => {
+        let calls = 0;
+        const rows = await fetchAllPages<number>(async (from, to) => {
+            calls += 1;
+            return { data: table.slice(0, 20).slice(from, to + 1), error: null };
+        }, 10);
+        expect(rows).toHaveLength(20);
+        expect(calls).toBe(3);
+    });
+
+    it('throws the query error', async () => {
+        const error = { message: 'permission denied' };
+        await expect(fetchAllPages(async () => ({ data: null, error }))).rejects.toBe(error);
+    });
+});
@@ -0,0 +1,20 @@
+// --- Paged reads ---
+
+// PostgREST caps a response at 1000 rows.
+export const PAGE_SIZE = 1000;
+
+// Reads every row of a query page by page. `fetchPage` gets the inclusive row
+// range to request and should keep a stable `.order()` so pages don't overlap.
+export const fetchAllPages = async <T,>(
+    fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>,
+    pageSize = PAGE_SIZE,
+): Promise<T[]> => {
+    const rows: T[] = [];
+    for (let from = 0; ; from += pageSize) {
+        const { data, error } = await fetchPage(from, from + pageSize - 1);
+        if (error) throw error;
+        rows.push(...(data || []));
+        if (!data || data.length < pageSize) break;
+    }
+    return rows;
+};
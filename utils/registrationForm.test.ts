@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_REGISTRATION_FORM, MAX_ANSWER_LENGTH, cleanRegistrationAnswers, validateRegistrationAnswers, validateRegistrationForm, type RegistrationFormSchema } from './registrationForm';
+
+const VALID_ANSWERS = {
+    full_name: 'Rahim Uddin',
+    roll: '600101',
+    phone: '01712345678',
+    email: 'rahim@example.com',
+    department: 'Computer',
+    session: '2023-2024',
+    semester: '3rd Semester',
+    shift: 'Morning',
+    student_group: 'A',
+};
+
+const form = (type: RegistrationFormSchema['fields'][number]['type']): RegistrationFormSchema => ({
+    version: 1,
+    fields: [{ id: 'answer', label: 'Answer', type, required: true }],
+});
+
+describe('validateRegistrationAnswers', () => {
+    it('requires every field of the default form', () => {
+        expect(validateRegistrationAnswers(DEFAULT_REGISTRATION_FORM, VALID_ANSWERS)).toEqual({});
+        const errors = validateRegistrationAnswers(DEFAULT_REGISTRATION_FORM, { ...VALID_ANSWERS, department: '', shift: '' });
+        expect(Object.keys(errors)).toEqual(['department', 'shift']);
+    });
+
+    it('checks the default phone pattern', () => {
+        expect(validateRegistrationAnswers(DEFAULT_REGISTRATION_FORM, { ...VALID_ANSWERS, phone: '+880 1712-345678' })).toEqual({ phone: 'Phone number must be exactly 11 digits.' });
+    });
+
+    it('accepts only real YYYY-MM-DD dates', () => {
+        expect(validateRegistrationAnswers(form('date'), { answer: '2026-02-28' })).toEqual({});
+        expect(validateRegistrationAnswers(form('date'), { answer: '2026-02-30' }).answer).toBeDefined();
+        expect(validateRegistrationAnswers(form('date'), { answer: 'March 3, 2026' }).answer).toBeDefined();
+    });
+
+    it('checks sessions and phone numbers without a pattern', () => {
+        expect(validateRegistrationAnswers(form('session'), { answer: '2023-24' }).answer).toBeDefined();
+        expect(validateRegistrationAnswers(form('phone'), { answer: '+880 1712-345678' })).toEqual({});
+        expect(validateRegistrationAnswers(form('phone'), { answer: 'call me' }).answer).toBeDefined();
+    });
+
+    it('accepts only plain decimal numbers, as the database does', () => {
+        expect(validateRegistrationAnswers(form('number'), { answer: '-12.5' })).toEqual({});
+        for (const answer of ['1e3', '0x10', 'Infinity', '.5', '1.']) {
+            expect(validateRegistrationAnswers(form('number'), { answer }).answer).toBe('Answer must be a number.');
+        }
+    });
+
+    it('checks the options of selects and checkboxes', () => {
+        const schema: RegistrationFormSchema = {
+            version: 1,
+            fields: [
+                { id: 'shift', label: 'Shift', type: 'select', required: true, options: ['Morning', 'Day'] },
+                { id: 'topics', label: 'Topics', type: 'checkboxes', required: false, options: ['Web', 'Robotics'] },
+            ],
+        };
+        expect(validateRegistrationAnswers(schema, { shift: 'Day', topics: ['Web'] })).toEqual({});
+        expect(validateRegistrationAnswers(schema, { shift: 'Evening', topics: ['Web', 'Chess'] })).toEqual({
+            shift: 'Please choose a valid option for Shift.',
+            topics: "'Chess' is not an option for Topics.",
+        });
+    });
+
+    it('applies min and max to numbers', () => {
+        const schema: RegistrationFormSchema = { version: 1, fields: [{ id: 'age', label: 'Age', type: 'number', required: true, validation: { min: 16, max: 30 } }] };
+        expect(validateRegistrationAnswers(schema, { age: '18' })).toEqual({});
+        expect(validateRegistrationAnswers(schema, { age: '15' })).toEqual({ age: 'Age must be at least 16.' });
+        expect(validateRegistrationAnswers(schema, { age: '31' })).toEqual({ age: 'Age must be at most 30.' });
+    });
+
+    it('does not block registrants over a broken pattern', () => {
+        const schema: RegistrationFormSchema = { version: 1, fields: [{ id: 'answer', label: 'Answer', type: 'text', required: true, validation: { pattern: '([' } }] };
+        expect(validateRegistrationAnswers(schema, { answer: 'anything' })).toEqual({});
+    });
+
+    it(`caps answers at ${MAX_ANSWER_LENGTH} characters when the field sets no limit`, () => {
+        expect(validateRegistrationAnswers(form('textarea'), { answer: 'a'.repeat(MAX_ANSWER_LENGTH) })).toEqual({});
+        expect(validateRegistrationAnswers(form('textarea'), { answer: 'a'.repeat(MAX_ANSWER_LENGTH + 1) }).answer).toBe(`Answer must be at most ${MAX_ANSWER_LENGTH} characters.`);
+    });
+});
+
+describe('validateRegistrationForm', () => {
+    it('keeps the core fields and needs options for choice fields', () => {
+        expect(validateRegistrationForm(DEFAULT_REGISTRATION_FORM)).toEqual([]);
+        expect(validateRegistrationForm({
+            version: 1,
+            fields: [
+                { id: 'roll', label: 'Roll', type: 'text', required: true },
+                { id: 'shift', label: 'Shift', type: 'select', required: true, options: [] },
+                { id: 'code', label: 'Code', type: 'text', required: false, validation: { pattern: '([' } },
+            ],
+        })).toEqual(['"Shift" needs at least one option.', '"Code" has an invalid pattern.', 'The form must keep the "full_name" field.']);
+    });
+});
+
+describe('cleanRegistrationAnswers', () => {
+    it('trims text and drops empty answers and answers to other fields', () => {
+        expect(cleanRegistrationAnswers(form('text'), { answer: '  Rahim  ', extra: 'x' })).toEqual({ answer: 'Rahim' });
+        expect(cleanRegistrationAnswers(form('text'), { answer: '   ' })).toEqual({});
+    });
+});
@@ -0,0 +1,263 @@
+// --- Event registration forms ---
+// Each event can define its own registration form in events.registration_form;
+// null means DEFAULT_REGISTRATION_FORM, the fields the page always had. Answers
+// are saved as JSON keyed by field id. `full_name` and `roll` are part of every
+// form: duplicate checks and the admin list rely on them.
+// register_for_event() repeats the validation below in the database.
+
+export type RegistrationFieldType =
+    | 'text'
+    | 'textarea'
+    | 'email'
+    | 'phone'
+    | 'number'
+    | 'url'
+    | 'date'
+    | 'select'
+    | 'radio'
+    | 'checkboxes'
+    | 'session';
+
+export interface RegistrationFieldValidation {
+    minLength?: number;
+    maxLength?: number;
+    min?: number;
+    max?: number;
+    pattern?: string;
+    patternMessage?: string;
+}
+
+export interface RegistrationField {
+    id: string;
+    label: string;
+    type: RegistrationFieldType;
+    required: boolean;
+    placeholder?: string;
+    helpText?: string;
+    options?: string[];
+    validation?: RegistrationFieldValidation;
+}
+
+export interface RegistrationFormSchema {
+    version: 1;
+    fields: RegistrationField[];
+}
+
+export type RegistrationAnswerValue = string | string[];
+export type RegistrationAnswers = Record<string, RegistrationAnswerValue>;
+
+export const REGISTRATION_FIELD_TYPES: { value: RegistrationFieldType; label: string }[] = [
+    { value: 'text', label: 'Short text' },
+    { value: 'textarea', label: 'Long text' },
+    { value: 'email', label: 'Email' },
+    { value: 'phone', label: 'Phone number' },
+    { value: 'number', label: 'Number' },
+    { value: 'url', label: 'Link (URL)' },
+    { value: 'date', label: 'Date' },
+    { value: 'select', label: 'Dropdown' },
+    { value: 'radio', label: 'Multiple choice' },
+    { value: 'checkboxes', label: 'Checkboxes' },
+    { value: 'session', label: 'Academic session' },
+];
+
+export const CORE_FIELD_IDS = ['full_name', 'roll'];
+export const OPTION_FIELD_TYPES: RegistrationFieldType[] = ['select', 'radio', 'checkboxes'];
+const TEXT_FIELD_TYPES: RegistrationFieldType[] = ['text', 'textarea', 'email', 'phone', 'url'];
+
+export const fieldHasOptions = (type: RegistrationFieldType) => OPTION_FIELD_TYPES.includes(type);
+export const fieldHasTextRules = (type: RegistrationFieldType) => TEXT_FIELD_TYPES.includes(type);
+
+export const DEFAULT_REGISTRATION_FORM: RegistrationFormSchema = {
+    version: 1,
+    fields: [
+        { id: 'full_name', label: 'Full Name', type: 'text', required: true },
+        { id: 'roll', label: 'Roll', type: 'text', required: true },
+        { id: 'phone', label: 'Phone Number', type: 'phone', required: true, validation: { pattern: '^\\d{11}$', patternMessage: 'Phone number must be exactly 11 digits.' } },
+        { id: 'email', label: 'Email Address', type: 'email', required: true },
+        { id: 'department', label: 'Department', type: 'select', required: true, options: ['Computer', 'Civil', 'Architecture', 'Mechanical', 'Power', 'Electrical'] },
+        { id: 'session', label: 'Session', type: 'session', required: true },
+        { id: 'semester', label: 'Semester', type: 'select', required: true, options: ['1st Semester', '2nd Semester', '3rd Semester', '4th Semester', '5th Semester', '6th Semester', '7th Semester', '8th Semester'] },
+        { id: 'shift', label: 'Shift', type: 'radio', required: true, options: ['Morning', 'Day'] },
+        { id: 'student_group', label: 'Group', type: 'radio', required: true, options: ['A', 'B'] },
+    ],
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const URL_PATTERN = /^https?:\/\/\S+$/i;
+const PHONE_PATTERN = /^\+?[\d\s-]{6,20}$/;
+// Plain decimals only, as the database checks them; Number() would also take
+// "1e3", "0x10" and "Infinity".
+const NUMBER_PATTERN = /^-?[0-9]+(\.[0-9]+)?$/;
+// Date inputs give YYYY-MM-DD; the round trip rejects days like 02-30.
+const isIsoDate = (text: string) => {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(text)) return false;
+    const date = new Date(`${text}T00:00:00Z`);
+    return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === text;
+};
+// Applies when a field sets no maxLength, so one answer can't fill the table.
+export const MAX_ANSWER_LENGTH = 2000;
+
+// Sessions run "2024-2025"; offered from ten years back to next year, newest first.
+export const academicSessionOptions = (now: Date = new Date()) => {
+    const currentYear = now.getFullYear();
+    const sessions: string[] = [];
+    for (let year = currentYear + 1; year >= currentYear - 10; year--) {
+        sessions.push(`${year}-${year + 1}`);
+    }
+    return sessions;
+};
+
+export const slugifyFieldId = (label: string) =>
+    label.toLowerCase().trim().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 40) || 'field';
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const toNumber = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : undefined);
+
+// Stored forms are edited by hand in the admin panel, so anything unexpected
+// is dropped rather than trusted. The core fields are always put back.
+export const normalizeRegistrationForm = (raw: unknown): RegistrationFormSchema => {
+    if (!isRecord(raw) || !Array.isArray(raw.fields)) return DEFAULT_REGISTRATION_FORM;
+    const typeValues = REGISTRATION_FIELD_TYPES.map(t => t.value);
+    const seen = new Set<string>();
+    const fields: RegistrationField[] = [];
+    for (const item of raw.fields) {
+        if (!isRecord(item) || typeof item.id !== 'string' || typeof item.label !== 'string') continue;
+        const type = typeValues.includes(item.type as RegistrationFieldType) ? (item.type as RegistrationFieldType) : 'text';
+        const id = slugifyFieldId(item.id);
+        if (seen.has(id)) continue;
+        seen.add(id);
+        const validation = isRecord(item.validation) ? item.validation : {};
+        fields.push({
+            id,
+            label: item.label.trim() || id,
+            type,
+            required: CORE_FIELD_IDS.includes(id) || item.required === true,
+            placeholder: typeof item.placeholder === 'string' && item.placeholder ? item.placeholder : undefined,
+            helpText: typeof item.helpText === 'string' && item.helpText ? item.helpText : undefined,
+            options: fieldHasOptions(type) && Array.isArray(item.options) ? item.options.filter((o): o is string => typeof o === 'string' && o.trim() !== '') : undefined,
+            validation: {
+                minLength: toNumber(validation.minLength),
+                maxLength: toNumber(validation.maxLength),
+                min: toNumber(validation.min),
+                max: toNumber(validation.max),
+                pattern: typeof validation.pattern === 'string' && validation.pattern ? validation.pattern : undefined,
+                patternMessage: typeof validation.patternMessage === 'string' && validation.patternMessage ? validation.patternMessage : undefined,
+            },
+        });
+    }
+    for (const coreId of [...CORE_FIELD_IDS].reverse()) {
+        if (!seen.has(coreId)) fields.unshift({ ...DEFAULT_REGISTRATION_FORM.fields.find(f => f.id === coreId)! });
+    }
+    return { version: 1, fields };
+};
+
+// Problems an admin has to fix before the form can be saved.
+export const validateRegistrationForm = (schema: RegistrationFormSchema): string[] => {
+    const errors: string[] = [];
+    const ids = new Set<string>();
+    schema.fields.forEach((field, index) => {
+        const name = field.label.trim() || `Field ${index + 1}`;
+        if (!field.label.trim()) errors.push(`Field ${index + 1} needs a label.`);
+        if (ids.has(field.id)) errors.push(`"${name}" has the same key as another field (${field.id}).`);
+        ids.add(field.id);
+        if (fieldHasOptions(field.type) && (!field.options || field.options.length === 0)) {
+            errors.push(`"${name}" needs at least one option.`);
+        }
+        const rules = field.validation || {};
+        if (rules.pattern) {
+            try {
+                new RegExp(rules.pattern);
+            } catch {
+                errors.push(`"${name}" has an invalid pattern.`);
+            }
+        }
+        if (rules.minLength !== undefined && rules.maxLength !== undefined && rules.minLength > rules.maxLength) {
+            errors.push(`"${name}": the minimum length is larger than the maximum.`);
+        }
+        if (rules.min !== undefined && rules.max !== undefined && rules.min > rules.max) {
+            errors.push(`"${name}": the minimum is larger than the maximum.`);
+        }
+    });
+    CORE_FIELD_IDS.forEach(id => {
+        if (!ids.has(id)) errors.push(`The form must keep the "${id}" field.`);
+    });
+    return errors;
+};
+
+export const isEmptyAnswer = (value: RegistrationAnswerValue | undefined) =>
+    value === undefined || (Array.isArray(value) ? value.length === 0 : value.trim() === '');
+
+const validateField = (field: RegistrationField, value: RegistrationAnswerValue | undefined): string | null => {
+    if (isEmptyAnswer(value)) {
+        return field.required ? `Please fill out the '${field.label}' field.` : null;
+    }
+    const rules = field.validation || {};
+
+    if (Array.isArray(value)) {
+        const invalid = value.find(v => !(field.options || []).includes(v));
+        return invalid ? `'${invalid}' is not an option for ${field.label}.` : null;
+    }
+
+    const text = value!.trim();
+    if ((field.type === 'select' || field.type === 'radio') && !(field.options || []).includes(text)) {
+        return `Please choose a valid option for ${field.label}.`;
+    }
+    if (field.type === 'email' && !EMAIL_PATTERN.test(text)) return 'Please enter a valid email address.';
+    if (field.type === 'url' && !URL_PATTERN.test(text)) return `${field.label} must be a link starting with http:// or https://.`;
+    if (field.type === 'phone' && !rules.pattern && !PHONE_PATTERN.test(text)) return `Please enter a valid phone number for ${field.label}.`;
+    if (field.type === 'date' && !isIsoDate(text)) return `Please enter a valid date for ${field.label}.`;
+    if (field.type === 'session' && !/^\d{4}-\d{4}$/.test(text)) return `Please choose a session for ${field.label}.`;
+    if (field.type === 'number') {
+        if (!NUMBER_PATTERN.test(text)) return `${field.label} must be a number.`;
+        const number = Number(text);
+        if (rules.min !== undefined && number < rules.min) return `${field.label} must be at least ${rules.min}.`;
+        if (rules.max !== undefined && number > rules.max) return `${field.label} must be at most ${rules.max}.`;
+    }
+    if (rules.minLength !== undefined && text.length < rules.minLength) return `${field.label} must be at least ${rules.minLength} characters.`;
+    const maxLength = rules.maxLength ?? MAX_ANSWER_LENGTH;
+    if (text.length > maxLength) return `${field.label} must be at most ${maxLength} characters.`;
+    if (rules.pattern) {
+        try {
+            if (!new RegExp(rules.pattern).test(text)) return rules.patternMessage || `${field.label} is not in the expected format.`;
+        } catch {
+            // A broken pattern is the admin's mistake; don't block registrants over it.
+        }
+    }
+    return null;
+};
+
+// Returns an error message per field id; empty when the answers are valid.
+export const validateRegistrationAnswers = (schema: RegistrationFormSchema, answers: RegistrationAnswers) => {
+    const errors: Record<string, string> = {};
+    schema.fields.forEach(field => {
+        const error = validateField(field, answers[field.id]);
+        if (error) errors[field.id] = error;
+    });
+    return errors;
+};
+
+// Trims text and drops answers to fields the form doesn't have.
+export const cleanRegistrationAnswers = (schema: RegistrationFormSchema, answers: RegistrationAnswers): RegistrationAnswers => {
+    const cleaned: RegistrationAnswers = {};
+    schema.fields.forEach(field => {
+        const value = answers[field.id];
+        if (isEmptyAnswer(value)) return;
+        cleaned[field.id] = Array.isArray(value) ? value : value!.trim();
+    });
+    return cleaned;
+};
+
+export const initialRegistrationAnswers = (schema: RegistrationFormSchema): RegistrationAnswers =>
+    Object.fromEntries(schema.fields.map(field => {
+        if (field.type === 'checkboxes') return [field.id, []];
+        // Keep the old page's behaviour of pre-selecting the first choice for radio groups.
+        if (field.type === 'radio' && field.required && field.options?.length) return [field.id, field.options[0]];
+        return [field.id, ''];
+    }));
+
+export const formatRegistrationAnswer = (value: unknown): string => {
+    if (Array.isArray(value)) return value.join(', ');
+    if (value === null || value === undefined) return '';
+    return String(value);
+};
@@ -0,0 +1,181 @@
+import { gradeResult, type GradingScheme, type MarkedSubject } from './grading';
+import { getResultStatus, type FinalResultData } from './resultParser';
+
+// --- Class-wide result analytics ---
+// Aggregates for the admin analytics page. Pure functions over rows already
+// fetched from `other_results` and `final_results`.
+
+export interface MarksSummary {
+    count: number;
+    mean: number;
+    median: number;
+    min: number;
+    max: number;
+}
+
+export interface HistogramBucket {
+    label: string;
+    count: number;
+}
+
+export interface SubjectStats {
+    subject_name: string;
+    students: number;
+    averagePercentage: number;
+    medianPercentage: number;
+    passRate: number;
+    failed: number;
+}
+
+export interface TopPerformer {
+    roll: string;
+    name: string;
+    score: number; // percentage for other results, latest GPA for final results
+    gpa: number;
+}
+
+export interface OtherResultsAnalytics {
+    students: number;
+    passed: number;
+    passRate: number;
+    percentage: MarksSummary;
+    gpa: MarksSummary;
+    gradeDistribution: HistogramBucket[];
+    subjects: SubjectStats[]; // weakest first
+    topPerformers: TopPerformer[];
+}
+
+export interface FinalResultsAnalytics {
+    students: number;
+    passed: number;
+    referred: number;
+    dropout: number;
+    passRate: number;
+    gpa: MarksSummary;
+    gpaDistribution: HistogramBucket[];
+    mostReferredSubjects: HistogramBucket[];
+    topPerformers: TopPerformer[];
+}
+
+export interface OtherResultInput {
+    roll_number: string;
+    student_name: string;
+    subjects: MarkedSubject[];
+}
+
+const TOP_PERFORMER_COUNT = 10;
+const MOST_REFERRED_COUNT = 10;
+
+const GPA_BUCKETS = [
+    { label: '3.75 - 4.00', min: 3.75 },
+    { label: '3.50 - 3.74', min: 3.5 },
+    { label: '3.00 - 3.49', min: 3.0 },
+    { label: '2.50 - 2.99', min: 2.5 },
+    { label: '2.00 - 2.49', min: 2.0 },
+    { label: 'Below 2.00', min: 0 },
+];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const summarizeValues = (values: number[]): MarksSummary => {
+    if (values.length === 0) return { count: 0, mean: 0, median: 0, min: 0, max: 0 };
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    const median = sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+    return {
+        count: sorted.length,
+        mean: round(sorted.reduce((sum, v) => sum + v, 0) / sorted.length),
+        median: round(median),
+        min: round(sorted[0]),
+        max: round(sorted[sorted.length - 1]),
+    };
+};
+
+const gpaHistogram = (gpas: number[]): HistogramBucket[] => GPA_BUCKETS.map((bucket, i) => {
+    const upper = i === 0 ? Infinity : GPA_BUCKETS[i - 1].min;
+    return { label: bucket.label, count: gpas.filter(g => g >= bucket.min && g < upper).length };
+});
+
+export const analyzeOtherResults = (results: OtherResultInput[], scheme: GradingScheme): OtherResultsAnalytics => {
+    const graded = results.map(r => ({ result: r, graded: gradeResult(r.subjects || [], scheme) }));
+    const passed = graded.filter(g => g.graded.passed).length;
+
+    const letterCounts = new Map(scheme.bands.map(b => [b.letter, 0]));
+    graded.forEach(g => letterCounts.set(g.graded.letter, (letterCounts.get(g.graded.letter) || 0) + 1));
+
+    const bySubject = new Map<string, { percentages: number[]; failed: number }>();
+    graded.forEach(({ graded: g }) => g.subjects.forEach(s => {
+        const entry = bySubject.get(s.subject_name) || { percentages: [], failed: 0 };
+        entry.percentages.push(s.percentage);
+        if (!s.passed) entry.failed += 1;
+        bySubject.set(s.subject_name, entry);
+    }));
+
+    const subjects: SubjectStats[] = [...bySubject.entries()].map(([subject_name, entry]) => {
+        const summary = summarizeValues(entry.percentages);
+        return {
+            subject_name,
+            students: summary.count,
+            averagePercentage: summary.mean,
+            medianPercentage: summary.median,
+            passRate: round(((summary.count - entry.failed) / summary.count) * 100),
+            failed: entry.failed,
+        };
+    }).sort((a, b) => a.passRate - b.passRate || a.averagePercentage - b.averagePercentage);
+
+    const topPerformers = graded
+        .map(({ result, graded: g }) => ({ roll: result.roll_number, name: result.student_name, score: round(g.percentage), gpa: g.gpa }))
+        .sort((a, b) => b.gpa - a.gpa || b.score - a.score)
+        .slice(0, TOP_PERFORMER_COUNT);
+
+    return {
+        students: results.length,
+        passed,
+        passRate: results.length > 0 ? round((passed / results.length) * 100) : 0,
+        percentage: summarizeValues(graded.map(g => g.graded.percentage)),
+        gpa: summarizeValues(graded.filter(g => g.graded.passed).map(g => g.graded.gpa)),
+        gradeDistribution: [...letterCounts.entries()].map(([label, count]) => ({ label, count })),
+        subjects,
+        topPerformers,
+    };
+};
+
+// GPA of the most recent semester that has a numeric GPA, or null.
+export const latestNumericGpa = (result: FinalResultData): number | null => {
+    for (let i = result.gpas.length - 1; i >= 0; i--) {
+        const gpa = parseFloat(result.gpas[i].gpa);
+        if (!Number.isNaN(gpa)) return gpa;
+    }
+    return null;
+};
+
+export const analyzeFinalResults = (results: FinalResultData[]): FinalResultsAnalytics => {
+    const counts = { passed: 0, referred: 0, dropout: 0 };
+    const referredCounts = new Map<string, number>();
+    const gpas: number[] = [];
+    const performers: TopPerformer[] = [];
+
+    results.forEach(result => {
+        const status = getResultStatus(result);
+        counts[status] += 1;
+        result.referredSubjects.forEach(code => referredCounts.set(code, (referredCounts.get(code) || 0) + 1));
+        const gpa = latestNumericGpa(result);
+        if (status === 'passed' && gpa !== null) {
+            gpas.push(gpa);
+            performers.push({ roll: result.roll, name: '', score: gpa, gpa });
+        }
+    });
+
+    return {
+        students: results.length,
+        ...counts,
+        passRate: results.length > 0 ? round((counts.passed / results.length) * 100) : 0,
+        gpa: summarizeValues(gpas),
+        gpaDistribution: gpaHistogram(gpas),
+        mostReferredSubjects: [...referredCounts.entries()]
+            .map(([label, count]) => ({ label, count }))
+            .sort((a, b) => b.count - a.count)
+            .slice(0, MOST_REFERRED_COUNT),
+        topPerformers: performers.sort((a, b) => b.gpa - a.gpa).slice(0, TOP_PERFORMER_COUNT),
+    };
+};
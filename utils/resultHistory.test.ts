@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { buildResultHistory, computeCgpa, type OtherHistoryInput, type SessionResult } from './resultHistory';
+import { DEFAULT_GRADING_SCHEME } from './grading';
+
+const final = (session_name: string, gpas: [string, string][], referredSubjects: string[] = []): SessionResult => ({
+    session_name,
+    result: { roll: '600101', gpas: gpas.map(([semester, gpa]) => ({ semester, gpa })), referredSubjects },
+});
+
+const other = (semester: string, exam_name: string): OtherHistoryInput => ({
+    id: `${semester}-${exam_name}`,
+    exam_name,
+    semester,
+    student_group: 'A',
+    student_name: 'Rahim Uddin',
+    subjects: [{ subject_name: 'Mathematics', marks_obtained: 18, total_marks: 25 }],
+});
+
+describe('computeCgpa', () => {
+    it('weights each semester by the BTEB weights', () => {
+        const semesters = ['1st', '2nd', '3rd', '4th', '5th', '6th', '7th', '8th'].map((s, i) => ({ semester: `${s} Semester`, gpa: i < 4 ? 3 : 4 }));
+        // (3 * 25 + 4 * 75) / 100
+        expect(computeCgpa(semesters)).toBe(3.75);
+    });
+
+    it('normalises by the weights covered so far', () => {
+        expect(computeCgpa([
+            { semester: '1st Semester', gpa: 3 },
+            { semester: '4th Semester', gpa: 4 },
+        ])).toBe(3.67);
+    });
+
+    it('has no CGPA while a semester is referred', () => {
+        expect(computeCgpa([
+            { semester: '1st Semester', gpa: 3.5 },
+            { semester: '2nd Semester', gpa: null },
+            { semester: '3rd Semester', gpa: 3.8 },
+        ])).toBeNull();
+    });
+});
+
+describe('buildResultHistory', () => {
+    it('uses the retaken GPA for the running CGPA', () => {
+        const history = buildResultHistory([
+            final('2022-23', [['1st Semester', '3.00'], ['2nd Semester', 'Ref.']], ['26711(T)']),
+            final('2023-24', [['2nd Semester', '4.00'], ['4th Semester', '3.50']]),
+        ], [], DEFAULT_GRADING_SCHEME);
+        expect(history.gpaTrend.map(p => p.cgpa)).toEqual([3, 3.5, 3.5]);
+        expect(history.latestCgpa).toBe(3.5);
+    });
+
+    it('shows no running CGPA from a referred semester on', () => {
+        const history = buildResultHistory([
+            final('2022-23', [['1st Semester', '3.00'], ['2nd Semester', 'Ref.'], ['3rd Semester', '4.00']], ['26721(T)']),
+        ], [], DEFAULT_GRADING_SCHEME);
+        expect(history.gpaTrend.map(p => p.gpa)).toEqual([3, null, 4]);
+        expect(history.gpaTrend.map(p => p.cgpa)).toEqual([3, null, null]);
+    });
+
+    it('clears a referred subject once a later sheet no longer lists it', () => {
+        const history = buildResultHistory([
+            final('2022-23', [['1st Semester', 'Ref.']], ['26711(T)', '26712(P)']),
+            final('2023-24', [['1st Semester', '3.10']], ['26712(P)']),
+        ], [], DEFAULT_GRADING_SCHEME);
+        expect(history.cleared).toEqual([{ code: '26711(T)', referredIn: '2022-23', clearedIn: '2023-24' }]);
+        expect(history.outstanding).toEqual([{ code: '26712(P)', referredIn: '2022-23', clearedIn: null }]);
+    });
+
+    it('does not clear subjects on a drop out sheet', () => {
+        const history = buildResultHistory([
+            final('2022-23', [['1st Semester', 'Ref.']], ['26711(T)']),
+            { session_name: '2023-24', result: { roll: '600101', gpas: [], referredSubjects: [], status: 'dropout' } },
+        ], [], DEFAULT_GRADING_SCHEME);
+        expect(history.outstanding.map(r => r.code)).toEqual(['26711(T)']);
+        expect(history.isDropout).toBe(true);
+    });
+
+    it('puts class tests and midterms before the final sheet of their semester', () => {
+        const history = buildResultHistory(
+            [final('2022-23', [['1st Semester', '3.00']])],
+            [other('2nd Semester', 'Class Test'), other('1st Semester', 'Midterm Exam'), other('1st Semester', 'Class Test')],
+            DEFAULT_GRADING_SCHEME,
+        );
+        expect(history.timeline.map(entry => (entry.kind === 'final' ? entry.session_name : `${entry.semester} ${entry.exam_name}`))).toEqual([
+            '1st Semester Class Test',
+            '1st Semester Midterm Exam',
+            '2022-23',
+            '2nd Semester Class Test',
+        ]);
+    });
+});
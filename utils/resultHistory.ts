@@ -0,0 +1,134 @@
+import { gradeResult, type GradedResult, type GradingScheme, type MarkedSubject } from './grading';
+import { getResultStatus, type FinalResultData, type FinalResultStatus } from './resultParser';
+
+// --- Student result history ---
+// Combines every final result session and every class test / midterm of one
+// roll into a single chronological view for the "Full History" lookup.
+
+export interface SessionResult {
+    session_name: string;
+    result: FinalResultData;
+}
+
+export interface OtherHistoryInput {
+    id: string;
+    exam_name: string;
+    semester: string;
+    student_group: string;
+    student_name: string;
+    subjects: MarkedSubject[];
+}
+
+export interface GpaTrendPoint {
+    semester: string;
+    gpa: number | null; // null while the semester is referred
+    cgpa: number | null; // weighted CGPA up to this semester; null once a semester so far is referred
+}
+
+export interface ReferredSubjectHistory {
+    code: string;
+    referredIn: string; // first session that listed it
+    clearedIn: string | null; // first later session that no longer lists it
+}
+
+export type HistoryEntry =
+    | { kind: 'final'; session_name: string; status: FinalResultStatus; result: FinalResultData }
+    | { kind: 'other'; semester: string; exam_name: string; result: OtherHistoryInput; graded: GradedResult };
+
+export interface ResultHistory {
+    timeline: HistoryEntry[];
+    gpaTrend: GpaTrendPoint[];
+    latestCgpa: number | null;
+    outstanding: ReferredSubjectHistory[];
+    cleared: ReferredSubjectHistory[];
+    isDropout: boolean;
+}
+
+const EXAM_ORDER = ['Class Test', 'Quiz Test', 'Midterm Exam'];
+
+const semesterNumber = (semester: string) => parseInt(semester, 10) || 0;
+
+// BTEB weights each semester's GPA when computing the diploma CGPA (percent,
+// 1st to 8th semester).
+export const BTEB_SEMESTER_WEIGHTS = [5, 5, 5, 10, 15, 20, 25, 15];
+
+// Weighted CGPA of the given semesters, normalised by the weights covered so
+// far so it can be shown before the 8th semester. A referred semester has no
+// GPA, so there is no CGPA until it is passed.
+export const computeCgpa = (semesters: { semester: string; gpa: number | null }[]): number | null => {
+    let weighted = 0;
+    let totalWeight = 0;
+    for (const { semester, gpa } of semesters) {
+        const weight = BTEB_SEMESTER_WEIGHTS[semesterNumber(semester) - 1];
+        if (weight === undefined) continue;
+        if (gpa === null) return null;
+        weighted += gpa * weight;
+        totalWeight += weight;
+    }
+    return totalWeight > 0 ? Math.round((weighted / totalWeight) * 100) / 100 : null;
+};
+
+// Sessions are named by academic year ("2021-22"), so their names sort chronologically.
+const compareSessions = (a: SessionResult, b: SessionResult) => a.session_name.localeCompare(b.session_name, undefined, { numeric: true });
+
+export const buildResultHistory = (finals: SessionResult[], others: OtherHistoryInput[], scheme: GradingScheme): ResultHistory => {
+    const sessions = [...finals].sort(compareSessions);
+
+    // A later sheet's GPA for a semester replaces an earlier one (e.g. "Ref." becomes 3.10 after a retake).
+    const semesterGpas = new Map<string, string>();
+    sessions.forEach(({ result }) => result.gpas.forEach(g => semesterGpas.set(g.semester, g.gpa)));
+
+    const semesterResults = [...semesterGpas.entries()]
+        .sort(([a], [b]) => semesterNumber(a) - semesterNumber(b))
+        .map(([semester, gpaText]) => {
+            const gpa = parseFloat(gpaText);
+            return { semester, gpa: Number.isNaN(gpa) ? null : gpa };
+        });
+    const gpaTrend: GpaTrendPoint[] = semesterResults.map((point, i) => ({ ...point, cgpa: computeCgpa(semesterResults.slice(0, i + 1)) }));
+
+    // Every BTEB sheet lists all subjects still referred at that point, so a
+    // subject missing from a later sheet has been passed. Drop-out rows list no
+    // subjects at all, so they clear nothing.
+    const referred = new Map<string, ReferredSubjectHistory>();
+    sessions.forEach(({ session_name, result }) => {
+        if (result.status === 'dropout') return;
+        const listed = new Set(result.referredSubjects);
+        referred.forEach(entry => {
+            if (!entry.clearedIn && !listed.has(entry.code)) entry.clearedIn = session_name;
+        });
+        listed.forEach(code => {
+            const entry = referred.get(code);
+            if (!entry) referred.set(code, { code, referredIn: session_name, clearedIn: null });
+            else if (entry.clearedIn) referred.set(code, { code, referredIn: session_name, clearedIn: null }); // referred again
+        });
+    });
+
+    // Class tests and midterms happen during a semester, before that semester's final sheet.
+    const otherEntries = [...others]
+        .sort((a, b) => semesterNumber(a.semester) - semesterNumber(b.semester) || EXAM_ORDER.indexOf(a.exam_name) - EXAM_ORDER.indexOf(b.exam_name))
+        .map(result => ({
+            semesterKey: semesterNumber(result.semester),
+            entry: { kind: 'other', semester: result.semester, exam_name: result.exam_name, result, graded: gradeResult(result.subjects || [], scheme) } as HistoryEntry,
+        }));
+
+    let previousKey = 0;
+    const finalEntries = sessions.map(({ session_name, result }) => {
+        const semesterKey = Math.max(previousKey, ...result.gpas.map(g => semesterNumber(g.semester)));
+        previousKey = semesterKey;
+        return { semesterKey: semesterKey + 0.5, entry: { kind: 'final', session_name, status: getResultStatus(result), result } as HistoryEntry };
+    });
+
+    const timeline = [...otherEntries, ...finalEntries]
+        .sort((a, b) => a.semesterKey - b.semesterKey)
+        .map(({ entry }) => entry);
+
+    const latest = sessions[sessions.length - 1];
+    return {
+        timeline,
+        gpaTrend,
+        latestCgpa: gpaTrend.length > 0 ? gpaTrend[gpaTrend.length - 1].cgpa : null,
+        outstanding: [...referred.values()].filter(r => !r.clearedIn),
+        cleared: [...referred.values()].filter(r => r.clearedIn),
+        isDropout: latest?.result.status === 'dropout',
+    };
+};
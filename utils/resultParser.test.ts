@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import {
+    DROPOUT_REFERRED_THRESHOLD,
+    detectResultFormats,
+    diffResultSets,
+    formatResultSummary,
+    parseResultLine,
+    parseResultSheet,
+    summarizeResults,
+    type FinalResultData,
+} from './resultParser';
+
+// --- Fixtures ---
+// Text as pdfjs extracts it from BTEB result sheets: page furniture, line
+// breaks in odd places and several rolls per line.
+
+const OLD_FORMAT_SHEET = `
+Bangladesh Technical Education Board, Dhaka
+Diploma in Engineering (Probidhan-2016) 8th Semester Final Result
+Institute: 12345 - Dinajpur Polytechnic Institute
+512301 gpa1: 3.50 gpa2: 3.62 gpa3: 3.71 gpa4: 3.80 gpa5: 3.66 gpa6: 3.74 gpa7: 3.90 gpa8: 3.85
+512302 gpa1: 2.90 gpa2: ref gpa3: 3.10 ref_sub: 25711(T), 25712(P)
+512303 gpa1:
+3.25 gpa2: 3.40
+Page 1 of 12
+`;
+
+const NEW_PASS_SHEET = `
+Diploma in Engineering 1st Semester Result (Probidhan-2022)
+Dinajpur Polytechnic Institute
+600101 ( 3.47 ) 600102 ( 3.90 )
+600103 (2.88) 600104 ( 4.00 )
+`;
+
+const NEW_FAIL_SHEET = `
+The following candidates are referred:
+600201 { 26711(T), 26712(T,P) }
+600202 {26721(T)}
+`;
+
+const DROPOUT_SHEET = `
+700001 { 26711(T), 26712(T), 26713(P), 26714(T,P), 26715(T) }
+700002 { 26711(T), 26712(T), 26713(P) }
+`;
+
+describe('detectResultFormats', () => {
+    it('recognises each format', () => {
+        expect(detectResultFormats(OLD_FORMAT_SHEET)).toEqual(['old']);
+        expect(detectResultFormats(NEW_PASS_SHEET)).toEqual(['new-pass']);
+        expect(detectResultFormats(NEW_FAIL_SHEET)).toEqual(['new-fail']);
+    });
+
+    it('lists every format in a mixed sheet', () => {
+        expect(detectResultFormats(`${NEW_PASS_SHEET}\n${NEW_FAIL_SHEET}`)).toEqual(['new-pass', 'new-fail']);
+    });
+
+    it('returns nothing for a document that is not a result sheet', () => {
+        expect(detectResultFormats('Notice: the institute will remain closed on 21 February.')).toEqual([]);
+    });
+});
+
+describe('parseResultSheet', () => {
+    it('reads the old gpaX format, including referred semesters', () => {
+        const { formats, results, unparsedLines } = parseResultSheet(OLD_FORMAT_SHEET);
+        expect(formats).toEqual(['old']);
+        expect(unparsedLines).toEqual([]);
+        expect(results.map(r => r.roll)).toEqual(['512301', '512302', '512303']);
+
+        expect(results[0].gpas).toHaveLength(8);
+        expect(results[0].gpas[0]).toEqual({ semester: '1st Semester', gpa: '3.50' });
+        expect(results[0].gpas[7]).toEqual({ semester: '8th Semester', gpa: '3.85' });
+        expect(results[0].referredSubjects).toEqual([]);
+
+        expect(results[1].gpas).toEqual([
+            { semester: '1st Semester', gpa: '2.90' },
+            { semester: '2nd Semester', gpa: 'Ref.' },
+            { semester: '3rd Semester', gpa: '3.10' },
+        ]);
+        expect(results[1].referredSubjects).toEqual(['25711(T)', '25712(P)']);
+    });
+
+    it('joins a GPA split across lines', () => {
+        const { results } = parseResultSheet(OLD_FORMAT_SHEET);
+        expect(results[2].gpas).toEqual([
+            { semester: '1st Semester', gpa: '3.25' },
+            { semester: '2nd Semester', gpa: '3.40' },
+        ]);
+    });
+
+    it('reads the new pass format as a single-semester GPA', () => {
+        const { results } = parseResultSheet(NEW_PASS_SHEET);
+        expect(results).toEqual([
+            { roll: '600101', gpas: [{ semester: '1st Semester', gpa: '3.47' }], referredSubjects: [] },
+            { roll: '600102', gpas: [{ semester: '1st Semester', gpa: '3.90' }], referredSubjects: [] },
+            { roll: '600103', gpas: [{ semester: '1st Semester', gpa: '2.88' }], referredSubjects: [] },
+            { roll: '600104', gpas: [{ semester: '1st Semester', gpa: '4.00' }], referredSubjects: [] },
+        ]);
+    });
+
+    it('reads the new fail format as referred subjects', () => {
+        const { results } = parseResultSheet(NEW_FAIL_SHEET);
+        expect(results).toEqual([
+            { roll: '600201', gpas: [{ semester: '1st Semester', gpa: 'Ref.' }], referredSubjects: ['26711(T)', '26712(T,P)'] },
+            { roll: '600202', gpas: [{ semester: '1st Semester', gpa: 'Ref.' }], referredSubjects: ['26721(T)'] },
+        ]);
+    });
+
+    it(`marks a roll with ${DROPOUT_REFERRED_THRESHOLD} or more referred subjects and no GPA as a drop out`, () => {
+        const { results } = parseResultSheet(DROPOUT_SHEET);
+        expect(results[0]).toEqual({ roll: '700001', gpas: [], referredSubjects: [], status: 'dropout' });
+        expect(results[1].status).toBeUndefined();
+        expect(results[1].referredSubjects).toHaveLength(DROPOUT_REFERRED_THRESHOLD - 1);
+    });
+
+    it('keeps the first occurrence of a repeated roll', () => {
+        const { results } = parseResultSheet('600101 ( 3.47 ) 600101 ( 2.00 )');
+        expect(results).toEqual([{ roll: '600101', gpas: [{ semester: '1st Semester', gpa: '3.47' }], referredSubjects: [] }]);
+    });
+
+    it('reports roll-like numbers without result data as unparsed', () => {
+        const { results, unparsedLines } = parseResultSheet('Memo no 5700123 dated 12/03/2024 600101 ( 3.47 )');
+        expect(results.map(r => r.roll)).toEqual(['600101']);
+        expect(unparsedLines).toEqual(['5700123 dated 12/03/2024']);
+    });
+});
+
+describe('parseResultLine', () => {
+    it('returns null for a malformed line', () => {
+        expect(parseResultLine('600301', '600301 absent')).toBeNull();
+        expect(parseResultLine('600302', '600302 gpa1: { }')).toBeNull();
+    });
+
+    it('prefers the GPA of the pass format over the drop out rule', () => {
+        const result = parseResultLine('600303', '600303 ( 2.50 ) { 1(T), 2(T), 3(T), 4(T) }');
+        expect(result?.status).toBeUndefined();
+        expect(result?.gpas).toEqual([{ semester: '1st Semester', gpa: '2.50' }]);
+    });
+});
+
+describe('upload preview', () => {
+    const passed: FinalResultData = { roll: '600101', gpas: [{ semester: '1st Semester', gpa: '3.47' }], referredSubjects: [] };
+    const referred: FinalResultData = { roll: '600201', gpas: [], referredSubjects: ['26711(T)', '26712(T,P)'] };
+    const dropout: FinalResultData = { roll: '700001', gpas: [], referredSubjects: [], status: 'dropout' };
+
+    it('counts each status', () => {
+        expect(summarizeResults([passed, referred, dropout, { ...passed, roll: '600102' }])).toEqual({ total: 4, passed: 2, referred: 1, dropout: 1 });
+    });
+
+    it('sorts rolls into added, removed, changed and unchanged', () => {
+        const regraded = { ...referred, gpas: [{ semester: '1st Semester', gpa: '2.75' }], referredSubjects: [] };
+        const newcomer = { ...passed, roll: '600105' };
+        const diff = diffResultSets([passed, referred, dropout], [passed, regraded, newcomer]);
+        expect(diff.added).toEqual([newcomer]);
+        expect(diff.removed).toEqual([dropout]);
+        expect(diff.changed).toEqual([{ roll: '600201', before: referred, after: regraded }]);
+        expect(diff.unchangedCount).toBe(1);
+    });
+
+    it('ignores the order of referred subjects', () => {
+        const reordered = { ...referred, referredSubjects: ['26712(T,P)', '26711(T)'] };
+        expect(diffResultSets([referred], [reordered]).unchangedCount).toBe(1);
+    });
+
+    it('formats a result for the change list', () => {
+        expect(formatResultSummary(passed)).toBe('1: 3.47');
+        expect(formatResultSummary({ ...referred, gpas: passed.gpas })).toBe('1: 3.47 | Ref: 26711(T), 26712(T,P)');
+        expect(formatResultSummary(dropout)).toBe('Drop out');
+    });
+});
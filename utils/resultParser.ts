@@ -0,0 +1,206 @@
+// --- BTEB final result sheet parser ---
+// Pure functions only: they take the text extracted from a result PDF and
+// return typed records, so the admin upload and the public result page read
+// the sheet exactly the same way.
+
+export interface SemesterGpa {
+    semester: string;
+    gpa: string;
+}
+
+export interface FinalResultData {
+    roll: string;
+    gpas: SemesterGpa[];
+    referredSubjects: string[];
+    status?: 'dropout';
+}
+
+// Shape of a row in the `final_results` table.
+export interface FinalResultRow {
+    roll: string;
+    gpas: SemesterGpa[];
+    referred_subjects: string[];
+    is_dropout: boolean;
+}
+
+export type ResultSheetFormat = 'old' | 'new-pass' | 'new-fail';
+
+export interface ParsedResultSheet {
+    formats: ResultSheetFormat[];
+    results: FinalResultData[];
+    // Segments that start with a roll number but carry no readable result data.
+    unparsedLines: string[];
+}
+
+// A roll with this many referred subjects and no GPA at all is a drop out.
+export const DROPOUT_REFERRED_THRESHOLD = 4;
+
+const ROLL_REGEX = /\b\d{6,}\b/g;
+
+const FORMAT_PATTERNS: Record<ResultSheetFormat, RegExp> = {
+    'old': /\bgpa\d:/, // "gpa1: 3.50"
+    'new-pass': /\b\d{6,}\s*\(\s*[\d.]+\s*\)/, // "123456 ( 3.47 )"
+    'new-fail': /\b\d{6,}\s*\{[^{}]+\}/, // "123456 { 25711(T) }"
+};
+
+export const normalizeResultText = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+export const toSemesterText = (semesterNum: string) => {
+    if (semesterNum === '1') return '1st Semester';
+    if (semesterNum === '2') return '2nd Semester';
+    if (semesterNum === '3') return '3rd Semester';
+    return `${semesterNum}th Semester`;
+};
+
+// Lists every known result format found in the text. An empty list means the
+// document is not a BTEB result sheet we can read.
+export const detectResultFormats = (text: string): ResultSheetFormat[] => {
+    const normalized = normalizeResultText(text);
+    return (Object.keys(FORMAT_PATTERNS) as ResultSheetFormat[]).filter(format => FORMAT_PATTERNS[format].test(normalized));
+};
+
+// Parses the text that follows a roll number (up to the next roll) into a result.
+// Returns null when the line holds neither a GPA nor a referred subject.
+export const parseResultLine = (roll: string, resultLine: string): FinalResultData | null => {
+    const gpas: SemesterGpa[] = [];
+    const referredSubjects: string[] = [];
+
+    // GPAs from the "gpaX: ..." format
+    const gpaRegex = /(gpa(\d)):\s*([\d.]+|[Rr]ef\b)/g;
+    let gpaMatch;
+    while ((gpaMatch = gpaRegex.exec(resultLine)) !== null) {
+        let gpaValue = gpaMatch[3];
+        if (gpaValue.toLowerCase().startsWith('ref')) gpaValue = 'Ref.';
+        gpas.push({ semester: toSemesterText(gpaMatch[2]), gpa: gpaValue });
+    }
+
+    // Referred subjects from both old ("ref_sub:") and new ("{...}") formats.
+    const refSubNewFormatMatch = resultLine.match(/\{([^{}]+)\}/);
+    const refSubOldFormatMatch = resultLine.match(/ref_sub:([\s\S]*)/);
+    let subjectsText = '';
+    if (refSubNewFormatMatch) subjectsText = refSubNewFormatMatch[1];
+    else if (refSubOldFormatMatch) subjectsText = refSubOldFormatMatch[1];
+
+    if (subjectsText) {
+        const matches = subjectsText.match(/\b\d+\s*\([^)]+\)/g);
+        if (matches) referredSubjects.push(...matches.map(s => s.replace(/\s+/g, '')));
+    }
+
+    // Single GPA from the "( 3.47 )" format
+    const newPassMatch = resultLine.match(/\(\s*([\d.]+)\s*\)/);
+
+    if (referredSubjects.length >= DROPOUT_REFERRED_THRESHOLD && gpas.length === 0 && !newPassMatch) {
+        return { roll, gpas: [], referredSubjects: [], status: 'dropout' };
+    }
+
+    // Single-semester result sheets carry no "gpaX" tags.
+    if (gpas.length === 0) {
+        if (newPassMatch) {
+            gpas.push({ semester: '1st Semester', gpa: newPassMatch[1] });
+        } else if (referredSubjects.length > 0) {
+            gpas.push({ semester: '1st Semester', gpa: 'Ref.' });
+        }
+    }
+
+    if (gpas.length === 0 && referredSubjects.length === 0) return null;
+
+    gpas.sort((a, b) => parseInt(a.semester, 10) - parseInt(b.semester, 10));
+    return { roll, gpas, referredSubjects };
+};
+
+// Splits the whole sheet at every roll number and parses each segment.
+// When a roll appears twice, the first occurrence wins.
+export const parseResultSheet = (text: string): ParsedResultSheet => {
+    const normalized = normalizeResultText(text);
+    const rollMatches = [...normalized.matchAll(ROLL_REGEX)];
+    const results = new Map<string, FinalResultData>();
+    const unparsedLines: string[] = [];
+
+    rollMatches.forEach((match, i) => {
+        const roll = match[0];
+        const end = i + 1 < rollMatches.length ? rollMatches[i + 1].index! : normalized.length;
+        const line = normalized.substring(match.index!, end).trim();
+        if (results.has(roll)) return;
+        const result = parseResultLine(roll, line);
+        if (result) results.set(roll, result);
+        else unparsedLines.push(line);
+    });
+
+    return { formats: detectResultFormats(normalized), results: [...results.values()], unparsedLines };
+};
+
+export const toFinalResultRow = (result: FinalResultData): FinalResultRow => ({
+    roll: result.roll,
+    gpas: result.gpas,
+    referred_subjects: result.referredSubjects,
+    is_dropout: result.status === 'dropout',
+});
+
+export const fromFinalResultRow = (row: FinalResultRow): FinalResultData => row.is_dropout
+    ? { roll: row.roll, gpas: [], referredSubjects: [], status: 'dropout' }
+    : { roll: row.roll, gpas: row.gpas || [], referredSubjects: row.referred_subjects || [] };
+
+// --- Summaries and diffs for the admin upload preview ---
+
+export type FinalResultStatus = 'passed' | 'referred' | 'dropout';
+
+export interface ResultSheetSummary {
+    total: number;
+    passed: number;
+    referred: number;
+    dropout: number;
+}
+
+export interface ChangedResult {
+    roll: string;
+    before: FinalResultData;
+    after: FinalResultData;
+}
+
+export interface ResultSetDiff {
+    added: FinalResultData[];
+    removed: FinalResultData[];
+    changed: ChangedResult[];
+    unchangedCount: number;
+}
+
+export const getResultStatus = (result: FinalResultData): FinalResultStatus => {
+    if (result.status === 'dropout') return 'dropout';
+    if (result.referredSubjects.length > 0 || result.gpas.some(g => g.gpa === 'Ref.')) return 'referred';
+    return 'passed';
+};
+
+export const summarizeResults = (results: FinalResultData[]): ResultSheetSummary => {
+    const summary: ResultSheetSummary = { total: results.length, passed: 0, referred: 0, dropout: 0 };
+    results.forEach(result => { summary[getResultStatus(result)] += 1; });
+    return summary;
+};
+
+const resultSignature = (result: FinalResultData) => JSON.stringify([
+    result.status || '',
+    result.gpas.map(g => `${g.semester}:${g.gpa}`),
+    [...result.referredSubjects].sort(),
+]);
+
+// Compares the rolls currently published for a session with a replacement sheet.
+export const diffResultSets = (previous: FinalResultData[], next: FinalResultData[]): ResultSetDiff => {
+    const previousByRoll = new Map(previous.map(result => [result.roll, result]));
+    const nextRolls = new Set(next.map(result => result.roll));
+    const diff: ResultSetDiff = { added: [], removed: [], changed: [], unchangedCount: 0 };
+
+    next.forEach(result => {
+        const before = previousByRoll.get(result.roll);
+        if (!before) diff.added.push(result);
+        else if (resultSignature(before) !== resultSignature(result)) diff.changed.push({ roll: result.roll, before, after: result });
+        else diff.unchangedCount += 1;
+    });
+    diff.removed = previous.filter(result => !nextRolls.has(result.roll));
+
+    return diff;
+};
+
+export const formatResultSummary = (result: FinalResultData) => {
+    if (result.status === 'dropout') return 'Drop out';
+    const gpas = result.gpas.map(g => `${parseInt(g.semester, 10)}: ${g.gpa}`).join(', ');
+    return result.referredSubjects.length > 0 ? `${gpas} | Ref: ${result.referredSubjects.join(', ')}` : gpas;
+};
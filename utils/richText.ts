@@ -0,0 +1,89 @@
+import DOMPurify from 'dompurify';
+import { NOTICE_ALLOWED_ATTR, NOTICE_ALLOWED_TAGS, isHostedImageSrc, isHtmlContent, plainTextToHtml } from './htmlContent';
+
+// --- Notice rich text ---
+// Notice content is stored as sanitised HTML. Notices written before the
+// rich-text editor are plain text, so everything that renders content goes
+// through toNoticeHtml() rather than assuming either format.
+
+DOMPurify.addHook('uponSanitizeAttribute', (node, data) => {
+    if (node.nodeName === 'IMG' && data.attrName === 'src' && !isHostedImageSrc(data.attrValue)) {
+        data.keepAttr = false;
+    }
+});
+
+DOMPurify.addHook('afterSanitizeAttributes', node => {
+    if (node.tagName === 'A' && node.hasAttribute('href')) {
+        node.setAttribute('target', '_blank');
+        node.setAttribute('rel', 'noopener noreferrer');
+    }
+});
+
+export const sanitizeNoticeHtml = (html: string): string =>
+    DOMPurify.sanitize(html, { ALLOWED_TAGS: NOTICE_ALLOWED_TAGS, ALLOWED_ATTR: [...NOTICE_ALLOWED_ATTR, 'target', 'rel'] });
+
+export { isHtmlContent, plainTextToHtml };
+
+export const toNoticeHtml = (content: string | null | undefined): string => {
+    if (!content) return '';
+    return isHtmlContent(content) ? sanitizeNoticeHtml(content) : plainTextToHtml(content);
+};
+
+export const htmlToPlainText = (content: string | null | undefined): string => {
+    if (!content) return '';
+    if (!isHtmlContent(content)) return content;
+    const doc = new DOMParser().parseFromString(sanitizeNoticeHtml(content), 'text/html');
+    doc.querySelectorAll('br').forEach(br => br.replaceWith('\n'));
+    doc.querySelectorAll('p, h2, h3, h4, li, tr, blockquote').forEach(el => el.append('\n'));
+    doc.querySelectorAll('td, th').forEach(el => el.append('\t'));
+    return (doc.body.textContent || '').replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+// Truncates by visible text length without breaking markup: the text node that
+// crosses the limit is cut and everything after it is dropped, so open tags
+// (lists, tables, links) are closed by the serialiser.
+export const truncateHtml = (html: string, maxLength: number): { html: string; truncated: boolean } => {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    let remaining = maxLength;
+    let truncated = false;
+
+    const walk = (node: Node) => {
+        for (const child of Array.from(node.childNodes)) {
+            if (truncated) {
+                child.remove();
+                continue;
+            }
+            if (child.nodeType === Node.TEXT_NODE) {
+                const text = child.textContent || '';
+                if (text.length > remaining) {
+                    const cut = text.slice(0, remaining);
+                    // Prefer ending on a word boundary when one is close by.
+                    const lastSpace = cut.lastIndexOf(' ');
+                    child.textContent = `${lastSpace > remaining - 20 && lastSpace > 0 ? cut.slice(0, lastSpace) : cut}...`;
+                    truncated = true;
+                } else {
+                    remaining -= text.length;
+                }
+            } else {
+                walk(child);
+            }
+        }
+    };
+
+    walk(doc.body);
+    return { html: doc.body.innerHTML, truncated };
+};
+
+// Inline images uploaded through the editor live in the `notices` bucket next
+// to the attachments; these are their storage paths, for cleanup.
+const NOTICE_IMAGE_PATH_RE = /\/storage\/v1\/object\/public\/notices\/([^?#"]+)/;
+
+export const extractNoticeImagePaths = (content: string | null | undefined): string[] => {
+    if (!content || !isHtmlContent(content)) return [];
+    const doc = new DOMParser().parseFromString(content, 'text/html');
+    const paths = Array.from(doc.querySelectorAll('img'))
+        .map(img => (img.getAttribute('src') || '').match(NOTICE_IMAGE_PATH_RE)?.[1])
+        .filter((path): path is string => !!path)
+        .map(path => decodeURIComponent(path));
+    return Array.from(new Set(paths));
+};
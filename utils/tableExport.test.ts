@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { toExportFilename } from './tableExport';
+
+describe('toExportFilename', () => {
+    it('slugs the event title', () => {
+        expect(toExportFilename('Programming Contest 2026: Registrations')).toBe('programming-contest-2026-registrations');
+    });
+
+    it('falls back when nothing usable is left', () => {
+        expect(toExportFilename('বিজ্ঞান মেলা')).toBe('export');
+        expect(toExportFilename('---')).toBe('export');
+    });
+
+    it('keeps names short', () => {
+        expect(toExportFilename('a'.repeat(100))).toHaveLength(60);
+    });
+});
@@ -0,0 +1,56 @@
+import * as XLSX from 'xlsx';
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { downloadCsv, neutralizeFormula } from './csv';
+
+// --- Table export ---
+// Writes the same header + rows to CSV, XLSX or PDF. Callers pass the rows
+// already filtered and sorted the way they are shown on screen.
+
+export interface ExportTable {
+    title: string;
+    subtitle?: string;
+    headers: string[];
+    rows: string[][];
+}
+
+export const exportTableCsv = (table: ExportTable, filename: string) => {
+    downloadCsv(`${filename}.csv`, [table.headers, ...table.rows]);
+};
+
+export const exportTableXlsx = (table: ExportTable, filename: string) => {
+    const sheet = XLSX.utils.aoa_to_sheet([table.headers, ...table.rows.map(row => row.map(neutralizeFormula))]);
+    sheet['!cols'] = table.headers.map((header, i) => ({
+        wch: Math.min(40, Math.max(header.length, ...table.rows.map(row => (row[i] || '').length)) + 2),
+    }));
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, table.title.slice(0, 31).replace(/[\\/?*[\]:]/g, ' '));
+    XLSX.writeFile(workbook, `${filename}.xlsx`);
+};
+
+// jsPDF's built-in fonts are Latin-only; use CSV or XLSX for Bangla text.
+export const exportTablePdf = (table: ExportTable, filename: string) => {
+    const doc = new jsPDF({ orientation: 'landscape' });
+    doc.setFontSize(16);
+    doc.setFont('helvetica', 'bold');
+    doc.text(table.title, 14, 16);
+    let startY = 22;
+    if (table.subtitle) {
+        doc.setFontSize(10);
+        doc.setFont('helvetica', 'normal');
+        doc.text(table.subtitle, 14, 22);
+        startY = 28;
+    }
+    autoTable(doc, {
+        head: [table.headers],
+        body: table.rows,
+        startY,
+        theme: 'grid',
+        styles: { fontSize: 8 },
+        headStyles: { fillColor: [10, 35, 66] },
+    });
+    doc.save(`${filename}.pdf`);
+};
+
+export const toExportFilename = (text: string) =>
+    text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'export';
@@ -0,0 +1,27 @@
+import QRCode from 'qrcode';
+
+// --- Result document verification ---
+// Every downloaded result PDF carries a short verification ID and a QR code
+// pointing at /verify/:id, where the server compares the snapshot taken at
+// download time with the current published result.
+
+export type VerificationKind = 'final' | 'other';
+export type VerificationStatus = 'valid' | 'changed' | 'withdrawn';
+
+// Returned by the `verify_result_document` RPC.
+export interface VerificationRecord {
+    id: string;
+    kind: VerificationKind;
+    issued_at: string;
+    issued: Record<string, unknown>;
+    current: Record<string, unknown> | null;
+    status: VerificationStatus;
+}
+
+export const finalResultReference = (sessionName: string, roll: string) => `${sessionName}/${roll}`;
+
+// The app uses a HashRouter, so the route lives after the "#".
+export const buildVerificationUrl = (id: string) =>
+    `${window.location.origin}${window.location.pathname}#/verify/${encodeURIComponent(id)}`;
+
+export const createQrDataUrl = (text: string) => QRCode.toDataURL(text, { margin: 1, width: 256, errorCorrectionLevel: 'M' });